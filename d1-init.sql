@@ -1,6 +1,22 @@
 -- D1 数据库初始化脚本
 -- 为 MoonTV 应用创建所有必要的表结构
 
+-- 创建结构版本表（记录已应用的迁移版本，见 src/lib/d1-migrations.ts）
+CREATE TABLE IF NOT EXISTS schema_version (
+  id INTEGER PRIMARY KEY DEFAULT 1,
+  version INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- 须在建表之前写入：全新数据库记为本脚本对应的结构版本 7；
+-- 已有数据表但没有版本记录的旧库记为 0，由应用启动时补齐缺少的迁移（如新增字段）；
+-- 已有版本记录时保持不变
+INSERT OR IGNORE INTO schema_version (id, version, updated_at)
+SELECT 1,
+  CASE WHEN EXISTS (SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users')
+    THEN 0 ELSE 7 END,
+  CAST(strftime('%s', 'now') AS INTEGER) * 1000;
+
 -- 创建用户表
 CREATE TABLE IF NOT EXISTS users (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -27,6 +43,7 @@ CREATE TABLE IF NOT EXISTS play_records (
   total_time INTEGER,
   save_time INTEGER,
   search_title TEXT,
+  play_line TEXT,
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(user_id, source, video_id),
@@ -76,6 +93,89 @@ CREATE TABLE IF NOT EXISTS skip_configs (
   FOREIGN KEY (user_id) REFERENCES users (id)
 );
 
+-- 创建用户账户记录表（角色、封禁、分组等）
+CREATE TABLE IF NOT EXISTS user_accounts (
+  username TEXT PRIMARY KEY,
+  role TEXT NOT NULL DEFAULT 'user',
+  banned INTEGER NOT NULL DEFAULT 0,
+  pending INTEGER NOT NULL DEFAULT 0,
+  user_group TEXT,
+  last_online INTEGER,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_user_accounts_created_at ON user_accounts (created_at);
+
+-- 创建登录会话表
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL,
+  device TEXT,
+  ip TEXT,
+  created_at INTEGER NOT NULL,
+  last_seen INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_username ON sessions (username);
+
+-- 创建两步验证表
+CREATE TABLE IF NOT EXISTS two_factor (
+  username TEXT PRIMARY KEY,
+  secret TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 0,
+  recovery_codes TEXT NOT NULL DEFAULT '[]',
+  last_used_step INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+-- 创建 API 令牌表（仅保存令牌哈希）
+CREATE TABLE IF NOT EXISTS api_tokens (
+  token_hash TEXT PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  username TEXT NOT NULL,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_username ON api_tokens (username);
+
+-- 创建登录失败计数表（按用户名或客户端 IP）
+CREATE TABLE IF NOT EXISTS login_attempts (
+  key TEXT PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at INTEGER NOT NULL,
+  next_attempt_at INTEGER NOT NULL DEFAULT 0,
+  locked_until INTEGER NOT NULL DEFAULT 0,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_locked ON login_attempts (locked_until);
+
+-- 创建数据备份表（内容为加密后的导出文件）
+CREATE TABLE IF NOT EXISTS backups (
+  id TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  trigger_type TEXT NOT NULL,
+  content TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_backups_created_at ON backups (created_at);
+
+-- 创建审计日志表（管理操作记录，只追加）
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id TEXT PRIMARY KEY,
+  timestamp INTEGER NOT NULL,
+  actor TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target TEXT NOT NULL DEFAULT '',
+  changes TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs (timestamp);
+
 -- 创建管理员配置表
 CREATE TABLE IF NOT EXISTS admin_config (
   id INTEGER PRIMARY KEY DEFAULT 1,
@@ -84,6 +184,31 @@ CREATE TABLE IF NOT EXISTS admin_config (
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- 创建管理员配置历史表（每次保存配置后的快照，保留最近若干个版本）
+CREATE TABLE IF NOT EXISTS config_history (
+  version INTEGER PRIMARY KEY,
+  saved_at INTEGER NOT NULL,
+  author TEXT NOT NULL,
+  reason TEXT NOT NULL DEFAULT '',
+  config TEXT NOT NULL
+);
+
+-- 创建视频源健康检查表（每个源保留最近若干次探测结果）
+CREATE TABLE IF NOT EXISTS source_health (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  checked_at INTEGER NOT NULL,
+  ok INTEGER NOT NULL,
+  status INTEGER,
+  latency INTEGER NOT NULL,
+  parsed INTEGER NOT NULL,
+  results INTEGER NOT NULL DEFAULT 0,
+  total INTEGER,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_health_source ON source_health (source, checked_at);
+
 -- 输出成功信息
 SELECT '✅ D1 数据库表结构创建完成' as status;
 
@@ -94,6 +219,14 @@ SELECT '  • play_records - 播放记录表' as table_info;
 SELECT '  • favorites - 收藏表' as table_info;
 SELECT '  • search_history - 搜索历史表' as table_info;
 SELECT '  • skip_configs - 跳过片头片尾配置表' as table_info;
+SELECT '  • user_accounts - 用户账户记录表' as table_info;
+SELECT '  • sessions - 登录会话表' as table_info;
+SELECT '  • two_factor - 两步验证表' as table_info;
+SELECT '  • api_tokens - API 令牌表' as table_info;
+SELECT '  • login_attempts - 登录失败计数表' as table_info;
+SELECT '  • backups - 数据备份表' as table_info;
+SELECT '  • audit_logs - 审计日志表' as table_info;
 SELECT '  • admin_config - 管理员配置表' as table_info;
-SELECT '  • source_configs - 源配置表' as table_info;
-SELECT '  • custom_categories - 自定义分类表' as table_info;
\ No newline at end of file
+SELECT '  • config_history - 管理员配置历史表' as table_info;
+SELECT '  • source_health - 视频源健康检查表' as table_info;
+SELECT '  • schema_version - 结构版本表' as table_info;
\ No newline at end of file
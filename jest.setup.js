@@ -1,5 +1,11 @@
+import { webcrypto } from 'crypto';
 import '@testing-library/jest-dom/extend-expect';
 
 // Allow router mocks.
 // eslint-disable-next-line no-undef
 jest.mock('next/router', () => require('next-router-mock'));
+
+// Jest 27 的 node 环境未注入 Web Crypto，密码哈希与备份加解密依赖 crypto.subtle
+if (!globalThis.crypto) {
+  globalThis.crypto = webcrypto;
+}
@@ -0,0 +1,466 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * 进程内的 Redis 替身，供存储一致性测试使用
+ * 同一份数据分别包装成 node-redis 与 @upstash/redis 的客户端接口，
+ * Lua 脚本按脚本内容映射到等价的 JS 实现
+ */
+
+import {
+  DELETE_PLAY_RECORD_SCRIPT,
+  SET_ADMIN_CONFIG_SCRIPT,
+  SET_PLAY_RECORD_SCRIPT,
+} from '@/lib/redis-scripts';
+
+type Entry =
+  | { type: 'string'; value: string }
+  | { type: 'hash'; value: Map<string, string> }
+  | { type: 'set'; value: Set<string> }
+  | { type: 'list'; value: string[] }
+  | { type: 'zset'; value: Map<string, number> };
+
+type EntryType = Entry['type'];
+type EntryOf<T extends EntryType> = Extract<Entry, { type: T }>;
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+function toScore(value: number | string): number {
+  if (value === '+inf') return Infinity;
+  if (value === '-inf') return -Infinity;
+  return Number(value);
+}
+
+export class FakeRedisStore {
+  private data = new Map<string, { entry: Entry; expiresAt?: number }>();
+
+  private read<T extends EntryType>(key: string, type: T): EntryOf<T> | null {
+    const item = this.data.get(key);
+    if (!item) return null;
+    if (item.expiresAt !== undefined && item.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return null;
+    }
+    if (item.entry.type !== type) {
+      throw new Error(
+        'WRONGTYPE Operation against a key holding the wrong kind of value'
+      );
+    }
+    return item.entry as EntryOf<T>;
+  }
+
+  private write<T extends EntryType>(key: string, type: T): EntryOf<T> {
+    const existing = this.read(key, type);
+    if (existing) return existing;
+    const entry = {
+      type,
+      value:
+        type === 'string'
+          ? ''
+          : type === 'list'
+          ? []
+          : type === 'set'
+          ? new Set()
+          : new Map(),
+    } as EntryOf<T>;
+    this.data.set(key, { entry });
+    return entry;
+  }
+
+  // 集合类 key 为空时与 Redis 一致自动删除
+  private dropIfEmpty(key: string) {
+    const item = this.data.get(key);
+    if (!item || item.entry.type === 'string') return;
+    const { value } = item.entry;
+    const size = Array.isArray(value) ? value.length : value.size;
+    if (size === 0) this.data.delete(key);
+  }
+
+  // ---------- 字符串 ----------
+  get(key: string): string | null {
+    return this.read(key, 'string')?.value ?? null;
+  }
+
+  set(key: string, value: string, expiresAt?: number) {
+    this.data.set(key, { entry: { type: 'string', value }, expiresAt });
+  }
+
+  del(keys: string[]): number {
+    return keys.filter((key) => this.exists(key) && this.data.delete(key))
+      .length;
+  }
+
+  exists(key: string): boolean {
+    const item = this.data.get(key);
+    if (!item) return false;
+    if (item.expiresAt !== undefined && item.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  keys(pattern: string): string[] {
+    const regexp = globToRegExp(pattern);
+    return Array.from(this.data.keys()).filter(
+      (key) => regexp.test(key) && this.exists(key)
+    );
+  }
+
+  flushAll() {
+    this.data.clear();
+  }
+
+  // ---------- 哈希 ----------
+  hGet(key: string, field: string): string | null {
+    return this.read(key, 'hash')?.value.get(field) ?? null;
+  }
+
+  hSet(key: string, field: string, value: string) {
+    this.write(key, 'hash').value.set(field, value);
+  }
+
+  hSetNX(key: string, field: string, value: string): boolean {
+    const hash = this.write(key, 'hash').value;
+    if (hash.has(field)) return false;
+    hash.set(field, value);
+    return true;
+  }
+
+  hDel(key: string, fields: string[]): number {
+    const hash = this.read(key, 'hash')?.value;
+    if (!hash) return 0;
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    this.dropIfEmpty(key);
+    return removed;
+  }
+
+  hGetAll(key: string): Record<string, string> {
+    return Object.fromEntries(this.read(key, 'hash')?.value ?? []);
+  }
+
+  // ---------- 列表 ----------
+  lPush(key: string, values: string[]) {
+    const list = this.write(key, 'list').value;
+    values.forEach((value) => list.unshift(value));
+  }
+
+  lRange(key: string, start: number, stop: number): string[] {
+    const list = this.read(key, 'list')?.value ?? [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  lRem(key: string, value: string) {
+    const entry = this.read(key, 'list');
+    if (!entry) return;
+    entry.value = entry.value.filter((item) => item !== value);
+    this.dropIfEmpty(key);
+  }
+
+  lTrim(key: string, start: number, stop: number) {
+    const entry = this.read(key, 'list');
+    if (!entry) return;
+    entry.value = entry.value.slice(start, stop === -1 ? undefined : stop + 1);
+    this.dropIfEmpty(key);
+  }
+
+  // ---------- 集合 ----------
+  sAdd(key: string, members: string[]) {
+    const set = this.write(key, 'set').value;
+    members.forEach((member) => set.add(member));
+  }
+
+  sMembers(key: string): string[] {
+    return Array.from(this.read(key, 'set')?.value ?? []);
+  }
+
+  sRem(key: string, members: string[]) {
+    const set = this.read(key, 'set')?.value;
+    if (!set) return;
+    members.forEach((member) => set.delete(member));
+    this.dropIfEmpty(key);
+  }
+
+  // ---------- 有序集合 ----------
+  zAdd(key: string, score: number, member: string, nx = false) {
+    const zset = this.write(key, 'zset').value;
+    if (nx && zset.has(member)) return;
+    zset.set(member, score);
+  }
+
+  zRem(key: string, members: string[]) {
+    const zset = this.read(key, 'zset')?.value;
+    if (!zset) return;
+    members.forEach((member) => zset.delete(member));
+    this.dropIfEmpty(key);
+  }
+
+  zCard(key: string): number {
+    return this.read(key, 'zset')?.value.size ?? 0;
+  }
+
+  private zSorted(key: string): [string, number][] {
+    return Array.from(this.read(key, 'zset')?.value ?? []).sort(
+      ([aMember, aScore], [bMember, bScore]) =>
+        aScore - bScore || aMember.localeCompare(bMember)
+    );
+  }
+
+  zRange(key: string, start: number, stop: number): string[] {
+    return this.zSorted(key)
+      .slice(start, stop === -1 ? undefined : stop + 1)
+      .map(([member]) => member);
+  }
+
+  zRangeByScore(
+    key: string,
+    min: number | string,
+    max: number | string
+  ): string[] {
+    return this.zSorted(key)
+      .filter(([, score]) => score >= toScore(min) && score <= toScore(max))
+      .map(([member]) => member);
+  }
+
+  zRemRangeByScore(key: string, min: number | string, max: number | string) {
+    this.zRem(key, this.zRangeByScore(key, min, max));
+  }
+
+  // ---------- 脚本 ----------
+  eval(script: string, keys: string[], args: string[]): number {
+    switch (script) {
+      case SET_ADMIN_CONFIG_SCRIPT:
+        if ((this.get(keys[1]) ?? '0') !== args[0]) return 0;
+        this.set(keys[0], args[1]);
+        this.set(keys[1], args[2]);
+        return 1;
+      case SET_PLAY_RECORD_SCRIPT: {
+        const [recordsKey, titlesKey] = keys;
+        const [field, json, title] = args;
+        const prev = this.hGet(recordsKey, field);
+        if (prev) {
+          const prevTitle = JSON.parse(prev).title;
+          if (
+            typeof prevTitle === 'string' &&
+            prevTitle !== title &&
+            this.hGet(titlesKey, prevTitle) === field
+          ) {
+            this.hDel(titlesKey, [prevTitle]);
+          }
+        }
+        if (title !== '') {
+          const existing = this.hGet(titlesKey, title);
+          if (existing && existing !== field) {
+            this.hDel(recordsKey, [existing]);
+          }
+          this.hSet(titlesKey, title, field);
+        }
+        this.hSet(recordsKey, field, json);
+        return 1;
+      }
+      case DELETE_PLAY_RECORD_SCRIPT: {
+        const [recordsKey, titlesKey] = keys;
+        const [field] = args;
+        const prev = this.hGet(recordsKey, field);
+        if (!prev) return 0;
+        const title = JSON.parse(prev).title;
+        if (
+          typeof title === 'string' &&
+          this.hGet(titlesKey, title) === field
+        ) {
+          this.hDel(titlesKey, [title]);
+        }
+        this.hDel(recordsKey, [field]);
+        return 1;
+      }
+      default:
+        throw new Error('NOSCRIPT fake redis does not know this script');
+    }
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * node-redis v4 风格的客户端（RedisStorage / KvrocksStorage 使用）
+ */
+export function createFakeNodeRedisClient(store = new FakeRedisStore()): any {
+  return {
+    get: async (key: string) => store.get(key),
+    set: async (
+      key: string,
+      value: string,
+      options?: { PX?: number; PXAT?: number }
+    ) => {
+      const expiresAt =
+        options?.PXAT ?? (options?.PX && Date.now() + options.PX);
+      store.set(key, value, expiresAt || undefined);
+      return 'OK';
+    },
+    del: async (keys: string | string[]) => store.del(toArray(keys)),
+    exists: async (key: string) => (store.exists(key) ? 1 : 0),
+    keys: async (pattern: string) => store.keys(pattern),
+    mGet: async (keys: string[]) => keys.map((key) => store.get(key)),
+    scan: async (_cursor: number, options: { MATCH: string }) => ({
+      cursor: 0,
+      keys: store.keys(options.MATCH),
+    }),
+    hGet: async (key: string, field: string) => store.hGet(key, field),
+    hSet: async (key: string, field: string, value: string) =>
+      store.hSet(key, field, value),
+    hSetNX: async (key: string, field: string, value: string) =>
+      store.hSetNX(key, field, value),
+    hDel: async (key: string, fields: string | string[]) =>
+      store.hDel(key, toArray(fields)),
+    hGetAll: async (key: string) => store.hGetAll(key),
+    lPush: async (key: string, values: string | string[]) =>
+      store.lPush(key, toArray(values)),
+    lRange: async (key: string, start: number, stop: number) =>
+      store.lRange(key, start, stop),
+    lRem: async (key: string, _count: number, value: string) =>
+      store.lRem(key, value),
+    lTrim: async (key: string, start: number, stop: number) =>
+      store.lTrim(key, start, stop),
+    sAdd: async (key: string, members: string | string[]) =>
+      store.sAdd(key, toArray(members)),
+    sMembers: async (key: string) => store.sMembers(key),
+    sRem: async (key: string, members: string | string[]) =>
+      store.sRem(key, toArray(members)),
+    zAdd: async (
+      key: string,
+      members:
+        | { score: number; value: string }
+        | { score: number; value: string }[],
+      options?: { NX?: boolean }
+    ) =>
+      toArray(members).forEach(({ score, value }) =>
+        store.zAdd(key, score, value, options?.NX)
+      ),
+    zRem: async (key: string, members: string | string[]) =>
+      store.zRem(key, toArray(members)),
+    zCard: async (key: string) => store.zCard(key),
+    zRange: async (key: string, start: number, stop: number) =>
+      store.zRange(key, start, stop),
+    zRangeByScore: async (
+      key: string,
+      min: number | string,
+      max: number | string
+    ) => store.zRangeByScore(key, min, max),
+    zRemRangeByScore: async (
+      key: string,
+      min: number | string,
+      max: number | string
+    ) => store.zRemRangeByScore(key, min, max),
+    eval: async (
+      script: string,
+      options: { keys: string[]; arguments: string[] }
+    ) => store.eval(script, options.keys, options.arguments),
+    flushAll: async () => store.flushAll(),
+  };
+}
+
+// @upstash/redis 写入时序列化非字符串值，读取时尝试按 JSON 解析
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deserialize(raw: string | null): any {
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    // 与 SDK 一致：数字往返后不相等时保留原字符串（如超长数字）
+    if (typeof parsed === 'number' && parsed.toString() !== raw) return raw;
+    return parsed;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * @upstash/redis 风格的客户端（UpstashRedisStorage 使用）
+ */
+export function createFakeUpstashClient(store = new FakeRedisStore()): any {
+  const flat = (args: (string | string[])[]) => args.flatMap(toArray);
+  return {
+    get: async (key: string) => deserialize(store.get(key)),
+    set: async (
+      key: string,
+      value: unknown,
+      options?: { px?: number; pxat?: number }
+    ) => {
+      const expiresAt =
+        options?.pxat ?? (options?.px && Date.now() + options.px);
+      store.set(key, serialize(value), expiresAt || undefined);
+      return 'OK';
+    },
+    del: async (...keys: string[]) => store.del(keys),
+    exists: async (...keys: string[]) =>
+      keys.filter((key) => store.exists(key)).length,
+    keys: async (pattern: string) => store.keys(pattern),
+    mget: async (...keys: (string | string[])[]) =>
+      flat(keys).map((key) => deserialize(store.get(key))),
+    scan: async (_cursor: string | number, options: { match: string }) => [
+      '0',
+      store.keys(options.match),
+    ],
+    hget: async (key: string, field: string) =>
+      deserialize(store.hGet(key, field)),
+    hset: async (key: string, values: Record<string, unknown>) =>
+      Object.entries(values).forEach(([field, value]) =>
+        store.hSet(key, field, serialize(value))
+      ),
+    hsetnx: async (key: string, field: string, value: unknown) =>
+      store.hSetNX(key, field, serialize(value)) ? 1 : 0,
+    hdel: async (key: string, ...fields: string[]) => store.hDel(key, fields),
+    hgetall: async (key: string) => {
+      const values = store.hGetAll(key);
+      const entries = Object.entries(values);
+      if (entries.length === 0) return null;
+      return Object.fromEntries(
+        entries.map(([field, raw]) => [field, deserialize(raw)])
+      );
+    },
+    lpush: async (key: string, ...values: unknown[]) =>
+      store.lPush(key, values.map(serialize)),
+    lrange: async (key: string, start: number, stop: number) =>
+      store.lRange(key, start, stop).map(deserialize),
+    lrem: async (key: string, _count: number, value: unknown) =>
+      store.lRem(key, serialize(value)),
+    ltrim: async (key: string, start: number, stop: number) =>
+      store.lTrim(key, start, stop),
+    sadd: async (key: string, ...members: string[]) => store.sAdd(key, members),
+    smembers: async (key: string) => store.sMembers(key).map(deserialize),
+    srem: async (key: string, ...members: string[]) => store.sRem(key, members),
+    zadd: async (key: string, ...args: any[]) => {
+      const nx = 'nx' in args[0] && !('member' in args[0]);
+      const members = nx ? args.slice(1) : args;
+      members.forEach(({ score, member }: { score: number; member: string }) =>
+        store.zAdd(key, score, member, nx)
+      );
+    },
+    zrem: async (key: string, ...members: string[]) => store.zRem(key, members),
+    zcard: async (key: string) => store.zCard(key),
+    zrange: async (
+      key: string,
+      start: number | string,
+      stop: number | string,
+      options?: { byScore?: boolean }
+    ) =>
+      (options?.byScore
+        ? store.zRangeByScore(key, start, stop)
+        : store.zRange(key, Number(start), Number(stop))
+      ).map(deserialize),
+    zremrangebyscore: async (
+      key: string,
+      min: number | string,
+      max: number | string
+    ) => store.zRemRangeByScore(key, min, max),
+    eval: async (script: string, keys: string[], args: string[]) =>
+      store.eval(script, keys, args),
+    flushall: async () => store.flushAll(),
+  };
+}
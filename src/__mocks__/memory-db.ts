@@ -0,0 +1,17 @@
+/**
+ * 以进程内存储替代 '@/lib/db' 的测试替身
+ * 用法：jest.mock('./db', () => require('@/__mocks__/memory-db').createMemoryDbMock())，
+ * 每个用例前调用 require('./db').__reset() 换成一份空存储
+ */
+
+import { MemoryStorage } from '@/lib/memory.db';
+
+export function createMemoryDbMock() {
+  let storage = new MemoryStorage();
+  return {
+    getStorage: () => storage,
+    __reset: () => {
+      storage = new MemoryStorage();
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * node:sqlite 的测试替身，基于 sql.js（WebAssembly 版 SQLite）
+ * Node 22 之前没有内置 node:sqlite，D1 存储一致性测试在 Node 20 上通过它运行同一套 SQL；
+ * 只实现 SqliteD1Adapter 用到的 DatabaseSync / StatementSync 接口，仅支持内存数据库
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const initSqlJs = require('sql.js');
+
+let SQL: any = null;
+
+// sql.js 需要异步加载 wasm，使用 DatabaseSync 前先调用一次
+export async function loadSqlJs(): Promise<void> {
+  if (!SQL) {
+    SQL = await initSqlJs();
+  }
+}
+
+export class StatementSync {
+  constructor(private db: any, private stmt: any) {}
+
+  private rows(params: unknown[]): Record<string, unknown>[] {
+    const rows: Record<string, unknown>[] = [];
+    this.stmt.bind(params);
+    try {
+      while (this.stmt.step()) {
+        rows.push(this.stmt.getAsObject());
+      }
+    } finally {
+      this.stmt.reset();
+    }
+    return rows;
+  }
+
+  get(...params: unknown[]): Record<string, unknown> | undefined {
+    return this.rows(params)[0];
+  }
+
+  all(...params: unknown[]): Record<string, unknown>[] {
+    return this.rows(params);
+  }
+
+  run(...params: unknown[]): { changes: number; lastInsertRowid: number } {
+    this.rows(params);
+    const [result] = this.db.exec('SELECT last_insert_rowid()');
+    return {
+      changes: this.db.getRowsModified(),
+      lastInsertRowid: Number(result?.values[0][0] ?? 0),
+    };
+  }
+}
+
+export class DatabaseSync {
+  private db: any;
+
+  constructor(file: string) {
+    if (!SQL) {
+      throw new Error('sql.js 尚未加载，请先调用 loadSqlJs()');
+    }
+    if (file !== ':memory:') {
+      throw new Error('测试替身仅支持内存数据库');
+    }
+    this.db = new SQL.Database();
+  }
+
+  exec(sql: string): void {
+    this.db.exec(sql);
+  }
+
+  prepare(sql: string): StatementSync {
+    return new StatementSync(this.db, this.db.prepare(sql));
+  }
+}
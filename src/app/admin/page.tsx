@@ -30,16 +30,42 @@ import {
   ExternalLink,
   FileText,
   FolderOpen,
+  GitCompare,
+  History,
   Settings,
   Users,
   Video,
 } from 'lucide-react';
 import { GripVertical } from 'lucide-react';
-import { Suspense, useCallback, useEffect, useState } from 'react';
+import {
+  Fragment,
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import Swal from 'sweetalert2';
 
-import { AdminConfig, AdminConfigResult } from '@/lib/admin.types';
+import {
+  AdminConfig,
+  AdminConfigResult,
+  InviteCode,
+  SourceRequestProfile,
+  SourceResponseFormat,
+  Subscription,
+} from '@/lib/admin.types';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
+import { ConfigIssue, parseConfigFile } from '@/lib/config-schema';
+import { diffLines, DiffRow } from '@/lib/line-diff';
+import { SubscriptionPreview } from '@/lib/subscription';
+import {
+  AuditLogEntry,
+  ConfigHistoryMeta,
+  SourceHealthProbe,
+  UserRecord,
+} from '@/lib/types';
 
 import DataMigration from '@/components/DataMigration';
 import PageLayout from '@/components/PageLayout';
@@ -80,7 +106,10 @@ interface DataSource {
   api: string;
   detail?: string;
   disabled?: boolean;
+  autoDisabled?: boolean;
   from: 'config' | 'custom';
+  request?: SourceRequestProfile;
+  format?: SourceResponseFormat;
 }
 
 // 自定义分类数据类型
@@ -130,7 +159,490 @@ const CollapsibleTab = ({
   );
 };
 
+// 登录锁定列表组件
+interface LoginLock {
+  key: string;
+  failures: number;
+  last_failed_at: number;
+  locked_until: number;
+}
+
+const LoginLockList = () => {
+  const [locks, setLocks] = useState<LoginLock[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchLocks = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/admin/login_lock');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `获取失败: ${res.status}`);
+      }
+      setLocks(data.locks || []);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取登录锁定列表失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLocks();
+  }, [fetchLocks]);
+
+  const handleUnlock = async (key: string) => {
+    try {
+      const res = await fetch('/api/admin/login_lock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'unlock', key }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${res.status}`);
+      }
+      showSuccess('已解除锁定');
+      await fetchLocks();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  return (
+    <div>
+      <div className='flex items-center justify-between mb-3'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          登录锁定
+        </h4>
+        <button
+          onClick={fetchLocks}
+          disabled={loading}
+          className='px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors'
+        >
+          {loading ? '加载中...' : '刷新'}
+        </button>
+      </div>
+      {locks.length === 0 ? (
+        <div className='text-sm text-gray-500 dark:text-gray-400'>
+          当前没有被锁定的账户或 IP
+        </div>
+      ) : (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  类型
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  用户名 / IP
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  失败次数
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  锁定至
+                </th>
+                <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {locks.map((lock) => {
+                const isIp = lock.key.startsWith('ip:');
+                return (
+                  <tr
+                    key={lock.key}
+                    className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+                  >
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {isIp ? 'IP' : '用户'}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {lock.key.slice(lock.key.indexOf(':') + 1)}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {lock.failures}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {new Date(lock.locked_until).toLocaleString()}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium'>
+                      <button
+                        onClick={() => handleUnlock(lock.key)}
+                        className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/40 dark:hover:bg-green-900/60 dark:text-green-300 transition-colors'
+                      >
+                        解锁
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// API 令牌审计组件
+interface ApiTokenItem {
+  id: string;
+  username: string;
+  name: string;
+  prefix: string;
+  created_at: number;
+  last_used_at?: number;
+}
+
+const ApiTokenList = () => {
+  const [tokens, setTokens] = useState<ApiTokenItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTokens = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/admin/api_token');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `获取失败: ${res.status}`);
+      }
+      setTokens(data.tokens || []);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取 API 令牌列表失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const handleRevoke = async (token: ApiTokenItem) => {
+    const { isConfirmed } = await Swal.fire({
+      title: '确认吊销令牌',
+      text: `吊销后使用令牌 ${token.name} 的客户端将无法继续访问`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: '确认吊销',
+      cancelButtonText: '取消',
+      confirmButtonColor: '#dc2626',
+    });
+    if (!isConfirmed) return;
+
+    try {
+      const res = await fetch('/api/admin/api_token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'revoke', id: token.id }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${res.status}`);
+      }
+      showSuccess('已吊销令牌');
+      await fetchTokens();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  return (
+    <div>
+      <div className='flex items-center justify-between mb-3'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          API 令牌
+        </h4>
+        <button
+          onClick={fetchTokens}
+          disabled={loading}
+          className='px-3 py-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors'
+        >
+          {loading ? '加载中...' : '刷新'}
+        </button>
+      </div>
+      {tokens.length === 0 ? (
+        <div className='text-sm text-gray-500 dark:text-gray-400'>
+          暂无用户创建 API 令牌
+        </div>
+      ) : (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  用户
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  名称
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  令牌
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  创建时间
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  最近使用
+                </th>
+                <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {tokens.map((token) => (
+                <tr
+                  key={token.id}
+                  className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+                >
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {token.username}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {token.name}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-gray-100'>
+                    {token.prefix}…
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {new Date(token.created_at).toLocaleString('zh-CN', {
+                      hour12: false,
+                    })}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {token.last_used_at
+                      ? new Date(token.last_used_at).toLocaleString('zh-CN', {
+                        hour12: false,
+                      })
+                      : '从未使用'}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium'>
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 dark:text-red-300 transition-colors'
+                    >
+                      吊销
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 邀请码列表组件
+interface InviteCodeListProps {
+  config: AdminConfig;
+  refreshConfig: () => Promise<void>;
+}
+
+const InviteCodeList = ({ config, refreshConfig }: InviteCodeListProps) => {
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newInvite, setNewInvite] = useState({
+    maxUses: '1',
+    expiresInHours: '',
+    group: '',
+  });
+  const invites = config.UserConfig.InviteCodes || [];
+  const groups = config.UserConfig.Groups || [];
+
+  const callInviteApi = async (body: Record<string, any>) => {
+    const res = await fetch('/api/admin/invite', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.error || `操作失败: ${res.status}`);
+    }
+    return data;
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      const data = await callInviteApi({
+        action: 'create',
+        maxUses: Number(newInvite.maxUses),
+        ...(newInvite.expiresInHours
+          ? { expiresInHours: Number(newInvite.expiresInHours) }
+          : {}),
+        ...(newInvite.group ? { group: newInvite.group } : {}),
+      });
+      setNewInvite({ maxUses: '1', expiresInHours: '', group: '' });
+      setShowCreateForm(false);
+      await refreshConfig();
+      showSuccess(`邀请码已生成：${data.code}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  const handleDeleteInvite = async (code: string) => {
+    try {
+      await callInviteApi({ action: 'delete', code });
+      await refreshConfig();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  const describeInviteStatus = (invite: InviteCode) => {
+    if (invite.used >= invite.maxUses) return '已用完';
+    if (invite.expiresAt && invite.expiresAt <= Date.now()) return '已过期';
+    return '可用';
+  };
+
+  return (
+    <div>
+      <div className='flex items-center justify-between mb-3'>
+        <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+          邀请码
+        </h4>
+        <button
+          onClick={() => setShowCreateForm(!showCreateForm)}
+          className='px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors'
+        >
+          {showCreateForm ? '取消' : '生成邀请码'}
+        </button>
+      </div>
+
+      {showCreateForm && (
+        <div className='mb-4 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700'>
+          <div className='flex flex-col sm:flex-row gap-4 sm:gap-3'>
+            <input
+              type='number'
+              min={1}
+              placeholder='可使用次数'
+              value={newInvite.maxUses}
+              onChange={(e) =>
+                setNewInvite((prev) => ({ ...prev, maxUses: e.target.value }))
+              }
+              className='flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
+            />
+            <input
+              type='number'
+              min={1}
+              placeholder='有效期（小时，留空永久）'
+              value={newInvite.expiresInHours}
+              onChange={(e) =>
+                setNewInvite((prev) => ({
+                  ...prev,
+                  expiresInHours: e.target.value,
+                }))
+              }
+              className='flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
+            />
+            <select
+              value={newInvite.group}
+              onChange={(e) =>
+                setNewInvite((prev) => ({ ...prev, group: e.target.value }))
+              }
+              className='flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-green-500 focus:border-transparent'
+            >
+              <option value=''>不指定分组</option>
+              {groups.map((g) => (
+                <option key={g.name} value={g.name}>
+                  {g.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreateInvite}
+              disabled={!newInvite.maxUses || Number(newInvite.maxUses) < 1}
+              className='w-full sm:w-auto px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg transition-colors'
+            >
+              生成
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invites.length === 0 ? (
+        <div className='text-sm text-gray-500 dark:text-gray-400'>
+          暂无邀请码
+        </div>
+      ) : (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  邀请码
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  已用 / 总数
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  过期时间
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  默认分组
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  状态
+                </th>
+                <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {invites.map((invite) => (
+                <tr
+                  key={invite.code}
+                  className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'
+                >
+                  <td className='px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-gray-100 select-all'>
+                    {invite.code}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {invite.used} / {invite.maxUses}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {invite.expiresAt
+                      ? new Date(invite.expiresAt).toLocaleString('zh-CN', {
+                        hour12: false,
+                      })
+                      : '永不过期'}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {invite.group || '-'}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {describeInviteStatus(invite)}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium'>
+                    <button
+                      onClick={() => handleDeleteInvite(invite.code)}
+                      className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 dark:text-red-300 transition-colors'
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // 用户配置组件
+// 用户列表每页条数
+const USER_PAGE_SIZE = 20;
+
 interface UserConfigProps {
   config: AdminConfig | null;
   role: 'owner' | 'admin' | null;
@@ -140,8 +652,15 @@ interface UserConfigProps {
 const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
   const [userSettings, setUserSettings] = useState({
     enableRegistration: false,
+    requireAdminTwoFactor: false,
+    requireInvite: false,
+    requireApproval: false,
   });
   const [selectedUsers, setSelectedUsers] = useState<Set<string>>(new Set());
+  // 用户列表按页从服务端读取
+  const [users, setUsers] = useState<UserRecord[]>([]);
+  const [userTotal, setUserTotal] = useState(0);
+  const [userPage, setUserPage] = useState(1);
   const [batchGroupName, setBatchGroupName] = useState<string>('');
   const [_selectedGroupInDialog, setSelectedGroupInDialog] = useState<string>('');
   // 弹窗编辑，删除内联编辑状态
@@ -167,10 +686,37 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
     if (config?.UserConfig) {
       setUserSettings({
         enableRegistration: config.UserConfig.AllowRegister,
+        requireAdminTwoFactor: !!config.UserConfig.RequireAdminTwoFactor,
+        requireInvite: !!config.UserConfig.RequireInvite,
+        requireApproval: !!config.UserConfig.RequireApproval,
       });
     }
   }, [config]);
 
+  // 配置刷新（各项操作完成后）或翻页时重新读取当前页用户
+  useEffect(() => {
+    if (!config) return;
+    const fetchUsers = async () => {
+      try {
+        const res = await fetch(
+          `/api/admin/user?page=${userPage}&pageSize=${USER_PAGE_SIZE}`,
+          { cache: 'no-store' }
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || `获取用户列表失败: ${res.status}`);
+        }
+        setUsers(data.users || []);
+        setUserTotal(data.total || 0);
+      } catch (err) {
+        showError(err instanceof Error ? err.message : '获取用户列表失败');
+      }
+    };
+    fetchUsers();
+  }, [config, userPage]);
+
+  const userPageCount = Math.max(1, Math.ceil(userTotal / USER_PAGE_SIZE));
+
   // 切换允许注册设置
   const toggleAllowRegister = async (value: boolean) => {
     try {
@@ -199,6 +745,40 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
     }
   };
 
+  // 切换其他布尔类型的用户设置（邀请制、注册审核、强制两步验证）
+  const toggleUserSetting = async (
+    setting: 'requireAdminTwoFactor' | 'requireInvite' | 'requireApproval',
+    value: boolean
+  ) => {
+    const actions = {
+      requireAdminTwoFactor: 'setRequireAdminTwoFactor',
+      requireInvite: 'setRequireInvite',
+      requireApproval: 'setRequireApproval',
+    };
+    try {
+      setUserSettings((prev) => ({ ...prev, [setting]: value }));
+
+      const res = await fetch('/api/admin/user', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: actions[setting],
+          [setting]: value,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `操作失败: ${res.status}`);
+      }
+
+      await refreshConfig();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '操作失败');
+      setUserSettings((prev) => ({ ...prev, [setting]: !value }));
+    }
+  };
+
   const handleBanUser = async (uname: string) => {
     await handleUserAction('ban', uname);
   };
@@ -255,6 +835,41 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
     await handleUserAction('deleteUser', username);
   };
 
+  const handleResetTwoFactor = async (username: string) => {
+    const { isConfirmed } = await Swal.fire({
+      title: '确认重置两步验证',
+      text: `重置后用户 ${username} 的验证器与恢复码将全部失效，可仅凭密码登录`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: '确认重置',
+      cancelButtonText: '取消',
+    });
+
+    if (!isConfirmed) return;
+
+    await handleUserAction('resetTwoFactor', username);
+  };
+
+  const handleApproveUser = async (uname: string) => {
+    await handleUserAction('approve', uname);
+  };
+
+  const handleRejectUser = async (uname: string) => {
+    const { isConfirmed } = await Swal.fire({
+      title: '确认拒绝注册',
+      text: `拒绝后将删除用户 ${uname} 的注册信息`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: '确认拒绝',
+      cancelButtonText: '取消',
+      confirmButtonColor: '#dc2626',
+    });
+
+    if (!isConfirmed) return;
+
+    await handleUserAction('reject', uname);
+  };
+
   // 选中/全选
   const toggleSelectUser = (username: string) => {
     const next = new Set(selectedUsers);
@@ -262,10 +877,10 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
     else next.add(username);
     setSelectedUsers(next);
   };
+  // 全选仅作用于当前页
   const toggleSelectAllUsers = () => {
-    const all = config?.UserConfig.Users ?? [];
-    if (selectedUsers.size === all.length) setSelectedUsers(new Set());
-    else setSelectedUsers(new Set(all.map(u => u.username)));
+    if (selectedUsers.size === users.length) setSelectedUsers(new Set());
+    else setSelectedUsers(new Set(users.map(u => u.username)));
   };
 
   // 批量分组与移出组
@@ -646,7 +1261,10 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
       | 'setAdmin'
       | 'cancelAdmin'
       | 'changePassword'
-      | 'deleteUser',
+      | 'deleteUser'
+      | 'resetTwoFactor'
+      | 'approve'
+      | 'reject',
     targetUsername: string,
     targetPassword?: string
   ) => {
@@ -691,7 +1309,7 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
         </h4>
         <div className='p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800'>
           <div className='text-2xl font-bold text-green-800 dark:text-green-300'>
-            {config.UserConfig.Users.length}
+            {userTotal}
           </div>
           <div className='text-sm text-green-600 dark:text-green-400'>
             总用户数
@@ -706,25 +1324,96 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
         </h4>
         <div className='flex items-center justify-between'>
           <label className='text-gray-700 dark:text-gray-300'>
-            允许新用户注册
+            允许新用户注册
+          </label>
+          <button
+            onClick={() => toggleAllowRegister(!userSettings.enableRegistration)}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 ${userSettings.enableRegistration
+              ? 'bg-green-600'
+              : 'bg-gray-200 dark:bg-gray-700'
+              }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${userSettings.enableRegistration
+                ? 'translate-x-6'
+                : 'translate-x-1'
+                }`}
+            />
+          </button>
+        </div>
+        <div className='flex items-center justify-between mt-3'>
+          <label className='text-gray-700 dark:text-gray-300'>
+            注册需要邀请码
+          </label>
+          <button
+            onClick={() =>
+              toggleUserSetting('requireInvite', !userSettings.requireInvite)
+            }
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 ${userSettings.requireInvite
+              ? 'bg-green-600'
+              : 'bg-gray-200 dark:bg-gray-700'
+              }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${userSettings.requireInvite
+                ? 'translate-x-6'
+                : 'translate-x-1'
+                }`}
+            />
+          </button>
+        </div>
+        <div className='flex items-center justify-between mt-3'>
+          <label className='text-gray-700 dark:text-gray-300'>
+            新用户注册后需管理员审核
           </label>
           <button
-            onClick={() => toggleAllowRegister(!userSettings.enableRegistration)}
-            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 ${userSettings.enableRegistration
+            onClick={() =>
+              toggleUserSetting('requireApproval', !userSettings.requireApproval)
+            }
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 ${userSettings.requireApproval
               ? 'bg-green-600'
               : 'bg-gray-200 dark:bg-gray-700'
               }`}
           >
             <span
-              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${userSettings.enableRegistration
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${userSettings.requireApproval
                 ? 'translate-x-6'
                 : 'translate-x-1'
                 }`}
             />
           </button>
         </div>
+        {role === 'owner' && (
+          <div className='flex items-center justify-between mt-3'>
+            <label className='text-gray-700 dark:text-gray-300'>
+              强制管理员启用两步验证
+            </label>
+            <button
+              onClick={() =>
+                toggleUserSetting(
+                  'requireAdminTwoFactor',
+                  !userSettings.requireAdminTwoFactor
+                )
+              }
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 ${userSettings.requireAdminTwoFactor
+                ? 'bg-green-600'
+                : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${userSettings.requireAdminTwoFactor
+                  ? 'translate-x-6'
+                  : 'translate-x-1'
+                  }`}
+              />
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* 邀请码 */}
+      <InviteCodeList config={config} refreshConfig={refreshConfig} />
+
       {/* 用户列表 */}
       <div>
         <div className='flex items-center justify-between mb-3'>
@@ -751,11 +1440,11 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
             <label className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300'>
               <input
                 type='checkbox'
-                checked={selectedUsers.size === (config?.UserConfig.Users.length || 0) && (config?.UserConfig.Users.length || 0) > 0}
+                checked={selectedUsers.size === users.length && users.length > 0}
                 onChange={toggleSelectAllUsers}
                 className='w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600'
               />
-              全选 ({selectedUsers.size}/{config?.UserConfig.Users.length || 0})
+              全选 ({selectedUsers.size}/{users.length})
             </label>
             <div className='flex items-center gap-2'>
               <button
@@ -906,9 +1595,8 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
             </thead>
             {/* 按规则排序用户：自己 -> 站长(若非自己) -> 管理员 -> 其他 */}
             {(() => {
-              const sortedUsers = [...config.UserConfig.Users].sort((a, b) => {
-                type UserInfo = (typeof config.UserConfig.Users)[number];
-                const priority = (u: UserInfo) => {
+              const sortedUsers = [...users].sort((a, b) => {
+                const priority = (u: UserRecord) => {
                   if (u.username === currentUsername) return 0;
                   if (u.role === 'owner') return 1;
                   if (u.role === 'admin') return 2;
@@ -980,12 +1668,14 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
                         </td>
                         <td className='px-6 py-4 whitespace-nowrap'>
                           <span
-                            className={`px-2 py-1 text-xs rounded-full ${!user.banned
-                              ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'
-                              : 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                            className={`px-2 py-1 text-xs rounded-full ${user.banned
+                              ? 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                              : user.pending
+                                ? 'bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300'
+                                : 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300'
                               }`}
                           >
-                            {!user.banned ? '正常' : '已封禁'}
+                            {user.banned ? '已封禁' : user.pending ? '待审核' : '正常'}
                           </span>
                         </td>
                         <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
@@ -1000,7 +1690,24 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
                               修改密码
                             </button>
                           )}
-                          {canOperate && (
+                          {canOperate && user.pending && (
+                            <>
+                              {/* 待审核用户仅可通过或拒绝 */}
+                              <button
+                                onClick={() => handleApproveUser(user.username)}
+                                className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/40 dark:hover:bg-green-900/60 dark:text-green-300 transition-colors'
+                              >
+                                通过
+                              </button>
+                              <button
+                                onClick={() => handleRejectUser(user.username)}
+                                className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/60 dark:text-red-300 transition-colors'
+                              >
+                                拒绝
+                              </button>
+                            </>
+                          )}
+                          {canOperate && !user.pending && (
                             <>
                               {/* 其他操作按钮 */}
                               {user.role === 'user' && (
@@ -1039,6 +1746,14 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
                                     解封
                                   </button>
                                 ))}
+                              <button
+                                onClick={() =>
+                                  handleResetTwoFactor(user.username)
+                                }
+                                className='inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 hover:bg-yellow-200 dark:bg-yellow-900/40 dark:hover:bg-yellow-900/60 dark:text-yellow-200 transition-colors'
+                              >
+                                重置两步验证
+                              </button>
                             </>
                           )}
                           {/* 删除用户按钮 - 放在最后，使用更明显的红色样式 */}
@@ -1059,7 +1774,243 @@ const UserConfig = ({ config, role, refreshConfig }: UserConfigProps) => {
             })()}
           </table>
         </div>
+
+        {/* 分页 */}
+        {userPageCount > 1 && (
+          <div className='flex items-center justify-end gap-3 mt-3 text-sm text-gray-600 dark:text-gray-400'>
+            <button
+              onClick={() => {
+                setSelectedUsers(new Set());
+                setUserPage((p) => Math.max(1, p - 1));
+              }}
+              disabled={userPage <= 1}
+              className='px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+            >
+              上一页
+            </button>
+            <span>
+              第 {userPage} / {userPageCount} 页
+            </span>
+            <button
+              onClick={() => {
+                setSelectedUsers(new Set());
+                setUserPage((p) => Math.min(userPageCount, p + 1));
+              }}
+              disabled={userPage >= userPageCount}
+              className='px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+            >
+              下一页
+            </button>
+          </div>
+        )}
       </div>
+
+      {/* 登录锁定 */}
+      <LoginLockList />
+
+      {/* API 令牌审计 */}
+      <ApiTokenList />
+    </div>
+  );
+};
+
+// 视频源可用性迷你图：按时间从左到右，每次探测一根柱，高度表示耗时，红色为失败
+const HEALTH_SPARKLINE_BAR = 3;
+const HEALTH_SPARKLINE_HEIGHT = 20;
+
+const describeProbe = (probe: SourceHealthProbe) =>
+  [
+    new Date(probe.checked_at).toLocaleString('zh-CN'),
+    probe.ok ? '正常' : `失败（${probe.error || '未知错误'}）`,
+    `${probe.latency}ms`,
+    probe.parsed ? `${probe.results} 条结果` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const HealthSparkline = ({ probes }: { probes?: SourceHealthProbe[] }) => {
+  if (!probes || probes.length === 0) {
+    return <span className='text-xs text-gray-400'>暂无数据</span>;
+  }
+  const ordered = [...probes].reverse();
+  const maxLatency = Math.max(...ordered.map((p) => p.latency), 1);
+  const uptime = Math.round(
+    (ordered.filter((p) => p.ok).length / ordered.length) * 100
+  );
+
+  return (
+    <div
+      className='flex items-center gap-2'
+      title={`可用率 ${uptime}%，最近一次：${describeProbe(probes[0])}`}
+    >
+      <svg
+        width={ordered.length * (HEALTH_SPARKLINE_BAR + 1)}
+        height={HEALTH_SPARKLINE_HEIGHT}
+      >
+        {ordered.map((probe, i) => {
+          const height = probe.ok
+            ? Math.max(
+                (probe.latency / maxLatency) * HEALTH_SPARKLINE_HEIGHT,
+                4
+              )
+            : HEALTH_SPARKLINE_HEIGHT;
+          return (
+            <rect
+              key={probe.checked_at}
+              x={i * (HEALTH_SPARKLINE_BAR + 1)}
+              y={HEALTH_SPARKLINE_HEIGHT - height}
+              width={HEALTH_SPARKLINE_BAR}
+              height={height}
+              className={
+                probe.ok
+                  ? 'fill-green-500 dark:fill-green-400'
+                  : 'fill-red-500 dark:fill-red-400'
+              }
+            >
+              <title>{describeProbe(probe)}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <span
+        className={`text-xs ${
+          uptime >= 90
+            ? 'text-green-700 dark:text-green-400'
+            : 'text-red-700 dark:text-red-400'
+        }`}
+      >
+        {uptime}%
+      </span>
+    </div>
+  );
+};
+// 视频源请求配置表单，输入框内容均为字符串，请求头每行一个「名称: 值」；
+// format 为空表示自动识别接口格式
+interface RequestProfileForm {
+  userAgent: string;
+  referer: string;
+  headers: string;
+  timeout: string;
+  proxy: string;
+  proxyPrefix: string;
+  format: '' | SourceResponseFormat;
+}
+
+const EMPTY_REQUEST_PROFILE_FORM: RequestProfileForm = {
+  userAgent: '',
+  referer: '',
+  headers: '',
+  timeout: '',
+  proxy: '',
+  proxyPrefix: '',
+  format: '',
+};
+
+const toRequestProfileForm = (
+  profile?: SourceRequestProfile,
+  format?: SourceResponseFormat
+): RequestProfileForm => ({
+  userAgent: profile?.userAgent || '',
+  referer: profile?.referer || '',
+  headers: Object.entries(profile?.headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n'),
+  timeout: profile?.timeout ? String(profile.timeout) : '',
+  proxy: profile?.proxy || '',
+  proxyPrefix: profile?.proxyPrefix || '',
+  format: format || '',
+});
+
+// 转换为请求配置，未填写的字段省略，全部为空时返回 undefined
+const fromRequestProfileForm = (
+  form: RequestProfileForm
+): SourceRequestProfile | undefined => {
+  const profile: SourceRequestProfile = {};
+  if (form.userAgent.trim()) profile.userAgent = form.userAgent.trim();
+  if (form.referer.trim()) profile.referer = form.referer.trim();
+  if (form.proxy.trim()) profile.proxy = form.proxy.trim();
+  if (form.proxyPrefix.trim()) profile.proxyPrefix = form.proxyPrefix.trim();
+  if (form.timeout.trim()) profile.timeout = Number(form.timeout.trim());
+  const headers: Record<string, string> = {};
+  form.headers.split('\n').forEach((line) => {
+    const index = line.indexOf(':');
+    if (index <= 0) return;
+    const name = line.slice(0, index).trim();
+    if (name) headers[name] = line.slice(index + 1).trim();
+  });
+  if (Object.keys(headers).length > 0) profile.headers = headers;
+  return Object.keys(profile).length > 0 ? profile : undefined;
+};
+
+const RequestProfileFields = ({
+  value,
+  onChange,
+}: {
+  value: RequestProfileForm;
+  onChange: (value: RequestProfileForm) => void;
+}) => {
+  const inputClass =
+    'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+  return (
+    <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+      <input
+        type='text'
+        placeholder='User-Agent（选填，默认使用 Chrome UA）'
+        value={value.userAgent}
+        onChange={(e) => onChange({ ...value, userAgent: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type='text'
+        placeholder='Referer（选填）'
+        value={value.referer}
+        onChange={(e) => onChange({ ...value, referer: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type='number'
+        min={1000}
+        max={120000}
+        placeholder='超时毫秒数（选填，优先于客户端设置）'
+        value={value.timeout}
+        onChange={(e) => onChange({ ...value, timeout: e.target.value })}
+        className={inputClass}
+      />
+      <select
+        value={value.format}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            format: e.target.value as RequestProfileForm['format'],
+          })
+        }
+        className={inputClass}
+      >
+        <option value=''>接口格式：自动识别</option>
+        <option value='json'>接口格式：JSON</option>
+        <option value='xml'>接口格式：XML（rss/list/video）</option>
+      </select>
+      <input
+        type='text'
+        placeholder='HTTP 代理（选填，仅 Docker 部署），如 http://127.0.0.1:7890'
+        value={value.proxy}
+        onChange={(e) => onChange({ ...value, proxy: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type='text'
+        placeholder='代理前缀（选填），如 https://proxy.example/?url='
+        value={value.proxyPrefix}
+        onChange={(e) => onChange({ ...value, proxyPrefix: e.target.value })}
+        className={inputClass}
+      />
+      <textarea
+        rows={2}
+        placeholder={'其他请求头（选填），每行一个，如\nX-Token: abc'}
+        value={value.headers}
+        onChange={(e) => onChange({ ...value, headers: e.target.value })}
+        className={`${inputClass} sm:col-span-2 font-mono text-sm`}
+      />
     </div>
   );
 };
@@ -1083,9 +2034,20 @@ const VideoSourceConfig = ({
     disabled: false,
     from: 'config',
   });
+  const [newProfile, setNewProfile] = useState<RequestProfileForm>(
+    EMPTY_REQUEST_PROFILE_FORM
+  );
+  const [showNewProfile, setShowNewProfile] = useState(false);
+  // 正在编辑请求配置的视频源
+  const [editingProfile, setEditingProfile] = useState<{
+    key: string;
+    form: RequestProfileForm;
+  } | null>(null);
   
   // 批量操作相关状态
   const [selectedSources, setSelectedSources] = useState<Set<string>>(new Set());
+  // 健康检查记录，key 为视频源 key
+  const [health, setHealth] = useState<Record<string, SourceHealthProbe[]>>({});
 
   // dnd-kit 传感器
   const sensors = useSensors(
@@ -1111,6 +2073,14 @@ const VideoSourceConfig = ({
     }
   }, [config]);
 
+  useEffect(() => {
+    if (!config) return;
+    fetch('/api/admin/source_health')
+      .then((resp) => (resp.ok ? resp.json() : null))
+      .then((data) => data && setHealth(data.probes || {}))
+      .catch((err) => console.error('获取视频源健康状态失败', err));
+  }, [config]);
+
   // 通用 API 请求
   const callSourceApi = async (body: Record<string, any>) => {
     try {
@@ -1156,6 +2126,8 @@ const VideoSourceConfig = ({
       name: newSource.name,
       api: newSource.api,
       detail: newSource.detail,
+      request: fromRequestProfileForm(newProfile),
+      format: newProfile.format || undefined,
     })
       .then(() => {
         setNewSource({
@@ -1166,6 +2138,8 @@ const VideoSourceConfig = ({
           disabled: false,
           from: 'custom',
         });
+        setNewProfile(EMPTY_REQUEST_PROFILE_FORM);
+        setShowNewProfile(false);
         setShowAddForm(false);
       })
       .catch(() => {
@@ -1173,6 +2147,22 @@ const VideoSourceConfig = ({
       });
   };
 
+  const handleSaveProfile = () => {
+    if (!editingProfile) return;
+    callSourceApi({
+      action: 'updateProfile',
+      key: editingProfile.key,
+      request: fromRequestProfileForm(editingProfile.form),
+      format: editingProfile.form.format || undefined,
+    })
+      .then(() => {
+        setEditingProfile(null);
+      })
+      .catch(() => {
+        console.error('操作失败', 'updateProfile', editingProfile.key);
+      });
+  };
+
   const handleDragEnd = (event: any) => {
     const { active, over } = event;
     if (!over || active.id === over.id) return;
@@ -1363,9 +2353,16 @@ const VideoSourceConfig = ({
               : 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'
               }`}
           >
-            {!source.disabled ? '启用中' : '已禁用'}
+            {!source.disabled
+              ? '启用中'
+              : source.autoDisabled
+              ? '自动禁用'
+              : '已禁用'}
           </span>
         </td>
+        <td className='px-6 py-4 whitespace-nowrap'>
+          <HealthSparkline probes={health[source.key]} />
+        </td>
         <td className='px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2'>
           <button
             onClick={() => handleToggleEnable(source.key)}
@@ -1376,6 +2373,25 @@ const VideoSourceConfig = ({
           >
             {!source.disabled ? '禁用' : '启用'}
           </button>
+          <button
+            onClick={() =>
+              setEditingProfile({
+                key: source.key,
+                form: toRequestProfileForm(source.request, source.format),
+              })
+            }
+            title={
+              source.request || source.format
+                ? '已自定义请求配置'
+                : '使用默认请求配置'
+            }
+            className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-medium ${source.request || source.format
+              ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
+              : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700/40 dark:hover:bg-gray-700/60 dark:text-gray-200'
+              } transition-colors`}
+          >
+            请求配置
+          </button>
           {source.from !== 'config' && (
             <button
               onClick={() => handleDelete(source.key)}
@@ -1498,6 +2514,15 @@ const VideoSourceConfig = ({
               className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
             />
           </div>
+          <button
+            onClick={() => setShowNewProfile(!showNewProfile)}
+            className='text-sm text-blue-600 dark:text-blue-400 hover:underline'
+          >
+            {showNewProfile ? '收起请求配置' : '自定义请求配置（选填）'}
+          </button>
+          {showNewProfile && (
+            <RequestProfileFields value={newProfile} onChange={setNewProfile} />
+          )}
           <div className='flex justify-end'>
             <button
               onClick={handleAddSource}
@@ -1510,6 +2535,46 @@ const VideoSourceConfig = ({
         </div>
       )}
 
+      {/* 请求配置编辑 */}
+      {editingProfile && (
+        <div className='p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4'>
+          <h5 className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+            请求配置：
+            {sources.find((s) => s.key === editingProfile.key)?.name ||
+              editingProfile.key}
+          </h5>
+          <RequestProfileFields
+            value={editingProfile.form}
+            onChange={(form) => setEditingProfile({ ...editingProfile, form })}
+          />
+          <div className='flex justify-end gap-2'>
+            <button
+              onClick={() =>
+                setEditingProfile({
+                  ...editingProfile,
+                  form: EMPTY_REQUEST_PROFILE_FORM,
+                })
+              }
+              className='px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors'
+            >
+              恢复默认
+            </button>
+            <button
+              onClick={() => setEditingProfile(null)}
+              className='px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors'
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSaveProfile}
+              className='px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors'
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 视频源表格 */}
       <div className='border border-gray-200 dark:border-gray-700 rounded-lg max-h-[28rem] overflow-y-auto overflow-x-auto'>
         <DndContext
@@ -1539,6 +2604,9 @@ const VideoSourceConfig = ({
                 <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
                   状态
                 </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  可用性
+                </th>
                 <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
                   操作
                 </th>
@@ -1915,22 +2983,33 @@ const CategoryConfig = ({
 };
 
 // 新增配置文件组件
-const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig | null; refreshConfig: () => Promise<void> }) => {
+const ConfigFileComponent = ({ config, loadError, refreshConfig }: { config: AdminConfig | null; loadError: string | null; refreshConfig: () => Promise<void> }) => {
   const [configContent, setConfigContent] = useState('');
   const [saving, setSaving] = useState(false);
+  // 校验错误，按行标注在编辑器中，编辑后清除
+  const [issues, setIssues] = useState<ConfigIssue[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const errorLines = new Set(issues.map((issue) => issue.line));
 
   useEffect(() => {
     if (config?.ConfigFile) {
+      let content = config.ConfigFile;
       try {
         // 解析 JSON 并格式化显示
-        const parsedConfig = JSON.parse(config.ConfigFile);
-        setConfigContent(JSON.stringify(parsedConfig, null, 2));
+        content = JSON.stringify(JSON.parse(config.ConfigFile), null, 2);
       } catch (e) {
         // 如果解析失败，直接显示原始内容
-        setConfigContent(config.ConfigFile);
+      }
+      setConfigContent(content);
+
+      // 已保存的配置文件校验失败时，在编辑器中标注出错的行
+      if (loadError) {
+        const checked = parseConfigFile(content);
+        setIssues(checked.success ? [] : checked.issues);
       }
     }
-  }, [config]);
+  }, [config, loadError]);
 
 
 
@@ -1939,15 +3018,17 @@ const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig |
     try {
       setSaving(true);
       
-      // 验证并格式化 JSON
-      let formattedConfig;
-      try {
-        const parsedConfig = JSON.parse(configContent);
-        formattedConfig = JSON.stringify(parsedConfig, null, 2);
-      } catch (e) {
-        throw new Error('配置文件格式错误，请检查 JSON 语法');
+      // 先在本地校验，错误行号对应编辑器中的原始内容
+      const checked = parseConfigFile(configContent);
+      if (!checked.success) {
+        setIssues(checked.issues);
+        throw new Error(`配置文件校验失败，共 ${checked.issues.length} 处错误`);
       }
-      
+
+      // 格式化后提交，服务端返回的行号对应格式化后的内容
+      const formattedConfig = JSON.stringify(JSON.parse(configContent), null, 2);
+      setConfigContent(formattedConfig);
+
       const resp = await fetch('/api/admin/config_file', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -1956,9 +3037,13 @@ const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig |
 
       if (!resp.ok) {
         const data = await resp.json().catch(() => ({}));
+        if (Array.isArray(data.issues)) {
+          setIssues(data.issues);
+        }
         throw new Error(data.error || `保存失败: ${resp.status}`);
       }
 
+      setIssues([]);
       showSuccess('配置文件保存成功');
       await refreshConfig();
     } catch (err) {
@@ -1970,6 +3055,18 @@ const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig |
 
 
 
+  // 选中出错的行并滚动到该处
+  const jumpToLine = (line?: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !line) return;
+    const lines = configContent.split('\n');
+    const start = lines.slice(0, line - 1).join('\n').length + (line > 1 ? 1 : 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
   if (!config) {
     return (
       <div className='text-center text-gray-500 dark:text-gray-400'>
@@ -1978,25 +3075,81 @@ const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig |
     );
   }
 
+  const editorFont = {
+    fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace'
+  };
+
   return (
     <div className='space-y-4'>
+      {loadError && (
+        <div className='px-4 py-3 rounded-lg text-sm bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'>
+          当前保存的配置文件校验失败，服务端仍在使用上一次有效的配置，请修正后重新保存：{loadError}
+        </div>
+      )}
       {/* 配置文件编辑区域 */}
       <div className='space-y-4'>
-        <div className='relative'>
+        <div className='relative rounded-lg bg-white dark:bg-gray-800'>
+          {/* 错误行高亮层，位于透明背景的输入框下方并同步滚动 */}
+          <div
+            ref={backdropRef}
+            aria-hidden
+            className='absolute inset-0 overflow-hidden pointer-events-none px-4 py-3 border border-transparent rounded-lg font-mono text-sm leading-relaxed whitespace-pre text-transparent'
+            style={editorFont}
+          >
+            {configContent.split('\n').map((line, i) => (
+              <div
+                key={i}
+                className={errorLines.has(i + 1) ? 'bg-red-100 dark:bg-red-900/40' : ''}
+              >
+                {line || ' '}
+              </div>
+            ))}
+          </div>
           <textarea
+            ref={textareaRef}
             value={configContent}
-            onChange={(e) => setConfigContent(e.target.value)}
+            onChange={(e) => {
+              setConfigContent(e.target.value);
+              setIssues([]);
+            }}
+            onScroll={(e) => {
+              if (backdropRef.current) {
+                backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+                backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+              }
+            }}
             rows={20}
+            wrap='off'
             placeholder='请输入配置文件内容（JSON 格式）...'
-            className='w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm leading-relaxed resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 hover:border-gray-400 dark:hover:border-gray-500'
-            style={{
-              fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace'
-            }}
+            className={`relative block w-full px-4 py-3 border rounded-lg bg-transparent text-gray-900 dark:text-gray-100 font-mono text-sm leading-relaxed resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 ${issues.length > 0
+              ? 'border-red-400 dark:border-red-500'
+              : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
+              }`}
+            style={editorFont}
             spellCheck={false}
             data-gramm={false}
           />
         </div>
 
+        {/* 校验错误列表，点击定位到对应行 */}
+        {issues.length > 0 && (
+          <ul className='space-y-1 text-xs font-mono text-red-600 dark:text-red-400'>
+            {issues.map((issue, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => jumpToLine(issue.line)}
+                  className='text-left hover:underline'
+                >
+                  {issue.line ? `第 ${issue.line} 行 ` : ''}
+                  {issue.path && <span className='font-semibold'>{issue.path}</span>}
+                  {issue.path ? '：' : ''}
+                  {issue.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         <div className='flex items-center justify-between'>
           <div className='text-xs text-gray-500 dark:text-gray-400'>
             支持 JSON 格式，用于配置视频源和自定义分类
@@ -2017,191 +3170,372 @@ const ConfigFileComponent = ({ config, refreshConfig }: { config: AdminConfig |
   );
 };
 // 订阅配置组件
+const EMPTY_SUBSCRIPTION_FORM = {
+  id: "",
+  name: "",
+  url: "",
+  priority: 0,
+  enabled: true,
+  updateInterval: 86400, // 默认一天
+};
+
 const SubscriptionConfig = ({ config, refreshConfig }: { config: AdminConfig | null; refreshConfig: () => Promise<void> }) => {
-  const [subscriptionUrl, setSubscriptionUrl] = useState('');
-  const [autoUpdate, setAutoUpdate] = useState(false);
-  const [updateInterval, setUpdateInterval] = useState(86400); // 默认一天
-  const [importMode, setImportMode] = useState<'overwrite' | 'merge'>('merge');
-  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [form, setForm] = useState<typeof EMPTY_SUBSCRIPTION_FORM | null>(null);
   const [saving, setSaving] = useState(false);
-  const [importing, setImporting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ subscription: Subscription; data: SubscriptionPreview } | null>(null);
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const resp = await fetch("/api/admin/subscription");
+      const data = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        throw new Error(data.error || "获取订阅列表失败");
+      }
+      setSubscriptions(data.subscriptions || []);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "获取订阅列表失败");
+    }
+  }, []);
 
   useEffect(() => {
-    if (config?.SubscriptionConfig) {
-      const sub = config.SubscriptionConfig;
-      setSubscriptionUrl(sub.subscriptionUrl || '');
-      setAutoUpdate(sub.autoUpdate || false);
-      setUpdateInterval(sub.updateInterval || 86400);
-      setImportMode(sub.importMode || 'merge');
-      setLastUpdated(sub.lastUpdated || null);
+    fetchSubscriptions();
+  }, [fetchSubscriptions, config]);
+
+  const subscriptionName = (id?: string) =>
+    id ? subscriptions.find((s) => s.id === id)?.name || id : "手动添加或配置文件";
+
+  const sourceCount = (id: string) =>
+    config?.SourceConfig.filter((s) => s.subscription === id).length || 0;
+
+  const postSubscription = async (body: Record<string, unknown>, fallback: string) => {
+    const resp = await fetch("/api/admin/subscription", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok) {
+      throw new Error(data.details || data.error || fallback);
     }
-  }, [config]);
+    return data;
+  };
 
   const handleSave = async () => {
+    if (!form) return;
     try {
       setSaving(true);
-      const resp = await fetch('/api/admin/subscription', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'update',
-          subscriptionUrl,
-          autoUpdate,
-          updateInterval,
-          importMode,
-        }),
-      });
-      if (!resp.ok) {
-        const data = await resp.json().catch(() => ({}));
-        throw new Error(data.error || '保存失败');
-      }
-      showSuccess('订阅配置已保存');
+      await postSubscription({ action: "save", ...form, id: form.id || undefined }, "保存失败");
+      showSuccess("订阅已保存");
+      setForm(null);
       await refreshConfig();
     } catch (err) {
-      showError(err instanceof Error ? err.message : '保存失败');
+      showError(err instanceof Error ? err.message : "保存失败");
     } finally {
       setSaving(false);
     }
   };
 
+  const handleDelete = async (subscription: Subscription) => {
+    const { isConfirmed } = await Swal.fire({
+      title: "确认删除订阅",
+      text: `删除订阅 ${subscription.name} 将同时删除其拥有的 ${sourceCount(subscription.id)} 个视频源`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "确认删除",
+      cancelButtonText: "取消",
+      confirmButtonColor: "#dc2626",
+    });
+    if (!isConfirmed) return;
+
+    try {
+      setBusyId(subscription.id);
+      await postSubscription({ action: "delete", id: subscription.id }, "删除失败");
+      showSuccess("订阅已删除");
+      await refreshConfig();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "删除失败");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePreview = async (subscription: Subscription) => {
+    try {
+      setBusyId(subscription.id);
+      const data = await postSubscription({ action: "preview", id: subscription.id }, "获取订阅失败");
+      setPreview({ subscription, data: data.preview });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "获取订阅失败");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   const handleImport = async () => {
+    if (!preview) return;
     try {
-      setImporting(true);
-      const resp = await fetch('/api/admin/subscription', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'import',
-          subscriptionUrl: subscriptionUrl || undefined,
-          importMode,
-        }),
-      });
-      if (!resp.ok) {
-        const data = await resp.json().catch(() => ({}));
-        throw new Error(data.error || '导入失败');
-      }
-      showSuccess('订阅数据导入成功');
+      setBusyId(preview.subscription.id);
+      await postSubscription({ action: "import", id: preview.subscription.id }, "导入失败");
+      showSuccess("订阅数据导入成功");
+      setPreview(null);
       await refreshConfig();
     } catch (err) {
-      showError(err instanceof Error ? err.message : '导入失败');
+      showError(err instanceof Error ? err.message : "导入失败");
     } finally {
-      setImporting(false);
+      setBusyId(null);
     }
   };
 
   const formatTime = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleString('zh-CN');
+    return new Date(timestamp * 1000).toLocaleString("zh-CN");
   };
 
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100";
+
+  const renderPreviewGroup = (title: string, className: string, rows: { key: string; text: string }[]) =>
+    rows.length > 0 && (
+      <div>
+        <h5 className={`text-sm font-medium mb-1 ${className}`}>
+          {title}（{rows.length}）
+        </h5>
+        <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-1 max-h-48 overflow-y-auto">
+          {rows.map((row) => (
+            <li key={row.key} className="break-all">
+              <span className="font-mono">{row.key}</span> {row.text}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
   return (
     <div className="space-y-6">
-      <div className="space-y-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            订阅地址 URL
-          </label>
-          <input
-            type="text"
-            value={subscriptionUrl}
-            onChange={(e) => setSubscriptionUrl(e.target.value)}
-            placeholder="https://example.com/subscription.json"
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-          />
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            订阅地址返回的数据应为 JSON 格式，支持 Base58 编码。
-          </p>
-        </div>
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          订阅地址返回的数据应为 JSON 格式，支持 Base58 编码。多个订阅提供同一 key 的源时，由优先级数值小的订阅拥有；手动添加或来自配置文件的源不会被订阅改写。
+        </p>
+        {!form && (
+          <button
+            onClick={() => setForm({ ...EMPTY_SUBSCRIPTION_FORM })}
+            className="ml-4 shrink-0 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors"
+          >
+            添加订阅
+          </button>
+        )}
+      </div>
 
-        <div>
+      {form && (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                名称
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                订阅地址 URL
+              </label>
+              <input
+                type="text"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/subscription.json"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                优先级（数值越小越优先）
+              </label>
+              <input
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                更新周期（秒）
+              </label>
+              <input
+                type="number"
+                value={form.updateInterval}
+                onChange={(e) => setForm({ ...form, updateInterval: Number(e.target.value) })}
+                className={inputClass}
+                min="60"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                例如：86400 秒 = 1 天
+              </p>
+            </div>
+          </div>
           <div className="flex items-center justify-between">
-            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-              自动更新
-            </label>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                启用自动更新
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                用户/管理员登录时检查更新，若超过更新周期则自动导入。
+              </p>
+            </div>
             <button
-              onClick={() => setAutoUpdate(!autoUpdate)}
-              className={`relative inline-flex h-6 w-11 items-center rounded-full ${autoUpdate ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+              onClick={() => setForm({ ...form, enabled: !form.enabled })}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full ${form.enabled ? "bg-blue-600" : "bg-gray-300 dark:bg-gray-600"}`}
             >
               <span
-                className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${autoUpdate ? 'translate-x-6' : 'translate-x-1'}`}
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${form.enabled ? "translate-x-6" : "translate-x-1"}`}
               />
             </button>
           </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            用户/管理员登录时检查更新，若超过更新周期则自动导入。
-          </p>
+          <div className="flex space-x-4">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name || !form.url}
+              className={`px-4 py-2 rounded-lg transition-colors ${saving || !form.name || !form.url
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-blue-600 hover:bg-blue-700"
+                } text-white`}
+            >
+              {saving ? "保存中..." : "保存订阅"}
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 transition-colors"
+            >
+              取消
+            </button>
+          </div>
         </div>
+      )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            更新周期（秒）
-          </label>
-          <input
-            type="number"
-            value={updateInterval}
-            onChange={(e) => setUpdateInterval(Number(e.target.value))}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-            min="60"
-          />
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            例如：86400 秒 = 1 天
-          </p>
+      {subscriptions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">暂无订阅</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">优先级</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">名称</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">视频源</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">自动更新</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">最后更新</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">操作</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {subscriptions.map((subscription) => (
+                <tr key={subscription.id}>
+                  <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{subscription.priority}</td>
+                  <td className="px-4 py-2">
+                    <div className="text-gray-900 dark:text-gray-100">{subscription.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 break-all">{subscription.url}</div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{sourceCount(subscription.id)}</td>
+                  <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                    {subscription.enabled ? `每 ${subscription.updateInterval} 秒` : "已停用"}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-400">
+                    {subscription.lastUpdated ? formatTime(subscription.lastUpdated) : "从未"}
+                  </td>
+                  <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                    <button
+                      onClick={() => handlePreview(subscription)}
+                      disabled={busyId !== null}
+                      className="px-2 py-1 text-xs rounded bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300 disabled:opacity-50"
+                    >
+                      {busyId === subscription.id ? "处理中..." : "预览导入"}
+                    </button>
+                    <button
+                      onClick={() => setForm({ ...EMPTY_SUBSCRIPTION_FORM, ...subscription })}
+                      className="px-2 py-1 text-xs rounded bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900/40 dark:text-blue-300"
+                    >
+                      编辑
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subscription)}
+                      disabled={busyId !== null}
+                      className="px-2 py-1 text-xs rounded bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:text-red-300 disabled:opacity-50"
+                    >
+                      删除
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
+      )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            导入模式
-          </label>
+      {preview && (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            导入预览：{preview.subscription.name}
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+              未变化 {preview.data.unchanged} 个
+            </span>
+          </h4>
+          {renderPreviewGroup(
+            "新增",
+            "text-green-700 dark:text-green-400",
+            preview.data.added.map((s) => ({ key: s.key, text: `${s.name} ${s.api}` }))
+          )}
+          {renderPreviewGroup(
+            "修改",
+            "text-yellow-700 dark:text-yellow-400",
+            preview.data.changed.map(({ before, after, from }) => ({
+              key: after.key,
+              text: [
+                before.name !== after.name ? `${before.name} → ${after.name}` : after.name,
+                before.api !== after.api ? `${before.api} → ${after.api}` : "",
+                from ? `（从 ${subscriptionName(from)} 接管）` : "",
+              ].filter(Boolean).join(" "),
+            }))
+          )}
+          {renderPreviewGroup(
+            "删除",
+            "text-red-700 dark:text-red-400",
+            preview.data.removed.map((s) => ({ key: s.key, text: s.name }))
+          )}
+          {renderPreviewGroup(
+            "跳过（已被其他来源占用）",
+            "text-gray-600 dark:text-gray-400",
+            preview.data.skipped.map(({ source, owner }) => ({
+              key: source.key,
+              text: `${source.name}，归属：${subscriptionName(owner)}`,
+            }))
+          )}
           <div className="flex space-x-4">
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                checked={importMode === 'merge'}
-                onChange={() => setImportMode('merge')}
-                className="form-radio"
-              />
-              <span className="ml-2">合并（根据key值合并）</span>
-            </label>
-            <label className="inline-flex items-center">
-              <input
-                type="radio"
-                checked={importMode === 'overwrite'}
-                onChange={() => setImportMode('overwrite')}
-                className="form-radio"
-              />
-              <span className="ml-2">覆盖（清空现有源）</span>
-            </label>
+            <button
+              onClick={handleImport}
+              disabled={busyId !== null}
+              className={`px-4 py-2 rounded-lg transition-colors ${busyId !== null
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-green-600 hover:bg-green-700"
+                } text-white`}
+            >
+              {busyId !== null ? "导入中..." : "确认导入"}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 rounded-lg bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 transition-colors"
+            >
+              取消
+            </button>
           </div>
         </div>
-
-        {lastUpdated && (
-          <div className="text-sm text-gray-600 dark:text-gray-400">
-            最后更新时间：{formatTime(lastUpdated)}
-          </div>
-        )}
-      </div>
-
-      <div className="flex space-x-4">
-        <button
-          onClick={handleSave}
-          disabled={saving}
-          className={`px-4 py-2 rounded-lg transition-colors ${saving
-            ? 'bg-gray-400 cursor-not-allowed'
-            : 'bg-blue-600 hover:bg-blue-700'
-            } text-white`}
-        >
-          {saving ? '保存中...' : '保存配置'}
-        </button>
-        <button
-          onClick={handleImport}
-          disabled={importing || !subscriptionUrl}
-          className={`px-4 py-2 rounded-lg transition-colors ${importing || !subscriptionUrl
-            ? 'bg-gray-400 cursor-not-allowed'
-            : 'bg-green-600 hover:bg-green-700'
-            } text-white`}
-        >
-          {importing ? '导入中...' : '立即导入'}
-        </button>
-      </div>
+      )}
     </div>
   );
 };
@@ -2961,11 +4295,646 @@ const SiteConfigComponent = ({ config }: { config: AdminConfig | null }) => {
   );
 };
 
+// 审计日志组件
+const AUDIT_PAGE_SIZE = 20;
+
+// 操作类别，筛选时按前缀匹配
+const AUDIT_CATEGORIES: { value: string; label: string }[] = [
+  { value: '', label: '全部操作' },
+  { value: 'source', label: '视频源' },
+  { value: 'user', label: '用户' },
+  { value: 'group', label: '用户组' },
+  { value: 'config_file', label: '配置文件' },
+  { value: 'subscription', label: '订阅' },
+  { value: 'config', label: '重置/回滚配置' },
+  { value: 'audit', label: '审计日志' },
+];
+
+const formatAuditValue = (value: unknown) =>
+  value === undefined ? '（无）' : JSON.stringify(value);
+
+const AuditLogViewer = ({ role }: { role: 'owner' | 'admin' | null }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState({
+    actor: '',
+    action: '',
+    target: '',
+    since: '',
+    until: '',
+  });
+  // 点击查询后才生效的筛选条件
+  const [query, setQuery] = useState(filters);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [retentionDays, setRetentionDays] = useState('');
+
+  const fetchEntries = useCallback(async () => {
+    const params = new URLSearchParams({
+      page: String(page),
+      pageSize: String(AUDIT_PAGE_SIZE),
+    });
+    if (query.actor.trim()) params.set('actor', query.actor.trim());
+    if (query.action) params.set('action', query.action);
+    if (query.target.trim()) params.set('target', query.target.trim());
+    // 日期按本地时间取当天的起止
+    if (query.since) {
+      params.set(
+        'since',
+        String(new Date(`${query.since}T00:00:00`).getTime())
+      );
+    }
+    if (query.until) {
+      params.set(
+        'until',
+        String(new Date(`${query.until}T23:59:59.999`).getTime())
+      );
+    }
+
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/admin/audit?${params.toString()}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `获取失败: ${res.status}`);
+      }
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+      setRetentionDays((prev) => prev || String(data.retentionDays));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取审计日志失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, query]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSaveRetention = async () => {
+    try {
+      const res = await fetch('/api/admin/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionDays: Number(retentionDays) }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `保存失败: ${res.status}`);
+      }
+      showSuccess('保留天数已保存');
+      await fetchEntries();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '保存失败');
+    }
+  };
+
+  const inputClass =
+    'px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className='space-y-4'>
+      {/* 筛选条件 */}
+      <div className='flex flex-wrap items-center gap-2'>
+        <input
+          type='text'
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          placeholder='操作者'
+          className={`${inputClass} w-32`}
+        />
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className={inputClass}
+        >
+          {AUDIT_CATEGORIES.map((c) => (
+            <option key={c.value} value={c.value}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type='text'
+          value={filters.target}
+          onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+          placeholder='操作对象'
+          className={`${inputClass} w-32`}
+        />
+        <input
+          type='date'
+          value={filters.since}
+          onChange={(e) => setFilters({ ...filters, since: e.target.value })}
+          className={inputClass}
+        />
+        <span className='text-sm text-gray-500 dark:text-gray-400'>至</span>
+        <input
+          type='date'
+          value={filters.until}
+          onChange={(e) => setFilters({ ...filters, until: e.target.value })}
+          className={inputClass}
+        />
+        <button
+          onClick={() => {
+            setPage(1);
+            setQuery(filters);
+          }}
+          disabled={loading}
+          className='px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors'
+        >
+          {loading ? '加载中...' : '查询'}
+        </button>
+      </div>
+
+      {/* 日志列表 */}
+      {entries.length === 0 ? (
+        <div className='text-sm text-gray-500 dark:text-gray-400'>
+          暂无审计日志
+        </div>
+      ) : (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  时间
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作者
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  对象
+                </th>
+                <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  变更
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <tr className='hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors'>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                      {entry.actor}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-gray-100'>
+                      {entry.action}
+                    </td>
+                    <td className='px-6 py-4 text-sm text-gray-900 dark:text-gray-100 max-w-xs truncate'>
+                      {entry.target || '-'}
+                    </td>
+                    <td className='px-6 py-4 whitespace-nowrap text-right text-sm'>
+                      {entry.changes.length === 0 ? (
+                        <span className='text-gray-400 dark:text-gray-500'>
+                          无
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => toggleExpanded(entry.id)}
+                          className='text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'
+                        >
+                          {expanded.has(entry.id)
+                            ? '收起'
+                            : `${entry.changes.length} 项`}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded.has(entry.id) && (
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className='px-6 py-3 bg-gray-50 dark:bg-gray-900/50'
+                      >
+                        <div className='space-y-1 text-xs font-mono break-all'>
+                          {entry.changes.map((change) => (
+                            <div key={change.path}>
+                              <span className='text-gray-700 dark:text-gray-300'>
+                                {change.path || '(根)'}
+                              </span>
+                              :{' '}
+                              <span className='text-red-600 dark:text-red-400'>
+                                {formatAuditValue(change.before)}
+                              </span>
+                              {' → '}
+                              <span className='text-green-600 dark:text-green-400'>
+                                {formatAuditValue(change.after)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 分页 */}
+      {pageCount > 1 && (
+        <div className='flex items-center justify-end gap-3 text-sm text-gray-600 dark:text-gray-400'>
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className='px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+          >
+            上一页
+          </button>
+          <span>
+            第 {page} / {pageCount} 页
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+            disabled={page >= pageCount}
+            className='px-3 py-1 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+          >
+            下一页
+          </button>
+        </div>
+      )}
+
+      {/* 保留天数 - 仅站长可设置 */}
+      {role === 'owner' && (
+        <div className='flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300'>
+          <span>日志保留</span>
+          <input
+            type='number'
+            min={1}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+          <span>天</span>
+          <button
+            onClick={handleSaveRetention}
+            className='px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors'
+          >
+            保存
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 配置历史组件
+// 可对比的配置分区
+const CONFIG_HISTORY_SECTIONS = [
+  { key: 'SourceConfig', label: '视频源' },
+  { key: 'CustomCategories', label: '自定义分类' },
+  { key: 'SiteConfig', label: '站点配置' },
+  { key: 'UserConfig', label: '用户配置' },
+] as const;
+
+type ConfigHistorySection = (typeof CONFIG_HISTORY_SECTIONS)[number]['key'];
+
+// 变更行前后保留的相同行数，其余相同行折叠
+const DIFF_CONTEXT_LINES = 3;
+
+const configSectionLines = (
+  config: AdminConfig | null,
+  section: ConfigHistorySection
+) =>
+  config && config[section] !== undefined
+    ? JSON.stringify(config[section], null, 2).split('\n')
+    : [];
+
+const collapseDiffRows = (rows: DiffRow[]) => {
+  const visible = rows.map(() => false);
+  rows.forEach((row, i) => {
+    if (row.type === 'same') return;
+    const end = Math.min(rows.length - 1, i + DIFF_CONTEXT_LINES);
+    for (let k = Math.max(0, i - DIFF_CONTEXT_LINES); k <= end; k++) {
+      visible[k] = true;
+    }
+  });
+
+  const result: (DiffRow | { skipped: number })[] = [];
+  let skipped = 0;
+  rows.forEach((row, i) => {
+    if (!visible[i]) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) result.push({ skipped });
+    skipped = 0;
+    result.push(row);
+  });
+  if (skipped > 0) result.push({ skipped });
+  return result;
+};
+
+const formatHistoryReason = (reason: string) => {
+  if (reason === 'config.baseline') return '启用历史前的配置';
+  if (reason.startsWith('config.rollback:')) {
+    return `回滚到版本 ${reason.slice('config.rollback:'.length)}`;
+  }
+  return reason;
+};
+
+const ConfigHistoryViewer = ({
+  role,
+  refreshConfig,
+}: {
+  role: 'owner' | 'admin' | null;
+  refreshConfig: () => Promise<void>;
+}) => {
+  const [history, setHistory] = useState<ConfigHistoryMeta[]>([]);
+  const [limit, setLimit] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<{
+    version: number;
+    config: AdminConfig;
+    current: AdminConfig | null;
+  } | null>(null);
+  const [section, setSection] = useState<ConfigHistorySection>('SourceConfig');
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/admin/config_history');
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `获取失败: ${res.status}`);
+      }
+      setHistory(data.history || []);
+      setLimit(data.limit || 0);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取配置历史失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleSelect = async (version: number) => {
+    if (selected?.version === version) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/admin/config_history?version=${version}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || `获取失败: ${res.status}`);
+      }
+      setSelected(data);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '获取配置版本失败');
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    const { isConfirmed } = await Swal.fire({
+      title: '确认回滚配置',
+      text: `将以版本 ${version} 的配置覆盖当前配置，当前配置仍会保留在历史中`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: '确认回滚',
+      cancelButtonText: '取消',
+      confirmButtonColor: '#dc2626',
+    });
+    if (!isConfirmed) return;
+
+    try {
+      const res = await fetch('/api/admin/config_history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `回滚失败: ${res.status}`);
+      }
+      showSuccess(`已回滚到版本 ${version}`);
+      setSelected(null);
+      await Promise.all([fetchHistory(), refreshConfig()]);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '回滚失败');
+    }
+  };
+
+  const diffRows = useMemo(
+    () =>
+      selected
+        ? collapseDiffRows(
+            diffLines(
+              configSectionLines(selected.config, section),
+              configSectionLines(selected.current, section)
+            )
+          )
+        : [],
+    [selected, section]
+  );
+
+  const sectionChanged = (key: ConfigHistorySection) =>
+    !!selected &&
+    JSON.stringify(selected.config[key]) !==
+      JSON.stringify(selected.current?.[key]);
+
+  const cellClass = (type: DiffRow['type'], side: 'left' | 'right') => {
+    if (
+      type === 'changed' ||
+      type === (side === 'left' ? 'removed' : 'added')
+    ) {
+      return side === 'left'
+        ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+        : 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300';
+    }
+    return type === 'same'
+      ? 'text-gray-700 dark:text-gray-300'
+      : 'bg-gray-50 dark:bg-gray-900/50';
+  };
+
+  return (
+    <div className='space-y-4'>
+      <div className='text-sm text-gray-500 dark:text-gray-400'>
+        每次保存配置都会记录一个版本，保留最近 {limit || '-'} 个。
+        点击版本可与当前配置对比{role === 'owner' ? '，并回滚到该版本' : ''}。
+      </div>
+
+      {/* 版本列表 */}
+      {history.length === 0 ? (
+        <div className='text-sm text-gray-500 dark:text-gray-400'>
+          {loading ? '加载中...' : '暂无配置历史'}
+        </div>
+      ) : (
+        <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+          <table className='min-w-full divide-y divide-gray-200 dark:divide-gray-700'>
+            <thead className='bg-gray-50 dark:bg-gray-900'>
+              <tr>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  版本
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  保存时间
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  修改者
+                </th>
+                <th className='px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  原因
+                </th>
+                <th className='px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'>
+                  操作
+                </th>
+              </tr>
+            </thead>
+            <tbody className='divide-y divide-gray-200 dark:divide-gray-700'>
+              {history.map((meta) => (
+                <tr
+                  key={meta.version}
+                  className={`transition-colors ${
+                    selected?.version === meta.version
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <td className='px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-gray-100'>
+                    v{meta.version}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {new Date(meta.saved_at).toLocaleString()}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'>
+                    {meta.author}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-gray-100'>
+                    {formatHistoryReason(meta.reason)}
+                  </td>
+                  <td className='px-6 py-4 whitespace-nowrap text-right text-sm space-x-3'>
+                    <button
+                      onClick={() => handleSelect(meta.version)}
+                      className='text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'
+                    >
+                      {selected?.version === meta.version ? '收起' : '对比'}
+                    </button>
+                    {role === 'owner' && (
+                      <button
+                        onClick={() => handleRestore(meta.version)}
+                        className='text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300'
+                      >
+                        回滚
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 与当前配置的并排对比 */}
+      {selected && (
+        <div className='space-y-3'>
+          <div className='flex flex-wrap gap-2'>
+            {CONFIG_HISTORY_SECTIONS.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setSection(key)}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  section === key
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {label}
+                {sectionChanged(key) && ' •'}
+              </button>
+            ))}
+          </div>
+
+          {!sectionChanged(section) ? (
+            <div className='text-sm text-gray-500 dark:text-gray-400'>
+              该部分与当前配置一致
+            </div>
+          ) : (
+            <div className='border border-gray-200 dark:border-gray-700 rounded-lg overflow-x-auto'>
+              <table className='min-w-full table-fixed text-xs font-mono'>
+                <thead className='bg-gray-50 dark:bg-gray-900'>
+                  <tr>
+                    <th className='w-1/2 px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400'>
+                      版本 {selected.version}
+                    </th>
+                    <th className='w-1/2 px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-400'>
+                      当前配置
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffRows.map((row, i) =>
+                    'skipped' in row ? (
+                      <tr key={i}>
+                        <td
+                          colSpan={2}
+                          className='px-3 py-1 text-center text-gray-400 dark:text-gray-500 bg-gray-50 dark:bg-gray-900/50'
+                        >
+                          … 省略 {row.skipped} 行相同内容 …
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={i}>
+                        <td
+                          className={`px-3 py-0.5 whitespace-pre-wrap break-all align-top ${cellClass(
+                            row.type,
+                            'left'
+                          )}`}
+                        >
+                          {row.left ?? ''}
+                        </td>
+                        <td
+                          className={`px-3 py-0.5 whitespace-pre-wrap break-all align-top ${cellClass(
+                            row.type,
+                            'right'
+                          )}`}
+                        >
+                          {row.right ?? ''}
+                        </td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 function AdminPageClient() {
   const [config, setConfig] = useState<AdminConfig | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [role, setRole] = useState<'owner' | 'admin' | null>(null);
+  const [configFileError, setConfigFileError] = useState<string | null>(null);
   const [expandedTabs, setExpandedTabs] = useState<{ [key: string]: boolean }>({
     userConfig: false,
     videoSource: false,
@@ -2973,6 +4942,8 @@ function AdminPageClient() {
     categoryConfig: false,
     configFile: false,
     subscriptionConfig: false,
+    auditLog: false,
+    configHistory: false,
   });
 
   // 获取管理员配置
@@ -2993,6 +4964,10 @@ function AdminPageClient() {
       const data = (await response.json()) as AdminConfigResult;
       setConfig(data.Config);
       setRole(data.Role);
+      setConfigFileError(data.ConfigFileError || null);
+      if (data.ConfigFileError) {
+        setExpandedTabs((prev) => ({ ...prev, configFile: true }));
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : '获取配置失败';
       showError(msg);
@@ -3129,7 +5104,11 @@ function AdminPageClient() {
             isExpanded={expandedTabs.configFile}
             onToggle={() => toggleTab('configFile')}
           >
-            <ConfigFileComponent config={config} refreshConfig={fetchConfig} />
+            <ConfigFileComponent
+              config={config}
+              loadError={configFileError}
+              refreshConfig={fetchConfig}
+            />
           </CollapsibleTab>
 
           {/* 站点配置标签 */}
@@ -3191,6 +5170,36 @@ function AdminPageClient() {
               <CategoryConfig config={config} refreshConfig={fetchConfig} />
             </CollapsibleTab>
 
+            {/* 审计日志标签 */}
+            <CollapsibleTab
+              title='审计日志'
+              icon={
+                <History
+                  size={20}
+                  className='text-gray-600 dark:text-gray-400'
+                />
+              }
+              isExpanded={expandedTabs.auditLog}
+              onToggle={() => toggleTab('auditLog')}
+            >
+              <AuditLogViewer role={role} />
+            </CollapsibleTab>
+
+            {/* 配置历史标签 */}
+            <CollapsibleTab
+              title='配置历史'
+              icon={
+                <GitCompare
+                  size={20}
+                  className='text-gray-600 dark:text-gray-400'
+                />
+              }
+              isExpanded={expandedTabs.configHistory}
+              onToggle={() => toggleTab('configHistory')}
+            >
+              <ConfigHistoryViewer role={role} refreshConfig={fetchConfig} />
+            </CollapsibleTab>
+
             {/* 数据迁移标签 - 仅站长可见 */}
             {role === 'owner' && (
               <CollapsibleTab
@@ -0,0 +1,135 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  listAllApiTokens,
+  revokeApiToken,
+  toPublicApiToken,
+} from '@/lib/api-token';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth, resolveUserRole } from '@/lib/authz';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/admin/api_token
+ * 返回全部用户的 API 令牌及最近使用时间，用于审计
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const tokens = await listAllApiTokens();
+    return NextResponse.json(
+      { tokens: tokens.map(toPublicApiToken) },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取 API 令牌列表失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取 API 令牌列表失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/api_token
+ * body: { action: 'revoke', id: string }
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const { action, id } = (await request.json()) as {
+      action?: string;
+      id?: string;
+    };
+    if (action !== 'revoke' || !id) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    const tokens = await listAllApiTokens();
+    const target = tokens.find((t) => t.id === id);
+    if (!target) {
+      return NextResponse.json({ error: '令牌不存在' }, { status: 404 });
+    }
+
+    // 与用户管理一致：管理员仅可吊销普通用户（及自己）的令牌
+    if (target.username !== authInfo.username) {
+      const [operatorRole, targetRole] = await Promise.all([
+        resolveUserRole(authInfo.username),
+        resolveUserRole(target.username),
+      ]);
+      if (
+        (targetRole === 'admin' || targetRole === 'owner') &&
+        operatorRole !== 'owner'
+      ) {
+        return NextResponse.json(
+          { error: '仅站长可吊销管理员的令牌' },
+          { status: 401 }
+        );
+      }
+    }
+
+    await revokeApiToken(id, target.username);
+    await recordAudit(
+      authInfo.username,
+      'api_token.revoke',
+      target.username,
+      toPublicApiToken(target)
+    );
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('吊销 API 令牌失败:', error);
+    return NextResponse.json(
+      {
+        error: '吊销 API 令牌失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
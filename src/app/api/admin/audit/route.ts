@@ -0,0 +1,166 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getAuditRetentionDays,
+  MAX_AUDIT_PAGE_SIZE,
+  pruneAuditLogs,
+  recordAudit,
+} from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import { getStorage } from '@/lib/db';
+import { AdminConfigConflictError, AuditLogQuery } from '@/lib/types';
+
+export const runtime = 'edge';
+
+// 日志列表默认每页条数
+const DEFAULT_PAGE_SIZE = 20;
+
+// 保留天数上限（约十年）
+const MAX_RETENTION_DAYS = 3650;
+
+/**
+ * GET /api/admin/audit?page=1&pageSize=20&actor=&action=&target=&since=&until=
+ * 按时间倒序分页返回审计日志
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageSize = Math.min(
+    MAX_AUDIT_PAGE_SIZE,
+    Math.max(1, Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE)
+  );
+  const timeParam = (name: string) => {
+    const value = Number(searchParams.get(name));
+    return searchParams.get(name) && Number.isFinite(value) ? value : undefined;
+  };
+  const query: AuditLogQuery = {
+    actor: searchParams.get('actor')?.trim() || undefined,
+    action: searchParams.get('action')?.trim() || undefined,
+    target: searchParams.get('target')?.trim() || undefined,
+    since: timeParam('since'),
+    until: timeParam('until'),
+  };
+
+  try {
+    const config = await getConfig();
+    const { entries, total } = await getStorage().listAuditLogs(
+      query,
+      (page - 1) * pageSize,
+      pageSize
+    );
+    return NextResponse.json(
+      {
+        entries,
+        total,
+        page,
+        pageSize,
+        retentionDays: getAuditRetentionDays(config),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取审计日志失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取审计日志失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/audit
+ * body: { retentionDays: number } 设置审计日志保留天数
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const { retentionDays } = (await request.json()) as {
+      retentionDays?: unknown;
+    };
+    if (
+      typeof retentionDays !== 'number' ||
+      !Number.isInteger(retentionDays) ||
+      retentionDays < 1 ||
+      retentionDays > MAX_RETENTION_DAYS
+    ) {
+      return NextResponse.json(
+        { error: `保留天数需为 1-${MAX_RETENTION_DAYS} 的整数` },
+        { status: 400 }
+      );
+    }
+
+    const adminConfig = await getConfig();
+    const before = getAuditRetentionDays(adminConfig);
+    adminConfig.AuditLogConfig = { RetentionDays: retentionDays };
+    await saveAdminConfig(adminConfig, authInfo.username, 'audit.setRetention');
+    await recordAudit(
+      authInfo.username,
+      'audit.setRetention',
+      '',
+      { RetentionDays: before },
+      { RetentionDays: retentionDays }
+    );
+    await pruneAuditLogs();
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('设置审计日志保留天数失败:', error);
+    return NextResponse.json(
+      {
+        error: '设置审计日志保留天数失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
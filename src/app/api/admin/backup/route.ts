@@ -0,0 +1,138 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import {
+  BackupDisabledError,
+  BackupNotFoundError,
+  createBackup,
+  deleteBackup,
+  getBackupSettings,
+  isBackupId,
+  listBackups,
+  readBackup,
+  restoreBackup,
+} from '@/lib/backup';
+import { getConfig } from '@/lib/config';
+import { BackupFormatError } from '@/lib/data-import';
+
+export const runtime = 'edge';
+
+function errorStatus(error: unknown): number {
+  if (error instanceof BackupNotFoundError) return 404;
+  if (error instanceof BackupDisabledError) return 400;
+  if (error instanceof BackupFormatError) return 400;
+  return 500;
+}
+
+/**
+ * GET /api/admin/backup
+ * 返回备份设置与备份列表；带 id 参数时下载对应的备份文件
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行数据备份' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  const id = request.nextUrl.searchParams.get('id');
+  try {
+    if (id !== null) {
+      const content = await readBackup(id);
+      return new NextResponse(content, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="${id}"`,
+          'Content-Length': content.length.toString(),
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { settings: getBackupSettings(), backups: await listBackups() },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('读取备份失败:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || '读取备份失败' },
+      { status: errorStatus(error) }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/backup
+ * body: { action: 'create' } | { action: 'restore' | 'delete', id: string }
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行数据备份' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  let body: { action?: string; id?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: '请求体格式错误' }, { status: 400 });
+  }
+
+  const { action, id } = body;
+  if (action !== 'create' && !isBackupId(id)) {
+    return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+  }
+
+  try {
+    switch (action) {
+      case 'create':
+        return NextResponse.json({ backup: await createBackup('manual') });
+      case 'restore': {
+        const before = await getConfig();
+        const result = await restoreBackup(id as string);
+        await recordAudit(
+          authInfo.username,
+          'backup.restore',
+          id as string,
+          before,
+          await getConfig()
+        );
+        return NextResponse.json({ message: '已从备份恢复数据', ...result });
+      }
+      case 'delete':
+        await deleteBackup(id as string);
+        return NextResponse.json({ ok: true });
+      default:
+        return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('备份操作失败:', error);
+    return NextResponse.json(
+      { error: (error as Error).message || '备份操作失败' },
+      { status: errorStatus(error) }
+    );
+  }
+}
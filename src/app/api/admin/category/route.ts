@@ -2,10 +2,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
 import { getStorage } from '@/lib/db';
-import { IStorage } from '@/lib/types';
+import { AdminConfigConflictError, IStorage } from '@/lib/types';
 
 export const runtime = 'edge';
 
@@ -31,9 +33,9 @@ export async function POST(request: NextRequest) {
     const body = (await request.json()) as BaseBody & Record<string, any>;
     const { action } = body;
 
-    const authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
     }
     const username = authInfo.username;
 
@@ -46,16 +48,9 @@ export async function POST(request: NextRequest) {
     // 获取配置与存储
     const adminConfig = await getConfig();
     const storage: IStorage | null = getStorage();
-
-    // 权限与身份校验
-    if (username !== process.env.USERNAME) {
-      const userEntry = adminConfig.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-    }
+    const categoriesBefore = JSON.parse(
+      JSON.stringify(adminConfig.CustomCategories)
+    );
 
     switch (action) {
       case 'add': {
@@ -177,8 +172,15 @@ export async function POST(request: NextRequest) {
 
     // 持久化到存储
     if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+      await saveAdminConfig(adminConfig, username, `category.${action}`);
     }
+    await recordAudit(
+      username,
+      `category.${action}`,
+      body.name || body.query || '',
+      { CustomCategories: categoriesBefore },
+      { CustomCategories: adminConfig.CustomCategories }
+    );
 
     return NextResponse.json(
       { ok: true },
@@ -189,6 +191,9 @@ export async function POST(request: NextRequest) {
       }
     );
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error('分类管理操作失败:', error);
     return NextResponse.json(
       {
@@ -3,8 +3,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { AdminConfigResult } from '@/lib/admin.types';
-import { getAuthInfoFromCookie } from '@/lib/auth';
-import { getConfig } from '@/lib/config';
+import { requireAuth, resolveUserRole } from '@/lib/authz';
+import { getConfig, getConfigFileError } from '@/lib/config';
 
 export const runtime = 'edge';
 
@@ -19,30 +19,28 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
   const username = authInfo.username;
 
   try {
     const config = await getConfig();
+    const role = await resolveUserRole(username);
+    if (role !== 'owner' && role !== 'admin') {
+      return NextResponse.json(
+        { error: '你是管理员吗你就访问？' },
+        { status: 401 }
+      );
+    }
     const result: AdminConfigResult = {
-      Role: 'owner',
+      Role: role,
       Config: config,
     };
-    if (username === process.env.USERNAME) {
-      result.Role = 'owner';
-    } else {
-      const user = config.UserConfig.Users.find((u) => u.username === username);
-      if (user && user.role === 'admin' && !user.banned) {
-        result.Role = 'admin';
-      } else {
-        return NextResponse.json(
-          { error: '你是管理员吗你就访问？' },
-          { status: 401 }
-        );
-      }
+    const configFileError = getConfigFileError();
+    if (configFileError) {
+      result.ConfigFileError = configFileError;
     }
 
     return NextResponse.json(result, {
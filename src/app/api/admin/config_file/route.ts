@@ -2,9 +2,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import { formatIssues, parseConfigFile } from '@/lib/config-schema';
 import { getStorage } from '@/lib/db';
+import { AdminConfigConflictError } from '@/lib/types';
 
 export const runtime = 'edge';
 
@@ -19,27 +23,16 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
-  const username = authInfo.username;
 
   try {
     // 检查用户权限
     const adminConfig = await getConfig();
     const storage = getStorage();
 
-    if (username !== process.env.USERNAME) {
-      const user = adminConfig.UserConfig.Users.find((u) => u.username === username);
-      if (!user || user.role !== 'admin' || user.banned) {
-        return NextResponse.json(
-          { error: '权限不足，只有管理员可以修改配置文件' },
-          { status: 403 }
-        );
-      }
-    }
-
     // 获取请求体
     const body = await request.json();
     const { configFile } = body;
@@ -51,33 +44,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 验证 JSON 格式
-    try {
-      JSON.parse(configFile);
-    } catch (e) {
+    // 校验 JSON 语法与配置结构，错误附带字段路径与行列，供编辑器标注
+    const checked = parseConfigFile(configFile);
+    if (!checked.success) {
       return NextResponse.json(
-        { error: '配置文件格式错误，请检查 JSON 语法' },
+        {
+          error: `配置文件校验失败：${formatIssues(checked.issues)}`,
+          issues: checked.issues,
+        },
         { status: 400 }
       );
     }
 
     // 更新配置文件
+    const configFileBefore = adminConfig.ConfigFile;
     adminConfig.ConfigFile = configFile;
-    
+
     if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+      await saveAdminConfig(
+        adminConfig,
+        authInfo.username,
+        'config_file.update'
+      );
+      // 按解析后的字段记录变更，而不是整段 JSON 文本
+      let parsedBefore: unknown = configFileBefore;
+      try {
+        parsedBefore = JSON.parse(configFileBefore);
+      } catch {
+        // 原配置文件不是合法 JSON 时按文本记录
+      }
+      await recordAudit(
+        authInfo.username,
+        'config_file.update',
+        '',
+        { ConfigFile: parsedBefore },
+        { ConfigFile: JSON.parse(configFile) }
+      );
 
       return NextResponse.json({
         success: true,
         message: '配置文件更新成功',
       });
     } else {
-      return NextResponse.json(
-        { error: '存储服务不可用' },
-        { status: 500 }
-      );
+      return NextResponse.json({ error: '存储服务不可用' }, { status: 500 });
     }
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error('更新配置文件失败:', error);
     return NextResponse.json(
       {
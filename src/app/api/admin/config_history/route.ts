@@ -0,0 +1,162 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import {
+  ConfigHistoryNotFoundError,
+  getConfigHistoryLimit,
+  getConfigVersion,
+  listConfigHistory,
+  restoreConfigVersion,
+} from '@/lib/config-history';
+import { ConfigValidationError, formatIssues } from '@/lib/config-schema';
+import { getStorage } from '@/lib/db';
+import { AdminConfigConflictError } from '@/lib/types';
+
+export const runtime = 'edge';
+
+function parseVersion(value: unknown): number | null {
+  if (value === null || value === '') return null;
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+/**
+ * GET /api/admin/config_history
+ * 返回配置历史版本列表；带 version 参数时返回该版本与当前的完整配置，供页面对比
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  const versionParam = request.nextUrl.searchParams.get('version');
+  try {
+    if (versionParam !== null) {
+      const version = parseVersion(versionParam);
+      if (version === null) {
+        return NextResponse.json({ error: '版本号格式错误' }, { status: 400 });
+      }
+      return NextResponse.json(
+        {
+          version,
+          config: await getConfigVersion(version),
+          current: await getStorage().getAdminConfig(),
+        },
+        {
+          headers: {
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    return NextResponse.json(
+      { history: await listConfigHistory(), limit: getConfigHistoryLimit() },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ConfigHistoryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('获取配置历史失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取配置历史失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/config_history
+ * body: { version: number } 将该历史版本恢复为当前配置
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const { version: versionParam } = (await request.json()) as {
+      version?: unknown;
+    };
+    const version = parseVersion(versionParam);
+    if (version === null) {
+      return NextResponse.json({ error: '版本号格式错误' }, { status: 400 });
+    }
+
+    const before = await getStorage().getAdminConfig();
+    const restored = await restoreConfigVersion(version, authInfo.username);
+    await recordAudit(
+      authInfo.username,
+      'config.rollback',
+      String(version),
+      before,
+      restored
+    );
+
+    return NextResponse.json(
+      { ok: true, version: restored.Version },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof ConfigHistoryNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ConfigValidationError) {
+      return NextResponse.json(
+        {
+          error: `${error.message}：${formatIssues(error.issues)}`,
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    console.error('回滚配置失败:', error);
+    return NextResponse.json(
+      {
+        error: '回滚配置失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,10 +2,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
 import { getStorage } from '@/lib/db';
-import { IStorage } from '@/lib/types';
+import { AdminConfigConflictError, IStorage, UserRecord } from '@/lib/types';
+import {
+  forEachUserRecord,
+  getUserRecord,
+  saveUserRecord,
+} from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
@@ -30,25 +37,14 @@ export async function POST(request: NextRequest) {
     const body = (await request.json()) as Record<string, any>;
     const { action } = body as { action?: Action };
 
-    const authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
     }
-    const username = authInfo.username;
 
     const adminConfig = await getConfig();
     const storage: IStorage | null = getStorage();
 
-    // 权限与身份校验：站长或管理员
-    if (username !== process.env.USERNAME) {
-      const userEntry = adminConfig.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-    }
-
     if (!action) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
@@ -58,6 +54,26 @@ export async function POST(request: NextRequest) {
       adminConfig.UserConfig.Groups = [];
     }
 
+    const groupsBefore = JSON.parse(
+      JSON.stringify({
+        Groups: adminConfig.UserConfig.Groups,
+        InviteCodes: adminConfig.UserConfig.InviteCodes,
+      })
+    );
+    // 用户分组变更，用于审计日志
+    const membersBefore: Record<string, string | null> = {};
+    const membersAfter: Record<string, string | null> = {};
+    const moveUser = async (u: UserRecord, group: string | undefined) => {
+      membersBefore[u.username] = u.group ?? null;
+      membersAfter[u.username] = group ?? null;
+      await saveUserRecord({ ...u, group });
+    };
+
+    // 分配用户只修改用户记录，无需写回配置
+    let configChanged = true;
+    // 配置写入成功后再同步用户记录上的分组
+    let syncUsers: (() => Promise<void>) | null = null;
+
     switch (action) {
       case 'create': {
         const { name, sourceKeys } = body as {
@@ -78,8 +94,12 @@ export async function POST(request: NextRequest) {
         if (idx === -1) return NextResponse.json({ error: '分组不存在' }, { status: 404 });
         adminConfig.UserConfig.Groups.splice(idx, 1);
         // 同步清除用户上的该组标记
-        adminConfig.UserConfig.Users.forEach((u) => {
-          if (u.group === name) delete (u as any).group;
+        syncUsers = () =>
+          forEachUserRecord(async (u) => {
+            if (u.group === name) await moveUser(u, undefined);
+          });
+        (adminConfig.UserConfig.InviteCodes || []).forEach((i) => {
+          if (i.group === name) delete i.group;
         });
         break;
       }
@@ -93,8 +113,12 @@ export async function POST(request: NextRequest) {
         if (!group) return NextResponse.json({ error: '分组不存在' }, { status: 404 });
         group.name = newName;
         // 同步用户上的分组名
-        adminConfig.UserConfig.Users.forEach((u) => {
-          if (u.group === name) (u as any).group = newName;
+        syncUsers = () =>
+          forEachUserRecord(async (u) => {
+            if (u.group === name) await moveUser(u, newName);
+          });
+        (adminConfig.UserConfig.InviteCodes || []).forEach((i) => {
+          if (i.group === name) i.group = newName;
         });
         break;
       }
@@ -115,10 +139,13 @@ export async function POST(request: NextRequest) {
         }
         const group = adminConfig.UserConfig.Groups.find((g) => g.name === name);
         if (!group) return NextResponse.json({ error: '分组不存在' }, { status: 404 });
-        const userSet = new Set(users);
-        adminConfig.UserConfig.Users.forEach((u) => {
-          if (userSet.has(u.username)) (u as any).group = name;
-        });
+        configChanged = false;
+        syncUsers = async () => {
+          for (const username of Array.from(new Set(users))) {
+            const u = await getUserRecord(username);
+            if (u) await moveUser(u, name);
+          }
+        };
         break;
       }
       case 'removeUsers': {
@@ -126,21 +153,41 @@ export async function POST(request: NextRequest) {
         if (!Array.isArray(users)) {
           return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
         }
-        const userSet = new Set(users);
-        adminConfig.UserConfig.Users.forEach((u) => {
-          if (userSet.has(u.username)) delete (u as any).group;
-        });
+        configChanged = false;
+        syncUsers = async () => {
+          for (const username of Array.from(new Set(users))) {
+            const u = await getUserRecord(username);
+            if (u?.group) await moveUser(u, undefined);
+          }
+        };
         break;
       }
       default:
         return NextResponse.json({ error: '未知操作' }, { status: 400 });
     }
 
-    if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+    if (configChanged && storage && typeof (storage as any).setAdminConfig === 'function') {
+      await saveAdminConfig(adminConfig, authInfo.username, `group.${action}`);
+    }
+    if (syncUsers) {
+      await syncUsers();
     }
+    await recordAudit(
+      authInfo.username,
+      `group.${action}`,
+      body.name || '',
+      { ...groupsBefore, Members: membersBefore },
+      {
+        Groups: adminConfig.UserConfig.Groups,
+        InviteCodes: adminConfig.UserConfig.InviteCodes,
+        Members: membersAfter,
+      }
+    );
     return NextResponse.json({ ok: true }, { headers: { 'Cache-Control': 'no-store' } });
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error('分组管理操作失败:', error);
     return NextResponse.json({ error: '分组管理操作失败', details: (error as Error).message }, { status: 500 });
   }
@@ -0,0 +1,141 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import { getStorage } from '@/lib/db';
+import { generateInviteCode, normalizeInviteCode } from '@/lib/invite';
+import { AdminConfigConflictError, IStorage } from '@/lib/types';
+
+export const runtime = 'edge';
+
+type Action = 'create' | 'delete';
+
+/**
+ * POST /api/admin/invite
+ * body: { action: 'create', maxUses, expiresInHours?, group? } -> 返回 { code }
+ * body: { action: 'delete', code }
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行管理员配置' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = (await request.json()) as Record<string, any>;
+    const { action } = body as { action?: Action };
+
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
+    }
+
+    const adminConfig = await getConfig();
+    const storage: IStorage | null = getStorage();
+
+    if (!adminConfig.UserConfig.InviteCodes) {
+      adminConfig.UserConfig.InviteCodes = [];
+    }
+    const invitesBefore = JSON.parse(
+      JSON.stringify(adminConfig.UserConfig.InviteCodes)
+    );
+
+    let code: string | undefined;
+    switch (action) {
+      case 'create': {
+        const { maxUses, expiresInHours, group } = body as {
+          maxUses?: number;
+          expiresInHours?: number;
+          group?: string;
+        };
+        if (
+          typeof maxUses !== 'number' ||
+          !Number.isInteger(maxUses) ||
+          maxUses < 1
+        ) {
+          return NextResponse.json(
+            { error: '可使用次数必须为正整数' },
+            { status: 400 }
+          );
+        }
+        if (
+          expiresInHours !== undefined &&
+          (typeof expiresInHours !== 'number' || expiresInHours <= 0)
+        ) {
+          return NextResponse.json(
+            { error: '有效期格式错误' },
+            { status: 400 }
+          );
+        }
+        if (
+          group &&
+          !(adminConfig.UserConfig.Groups || []).some((g) => g.name === group)
+        ) {
+          return NextResponse.json({ error: '分组不存在' }, { status: 404 });
+        }
+
+        code = generateInviteCode();
+        const now = Date.now();
+        adminConfig.UserConfig.InviteCodes.push({
+          code,
+          maxUses,
+          used: 0,
+          ...(expiresInHours
+            ? { expiresAt: now + expiresInHours * 60 * 60 * 1000 }
+            : {}),
+          ...(group ? { group } : {}),
+          createdBy: authInfo.username,
+          createdAt: now,
+        });
+        break;
+      }
+      case 'delete': {
+        const { code: target } = body as { code?: string };
+        if (!target) {
+          return NextResponse.json({ error: '缺少邀请码' }, { status: 400 });
+        }
+        const idx = adminConfig.UserConfig.InviteCodes.findIndex(
+          (i) => i.code === normalizeInviteCode(target)
+        );
+        if (idx === -1) {
+          return NextResponse.json({ error: '邀请码不存在' }, { status: 404 });
+        }
+        adminConfig.UserConfig.InviteCodes.splice(idx, 1);
+        break;
+      }
+      default:
+        return NextResponse.json({ error: '未知操作' }, { status: 400 });
+    }
+
+    if (storage && typeof (storage as any).setAdminConfig === 'function') {
+      await saveAdminConfig(adminConfig, authInfo.username, `invite.${action}`);
+    }
+    await recordAudit(
+      authInfo.username,
+      `invite.${action}`,
+      code || normalizeInviteCode(String(body.code || '')),
+      { InviteCodes: invitesBefore },
+      { InviteCodes: adminConfig.UserConfig.InviteCodes }
+    );
+    return NextResponse.json(
+      { ok: true, ...(code ? { code } : {}) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('邀请码操作失败:', error);
+    return NextResponse.json(
+      { error: '邀请码操作失败', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import { listLockedLogins, unlockLogin } from '@/lib/login-guard';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/admin/login_lock
+ * 返回当前被锁定的用户名与 IP
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const locks = await listLockedLogins();
+    return NextResponse.json(
+      { locks },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取登录锁定列表失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取登录锁定列表失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/login_lock
+ * body: { action: 'unlock', key: string }
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const { action, key } = (await request.json()) as {
+      action?: string;
+      key?: string;
+    };
+    if (action !== 'unlock' || !key) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    const before = (await listLockedLogins()).find((l) => l.key === key);
+    await unlockLogin(key);
+    await recordAudit(authInfo.username, 'login_lock.unlock', key, before);
+
+    return NextResponse.json(
+      { ok: true },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('解除登录锁定失败:', error);
+    return NextResponse.json(
+      {
+        error: '解除登录锁定失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
-import { resetConfig } from '@/lib/config';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
+import { getConfig, resetConfig } from '@/lib/config';
 
 export const runtime = 'edge';
 
@@ -18,18 +19,16 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
   const username = authInfo.username;
 
-  if (username !== process.env.USERNAME) {
-    return NextResponse.json({ error: '仅支持站长重置配置' }, { status: 401 });
-  }
-
   try {
-    await resetConfig();
+    const before = await getConfig();
+    await resetConfig(username);
+    await recordAudit(username, 'config.reset', '', before, await getConfig());
 
     return NextResponse.json(
       { ok: true },
@@ -0,0 +1,97 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAuth } from '@/lib/authz';
+import {
+  getSchemaStatus,
+  runMigrations,
+  SchemaVersionError,
+} from '@/lib/migrations';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/admin/schema
+ * 返回存储结构版本与待执行的迁移
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const status = await getSchemaStatus();
+    return NextResponse.json(status, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('获取存储结构版本失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取存储结构版本失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/schema
+ * 立即执行待执行的迁移
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const applied = await runMigrations();
+    const status = await getSchemaStatus();
+    return NextResponse.json(
+      { ok: true, applied, ...status },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof SchemaVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('执行存储结构迁移失败:', error);
+    return NextResponse.json(
+      {
+        error: '执行存储结构迁移失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
 import { getStorage } from '@/lib/db';
+import { AdminConfigConflictError } from '@/lib/types';
 
 export const runtime = 'edge';
 
@@ -22,11 +25,10 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    const authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
     }
-    const username = authInfo.username;
 
     const {
       SiteName,
@@ -77,17 +79,7 @@ export async function POST(request: NextRequest) {
 
     const adminConfig = await getConfig();
     const storage = getStorage();
-
-    // 权限校验
-    if (username !== process.env.USERNAME) {
-      // 管理员
-      const user = adminConfig.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!user || user.role !== 'admin' || user.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-    }
+    const siteBefore = { ...adminConfig.SiteConfig };
 
     // 更新缓存中的站点设置
     adminConfig.SiteConfig = {
@@ -116,8 +108,15 @@ export async function POST(request: NextRequest) {
 
     // 写入数据库
     if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+      await saveAdminConfig(adminConfig, authInfo.username, 'site.update');
     }
+    await recordAudit(
+      authInfo.username,
+      'site.update',
+      '',
+      { SiteConfig: siteBefore },
+      { SiteConfig: adminConfig.SiteConfig }
+    );
 
     return NextResponse.json(
       { ok: true },
@@ -128,6 +127,9 @@ export async function POST(request: NextRequest) {
       }
     );
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error('更新站点配置失败:', error);
     return NextResponse.json(
       {
@@ -2,20 +2,54 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { SourceRequestProfile, SourceResponseFormat } from '@/lib/admin.types';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import {
+  checkSchema,
+  ConfigValidationError,
+  formatIssues,
+  sourceRequestProfileSchema,
+  sourceResponseFormatSchema,
+} from '@/lib/config-schema';
 import { getStorage } from '@/lib/db';
-import { IStorage } from '@/lib/types';
+import { AdminConfigConflictError, IStorage } from '@/lib/types';
 
 export const runtime = 'edge';
 
 // 支持的操作类型
-type Action = 'add' | 'disable' | 'enable' | 'delete' | 'sort' | 'batchDisable' | 'batchEnable' | 'batchDelete';
+type Action = 'add' | 'disable' | 'enable' | 'delete' | 'sort' | 'batchDisable' | 'batchEnable' | 'batchDelete' | 'updateProfile';
 
 interface BaseBody {
   action?: Action;
 }
 
+// 校验请求配置，去掉空的请求头后没有任何设置时返回 undefined
+function parseRequestProfile(value: unknown): SourceRequestProfile | undefined {
+  if (value === undefined || value === null) return undefined;
+  const checked = checkSchema(sourceRequestProfileSchema, value);
+  if (!checked.success) {
+    throw new ConfigValidationError('请求配置校验失败', checked.issues);
+  }
+  const profile = checked.data;
+  if (profile.headers && Object.keys(profile.headers).length === 0) {
+    delete profile.headers;
+  }
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+// 校验接口返回格式，未指定时返回 undefined 表示自动识别
+function parseResponseFormat(value: unknown): SourceResponseFormat | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const checked = checkSchema(sourceResponseFormatSchema, value);
+  if (!checked.success) {
+    throw new ConfigValidationError('接口格式校验失败', checked.issues);
+  }
+  return checked.data;
+}
+
 export async function POST(request: NextRequest) {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   if (storageType === 'localstorage') {
@@ -31,14 +65,14 @@ export async function POST(request: NextRequest) {
     const body = (await request.json()) as BaseBody & Record<string, any>;
     const { action } = body;
 
-    const authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
     }
     const username = authInfo.username;
 
     // 基础校验
-    const ACTIONS: Action[] = ['add', 'disable', 'enable', 'delete', 'sort', 'batchDisable', 'batchEnable', 'batchDelete'];
+    const ACTIONS: Action[] = ['add', 'disable', 'enable', 'delete', 'sort', 'batchDisable', 'batchEnable', 'batchDelete', 'updateProfile'];
     if (!username || !action || !ACTIONS.includes(action)) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
@@ -46,16 +80,7 @@ export async function POST(request: NextRequest) {
     // 获取配置与存储
     const adminConfig = await getConfig();
     const storage: IStorage | null = getStorage();
-
-    // 权限与身份校验
-    if (username !== process.env.USERNAME) {
-      const userEntry = adminConfig.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-    }
+    const sourcesBefore = JSON.parse(JSON.stringify(adminConfig.SourceConfig));
 
     switch (action) {
       case 'add': {
@@ -71,6 +96,8 @@ export async function POST(request: NextRequest) {
         if (adminConfig.SourceConfig.some((s) => s.key === key)) {
           return NextResponse.json({ error: '该源已存在' }, { status: 400 });
         }
+        const profile = parseRequestProfile(body.request);
+        const format = parseResponseFormat(body.format);
         adminConfig.SourceConfig.push({
           key,
           name,
@@ -78,6 +105,8 @@ export async function POST(request: NextRequest) {
           detail,
           from: 'custom',
           disabled: false,
+          ...(profile ? { request: profile } : {}),
+          ...(format ? { format } : {}),
         });
         break;
       }
@@ -89,6 +118,7 @@ export async function POST(request: NextRequest) {
         if (!entry)
           return NextResponse.json({ error: '源不存在' }, { status: 404 });
         entry.disabled = true;
+        delete entry.autoDisabled;
         break;
       }
       case 'enable': {
@@ -99,6 +129,7 @@ export async function POST(request: NextRequest) {
         if (!entry)
           return NextResponse.json({ error: '源不存在' }, { status: 404 });
         entry.disabled = false;
+        delete entry.autoDisabled;
         break;
       }
       case 'delete': {
@@ -148,6 +179,7 @@ export async function POST(request: NextRequest) {
           const entry = adminConfig.SourceConfig.find((s) => s.key === key);
           if (entry) {
             entry.disabled = true;
+            delete entry.autoDisabled;
           }
         });
         break;
@@ -161,6 +193,7 @@ export async function POST(request: NextRequest) {
           const entry = adminConfig.SourceConfig.find((s) => s.key === key);
           if (entry) {
             entry.disabled = false;
+            delete entry.autoDisabled;
           }
         });
         break;
@@ -182,14 +215,43 @@ export async function POST(request: NextRequest) {
         });
         break;
       }
+      case 'updateProfile': {
+        const { key } = body as { key?: string };
+        if (!key)
+          return NextResponse.json({ error: '缺少 key 参数' }, { status: 400 });
+        const entry = adminConfig.SourceConfig.find((s) => s.key === key);
+        if (!entry)
+          return NextResponse.json({ error: '源不存在' }, { status: 404 });
+        // 传入空配置时清除请求配置，恢复默认请求方式；未指定格式时恢复自动识别
+        const profile = parseRequestProfile(body.request);
+        const format = parseResponseFormat(body.format);
+        if (profile) {
+          entry.request = profile;
+        } else {
+          delete entry.request;
+        }
+        if (format) {
+          entry.format = format;
+        } else {
+          delete entry.format;
+        }
+        break;
+      }
       default:
         return NextResponse.json({ error: '未知操作' }, { status: 400 });
     }
 
     // 持久化到存储
     if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+      await saveAdminConfig(adminConfig, username, `source.${action}`);
     }
+    await recordAudit(
+      username,
+      `source.${action}`,
+      body.key || (Array.isArray(body.keys) ? body.keys.join(',') : ''),
+      { SourceConfig: sourcesBefore },
+      { SourceConfig: adminConfig.SourceConfig }
+    );
 
     return NextResponse.json(
       { ok: true },
@@ -200,6 +262,18 @@ export async function POST(request: NextRequest) {
       }
     );
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ConfigValidationError) {
+      return NextResponse.json(
+        {
+          error: `${error.message}：${formatIssues(error.issues)}`,
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
     console.error('视频源管理操作失败:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,66 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAuth } from '@/lib/authz';
+import { getConfig } from '@/lib/config';
+import { getStorage } from '@/lib/db';
+import {
+  getSourceHealthSettings,
+  SOURCE_HEALTH_HISTORY,
+} from '@/lib/source-health';
+import { SourceHealthProbe } from '@/lib/types';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/admin/source_health
+ * 返回各视频源最近的健康检查记录（按探测时间倒序）与自动禁用阈值
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  try {
+    const { SourceConfig } = await getConfig();
+    const storage = getStorage();
+    const probes: Record<string, SourceHealthProbe[]> = {};
+    for (const source of SourceConfig) {
+      probes[source.key] = await storage.listSourceHealthProbes(
+        source.key,
+        SOURCE_HEALTH_HISTORY
+      );
+    }
+    const { failureThreshold, interval } = getSourceHealthSettings();
+
+    return NextResponse.json(
+      { probes, failureThreshold, interval },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取视频源健康状态失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取视频源健康状态失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
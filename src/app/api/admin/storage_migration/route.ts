@@ -0,0 +1,121 @@
+/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireAuth } from '@/lib/authz';
+import {
+  getStorage,
+  isCurrentStorage,
+  openTargetStorage,
+  StorageTarget,
+  TargetStorage,
+} from '@/lib/db';
+import { migrateStep, MigrationCheckpoint } from '@/lib/storage-migration';
+
+export const runtime = 'edge';
+
+// 校验并规整请求中的目标存储连接信息
+function parseTarget(raw: any): StorageTarget | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const url = typeof raw.url === 'string' ? raw.url.trim() : '';
+  switch (raw.type) {
+    case 'redis':
+    case 'kvrocks':
+      return url ? { type: raw.type, url } : null;
+    case 'upstash': {
+      const token = typeof raw.token === 'string' ? raw.token.trim() : '';
+      return url && token ? { type: 'upstash', url, token } : null;
+    }
+    case 'd1':
+      return { type: 'd1' };
+    case 'sqlite': {
+      const path = typeof raw.path === 'string' ? raw.path.trim() : '';
+      return path ? { type: 'sqlite', path } : { type: 'sqlite' };
+    }
+    default:
+      return null;
+  }
+}
+
+function isCheckpoint(raw: any): raw is MigrationCheckpoint {
+  return (
+    !!raw &&
+    ['copy', 'verify', 'done'].includes(raw.phase) &&
+    typeof raw.cursor === 'string' &&
+    typeof raw.copied === 'object' &&
+    Array.isArray(raw.mismatches)
+  );
+}
+
+/**
+ * POST /api/admin/storage_migration
+ * body: { target: StorageTarget, checkpoint?: MigrationCheckpoint }
+ * 每次调用执行一步迁移并返回新的检查点，前端循环调用直至 phase 为 done
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '不支持本地存储进行数据迁移' },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: '请求体格式错误' }, { status: 400 });
+  }
+
+  const target = parseTarget(body?.target);
+  if (!target) {
+    return NextResponse.json({ error: '目标存储参数不完整' }, { status: 400 });
+  }
+  if (isCurrentStorage(target)) {
+    return NextResponse.json(
+      { error: '目标存储与当前存储相同' },
+      { status: 400 }
+    );
+  }
+  if (body.checkpoint != null && !isCheckpoint(body.checkpoint)) {
+    return NextResponse.json({ error: '检查点格式错误' }, { status: 400 });
+  }
+
+  let targetStorage: TargetStorage | null = null;
+  try {
+    targetStorage = await openTargetStorage(target);
+    const checkpoint = await migrateStep(
+      getStorage(),
+      targetStorage.storage,
+      body.checkpoint ?? null
+    );
+    return NextResponse.json(
+      { checkpoint },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('存储迁移失败:', error);
+    return NextResponse.json(
+      {
+        error: '存储迁移失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  } finally {
+    // 每次调用都关闭目标连接，避免连接在进程内堆积
+    await targetStorage?.close().catch((err) => {
+      console.error('关闭目标存储连接失败:', err);
+    });
+  }
+}
@@ -2,115 +2,48 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { Subscription } from '@/lib/admin.types';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { configSelfCheck,getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import {
+  assertValidAdminConfig,
+  checkSchema,
+  ConfigValidationError,
+  formatIssues,
+  subscriptionSettingsSchema,
+} from '@/lib/config-schema';
 import { getStorage } from '@/lib/db';
-import { IStorage } from '@/lib/types';
+import {
+  applySubscriptionImport,
+  fetchSubscriptionData,
+  findSubscription,
+  generateSubscriptionId,
+  normalizeSubscriptions,
+  previewSubscriptionImport,
+  removeSubscription,
+  SubscriptionNotFoundError,
+} from '@/lib/subscription';
+import { AdminConfigConflictError, IStorage } from '@/lib/types';
 
 export const runtime = 'edge';
 
-// 支持的操作类型
-type Action = 'update' | 'import' | 'check';
+// 支持的操作类型；页面触发的自动更新检查见 /api/subscription/check
+type Action = 'save' | 'delete' | 'preview' | 'import';
 
 interface BaseBody {
   action?: Action;
 }
 
-// Base58 解码函数（使用 BigInt，边缘运行时支持）
-function decodeBase58(str: string): string {
-  const alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-  // @ts-expect-error BigInt is supported in edge runtime
-  let num = 0n;
-  for (const ch of str) {
-    const index = alphabet.indexOf(ch);
-    if (index === -1) throw new Error('Invalid Base58 character');
-    // @ts-expect-error BigInt is supported in edge runtime
-    num = num * 58n + BigInt(index);
-  }
-  // 转换为字节数组
-  const bytes: number[] = [];
-  // @ts-expect-error BigInt is supported in edge runtime
-  while (num > 0n) {
-    // @ts-expect-error BigInt is supported in edge runtime
-    bytes.unshift(Number(num & 0xffn));
-    // @ts-expect-error BigInt is supported in edge runtime
-    num >>= 8n;
-  }
-  // 转换为 UTF-8 字符串
-  return new TextDecoder().decode(new Uint8Array(bytes));
-}
-
-// 从 URL 获取并解析订阅数据
-async function fetchSubscriptionData(url: string): Promise<any> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-  }
-  const text = await response.text();
-  // 尝试 Base58 解码
-  try {
-    const decoded = decodeBase58(text);
-    return JSON.parse(decoded);
-  } catch (e) {
-    // 如果不是 Base58，直接解析为 JSON
-    return JSON.parse(text);
-  }
-}
-
-// 导入数据到配置
-function importSources(adminConfig: any, subscriptionData: any, importMode: 'overwrite' | 'merge') {
-  // 假设 subscriptionData 是一个对象，包含 api_site 和 custom_category
-  const { api_site = {}} = subscriptionData;
-
-  if (importMode === 'overwrite') {
-    // 完全覆盖：清空现有 SourceConfig
-    adminConfig.SourceConfig = [];
-    // 更新 ConfigFile，将 api_site 置为空，保留其他字段
-    const defaultConfig = {
-      cache_time: 7200,
-      api_site: {},
-      custom_category: [],
-    };
-    const configFileObj = { ...defaultConfig };
-    try {
-      if (adminConfig.ConfigFile && typeof adminConfig.ConfigFile === 'string') {
-        const parsed = JSON.parse(adminConfig.ConfigFile);
-        // 保留原有 cache_time 和 custom_category（如果存在）
-        configFileObj.cache_time = parsed.cache_time ?? defaultConfig.cache_time;
-        configFileObj.custom_category = parsed.custom_category ?? defaultConfig.custom_category;
-      }
-    } catch (e) {
-      // 解析失败，使用默认值
-    }
-    // 确保 api_site 为空对象
-    configFileObj.api_site = {};
-    adminConfig.ConfigFile = JSON.stringify(configFileObj);
-  }
-
-  // 合并 api_site
-  const existingKeys = new Set(adminConfig.SourceConfig.map((s: any) => s.key));
-  Object.entries(api_site).forEach(([key, site]: [string, any]) => {
-    if (existingKeys.has(key)) {
-      // 更新现有源
-      const existing = adminConfig.SourceConfig.find((s: any) => s.key === key);
-      if (existing) {
-        existing.name = site.name;
-        existing.api = site.api;
-        existing.detail = site.detail;
-        existing.from = 'config';
-      }
-    } else {
-      // 添加新源
-      adminConfig.SourceConfig.push({
-        key,
-        name: site.name,
-        api: site.api,
-        detail: site.detail,
-        from: 'config',
-        disabled: false,
-      });
-    }
-  });
+function validationErrorResponse(error: ConfigValidationError) {
+  return NextResponse.json(
+    {
+      error: `${error.message}：${formatIssues(error.issues)}`,
+      issues: error.issues,
+    },
+    { status: 400 }
+  );
 }
 
 export async function GET(request: NextRequest) {
@@ -124,26 +57,15 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
-  const username = authInfo.username;
 
   try {
     const config = await getConfig();
-    // 权限校验
-    if (username !== process.env.USERNAME) {
-      const userEntry = config.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-    }
-
     return NextResponse.json({
-      subscriptionConfig: config.SubscriptionConfig || {},
+      subscriptions: normalizeSubscriptions(config),
     });
   } catch (error) {
     console.error('获取订阅配置失败:', error);
@@ -168,128 +90,108 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
   try {
     const body = (await request.json()) as BaseBody & Record<string, any>;
     const { action } = body;
 
     // 基础校验
-    const ACTIONS: Action[] = ['update', 'import', 'check'];
+    const ACTIONS: Action[] = ['save', 'delete', 'preview', 'import'];
     if (!action || !ACTIONS.includes(action)) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
 
-    // 对于 update 和 import 操作需要身份验证
-    let username: string | null = null;
-    if (action === 'update' || action === 'import') {
-      const authInfo = getAuthInfoFromCookie(request);
-      if (!authInfo || !authInfo.username) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-      }
-      username = authInfo.username;
-    }
-
     // 获取配置与存储
     const adminConfig = await getConfig();
     const storage: IStorage | null = getStorage();
-
-    // 权限与身份校验（仅对 update 和 import）
-    if (username) {
-      if (username !== process.env.USERNAME) {
-        const userEntry = adminConfig.UserConfig.Users.find(
-          (u) => u.username === username
-        );
-        if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-          return NextResponse.json({ error: '权限不足' }, { status: 401 });
-        }
+    const subscriptions = normalizeSubscriptions(adminConfig);
+    // 订阅会改写视频源与订阅设置，记录两者的变更
+    const snapshot = () =>
+      JSON.parse(
+        JSON.stringify({
+          SourceConfig: adminConfig.SourceConfig,
+          SubscriptionConfig: adminConfig.SubscriptionConfig,
+        })
+      );
+    const before = snapshot();
+    const actor = authInfo.username;
+    const save = async (reason: string) => {
+      if (storage && typeof (storage as any).setAdminConfig === 'function') {
+        await saveAdminConfig(assertValidAdminConfig(configSelfCheck(adminConfig)), actor, reason);
       }
-    }
+    };
 
     switch (action) {
-      case 'update': {
-        const { subscriptionUrl, autoUpdate, updateInterval, importMode } = body;
-        // 更新订阅配置
-        adminConfig.SubscriptionConfig = adminConfig.SubscriptionConfig || {};
-        if (subscriptionUrl !== undefined) {
-          adminConfig.SubscriptionConfig.subscriptionUrl = subscriptionUrl;
-        }
-        if (autoUpdate !== undefined) {
-          adminConfig.SubscriptionConfig.autoUpdate = Boolean(autoUpdate);
-        }
-        if (updateInterval !== undefined) {
-          adminConfig.SubscriptionConfig.updateInterval = Number(updateInterval);
+      case 'save': {
+        const checked = checkSchema(subscriptionSettingsSchema, {
+          id: body.id,
+          name: body.name,
+          url: body.url,
+          priority: body.priority,
+          enabled: body.enabled,
+          updateInterval: body.updateInterval,
+        });
+        if (!checked.success) {
+          throw new ConfigValidationError('订阅设置校验失败', checked.issues);
         }
-        if (importMode !== undefined) {
-          if (importMode !== 'overwrite' && importMode !== 'merge') {
-            return NextResponse.json({ error: 'importMode 必须是 overwrite 或 merge' }, { status: 400 });
-          }
-          adminConfig.SubscriptionConfig.importMode = importMode;
-        }
-        // 保存配置
-        if (storage && typeof (storage as any).setAdminConfig === 'function') {
-          await (storage as any).setAdminConfig(configSelfCheck(adminConfig));
+        const { id, ...settings } = checked.data;
+        let subscription: Subscription;
+        if (id) {
+          subscription = findSubscription(adminConfig, id);
+          Object.assign(subscription, settings);
+        } else {
+          subscription = { id: generateSubscriptionId(), ...settings };
+          subscriptions.push(subscription);
         }
-        return NextResponse.json({ success: true });
+        normalizeSubscriptions(adminConfig);
+        await save('subscription.save');
+        await recordAudit(actor, 'subscription.save', subscription.name, before, snapshot());
+        return NextResponse.json({ success: true, subscription });
       }
 
-      case 'import': {
-        const { subscriptionUrl, importMode } = body;
-        const url = subscriptionUrl || adminConfig.SubscriptionConfig?.subscriptionUrl;
-        if (!url) {
-          return NextResponse.json({ error: '订阅地址未提供' }, { status: 400 });
-        }
-        const mode = importMode || adminConfig.SubscriptionConfig?.importMode || 'merge';
-        // 获取数据
-        const subscriptionData = await fetchSubscriptionData(url);
-        // 导入数据
-        importSources(adminConfig, subscriptionData, mode);
-        // 更新最后更新时间
-        adminConfig.SubscriptionConfig = adminConfig.SubscriptionConfig || {};
-        adminConfig.SubscriptionConfig.lastUpdated = Math.floor(Date.now() / 1000);
-        // 保存配置
-        if (storage && typeof (storage as any).setAdminConfig === 'function') {
-          await (storage as any).setAdminConfig(configSelfCheck(adminConfig));
-        }
-        return NextResponse.json({ success: true, imported: true });
+      case 'delete': {
+        const subscription = findSubscription(adminConfig, String(body.id));
+        const removed = removeSubscription(adminConfig, subscription.id);
+        await save('subscription.delete');
+        await recordAudit(actor, 'subscription.delete', subscription.name, before, snapshot());
+        return NextResponse.json({ success: true, removed: removed.length });
       }
 
-      case 'check': {
-        const subConfig = adminConfig.SubscriptionConfig || {};
-        const { autoUpdate = false, subscriptionUrl, lastUpdated, updateInterval = 86400 } = subConfig;
-        const now = Math.floor(Date.now() / 1000);
-        let shouldImport = false;
-        let urlToImport = '';
-        if (autoUpdate && subscriptionUrl) {
-          if (!lastUpdated || (now - lastUpdated) > updateInterval) {
-            shouldImport = true;
-            urlToImport = subscriptionUrl;
-          }
-        }
-        if (shouldImport) {
-          // 执行导入
-          try {
-            const subscriptionData = await fetchSubscriptionData(urlToImport);
-            const mode = subConfig.importMode || 'merge';
-            importSources(adminConfig, subscriptionData, mode);
-            adminConfig.SubscriptionConfig = adminConfig.SubscriptionConfig || {};
-            adminConfig.SubscriptionConfig.lastUpdated = now;
-            // 保存配置
-            if (storage && typeof (storage as any).setAdminConfig === 'function') {
-              await (storage as any).setAdminConfig(configSelfCheck(adminConfig));
-            }
-            return NextResponse.json({ success: true, updated: true, imported: true });
-          } catch (error) {
-            console.error('自动更新导入失败:', error);
-            return NextResponse.json({ success: false, updated: false, error: (error as Error).message }, { status: 500 });
-          }
-        } else {
-          return NextResponse.json({ success: true, updated: false, reason: '未满足自动更新条件' });
-        }
+      case 'preview': {
+        const subscription = findSubscription(adminConfig, String(body.id));
+        const data = await fetchSubscriptionData(subscription.url);
+        return NextResponse.json({
+          preview: previewSubscriptionImport(adminConfig, subscription, data),
+        });
+      }
+
+      case 'import': {
+        const subscription = findSubscription(adminConfig, String(body.id));
+        const data = await fetchSubscriptionData(subscription.url);
+        const preview = previewSubscriptionImport(adminConfig, subscription, data);
+        applySubscriptionImport(adminConfig, subscription, preview, Math.floor(Date.now() / 1000));
+        await save('subscription.import');
+        await recordAudit(actor, 'subscription.import', subscription.name, before, snapshot());
+        return NextResponse.json({ success: true, imported: true, preview });
       }
 
       default:
         return NextResponse.json({ error: '未知操作' }, { status: 400 });
     }
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof ConfigValidationError) {
+      return validationErrorResponse(error);
+    }
+    if (error instanceof SubscriptionNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
     console.error('订阅操作失败:', error);
     return NextResponse.json(
       {
@@ -2,9 +2,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
 import { getStorage } from '@/lib/db';
+import { AdminConfigConflictError } from '@/lib/types';
 
 export const runtime = 'edge';
 
@@ -29,9 +32,9 @@ export async function GET(request: NextRequest) {
   }
 
   // 非本地模式：需要已登录用户
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
 
   // 生成接口 URL（基于请求 URL 推导）
@@ -54,19 +57,13 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
-  const authInfo = getAuthInfoFromCookie(request);
-  if (!authInfo || !authInfo.username) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
   }
 
   const adminConfig = await getConfig();
   const username = authInfo.username;
-  if (username !== process.env.USERNAME) {
-    const user = adminConfig.UserConfig.Users.find((u) => u.username === username);
-    if (!user || user.role !== 'admin' || user.banned) {
-      return NextResponse.json({ error: '权限不足' }, { status: 403 });
-    }
-  }
 
   const body = await request.json();
   const { enabled, password, mode } = body as {
@@ -86,6 +83,11 @@ export async function POST(request: NextRequest) {
   }
 
   // 非本地模式：允许修改配置并持久化
+  const tvboxSettings = () => ({
+    TVBoxEnabled: (adminConfig.SiteConfig as any).TVBoxEnabled,
+    TVBoxPassword: (adminConfig.SiteConfig as any).TVBoxPassword,
+  });
+  const before = tvboxSettings();
   if (typeof enabled === 'boolean') {
     (adminConfig.SiteConfig as any).TVBoxEnabled = enabled;
   }
@@ -105,8 +107,16 @@ export async function POST(request: NextRequest) {
 
   const storage = getStorage();
   if (storage && typeof (storage as any).setAdminConfig === 'function') {
-    await (storage as any).setAdminConfig(adminConfig);
+    try {
+      await saveAdminConfig(adminConfig, username, 'tvbox.update');
+    } catch (error) {
+      if (error instanceof AdminConfigConflictError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
   }
+  await recordAudit(username, 'tvbox.update', '', before, tvboxSettings());
 
   const base = new URL(request.url);
   base.pathname = '/api/tvbox/config';
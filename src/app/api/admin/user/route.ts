@@ -2,13 +2,26 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { requireAuth, resolveUserRole } from '@/lib/authz';
 import { getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
 import { getStorage } from '@/lib/db';
-import { IStorage } from '@/lib/types';
+import { revokeUserSessions } from '@/lib/session';
+import { AdminConfigConflictError, IStorage, UserRecord } from '@/lib/types';
+import {
+  createUserRecord,
+  getUserRecord,
+  listUserRecords,
+  MAX_USER_PAGE_SIZE,
+  saveUserRecord,
+} from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
+// 用户列表默认每页条数
+const DEFAULT_PAGE_SIZE = 20;
+
 // 支持的操作类型
 const ACTIONS = [
   'add',
@@ -17,10 +30,76 @@ const ACTIONS = [
   'setAdmin',
   'cancelAdmin',
   'setAllowRegister',
+  'setRequireAdminTwoFactor',
+  'setRequireInvite',
+  'setRequireApproval',
   'changePassword',
   'deleteUser',
+  'resetTwoFactor',
+  'approve',
+  'reject',
 ] as const;
 
+// 不针对具体用户的全局设置操作
+const GLOBAL_ACTIONS = [
+  'setAllowRegister',
+  'setRequireAdminTwoFactor',
+  'setRequireInvite',
+  'setRequireApproval',
+];
+
+/**
+ * GET /api/admin/user?page=1&pageSize=20
+ * 分页返回用户列表，按加入时间升序，站长固定在首位
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await requireAuth(request);
+  if (!authInfo.ok) {
+    return authInfo.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageSize = Math.min(
+    MAX_USER_PAGE_SIZE,
+    Math.max(1, Number(searchParams.get('pageSize')) || DEFAULT_PAGE_SIZE)
+  );
+
+  try {
+    const { users, total } = await listUserRecords(
+      (page - 1) * pageSize,
+      pageSize
+    );
+    return NextResponse.json(
+      { users, total, page, pageSize },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('获取用户列表失败:', error);
+    return NextResponse.json(
+      {
+        error: '获取用户列表失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest) {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   if (storageType === 'localstorage') {
@@ -35,9 +114,9 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    const authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authInfo = await requireAuth(request);
+    if (!authInfo.ok) {
+      return authInfo.response;
     }
     const username = authInfo.username;
 
@@ -45,11 +124,17 @@ export async function POST(request: NextRequest) {
       targetUsername, // 目标用户名
       targetPassword, // 目标用户密码（仅在添加用户时需要）
       allowRegister,
+      requireAdminTwoFactor,
+      requireInvite,
+      requireApproval,
       action,
     } = body as {
       targetUsername?: string;
       targetPassword?: string;
       allowRegister?: boolean;
+      requireAdminTwoFactor?: boolean;
+      requireInvite?: boolean;
+      requireApproval?: boolean;
       action?: (typeof ACTIONS)[number];
     };
 
@@ -57,12 +142,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
     }
 
-    if (action !== 'setAllowRegister' && !targetUsername) {
+    if (!GLOBAL_ACTIONS.includes(action) && !targetUsername) {
       return NextResponse.json({ error: '缺少目标用户名' }, { status: 400 });
     }
 
     if (
-      action !== 'setAllowRegister' &&
+      !GLOBAL_ACTIONS.includes(action) &&
       action !== 'changePassword' &&
       action !== 'deleteUser' &&
       username === targetUsername
@@ -78,23 +163,22 @@ export async function POST(request: NextRequest) {
     const storage: IStorage | null = getStorage();
 
     // 判定操作者角色
-    let operatorRole: 'owner' | 'admin';
-    if (username === process.env.USERNAME) {
-      operatorRole = 'owner';
-    } else {
-      const userEntry = adminConfig.UserConfig.Users.find(
-        (u) => u.username === username
-      );
-      if (!userEntry || userEntry.role !== 'admin' || userEntry.banned) {
-        return NextResponse.json({ error: '权限不足' }, { status: 401 });
-      }
-      operatorRole = 'admin';
+    const operatorRole = await resolveUserRole(username);
+    if (operatorRole !== 'owner' && operatorRole !== 'admin') {
+      return NextResponse.json({ error: '权限不足' }, { status: 401 });
     }
 
-    // 查找目标用户条目
-    let targetEntry = adminConfig.UserConfig.Users.find(
-      (u) => u.username === targetUsername
-    );
+    // 查找目标用户记录
+    const targetEntry: UserRecord | null = targetUsername
+      ? await getUserRecord(targetUsername)
+      : null;
+    // 目标用户记录被修改时需要写回
+    let targetChanged = false;
+    // 操作前的状态，用于审计日志
+    const targetBefore = targetEntry ? { ...targetEntry } : undefined;
+    const userConfigBefore = JSON.parse(JSON.stringify(adminConfig.UserConfig));
+    // 新增的用户记录
+    let createdEntry: UserRecord | undefined;
 
     if (
       targetEntry &&
@@ -113,10 +197,31 @@ export async function POST(request: NextRequest) {
       }
       adminConfig.UserConfig.AllowRegister = allowRegister;
       // 保存后直接返回成功（走后面的统一保存逻辑）
+    } else if (action === 'setRequireAdminTwoFactor') {
+      if (typeof requireAdminTwoFactor !== 'boolean') {
+        return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+      }
+      if (operatorRole !== 'owner') {
+        return NextResponse.json(
+          { error: '仅站长可设置强制两步验证' },
+          { status: 401 }
+        );
+      }
+      adminConfig.UserConfig.RequireAdminTwoFactor = requireAdminTwoFactor;
+    } else if (action === 'setRequireInvite') {
+      if (typeof requireInvite !== 'boolean') {
+        return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+      }
+      adminConfig.UserConfig.RequireInvite = requireInvite;
+    } else if (action === 'setRequireApproval') {
+      if (typeof requireApproval !== 'boolean') {
+        return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+      }
+      adminConfig.UserConfig.RequireApproval = requireApproval;
     } else {
       switch (action) {
         case 'add': {
-          if (targetEntry) {
+          if (targetEntry || (await storage?.checkUserExist(targetUsername!))) {
             return NextResponse.json({ error: '用户已存在' }, { status: 400 });
           }
           if (!targetPassword) {
@@ -132,15 +237,7 @@ export async function POST(request: NextRequest) {
             );
           }
           await storage.registerUser(targetUsername!, targetPassword);
-          // 更新配置
-          adminConfig.UserConfig.Users.push({
-            username: targetUsername!,
-            role: 'user',
-          });
-          targetEntry =
-            adminConfig.UserConfig.Users[
-              adminConfig.UserConfig.Users.length - 1
-            ];
+          createdEntry = await createUserRecord(targetUsername!);
           break;
         }
         case 'ban': {
@@ -160,6 +257,9 @@ export async function POST(request: NextRequest) {
             }
           }
           targetEntry.banned = true;
+          targetChanged = true;
+          // 封禁后立即使其所有登录会话失效
+          await revokeUserSessions(targetUsername!);
           break;
         }
         case 'unban': {
@@ -178,6 +278,7 @@ export async function POST(request: NextRequest) {
             }
           }
           targetEntry.banned = false;
+          targetChanged = true;
           break;
         }
         case 'setAdmin': {
@@ -200,6 +301,7 @@ export async function POST(request: NextRequest) {
             );
           }
           targetEntry.role = 'admin';
+          targetChanged = true;
           break;
         }
         case 'cancelAdmin': {
@@ -222,6 +324,7 @@ export async function POST(request: NextRequest) {
             );
           }
           targetEntry.role = 'user';
+          targetChanged = true;
           break;
         }
         case 'changePassword': {
@@ -262,6 +365,8 @@ export async function POST(request: NextRequest) {
           }
 
           await storage.changePassword(targetUsername!, targetPassword);
+          // 密码被重置后，已登录的设备需要重新登录
+          await revokeUserSessions(targetUsername!);
           break;
         }
         case 'deleteUser': {
@@ -294,16 +399,73 @@ export async function POST(request: NextRequest) {
             );
           }
 
+          // 同时删除账户记录
           await storage.deleteUser(targetUsername!);
+          break;
+        }
+        case 'resetTwoFactor': {
+          if (!targetEntry) {
+            return NextResponse.json(
+              { error: '目标用户不存在' },
+              { status: 404 }
+            );
+          }
+          if (isTargetAdmin && operatorRole !== 'owner') {
+            return NextResponse.json(
+              { error: '仅站长可重置管理员的两步验证' },
+              { status: 401 }
+            );
+          }
+          if (!storage || typeof storage.deleteTwoFactor !== 'function') {
+            return NextResponse.json(
+              { error: '存储未配置两步验证功能' },
+              { status: 500 }
+            );
+          }
 
-          // 从配置中移除用户
-          const userIndex = adminConfig.UserConfig.Users.findIndex(
-            (u) => u.username === targetUsername
-          );
-          if (userIndex > -1) {
-            adminConfig.UserConfig.Users.splice(userIndex, 1);
+          // 用于用户丢失验证器且恢复码用尽的情况
+          await storage.deleteTwoFactor(targetUsername!);
+          break;
+        }
+        case 'approve': {
+          if (!targetEntry) {
+            return NextResponse.json(
+              { error: '目标用户不存在' },
+              { status: 404 }
+            );
+          }
+          if (!targetEntry.pending) {
+            return NextResponse.json(
+              { error: '该用户无需审核' },
+              { status: 400 }
+            );
+          }
+          delete targetEntry.pending;
+          targetChanged = true;
+          break;
+        }
+        case 'reject': {
+          if (!targetEntry) {
+            return NextResponse.json(
+              { error: '目标用户不存在' },
+              { status: 404 }
+            );
+          }
+          if (!targetEntry.pending) {
+            return NextResponse.json(
+              { error: '该用户无需审核' },
+              { status: 400 }
+            );
+          }
+          if (!storage || typeof storage.deleteUser !== 'function') {
+            return NextResponse.json(
+              { error: '存储未配置用户删除功能' },
+              { status: 500 }
+            );
           }
 
+          // 拒绝即删除该注册账号，用户名可被重新注册
+          await storage.deleteUser(targetUsername!);
           break;
         }
         default:
@@ -311,9 +473,33 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 将更新后的配置写入数据库
-    if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(adminConfig);
+    // 全局设置写入管理员配置，针对用户的操作只写该用户的记录
+    if (GLOBAL_ACTIONS.includes(action)) {
+      if (storage && typeof (storage as any).setAdminConfig === 'function') {
+        await saveAdminConfig(adminConfig, username, `user.${action}`);
+      }
+    } else if (targetEntry && targetChanged) {
+      await saveUserRecord(targetEntry);
+    }
+
+    // 全局设置记录配置变更；用户操作记录账户记录变更，改密只记录操作本身
+    if (GLOBAL_ACTIONS.includes(action)) {
+      await recordAudit(
+        username,
+        `user.${action}`,
+        '',
+        { UserConfig: userConfigBefore },
+        { UserConfig: adminConfig.UserConfig }
+      );
+    } else {
+      const removed = action === 'deleteUser' || action === 'reject';
+      await recordAudit(
+        username,
+        `user.${action}`,
+        targetUsername!,
+        targetBefore,
+        removed ? undefined : createdEntry || targetEntry || undefined
+      );
     }
 
     return NextResponse.json(
@@ -325,6 +511,9 @@ export async function POST(request: NextRequest) {
       }
     );
   } catch (error) {
+    if (error instanceof AdminConfigConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error('用户管理操作失败:', error);
     return NextResponse.json(
       {
@@ -0,0 +1,134 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  createApiToken,
+  listUserApiTokens,
+  MAX_TOKENS_PER_USER,
+  revokeApiToken,
+  toPublicApiToken,
+} from '@/lib/api-token';
+import { getAuthInfoFromCookie } from '@/lib/session';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/api-tokens
+ * 返回当前用户的全部 API 令牌（不含令牌明文）
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持 API 令牌' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tokens = await listUserApiTokens(authInfo.username);
+    return NextResponse.json(
+      { tokens: tokens.map(toPublicApiToken) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取 API 令牌失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/api-tokens
+ * body: { name: string } -> 创建令牌，返回仅展示一次的 { token }
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持 API 令牌' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = (await request.json()) as { name?: string };
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > 50) {
+      return NextResponse.json(
+        { error: '令牌名称不能为空且不超过 50 个字符' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await listUserApiTokens(authInfo.username);
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: `最多只能创建 ${MAX_TOKENS_PER_USER} 个令牌` },
+        { status: 400 }
+      );
+    }
+
+    const { token, record } = await createApiToken(authInfo.username, trimmed);
+    return NextResponse.json(
+      { token, record: toPublicApiToken(record) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('创建 API 令牌失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/api-tokens
+ * body: { id: string } -> 吊销自己的令牌
+ */
+export async function DELETE(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持 API 令牌' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = (await request.json()) as { id?: string };
+    if (!id) {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    if (!(await revokeApiToken(id, authInfo.username))) {
+      return NextResponse.json({ error: '令牌不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('吊销 API 令牌失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
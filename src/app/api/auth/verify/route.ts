@@ -0,0 +1,35 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { verifyRequestAuth } from '@/lib/authz';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/auth/verify
+ * 供 middleware 调用：middleware 运行在 Edge 运行时、不直接访问存储，
+ * 由本接口对照存储校验原请求的登录会话或 API 令牌，管理路由再按 ADMIN_ROUTE_POLICIES 校验角色。
+ * 原请求的路径与方法通过 x-auth-path、x-auth-method 头传入，cookie 与令牌随请求头转发。
+ */
+export async function GET(request: NextRequest) {
+  const pathname = request.headers.get('x-auth-path') || '/';
+  const method = request.headers.get('x-auth-method') || 'GET';
+
+  try {
+    const result = await verifyRequestAuth(request, pathname, method);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    return NextResponse.json(
+      { username: result.username, role: result.role },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('校验登录状态失败:', error);
+    return NextResponse.json({ error: '校验登录状态失败' }, { status: 500 });
+  }
+}
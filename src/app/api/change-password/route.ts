@@ -2,8 +2,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getStorage } from '@/lib/db';
+import { getAuthInfoFromCookie, revokeUserSessions } from '@/lib/session';
 import { IStorage } from '@/lib/types';
 
 export const runtime = 'edge';
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
     const { newPassword } = body;
 
     // 获取认证信息
-    const authInfo = getAuthInfoFromCookie(request);
+    const authInfo = await getAuthInfoFromCookie(request);
     if (!authInfo || !authInfo.username) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -58,6 +58,9 @@ export async function POST(request: NextRequest) {
     // 修改密码
     await storage.changePassword(username, newPassword);
 
+    // 修改密码后注销该用户的全部会话
+    await revokeUserSessions(username);
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error('修改密码失败:', error);
@@ -2,14 +2,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
 import { getAvailableApiSites, getCacheTime } from '@/lib/config';
+import { getAuthInfoFromCookie } from '@/lib/session';
 
 export const runtime = 'edge';
 
 export async function GET(request: NextRequest) {
   try {
-    const auth = getAuthInfoFromCookie(request);
+    const auth = await getAuthInfoFromCookie(request);
     const username = auth?.username;
     const sites = await getAvailableApiSites(username);
     const cacheTime = await getCacheTime();
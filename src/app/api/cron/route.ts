@@ -2,9 +2,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { pruneAuditLogs } from '@/lib/audit';
+import { runScheduledBackup } from '@/lib/backup';
 import { db } from '@/lib/db';
 import { fetchVideoDetail } from '@/lib/fetchVideoDetail';
+import { runSourceHealthCheck } from '@/lib/source-health';
 import { SearchResult } from '@/lib/types';
+import { applyPlayLine } from '@/lib/utils';
 
 export const runtime = 'edge';
 
@@ -14,6 +18,9 @@ export async function GET(request: NextRequest) {
     console.log('Cron job triggered:', new Date().toISOString());
 
     refreshRecordAndFavorites();
+    runScheduledBackup();
+    pruneAuditLogs();
+    runSourceHealthCheck();
 
     return NextResponse.json({
       success: true,
@@ -103,7 +110,9 @@ async function refreshRecordAndFavorites() {
               continue;
             }
 
-            const episodeCount = detail.episodes?.length || 0;
+            // 按播放记录所选的线路计算集数
+            const episodeCount =
+              applyPlayLine(detail, record.play_line).episodes?.length || 0;
             if (episodeCount > 0 && episodeCount !== record.total_episodes) {
               await db.savePlayRecord(user, source, id, {
                 title: detail.title || record.title,
@@ -116,6 +125,7 @@ async function refreshRecordAndFavorites() {
                 total_time: record.total_time,
                 save_time: record.save_time,
                 search_title: record.search_title,
+                play_line: record.play_line,
               });
               console.log(
                 `更新播放记录: ${record.title} (${record.total_episodes} -> ${episodeCount})`
@@ -1,8 +1,17 @@
 /* eslint-disable no-console,@typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getConfig } from '@/lib/config';
+import { getClientIp } from '@/lib/auth';
 import { db } from '@/lib/db';
+import {
+  checkLoginAllowed,
+  LoginGuardResult,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from '@/lib/login-guard';
+import { createSession, describeDevice } from '@/lib/session';
+import { isTwoFactorEnabled, verifySecondFactor } from '@/lib/two-factor';
+import { getUserRecord } from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
@@ -14,6 +23,48 @@ const STORAGE_TYPE =
     | 'upstash'
     | undefined) || 'localstorage';
 
+// 登录受限时的响应，附带 Retry-After 头
+function tooManyAttempts(
+  result: Extract<LoginGuardResult, { allowed: false }>
+): NextResponse {
+  const error = result.locked
+    ? `尝试次数过多，已临时锁定，请 ${Math.ceil(result.retryAfter / 60)} 分钟后再试`
+    : `登录尝试过于频繁，请 ${result.retryAfter} 秒后再试`;
+  return NextResponse.json(
+    { ok: false, error, retryAfter: result.retryAfter },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(result.retryAfter) },
+    }
+  );
+}
+
+// 密码正确后的第二步：已启用两步验证的账户需要提供验证码或恢复码
+// 通过时返回 null，否则返回应直接响应的结果
+async function checkSecondFactor(
+  username: string,
+  code: unknown,
+  ip?: string
+): Promise<NextResponse | null> {
+  if (!(await isTwoFactorEnabled(username))) {
+    return null;
+  }
+  if (!code || typeof code !== 'string') {
+    return NextResponse.json(
+      { error: '请输入两步验证码', twoFactorRequired: true },
+      { status: 401 }
+    );
+  }
+  if (!(await verifySecondFactor(username, code))) {
+    await recordLoginFailure(username, ip);
+    return NextResponse.json(
+      { error: '验证码错误', twoFactorRequired: true },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
 // 生成签名
 async function generateSignature(
   data: string,
@@ -46,7 +97,8 @@ async function generateAuthCookie(
   username?: string,
   password?: string,
   role?: 'owner' | 'admin' | 'user',
-  includePassword = false
+  includePassword = false,
+  sessionId?: string
 ): Promise<string> {
   const authData: any = { role: role || 'user' };
 
@@ -61,6 +113,7 @@ async function generateAuthCookie(
     const signature = await generateSignature(username, process.env.PASSWORD);
     authData.signature = signature;
     authData.timestamp = Date.now(); // 添加时间戳防重放攻击
+    authData.sessionId = sessionId; // 服务端会话 ID，用于过期与注销
   }
 
   return encodeURIComponent(JSON.stringify(authData));
@@ -93,7 +146,15 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: '密码不能为空' }, { status: 400 });
       }
 
+      // 本地模式没有用户名，仅按 IP 限制
+      const ip = getClientIp(req);
+      const guard = await checkLoginAllowed(undefined, ip);
+      if (!guard.allowed) {
+        return tooManyAttempts(guard);
+      }
+
       if (password !== envPassword) {
+        await recordLoginFailure(undefined, ip);
         return NextResponse.json(
           { ok: false, error: '密码错误' },
           { status: 401 }
@@ -123,7 +184,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 数据库 / redis 模式——校验用户名并尝试连接数据库
-    const { username, password } = await req.json();
+    const { username, password, code } = await req.json();
 
     if (!username || typeof username !== 'string') {
       return NextResponse.json({ error: '用户名不能为空' }, { status: 400 });
@@ -132,18 +193,36 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: '密码不能为空' }, { status: 400 });
     }
 
+    // 按用户名和 IP 检查是否处于退避或锁定期
+    const ip = getClientIp(req);
+    const guard = await checkLoginAllowed(username, ip);
+    if (!guard.allowed) {
+      return tooManyAttempts(guard);
+    }
+
     // 可能是站长，直接读环境变量
     if (
       username === process.env.USERNAME &&
       password === process.env.PASSWORD
     ) {
-      // 验证成功，设置认证cookie
+      const secondFactorFailure = await checkSecondFactor(username, code, ip);
+      if (secondFactorFailure) {
+        return secondFactorFailure;
+      }
+      await recordLoginSuccess(username);
+      // 验证成功，创建会话并设置认证cookie
+      const session = await createSession(
+        username,
+        describeDevice(req.headers.get('user-agent')),
+        ip
+      );
       const response = NextResponse.json({ ok: true });
       const cookieValue = await generateAuthCookie(
         username,
         password,
         'owner',
-        false
+        false,
+        session.id
       ); // 数据库模式不包含 password
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
@@ -158,32 +237,52 @@ export async function POST(req: NextRequest) {
 
       return response;
     } else if (username === process.env.USERNAME) {
+      await recordLoginFailure(username, ip);
       return NextResponse.json({ error: '用户名或密码错误' }, { status: 401 });
     }
 
-    const config = await getConfig();
-    const user = config.UserConfig.Users.find((u) => u.username === username);
-    if (user && user.banned) {
-      return NextResponse.json({ error: '用户被封禁' }, { status: 401 });
-    }
+    const user = await getUserRecord(username);
 
     // 校验用户密码
     try {
       const pass = await db.verifyUser(username, password);
       if (!pass) {
+        await recordLoginFailure(username, ip);
         return NextResponse.json(
           { error: '用户名或密码错误' },
           { status: 401 }
         );
       }
 
-      // 验证成功，设置认证cookie
+      // 密码正确后再提示封禁或待审核，避免未认证请求探测账号状态
+      if (user && user.banned) {
+        return NextResponse.json({ error: '用户被封禁' }, { status: 401 });
+      }
+      if (user && user.pending) {
+        return NextResponse.json(
+          { error: '账号正在等待管理员审核' },
+          { status: 401 }
+        );
+      }
+
+      const secondFactorFailure = await checkSecondFactor(username, code, ip);
+      if (secondFactorFailure) {
+        return secondFactorFailure;
+      }
+      await recordLoginSuccess(username);
+      // 验证成功，创建会话并设置认证cookie
+      const session = await createSession(
+        username,
+        describeDevice(req.headers.get('user-agent')),
+        ip
+      );
       const response = NextResponse.json({ ok: true });
       const cookieValue = await generateAuthCookie(
         username,
         password,
         user?.role || 'user',
-        false
+        false,
+        session.id
       ); // 数据库模式不包含 password
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
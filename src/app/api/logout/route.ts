@@ -1,8 +1,25 @@
-import { NextResponse } from 'next/server';
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { parseAuthCookie } from '@/lib/auth';
+import { revokeSession } from '@/lib/session';
 
 export const runtime = 'edge';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+
+  // 注销服务端会话
+  const authInfo = parseAuthCookie(request);
+  if (storageType !== 'localstorage' && authInfo?.sessionId) {
+    try {
+      await revokeSession(authInfo.sessionId);
+    } catch (error) {
+      console.error('注销会话失败:', error);
+    }
+  }
+
   const response = NextResponse.json({ ok: true });
 
   // 清除认证cookie
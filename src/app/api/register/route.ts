@@ -1,8 +1,13 @@
 /* eslint-disable no-console,@typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getClientIp } from '@/lib/auth';
 import { getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { findUsableInvite } from '@/lib/invite';
+import { createSession, describeDevice } from '@/lib/session';
+import { AdminConfigConflictError } from '@/lib/types';
+import { createUserRecord } from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
@@ -42,11 +47,15 @@ async function generateSignature(
 }
 
 // 生成认证Cookie（带签名）
-async function generateAuthCookie(username: string): Promise<string> {
+async function generateAuthCookie(
+  username: string,
+  sessionId: string
+): Promise<string> {
   const authData: any = {
     role: 'user',
     username,
     timestamp: Date.now(),
+    sessionId,
   };
 
   // 使用process.env.PASSWORD作为签名密钥，而不是用户密码
@@ -73,7 +82,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: '当前未开放注册' }, { status: 400 });
     }
 
-    const { username, password } = await req.json();
+    const { username, password, inviteCode } = await req.json();
 
     if (!username || typeof username !== 'string') {
       return NextResponse.json({ error: '用户名不能为空' }, { status: 400 });
@@ -81,6 +90,22 @@ export async function POST(req: NextRequest) {
     if (!password || typeof password !== 'string') {
       return NextResponse.json({ error: '密码不能为空' }, { status: 400 });
     }
+    if (inviteCode !== undefined && typeof inviteCode !== 'string') {
+      return NextResponse.json({ error: '邀请码格式错误' }, { status: 400 });
+    }
+
+    // 开启邀请制时必须提供邀请码；未开启时提供的邀请码仍用于分配默认分组
+    if (config.UserConfig.RequireInvite && !inviteCode) {
+      return NextResponse.json({ error: '请输入邀请码' }, { status: 400 });
+    }
+    let invite;
+    if (inviteCode) {
+      const result = findUsableInvite(config, inviteCode);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      invite = result.invite;
+    }
 
     // 检查是否和管理员重复
     if (username === process.env.USERNAME) {
@@ -94,18 +119,34 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: '用户已存在' }, { status: 400 });
       }
 
+      // 先占用邀请码次数，配置已被并发修改时直接失败，避免超额使用
+      // 邀请码计数不属于管理员改动，直接写入配置，不生成历史版本
+      if (invite) {
+        invite.used += 1;
+        await db.saveAdminConfig(config);
+      }
+
       await db.registerUser(username, password);
 
-      // 添加到配置中并保存
-      config.UserConfig.Users.push({
-        username,
-        role: 'user',
+      const pending = !!config.UserConfig.RequireApproval;
+      await createUserRecord(username, {
+        ...(pending ? { pending } : {}),
+        ...(invite?.group ? { group: invite.group } : {}),
       });
-      await db.saveAdminConfig(config);
 
-      // 注册成功，设置认证cookie
+      // 需要审核时不创建会话，待管理员通过后再登录
+      if (pending) {
+        return NextResponse.json({ ok: true, pending: true });
+      }
+
+      // 注册成功，创建会话并设置认证cookie
+      const session = await createSession(
+        username,
+        describeDevice(req.headers.get('user-agent')),
+        getClientIp(req)
+      );
       const response = NextResponse.json({ ok: true });
-      const cookieValue = await generateAuthCookie(username);
+      const cookieValue = await generateAuthCookie(username, session.id);
       const expires = new Date();
       expires.setDate(expires.getDate() + 7); // 7天过期
 
@@ -119,6 +160,9 @@ export async function POST(req: NextRequest) {
 
       return response;
     } catch (err) {
+      if (err instanceof AdminConfigConflictError) {
+        return NextResponse.json({ error: '注册繁忙，请重试' }, { status: 409 });
+      }
       console.error('数据库注册失败', err);
       return NextResponse.json({ error: '数据库错误' }, { status: 500 });
     }
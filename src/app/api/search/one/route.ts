@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getRequestUsername } from '@/lib/api-token';
 import { getAvailableApiSites, getCacheTime, getConfig } from '@/lib/config';
 import { searchFromApiStream } from '@/lib/downstream';
 import { yellowWords } from '@/lib/yellow';
@@ -14,10 +14,10 @@ export async function GET(request: NextRequest) {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   const isLocalStorage = storageType === 'localstorage';
 
-  let authInfo = null;
+  let username: string | null = null;
   if (!isLocalStorage) {
-    authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
+    username = await getRequestUsername(request);
+    if (!username) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
   }
@@ -44,7 +44,7 @@ export async function GET(request: NextRequest) {
   }
 
   const config = await getConfig();
-  const apiSites = await getAvailableApiSites(authInfo?.username);
+  const apiSites = await getAvailableApiSites(username || undefined);
 
   try {
     const targetSite = apiSites.find((site) => site.key === resourceId);
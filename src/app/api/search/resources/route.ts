@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getRequestUsername } from '@/lib/api-token';
 import { getAvailableApiSites, getCacheTime } from '@/lib/config';
 
 export const runtime = 'edge';
@@ -8,9 +8,13 @@ export const runtime = 'edge';
 // OrionTV 兼容接口
 export async function GET(request: NextRequest) {
   try {
-    const auth = getAuthInfoFromCookie(request);
-    const username = auth?.username;
-    const apiSites = await getAvailableApiSites(username);
+    // 非本地存储模式需要登录会话或 API 令牌（middleware 不校验令牌）
+    const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+    const username = await getRequestUsername(request);
+    if (storageType !== 'localstorage' && !username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const apiSites = await getAvailableApiSites(username || undefined);
     const cacheTime = await getCacheTime();
 
     return NextResponse.json(apiSites, {
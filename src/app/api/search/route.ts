@@ -2,7 +2,7 @@
 
 import { NextRequest } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import { getRequestUsername } from '@/lib/api-token';
 import { getAvailableApiSites, getCacheTime, getConfig } from '@/lib/config';
 import { searchFromApiStream } from '@/lib/downstream';
 import { yellowWords } from '@/lib/yellow';
@@ -14,11 +14,11 @@ export async function GET(request: NextRequest) {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   const isLocalStorage = storageType === 'localstorage';
   
-  let authInfo = null;
+  let username: string | null = null;
   if (!isLocalStorage) {
-    // 非本地存储模式才需要认证
-    authInfo = getAuthInfoFromCookie(request);
-    if (!authInfo || !authInfo.username) {
+    // 非本地存储模式才需要认证（登录 cookie 或 API 令牌）
+    username = await getRequestUsername(request);
+    if (!username) {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { 
         status: 401,
         headers: { 'Content-Type': 'application/json' }
@@ -36,7 +36,7 @@ export async function GET(request: NextRequest) {
   const config = await getConfig();
   
   // 获取用户可用的搜索源
-  let apiSites = await getAvailableApiSites(authInfo?.username);
+  let apiSites = await getAvailableApiSites(username || undefined);
   
   // 如果指定了搜索源，只使用选中的搜索源
   const selectedSourcesParam = searchParams.get('sources');
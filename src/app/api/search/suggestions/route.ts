@@ -2,12 +2,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { getRequestUsername } from '@/lib/api-token';
 import { getCacheTime, getConfig } from '@/lib/config';
 import { searchFromApiStream } from '@/lib/downstream'; // 改用流式方法
 
 export const runtime = 'edge';
 
 export async function GET(request: NextRequest) {
+  // 非本地存储模式需要登录会话或 API 令牌（middleware 不校验令牌）
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType !== 'localstorage' && !(await getRequestUsername(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q')?.trim();
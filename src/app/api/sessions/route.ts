@@ -0,0 +1,106 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getAuthInfoFromCookie,
+  listUserSessions,
+  revokeSession,
+  revokeUserSessions,
+} from '@/lib/session';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/sessions
+ * 返回当前用户的全部有效会话，current 标记当前设备
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持会话管理' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sessions = await listUserSessions(authInfo.username);
+    return NextResponse.json(
+      {
+        sessions: sessions.map((s) => ({
+          id: s.id,
+          device: s.device,
+          ip: s.ip,
+          created_at: s.created_at,
+          last_seen: s.last_seen,
+          expires_at: s.expires_at,
+          current: s.id === authInfo.sessionId,
+        })),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (err) {
+    console.error('获取会话列表失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sessions
+ * body: { sessionId: string }   -> 注销指定会话
+ * body: { scope: 'others' }     -> 登出其他设备
+ * body: { scope: 'all' }        -> 注销全部会话（包括当前设备）
+ */
+export async function DELETE(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持会话管理' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId, scope } = (await request.json()) as {
+      sessionId?: string;
+      scope?: 'others' | 'all';
+    };
+
+    if (sessionId) {
+      // 只能注销自己的会话
+      const sessions = await listUserSessions(authInfo.username);
+      if (!sessions.some((s) => s.id === sessionId)) {
+        return NextResponse.json({ error: '会话不存在' }, { status: 404 });
+      }
+      await revokeSession(sessionId);
+    } else if (scope === 'others') {
+      await revokeUserSessions(authInfo.username, authInfo.sessionId);
+    } else if (scope === 'all') {
+      await revokeUserSessions(authInfo.username);
+    } else {
+      return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error('注销会话失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
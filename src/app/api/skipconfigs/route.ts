@@ -2,29 +2,23 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
-import { getConfig } from '@/lib/config';
 import { db } from '@/lib/db';
+import { getAuthInfoFromCookie } from '@/lib/session';
 import { SkipConfig } from '@/lib/types';
+import { isUserBanned } from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
 export async function GET(request: NextRequest) {
   try {
-    const authInfo = getAuthInfoFromCookie(request);
+    const authInfo = await getAuthInfoFromCookie(request);
     if (!authInfo || !authInfo.username) {
       return NextResponse.json({ error: '未登录' }, { status: 401 });
     }
 
-    const config = await getConfig();
-    if (config.UserConfig.Users) {
-      // 检查用户是否被封禁
-      const user = config.UserConfig.Users.find(
-        (u) => u.username === authInfo.username
-      );
-      if (user && user.banned) {
-        return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
-      }
+    // 检查用户是否被封禁
+    if (await isUserBanned(authInfo.username)) {
+      return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
     }
 
     const { searchParams } = new URL(request.url);
@@ -51,20 +45,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const authInfo = getAuthInfoFromCookie(request);
+    const authInfo = await getAuthInfoFromCookie(request);
     if (!authInfo || !authInfo.username) {
       return NextResponse.json({ error: '未登录' }, { status: 401 });
     }
 
-    const adminConfig = await getConfig();
-    if (adminConfig.UserConfig.Users) {
-      // 检查用户是否被封禁
-      const user = adminConfig.UserConfig.Users.find(
-        (u) => u.username === authInfo.username
-      );
-      if (user && user.banned) {
-        return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
-      }
+    // 检查用户是否被封禁
+    if (await isUserBanned(authInfo.username)) {
+      return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
     }
 
     const body = await request.json();
@@ -101,20 +89,14 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const authInfo = getAuthInfoFromCookie(request);
+    const authInfo = await getAuthInfoFromCookie(request);
     if (!authInfo || !authInfo.username) {
       return NextResponse.json({ error: '未登录' }, { status: 401 });
     }
 
-    const adminConfig = await getConfig();
-    if (adminConfig.UserConfig.Users) {
-      // 检查用户是否被封禁
-      const user = adminConfig.UserConfig.Users.find(
-        (u) => u.username === authInfo.username
-      );
-      if (user && user.banned) {
-        return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
-      }
+    // 检查用户是否被封禁
+    if (await isUserBanned(authInfo.username)) {
+      return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
     }
 
     const { searchParams } = new URL(request.url);
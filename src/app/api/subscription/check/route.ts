@@ -0,0 +1,117 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordAudit } from '@/lib/audit';
+import { configSelfCheck, getConfig } from '@/lib/config';
+import { saveAdminConfig } from '@/lib/config-history';
+import {
+  assertValidAdminConfig,
+  ConfigValidationError,
+  formatIssues,
+} from '@/lib/config-schema';
+import { getAuthInfoFromCookie } from '@/lib/session';
+import { importDueSubscriptions } from '@/lib/subscription';
+import { AdminConfigConflictError } from '@/lib/types';
+
+export const runtime = 'edge';
+
+/**
+ * POST /api/subscription/check
+ * 订阅自动更新检查，由所有登录用户的页面触发，只导入已到期的订阅
+ * 操作者记为触发请求的用户；订阅的管理与手动导入见 /api/admin/subscription
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      {
+        error: '不支持本地存储进行管理员配置',
+      },
+      { status: 400 }
+    );
+  }
+
+  const authInfo = await getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const adminConfig = await getConfig();
+    // 订阅会改写视频源与订阅设置，记录两者的变更
+    const snapshot = () =>
+      JSON.parse(
+        JSON.stringify({
+          SourceConfig: adminConfig.SourceConfig,
+          SubscriptionConfig: adminConfig.SubscriptionConfig,
+        })
+      );
+    const before = snapshot();
+
+    const { imported, errors } = await importDueSubscriptions(
+      adminConfig,
+      Math.floor(Date.now() / 1000)
+    );
+    errors.forEach(({ id, error }) =>
+      console.error(`订阅 ${id} 自动更新失败:`, error)
+    );
+    if (imported.length === 0) {
+      return NextResponse.json({
+        success: errors.length === 0,
+        updated: false,
+        reason: errors.length ? '订阅获取失败' : '未满足自动更新条件',
+        errors,
+      });
+    }
+
+    try {
+      await saveAdminConfig(
+        assertValidAdminConfig(configSelfCheck(adminConfig)),
+        authInfo.username,
+        'subscription.autoImport'
+      );
+    } catch (error) {
+      // 多个页面同时触发检查时，仅第一个写入成功的请求完成导入
+      if (error instanceof AdminConfigConflictError) {
+        return NextResponse.json({
+          success: true,
+          updated: false,
+          reason: '其他请求已在更新',
+        });
+      }
+      throw error;
+    }
+    await recordAudit(
+      authInfo.username,
+      'subscription.autoImport',
+      imported.join(', '),
+      before,
+      snapshot()
+    );
+    return NextResponse.json({
+      success: true,
+      updated: true,
+      imported,
+      errors,
+    });
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      return NextResponse.json(
+        {
+          error: `${error.message}：${formatIssues(error.issues)}`,
+          issues: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+    console.error('订阅自动更新失败:', error);
+    return NextResponse.json(
+      {
+        error: '订阅自动更新失败',
+        details: (error as Error).message,
+      },
+      { status: 500 }
+    );
+  }
+}
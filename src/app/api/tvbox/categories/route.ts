@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 
+import { verifyApiToken } from '@/lib/api-token';
+import { getRequestApiToken } from '@/lib/auth';
 import { getCacheTime, getConfig } from '@/lib/config';
 
 export const runtime = 'edge';
@@ -24,6 +26,13 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'TVBox 接口未开启' }, { status: 403 });
   }
 
+  // 携带 API 令牌时校验令牌，已吊销的令牌不可继续使用
+  const apiToken =
+    storageType !== 'localstorage' ? getRequestApiToken(request) : null;
+  if (apiToken && !(await verifyApiToken(apiToken))) {
+    return NextResponse.json({ error: '令牌无效或已吊销' }, { status: 401 });
+  }
+
   try {
     const [cfg, cacheTime] = await Promise.all([
       getConfig(),
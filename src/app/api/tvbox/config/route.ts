@@ -2,6 +2,8 @@
 
 import { NextResponse } from 'next/server';
 
+import { verifyApiToken } from '@/lib/api-token';
+import { getRequestApiToken } from '@/lib/auth';
 import { getAvailableApiSites, getCacheTime, getConfig } from '@/lib/config';
 
 export const runtime = 'edge';
@@ -10,6 +12,7 @@ export const runtime = 'edge';
  * TVBox 配置接口
  * 参考常见 TVBox JSON 结构，最小可用字段：sites
  * 未来可扩展 parses、lives、ads 等
+ * 认证方式：个人 API 令牌（Bearer 头或 token 参数），或共享口令 pwd + un
  */
 export async function GET(request: Request) {
   try {
@@ -19,14 +22,25 @@ export async function GET(request: Request) {
     
     const adminConfig = await getConfig();
     const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+
+    // 使用 API 令牌时由令牌确定用户，无需口令与 un
+    const apiToken =
+      storageType !== 'localstorage' ? getRequestApiToken(request) : null;
+    let tokenUser: string | null = null;
+    if (apiToken) {
+      tokenUser = await verifyApiToken(apiToken);
+      if (!tokenUser) {
+        return NextResponse.json({ error: '令牌无效或已吊销' }, { status: 401 });
+      }
+    }
     
     // 本地存储模式下 un 参数可以为空
-    if (storageType !== 'localstorage' && !un.trim()) {
+    if (!tokenUser && storageType !== 'localstorage' && !un.trim()) {
       return NextResponse.json({ error: '缺少参数 un' }, { status: 400 });
     }
     
-    let username = '';
-    if (un.trim()) {
+    let username = tokenUser || '';
+    if (!tokenUser && un.trim()) {
       try {
         username = Buffer.from(un, 'base64').toString('utf8');
       } catch (e) {
@@ -51,7 +65,7 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'TVBox 接口未开启' }, { status: 403 });
     }
 
-    if (!password || inputPassword !== password) {
+    if (!tokenUser && (!password || inputPassword !== password)) {
       return NextResponse.json({ error: '密码错误或未提供' }, { status: 401 });
     }
 
@@ -74,9 +88,13 @@ export async function GET(request: Request) {
 
     // 插入“豆瓣｜自定义”为第一个站点，指向分类接口
     const origin = new URL(request.url).origin;
+    // 使用令牌访问时，分类接口同样携带令牌
+    const categoriesApi = apiToken
+      ? `${origin}/api/tvbox/categories?token=${encodeURIComponent(apiToken)}`
+      : `${origin}/api/tvbox/categories`;
     const doubanCustomSite = {
       key: 'douban_custom',
-      api: `${origin}/api/tvbox/categories`,
+      api: categoriesApi,
       name: '豆瓣｜自定义',
       type: 1,
       searchable: 0,
@@ -0,0 +1,173 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getClientIp } from '@/lib/auth';
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from '@/lib/login-guard';
+import { getAuthInfoFromCookie } from '@/lib/session';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from '@/lib/two-factor';
+
+export const runtime = 'edge';
+
+type Action = 'setup' | 'enable' | 'disable' | 'regenerate';
+
+// 校验验证码或恢复码，与登录共用按用户名和 IP 的失败计数，防止持有会话者暴力猜测后关闭两步验证
+// 通过时返回 null，否则返回应直接响应的结果
+async function checkCode(
+  request: NextRequest,
+  username: string,
+  code?: string
+): Promise<NextResponse | null> {
+  const ip = getClientIp(request);
+  const guard = await checkLoginAllowed(username, ip);
+  if (!guard.allowed) {
+    const wait = guard.locked
+      ? `${Math.ceil(guard.retryAfter / 60)} 分钟`
+      : `${guard.retryAfter} 秒`;
+    return NextResponse.json(
+      {
+        error: `验证码错误次数过多，请 ${wait}后再试`,
+        retryAfter: guard.retryAfter,
+      },
+      {
+        status: 429,
+        headers: { 'Retry-After': String(guard.retryAfter) },
+      }
+    );
+  }
+  if (!code || !(await verifySecondFactor(username, code))) {
+    await recordLoginFailure(username, ip);
+    return NextResponse.json({ error: '验证码错误' }, { status: 400 });
+  }
+  await recordLoginSuccess(username);
+  return null;
+}
+
+/**
+ * GET /api/two-factor
+ * 返回 { enabled, required, recoveryCodesLeft }
+ */
+export async function GET(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持两步验证' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await getTwoFactorStatus(authInfo.username);
+    return NextResponse.json(status, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (err) {
+    console.error('获取两步验证状态失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/two-factor
+ * body: { action: 'setup' }                   -> 生成密钥，返回 { secret, otpauthUri }
+ * body: { action: 'enable', code }            -> 验证后启用，返回 { recoveryCodes }
+ * body: { action: 'regenerate', code }        -> 重新生成恢复码，返回 { recoveryCodes }
+ * body: { action: 'disable', code }           -> 关闭两步验证
+ * code 为验证器中的 6 位验证码（regenerate/disable 也可使用恢复码）
+ */
+export async function POST(request: NextRequest) {
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return NextResponse.json(
+      { error: '本地存储模式不支持两步验证' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authInfo = await getAuthInfoFromCookie(request);
+    if (!authInfo || !authInfo.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const username = authInfo.username;
+
+    const { action, code } = (await request.json()) as {
+      action?: Action;
+      code?: string;
+    };
+
+    switch (action) {
+      case 'setup': {
+        if (await isTwoFactorEnabled(username)) {
+          return NextResponse.json(
+            { error: '已启用两步验证' },
+            { status: 400 }
+          );
+        }
+        const result = await beginTwoFactorEnrollment(username);
+        return NextResponse.json(result);
+      }
+      case 'enable': {
+        if (!code) {
+          return NextResponse.json({ error: '请输入验证码' }, { status: 400 });
+        }
+        const recoveryCodes = await confirmTwoFactorEnrollment(username, code);
+        if (!recoveryCodes) {
+          return NextResponse.json({ error: '验证码错误' }, { status: 400 });
+        }
+        return NextResponse.json({ recoveryCodes });
+      }
+      case 'regenerate': {
+        const codeFailure = await checkCode(request, username, code);
+        if (codeFailure) {
+          return codeFailure;
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(username);
+        return NextResponse.json({ recoveryCodes });
+      }
+      case 'disable': {
+        if (await isTwoFactorRequired(username)) {
+          return NextResponse.json(
+            { error: '站长已要求管理员启用两步验证，无法关闭' },
+            { status: 403 }
+          );
+        }
+        const codeFailure = await checkCode(request, username, code);
+        if (codeFailure) {
+          return codeFailure;
+        }
+        await disableTwoFactor(username);
+        return NextResponse.json({ ok: true });
+      }
+      default:
+        return NextResponse.json({ error: '参数格式错误' }, { status: 400 });
+    }
+  } catch (err) {
+    console.error('两步验证操作失败', err);
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,9 @@
-/* eslint-disable @typescript-eslint/no-explicit-any,no-console */
+/* eslint-disable no-console */
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
-import { configSelfCheck, getConfig } from '@/lib/config';
-import { getStorage } from '@/lib/db';
+import { getAuthInfoFromCookie } from '@/lib/session';
+import { getUserRecord, touchUserOnline } from '@/lib/user-registry';
 
 export const runtime = 'edge';
 
@@ -18,15 +17,13 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const auth = getAuthInfoFromCookie(request);
+    const auth = await getAuthInfoFromCookie(request);
     if (!auth?.username) {
       return NextResponse.json({ error: '未登录' }, { status: 401 });
     }
 
     const username = auth.username;
-    const adminConfig = await getConfig();
-
-    const userEntry = adminConfig.UserConfig.Users.find((u) => u.username === username);
+    const userEntry = await getUserRecord(username);
     if (!userEntry) {
       return NextResponse.json({ error: '用户不存在' }, { status: 404 });
     }
@@ -34,14 +31,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: '用户已被封禁' }, { status: 401 });
     }
 
-    userEntry.lastOnline = Date.now();
-
-    const storage = getStorage();
-    if (storage && typeof (storage as any).setAdminConfig === 'function') {
-      await (storage as any).setAdminConfig(configSelfCheck(adminConfig));
-    }
+    // 只更新该用户的在线时间，不再整体改写管理员配置
+    const lastOnline = Date.now();
+    await touchUserOnline(username, lastOnline);
 
-    return NextResponse.json({ ok: true, lastOnline: userEntry.lastOnline }, { status: 200 });
+    return NextResponse.json({ ok: true, lastOnline }, { status: 200 });
   } catch (error) {
     console.error('更新用户上线时间失败:', error);
     return NextResponse.json(
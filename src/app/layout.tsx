@@ -54,6 +54,7 @@ export default async function RootLayout({
     process.env.ANNOUNCEMENT ||
     '本网站仅提供影视信息搜索服务，所有内容均来自第三方网站。本站不存储任何视频资源，不对任何内容的准确性、合法性、完整性负责。';
   let enableRegister = process.env.NEXT_PUBLIC_ENABLE_REGISTER === 'true';
+  let registerRequireInvite = false;
   let doubanProxyType = process.env.NEXT_PUBLIC_DOUBAN_PROXY_TYPE || 'direct';
   let doubanProxy = process.env.NEXT_PUBLIC_DOUBAN_PROXY || '';
   let doubanImageProxyType =
@@ -70,6 +71,7 @@ export default async function RootLayout({
     siteName = config.SiteConfig.SiteName;
     announcement = config.SiteConfig.Announcement;
     enableRegister = config.UserConfig.AllowRegister;
+    registerRequireInvite = !!config.UserConfig.RequireInvite;
     doubanProxyType = config.SiteConfig.DoubanProxyType;
     doubanProxy = config.SiteConfig.DoubanProxy;
     doubanImageProxyType = config.SiteConfig.DoubanImageProxyType;
@@ -77,13 +79,16 @@ export default async function RootLayout({
     disableYellowFilter = config.SiteConfig.DisableYellowFilter;
     danmakuApiBaseUrl =
       config.SiteConfig.DanmakuApiBaseUrl || danmakuApiBaseUrl;
-    autoUpdateEnabled = config.SubscriptionConfig?.autoUpdate === true;
+    autoUpdateEnabled =
+      (config.SubscriptionConfig?.Subscriptions || []).some((s) => s.enabled) ||
+      config.SubscriptionConfig?.autoUpdate === true;
   }
 
   // 将运行时配置注入到全局 window 对象，供客户端在运行时读取
   const runtimeConfig = {
     STORAGE_TYPE: process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage',
     ENABLE_REGISTER: enableRegister,
+    REGISTER_REQUIRE_INVITE: registerRequireInvite,
     DOUBAN_PROXY_TYPE: doubanProxyType,
     DOUBAN_PROXY: doubanProxy,
     DOUBAN_IMAGE_PROXY_TYPE: doubanImageProxyType,
@@ -71,10 +71,17 @@ function LoginPageClient() {
   const searchParams = useSearchParams();
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
+  // 两步验证：密码正确后服务端要求输入验证码
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // 非错误提示（如注册成功等待审核）
+  const [notice, setNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [shouldAskUsername, setShouldAskUsername] = useState(false);
   const [enableRegister, setEnableRegister] = useState(false);
+  const [requireInvite, setRequireInvite] = useState(false);
+  const [inviteCode, setInviteCode] = useState('');
   const { siteName } = useSite();
 
   // 在客户端挂载后设置配置
@@ -85,12 +92,16 @@ function LoginPageClient() {
       setEnableRegister(
         Boolean((window as any).RUNTIME_CONFIG?.ENABLE_REGISTER)
       );
+      setRequireInvite(
+        Boolean((window as any).RUNTIME_CONFIG?.REGISTER_REQUIRE_INVITE)
+      );
     }
   }, []);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setError(null);
+    setNotice(null);
 
     if (!password || (shouldAskUsername && !username)) return;
 
@@ -102,6 +113,7 @@ function LoginPageClient() {
         body: JSON.stringify({
           password,
           ...(shouldAskUsername ? { username } : {}),
+          ...(twoFactorRequired ? { code } : {}),
         }),
       });
 
@@ -109,7 +121,15 @@ function LoginPageClient() {
         const redirect = searchParams.get('redirect') || '/';
         router.replace(redirect);
       } else if (res.status === 401) {
-        setError('密码错误');
+        const data = await res.json().catch(() => ({}));
+        if (data.twoFactorRequired) {
+          // 首次进入第二步时不提示错误
+          if (twoFactorRequired) setError(data.error ?? '验证码错误');
+          setTwoFactorRequired(true);
+          setCode('');
+        } else {
+          setError(data.error ?? '密码错误');
+        }
       } else {
         const data = await res.json().catch(() => ({}));
         setError(data.error ?? '服务器错误');
@@ -124,17 +144,29 @@ function LoginPageClient() {
   // 处理注册逻辑
   const handleRegister = async () => {
     setError(null);
-    if (!password || !username) return;
+    setNotice(null);
+    if (!password || !username || (requireInvite && !inviteCode)) return;
 
     try {
       setLoading(true);
       const res = await fetch('/api/register', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({
+          username,
+          password,
+          ...(inviteCode ? { inviteCode } : {}),
+        }),
       });
 
       if (res.ok) {
+        const data = await res.json().catch(() => ({}));
+        if (data.pending) {
+          // 需要审核的账号不会自动登录
+          setNotice('注册成功，请等待管理员审核后再登录');
+          setInviteCode('');
+          return;
+        }
         const redirect = searchParams.get('redirect') || '/';
         router.replace(redirect);
       } else {
@@ -170,7 +202,10 @@ function LoginPageClient() {
                 className='block w-full rounded-lg border-0 py-3 px-4 text-gray-900 dark:text-gray-100 shadow-sm ring-1 ring-white/60 dark:ring-white/20 placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:ring-2 focus:ring-green-500 focus:outline-none sm:text-base bg-white/60 dark:bg-zinc-800/60 backdrop-blur'
                 placeholder='输入用户名'
                 value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                onChange={(e) => {
+                  setUsername(e.target.value);
+                  setTwoFactorRequired(false);
+                }}
               />
             </div>
           )}
@@ -190,17 +225,68 @@ function LoginPageClient() {
             />
           </div>
 
+          {twoFactorRequired && (
+            <div>
+              <label htmlFor='code' className='sr-only'>
+                两步验证码
+              </label>
+              <input
+                id='code'
+                type='text'
+                inputMode='numeric'
+                autoComplete='one-time-code'
+                autoFocus
+                className='block w-full rounded-lg border-0 py-3 px-4 text-gray-900 dark:text-gray-100 shadow-sm ring-1 ring-white/60 dark:ring-white/20 placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:ring-2 focus:ring-green-500 focus:outline-none sm:text-base bg-white/60 dark:bg-zinc-800/60 backdrop-blur'
+                placeholder='输入验证器中的 6 位验证码或恢复码'
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          )}
+
+          {shouldAskUsername && enableRegister && (
+            <div>
+              <label htmlFor='inviteCode' className='sr-only'>
+                邀请码
+              </label>
+              <input
+                id='inviteCode'
+                type='text'
+                autoComplete='off'
+                className='block w-full rounded-lg border-0 py-3 px-4 text-gray-900 dark:text-gray-100 shadow-sm ring-1 ring-white/60 dark:ring-white/20 placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:ring-2 focus:ring-green-500 focus:outline-none sm:text-base bg-white/60 dark:bg-zinc-800/60 backdrop-blur'
+                placeholder={
+                  requireInvite
+                    ? '输入邀请码（注册时必填）'
+                    : '输入邀请码（选填，仅注册时使用）'
+                }
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+              />
+            </div>
+          )}
+
           {error && (
             <p className='text-sm text-red-600 dark:text-red-400'>{error}</p>
           )}
 
+          {notice && (
+            <p className='text-sm text-green-600 dark:text-green-400'>
+              {notice}
+            </p>
+          )}
+
           {/* 登录 / 注册按钮 */}
           {shouldAskUsername && enableRegister ? (
             <div className='flex gap-4'>
               <button
                 type='button'
                 onClick={handleRegister}
-                disabled={!password || !username || loading}
+                disabled={
+                  !password ||
+                  !username ||
+                  (requireInvite && !inviteCode) ||
+                  loading
+                }
                 className='flex-1 inline-flex justify-center rounded-lg bg-blue-600 py-3 text-base font-semibold text-white shadow-lg transition-all duration-200 hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50'
               >
                 {loading ? '注册中...' : '注册'}
@@ -26,7 +26,12 @@ import {
   subscribeToDataUpdates,
 } from '@/lib/db.client';
 import { SearchResult } from '@/lib/types';
-import { getRequestTimeout, getVideoResolutionFromM3u8 } from '@/lib/utils';
+import {
+  applyPlayLine,
+  getActivePlayLine,
+  getRequestTimeout,
+  getVideoResolutionFromM3u8,
+} from '@/lib/utils';
 
 import AddDownloadModal from '@/components/AddDownloadModal';
 import DanmakuSelector from '@/components/DanmakuSelector';
@@ -144,6 +149,11 @@ function PlayPageClient() {
   // 集数相关
   const [currentEpisodeIndex, setCurrentEpisodeIndex] = useState(0);
 
+  // 所选播放线路，null 为默认线路（分集最多的线路）
+  const [currentPlayLine, setCurrentPlayLine] = useState<string | null>(null);
+  // 当前集已出错的线路，出错时依次切换到其余线路
+  const failedPlayLinesRef = useRef<Set<string>>(new Set());
+
   // 自动匹配弹幕设置
   const [autoDanmakuEnabled, setAutoDanmakuEnabled] = useState(false);
   const [preferredDanmakuPlatform, setPreferredDanmakuPlatform] = useState("bilibili1");
@@ -246,6 +256,20 @@ function PlayPageClient() {
     videoYear,
   ]);
 
+  // 切换线路时用该线路的剧集替换 detail 中的剧集
+  useEffect(() => {
+    if (!detail) return;
+    const applied = applyPlayLine(detail, currentPlayLine);
+    if (applied !== detail) {
+      setDetail(applied);
+    }
+  }, [detail, currentPlayLine]);
+
+  // 换集或换源后重新允许尝试所有线路
+  useEffect(() => {
+    failedPlayLinesRef.current.clear();
+  }, [currentEpisodeIndex, currentSource, currentId]);
+
   // 视频播放地址
   const [videoUrl, setVideoUrl] = useState('');
 
@@ -1136,6 +1160,11 @@ function PlayPageClient() {
             setCurrentEpisodeIndex(targetIndex);
           }
 
+          // 恢复上次选择的播放线路
+          if (record.play_line) {
+            setCurrentPlayLine(record.play_line);
+          }
+
           // 保存待恢复的播放进度，待播放器就绪后跳转
           resumeTimeRef.current = targetTime;
         }
@@ -1247,6 +1276,7 @@ function PlayPageClient() {
       setVideoDoubanId(newDetail.douban_id || 0);
       setCurrentSource(newSource);
       setCurrentId(newId);
+      setCurrentPlayLine(null);
       setDetail(newDetail);
       setCurrentEpisodeIndex(targetIndex);
 
@@ -1301,6 +1331,57 @@ function PlayPageClient() {
     }
   };
 
+  // ---------------------------------------------------------------------------
+  // 线路切换
+  // ---------------------------------------------------------------------------
+  // 切换播放线路，保持当前集数与播放进度；新线路没有当前集时从第一集开始
+  const switchPlayLine = (name: string) => {
+    const d = detailRef.current;
+    const line = d?.play_lines?.find((l) => l.name === name);
+    if (!d || !line) return;
+
+    const idx = currentEpisodeIndexRef.current;
+    if (idx < line.episodes.length) {
+      const currentTime = artPlayerRef.current?.currentTime || 0;
+      if (currentTime > 1) {
+        resumeTimeRef.current = currentTime;
+      }
+    } else {
+      resumeTimeRef.current = 0;
+      setCurrentEpisodeIndex(0);
+    }
+    setCurrentPlayLine(name);
+  };
+
+  const handlePlayLineChange = (name: string) => {
+    failedPlayLinesRef.current.clear();
+    switchPlayLine(name);
+  };
+
+  // 当前线路出现无法恢复的错误时切换到下一条未出错且有当前集的线路，返回是否已切换
+  const fallbackToNextPlayLine = (): boolean => {
+    const d = detailRef.current;
+    const current = getActivePlayLine(d);
+    if (!d || !current) return false;
+
+    failedPlayLinesRef.current.add(current);
+    const lines = d.play_lines || [];
+    const start = lines.findIndex((l) => l.name === current);
+    const next = [...lines.slice(start + 1), ...lines.slice(0, start)].find(
+      (l) =>
+        !failedPlayLinesRef.current.has(l.name) &&
+        currentEpisodeIndexRef.current < l.episodes.length
+    );
+    if (!next) return false;
+
+    console.log(`线路 ${current} 播放失败，切换到 ${next.name}`);
+    if (artPlayerRef.current) {
+      artPlayerRef.current.notice.show = `线路 ${current} 播放失败，已切换到 ${next.name}`;
+    }
+    switchPlayLine(next.name);
+    return true;
+  };
+
   const handlePreviousEpisode = () => {
     const d = detailRef.current;
     const idx = currentEpisodeIndexRef.current;
@@ -1459,6 +1540,7 @@ function PlayPageClient() {
         total_time: Math.floor(duration),
         save_time: Date.now(),
         search_title: searchTitle,
+        play_line: getActivePlayLine(detailRef.current),
       });
 
       lastSaveTimeRef.current = Date.now();
@@ -1773,19 +1855,36 @@ function PlayPageClient() {
 
             ensureVideoSource(video, url);
 
+            // 网络错误与媒体错误都先尝试恢复一次，再次出错时才切换线路
+            let networkErrorRecovered = false;
+            let mediaErrorRecovered = false;
             hls.on(Hls.Events.ERROR, function (event: any, data: any) {
               console.error('HLS Error:', event, data);
               if (data.fatal) {
                 switch (data.type) {
                   case Hls.ErrorTypes.NETWORK_ERROR:
+                    if (networkErrorRecovered && fallbackToNextPlayLine()) {
+                      hls.destroy();
+                      break;
+                    }
                     console.log('网络错误，尝试恢复...');
+                    networkErrorRecovered = true;
                     hls.startLoad();
                     break;
                   case Hls.ErrorTypes.MEDIA_ERROR:
+                    if (mediaErrorRecovered && fallbackToNextPlayLine()) {
+                      hls.destroy();
+                      break;
+                    }
                     console.log('媒体错误，尝试恢复...');
+                    mediaErrorRecovered = true;
                     hls.recoverMediaError();
                     break;
                   default:
+                    if (fallbackToNextPlayLine()) {
+                      hls.destroy();
+                      break;
+                    }
                     console.log('无法恢复的错误');
                     hls.destroy();
                     break;
@@ -2414,6 +2513,9 @@ function PlayPageClient() {
                 episodes_titles={detail?.episodes_titles || []}
                 value={currentEpisodeIndex + 1}
                 onChange={handleEpisodeChange}
+                playLines={detail?.play_lines}
+                currentPlayLine={getActivePlayLine(detail)}
+                onPlayLineChange={handlePlayLineChange}
                 onSourceChange={handleSourceChange}
                 currentSource={currentSource}
                 currentId={currentId}
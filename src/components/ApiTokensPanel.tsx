@@ -0,0 +1,254 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { KeySquare, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+interface ApiTokensPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ApiTokenItem {
+  id: string;
+  name: string;
+  prefix: string;
+  created_at: number;
+  last_used_at?: number;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+
+export const ApiTokensPanel: React.FC<ApiTokensPanelProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [tokens, setTokens] = useState<ApiTokenItem[]>([]);
+  const [name, setName] = useState('');
+  // 新创建的令牌明文，仅展示一次
+  const [createdToken, setCreatedToken] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // 确保组件已挂载
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCreatedToken('');
+      setName('');
+      fetchTokens();
+    }
+  }, [isOpen]);
+
+  const fetchTokens = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/api-tokens', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '获取令牌列表失败');
+        return;
+      }
+      setTokens(data.tokens || []);
+    } catch (err) {
+      console.error('获取令牌列表失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '创建令牌失败');
+        return;
+      }
+      setCreatedToken(data.token);
+      setName('');
+      await fetchTokens();
+    } catch (err) {
+      console.error('创建令牌失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/api-tokens', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '吊销令牌失败');
+        return;
+      }
+      await fetchTokens();
+    } catch (err) {
+      console.error('吊销令牌失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tvboxUrl =
+    createdToken && typeof window !== 'undefined'
+      ? `${window.location.origin}/api/tvbox/config?token=${createdToken}`
+      : '';
+
+  const panelContent = (
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-[1000]'
+        onClick={onClose}
+      />
+
+      {/* 令牌面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-[1001] p-6 overflow-y-auto'>
+        {/* 标题栏 */}
+        <div className='flex items-center justify-between mb-6'>
+          <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+            API 令牌
+          </h3>
+          <button
+            onClick={onClose}
+            className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+
+        {/* 创建令牌 */}
+        <div className='flex gap-3 mb-4'>
+          <input
+            type='text'
+            className='flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent'
+            placeholder='令牌名称，如：客厅 TVBox'
+            value={name}
+            maxLength={50}
+            onChange={(e) => setName(e.target.value)}
+            disabled={loading}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={loading || !name.trim()}
+            className='px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+          >
+            创建
+          </button>
+        </div>
+
+        {/* 新令牌，仅展示一次 */}
+        {createdToken && (
+          <div className='mb-4 p-3 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 space-y-2'>
+            <p className='text-sm text-green-800 dark:text-green-300'>
+              令牌已创建，请立即复制保存，关闭后将不再显示：
+            </p>
+            <div className='font-mono text-xs break-all p-2 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 select-all'>
+              {createdToken}
+            </div>
+            <p className='text-xs text-gray-600 dark:text-gray-400'>
+              TVBox 订阅地址：
+            </p>
+            <div className='font-mono text-xs break-all p-2 rounded bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 select-all'>
+              {tvboxUrl}
+            </div>
+          </div>
+        )}
+
+        {/* 令牌列表 */}
+        <div className='space-y-3'>
+          {loading && tokens.length === 0 && (
+            <div className='text-sm text-gray-500 dark:text-gray-400 text-center py-6'>
+              加载中...
+            </div>
+          )}
+
+          {!loading && tokens.length === 0 && !error && (
+            <div className='text-sm text-gray-500 dark:text-gray-400 text-center py-6'>
+              暂无 API 令牌
+            </div>
+          )}
+
+          {tokens.map((token) => (
+            <div
+              key={token.id}
+              className='flex items-start justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700'
+            >
+              <div className='flex items-start gap-3 min-w-0'>
+                <KeySquare className='w-5 h-5 mt-0.5 text-gray-500 dark:text-gray-400 flex-shrink-0' />
+                <div className='min-w-0'>
+                  <div className='text-sm font-medium text-gray-800 dark:text-gray-200 truncate'>
+                    {token.name}
+                  </div>
+                  <div className='text-xs text-gray-500 dark:text-gray-400 mt-1 space-y-0.5'>
+                    <div className='font-mono'>{token.prefix}…</div>
+                    <div>创建时间：{formatDateTime(token.created_at)}</div>
+                    <div>
+                      最近使用：
+                      {token.last_used_at
+                        ? formatDateTime(token.last_used_at)
+                        : '从未使用'}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(token.id)}
+                disabled={loading}
+                className='px-2 py-1 text-xs text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 border border-red-200 hover:border-red-300 dark:border-red-800 dark:hover:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors flex-shrink-0 disabled:opacity-50'
+              >
+                吊销
+              </button>
+            </div>
+          ))}
+
+          {/* 错误信息 */}
+          {error && (
+            <div className='text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* 底部说明 */}
+        <div className='mt-6 pt-4 border-t border-gray-200 dark:border-gray-700'>
+          <p className='text-xs text-gray-500 dark:text-gray-400 text-center'>
+            令牌可用于 TVBox 订阅及搜索、详情接口，通过 Authorization: Bearer
+            请求头或 token 参数传递，泄露后请立即吊销
+          </p>
+        </div>
+      </div>
+    </>
+  );
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(panelContent, document.body);
+};
@@ -1,14 +1,82 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 'use client';
 
-import { AlertCircle, AlertTriangle, CheckCircle, Download, FileCheck, Lock, Upload } from 'lucide-react';
+import { AlertCircle, AlertTriangle, Archive, ArrowRightLeft, CheckCircle, Database, Download, FileCheck, Lock, RotateCcw, Trash2, Upload } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 
+import type { BackupSettings } from '@/lib/backup';
+import type { ImportEntity, ImportOptions, ImportPreview, ImportStrategy } from '@/lib/data-import';
+import type { MigrationCheckpoint, MigrationEntity } from '@/lib/storage-migration';
+import type { BackupMeta } from '@/lib/types';
+
+// 在线迁移进度的本地保存键，页面关闭后可继续
+const STORAGE_MIGRATION_KEY = 'moontv_storage_migration';
+
+type StorageTargetType = 'redis' | 'kvrocks' | 'upstash' | 'd1' | 'sqlite';
+
+const ENTITY_LABELS: Record<MigrationEntity, string> = {
+  adminConfig: '管理配置',
+  users: '用户账户',
+  playRecords: '播放记录',
+  favorites: '收藏夹',
+  searchHistory: '搜索历史',
+  skipConfigs: '跳过配置',
+};
+
+const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  account: '账户与密码',
+  playRecords: '播放记录',
+  favorites: '收藏夹',
+  searchHistory: '搜索历史',
+  skipConfigs: '跳过配置',
+};
+
+// 各类数据可选的冲突策略；没有保存时间的数据不支持按新旧合并
+const IMPORT_STRATEGY_OPTIONS: Record<ImportEntity, ImportStrategy[]> = {
+  account: ['overwrite', 'skip'],
+  playRecords: ['overwrite', 'skip', 'newer'],
+  favorites: ['overwrite', 'skip', 'newer'],
+  searchHistory: ['overwrite', 'skip'],
+  skipConfigs: ['overwrite', 'skip'],
+};
+
+const IMPORT_STRATEGY_LABELS: Record<ImportStrategy, string> = {
+  overwrite: '覆盖',
+  skip: '跳过已有',
+  newer: '保留较新',
+};
+
+const DEFAULT_IMPORT_STRATEGIES: ImportOptions['strategies'] = {
+  account: 'skip',
+  playRecords: 'newer',
+  favorites: 'newer',
+  searchHistory: 'skip',
+  skipConfigs: 'skip',
+};
+
+const PHASE_LABELS: Record<MigrationCheckpoint['phase'], string> = {
+  copy: '复制中',
+  verify: '校验中',
+  done: '已完成',
+};
+
 interface DataMigrationProps {
   onRefreshConfig?: () => Promise<void>;
 }
 
+interface SchemaStatus {
+  current: number;
+  latest: number;
+  pending: { version: number; name: string }[];
+}
+
+// 备份文件大小
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+
 interface AlertModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -144,6 +212,22 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importUsers, setImportUsers] = useState<string[]>([]);
+  const [importStrategies, setImportStrategies] = useState(DEFAULT_IMPORT_STRATEGIES);
+  const [importAdminConfig, setImportAdminConfig] = useState<ImportOptions['adminConfig']>('overwrite');
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [targetType, setTargetType] = useState<StorageTargetType>('sqlite');
+  const [targetUrl, setTargetUrl] = useState('');
+  const [targetToken, setTargetToken] = useState('');
+  const [targetPath, setTargetPath] = useState('');
+  const [migrationCheckpoint, setMigrationCheckpoint] = useState<MigrationCheckpoint | null>(null);
+  const [isMigratingStorage, setIsMigratingStorage] = useState(false);
+  const stopMigrationRef = useRef(false);
+  const [backupSettings, setBackupSettings] = useState<BackupSettings | null>(null);
+  const [backups, setBackups] = useState<BackupMeta[]>([]);
+  const [backupBusy, setBackupBusy] = useState<string | null>(null);
   const [alertModal, setAlertModal] = useState<{
     isOpen: boolean;
     type: 'success' | 'error' | 'warning';
@@ -169,6 +253,216 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
     setAlertModal(prev => ({ ...prev, isOpen: false }));
   };
 
+  // 获取存储结构版本
+  const fetchSchemaStatus = async () => {
+    try {
+      const response = await fetch('/api/admin/schema');
+      if (response.ok) {
+        setSchemaStatus(await response.json());
+      }
+    } catch {
+      // 版本信息仅作展示，读取失败时不显示
+    }
+  };
+
+  // 获取自动备份设置与备份列表
+  const fetchBackups = async () => {
+    try {
+      const response = await fetch('/api/admin/backup');
+      if (response.ok) {
+        const result = await response.json();
+        setBackupSettings(result.settings);
+        setBackups(result.backups);
+      }
+    } catch {
+      // 读取失败时不显示备份列表
+    }
+  };
+
+  useEffect(() => {
+    fetchSchemaStatus();
+    fetchBackups();
+
+    // 恢复未完成的在线迁移进度
+    try {
+      const saved = localStorage.getItem(STORAGE_MIGRATION_KEY);
+      if (saved) {
+        const { targetType: savedType, checkpoint } = JSON.parse(saved);
+        setTargetType(savedType);
+        setMigrationCheckpoint(checkpoint);
+      }
+    } catch {
+      localStorage.removeItem(STORAGE_MIGRATION_KEY);
+    }
+  }, []);
+
+  // 在线迁移：循环执行迁移步骤直至完成或手动暂停
+  const handleStorageMigration = async (resume: boolean) => {
+    const target = { type: targetType, url: targetUrl, token: targetToken, path: targetPath };
+    let checkpoint = resume ? migrationCheckpoint : null;
+
+    try {
+      setIsMigratingStorage(true);
+      stopMigrationRef.current = false;
+      if (!resume) {
+        setMigrationCheckpoint(null);
+      }
+
+      do {
+        const response = await fetch('/api/admin/storage_migration', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ target, checkpoint }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.details || result.error || `迁移失败: ${response.status}`);
+        }
+
+        checkpoint = result.checkpoint as MigrationCheckpoint;
+        setMigrationCheckpoint(checkpoint);
+        localStorage.setItem(STORAGE_MIGRATION_KEY, JSON.stringify({ targetType, checkpoint }));
+      } while (checkpoint.phase !== 'done' && !stopMigrationRef.current);
+
+      if (checkpoint.phase === 'done') {
+        localStorage.removeItem(STORAGE_MIGRATION_KEY);
+        showAlert(
+          checkpoint.mismatches.length === 0
+            ? {
+              type: 'success',
+              title: '迁移完成',
+              message: '数据已复制并通过校验，修改存储环境变量并重启后即可切换到新存储',
+            }
+            : {
+              type: 'warning',
+              title: '迁移完成，校验发现不一致',
+              message: `共 ${checkpoint.mismatches.length} 处不一致，迁移期间有数据变化时可再次迁移`,
+            }
+        );
+      }
+    } catch (error) {
+      showAlert({
+        type: 'error',
+        title: '迁移中断',
+        message: `${error instanceof Error ? error.message : '迁移过程中发生错误'}，进度已保存，可稍后继续`,
+      });
+    } finally {
+      setIsMigratingStorage(false);
+    }
+  };
+
+  const targetReady =
+    targetType === 'd1' ||
+    targetType === 'sqlite' ||
+    (targetUrl.trim() !== '' && (targetType !== 'upstash' || targetToken.trim() !== ''));
+
+  // 备份操作：立即备份、从备份恢复、删除备份
+  const runBackupAction = async (action: 'create' | 'restore' | 'delete', id?: string) => {
+    try {
+      setBackupBusy(id || action);
+
+      const response = await fetch('/api/admin/backup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `操作失败: ${response.status}`);
+      }
+
+      await fetchBackups();
+      if (action === 'create') {
+        showAlert({
+          type: 'success',
+          title: '备份完成',
+          message: `已创建备份 ${result.backup.id}`,
+          timer: 3000,
+        });
+      } else if (action === 'restore') {
+        showAlert({
+          type: 'success',
+          title: '恢复完成',
+          message: `已从备份恢复 ${result.importedUsers} 个用户的数据，请刷新页面以查看最新数据`,
+          confirmText: '刷新页面',
+          showConfirm: true,
+          onConfirm: async () => {
+            if (onRefreshConfig) {
+              await onRefreshConfig();
+            }
+            window.location.reload();
+          },
+        });
+      }
+    } catch (error) {
+      showAlert({
+        type: 'error',
+        title: '操作失败',
+        message: error instanceof Error ? error.message : '备份操作过程中发生错误',
+      });
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const confirmRestore = (backup: BackupMeta) => {
+    showAlert({
+      type: 'warning',
+      title: '从备份恢复',
+      message: `将使用 ${new Date(backup.created_at).toLocaleString('zh-CN')} 的备份覆盖当前的管理配置与备份中用户的数据，此操作不可撤销`,
+      confirmText: '确认恢复',
+      showConfirm: true,
+      onConfirm: () => runBackupAction('restore', backup.id),
+    });
+  };
+
+  const confirmDelete = (backup: BackupMeta) => {
+    showAlert({
+      type: 'warning',
+      title: '删除备份',
+      message: `确定删除备份 ${backup.id} 吗？`,
+      confirmText: '删除',
+      showConfirm: true,
+      onConfirm: () => runBackupAction('delete', backup.id),
+    });
+  };
+
+  // 执行待执行的存储结构迁移
+  const handleMigrateSchema = async () => {
+    try {
+      setIsMigrating(true);
+
+      const response = await fetch('/api/admin/schema', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `迁移失败: ${response.status}`);
+      }
+
+      setSchemaStatus(result);
+      showAlert({
+        type: 'success',
+        title: '迁移完成',
+        message: `存储结构已更新到版本 ${result.current}`,
+        timer: 3000,
+      });
+    } catch (error) {
+      showAlert({
+        type: 'error',
+        title: '迁移失败',
+        message: error instanceof Error ? error.message : '迁移过程中发生错误',
+      });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   // 导出数据
   const handleExport = async () => {
     if (!exportPassword.trim()) {
@@ -242,9 +536,55 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
     const file = event.target.files?.[0];
     if (file) {
       setSelectedFile(file);
+      setImportPreview(null);
+    }
+  };
+
+  // 预览导入：解析备份并与现有数据对比，不写入任何数据
+  const handlePreviewImport = async () => {
+    if (!selectedFile || !importPassword.trim()) {
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+
+      const formData = new FormData();
+      formData.append('file', selectedFile);
+      formData.append('password', importPassword);
+      formData.append('mode', 'preview');
+
+      const response = await fetch('/api/admin/data_migration/import', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `预览失败: ${response.status}`);
+      }
+
+      const preview = result as ImportPreview;
+      setImportPreview(preview);
+      setImportUsers(preview.users.map((u) => u.username));
+    } catch (error) {
+      showAlert({
+        type: 'error',
+        title: '预览失败',
+        message: error instanceof Error ? error.message : '解析备份文件时发生错误',
+      });
+    } finally {
+      setIsImporting(false);
     }
   };
 
+  const toggleImportUser = (username: string) => {
+    setImportUsers((prev) =>
+      prev.includes(username) ? prev.filter((u) => u !== username) : [...prev, username]
+    );
+  };
+
   // 导入数据
   const handleImport = async () => {
     if (!selectedFile) {
@@ -271,6 +611,15 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
       const formData = new FormData();
       formData.append('file', selectedFile);
       formData.append('password', importPassword);
+      formData.append('mode', 'apply');
+      formData.append(
+        'options',
+        JSON.stringify({
+          users: importUsers,
+          strategies: importStrategies,
+          adminConfig: importAdminConfig,
+        } as ImportOptions)
+      );
 
       const response = await fetch('/api/admin/data_migration/import', {
         method: 'POST',
@@ -283,6 +632,8 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
         throw new Error(result.error || `导入失败: ${response.status}`);
       }
 
+      setImportPreview(null);
+
       showAlert({
         type: 'success',
         title: '导入成功',
@@ -336,6 +687,31 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
           </p>
         </div>
 
+        {/* 存储结构版本 */}
+        {schemaStatus && (
+          <div className="flex items-center gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+            <Database className="w-5 h-5 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+            <p className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+              存储结构版本 {schemaStatus.current}
+              {schemaStatus.pending.length > 0
+                ? `，有 ${schemaStatus.pending.length} 个待执行的迁移（最新版本 ${schemaStatus.latest}）`
+                : '，已是最新'}
+            </p>
+            {schemaStatus.pending.length > 0 && (
+              <button
+                onClick={handleMigrateSchema}
+                disabled={isMigrating}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${isMigrating
+                  ? 'bg-gray-100 dark:bg-gray-700 cursor-not-allowed text-gray-500 dark:text-gray-400'
+                  : 'bg-blue-600 hover:bg-blue-700 text-white'
+                  }`}
+              >
+                {isMigrating ? '迁移中...' : '立即迁移'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* 主要操作区域 - 响应式布局 */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* 数据导出 */}
@@ -415,7 +791,7 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
               </div>
               <div>
                 <h3 className="font-semibold text-gray-900 dark:text-gray-100">数据导入</h3>
-                <p className="text-sm text-red-600 dark:text-red-400">⚠️ 将清空现有数据</p>
+                <p className="text-sm text-red-600 dark:text-red-400">导入前可预览差异并选择冲突处理方式</p>
               </div>
             </div>
 
@@ -459,9 +835,9 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
                 </div>
               </div>
 
-              {/* 导入按钮 */}
+              {/* 预览按钮 */}
               <button
-                onClick={handleImport}
+                onClick={handlePreviewImport}
                 disabled={isImporting || !selectedFile || !importPassword.trim()}
                 className={`w-full px-4 py-2.5 rounded-lg font-medium transition-colors mt-10 ${isImporting || !selectedFile || !importPassword.trim()
                   ? 'bg-gray-100 dark:bg-gray-700 cursor-not-allowed text-gray-500 dark:text-gray-400'
@@ -471,20 +847,406 @@ const DataMigration = ({ onRefreshConfig }: DataMigrationProps) => {
                 {isImporting ? (
                   <div className="flex items-center justify-center gap-2">
                     <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                    导入中...
+                    解析中...
                   </div>
                 ) : (
                   <div className="flex items-center justify-center gap-2">
                     <Upload className="w-4 h-4" />
-                    导入数据
+                    预览导入
                   </div>
                 )}
               </button>
             </div>
           </div>
         </div>
+
+        {/* 导入预览 */}
+        {importPreview && (
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-6 bg-white dark:bg-gray-800 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">导入预览</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                备份时间 {importPreview.timestamp ? new Date(importPreview.timestamp).toLocaleString('zh-CN') : '未知'} · 服务器版本 {importPreview.serverVersion || '未知版本'}
+              </p>
+            </div>
+
+            {importPreview.legacyEncryption && (
+              <div className="flex items-center gap-3 p-3 border border-amber-200 dark:border-amber-700 rounded-lg bg-amber-50/30 dark:bg-amber-900/5">
+                <AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                <p className="text-xs text-amber-800 dark:text-amber-200">
+                  该备份使用旧版加密格式，仍可正常导入；建议导入后重新导出，以使用更安全的新格式
+                </p>
+              </div>
+            )}
+
+            {/* 冲突策略 */}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {(Object.keys(IMPORT_ENTITY_LABELS) as ImportEntity[]).map((entity) => (
+                <div key={entity}>
+                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {IMPORT_ENTITY_LABELS[entity]}
+                  </label>
+                  <select
+                    value={importStrategies[entity]}
+                    onChange={(e) =>
+                      setImportStrategies((prev) => ({ ...prev, [entity]: e.target.value as ImportStrategy }))
+                    }
+                    disabled={isImporting}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  >
+                    {IMPORT_STRATEGY_OPTIONS[entity].map((strategy) => (
+                      <option key={strategy} value={strategy}>
+                        {IMPORT_STRATEGY_LABELS[strategy]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">管理配置</label>
+                <select
+                  value={importAdminConfig}
+                  onChange={(e) => setImportAdminConfig(e.target.value as ImportOptions['adminConfig'])}
+                  disabled={isImporting}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="overwrite">覆盖</option>
+                  <option value="skip">保持现有</option>
+                </select>
+              </div>
+            </div>
+
+            {/* 管理配置变化 */}
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              <p className="font-medium text-gray-700 dark:text-gray-300 mb-1">管理配置变化：</p>
+              {importPreview.adminConfigChanges.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {importPreview.adminConfigChanges.map((path) => (
+                    <span key={path} className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 font-mono">
+                      {path}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p>与当前配置一致</p>
+              )}
+            </div>
+
+            {/* 用户列表 */}
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-3">
+                      <input
+                        type="checkbox"
+                        checked={importUsers.length === importPreview.users.length}
+                        onChange={(e) =>
+                          setImportUsers(e.target.checked ? importPreview.users.map((u) => u.username) : [])
+                        }
+                      />
+                    </th>
+                    <th className="py-2 pr-3">用户</th>
+                    <th className="py-2 pr-3">状态</th>
+                    {(['playRecords', 'favorites', 'searchHistory', 'skipConfigs'] as const).map((entity) => (
+                      <th key={entity} className="py-2 pr-3">
+                        {IMPORT_ENTITY_LABELS[entity]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.users.map((user) => (
+                    <tr key={user.username} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300">
+                      <td className="py-2 pr-3">
+                        <input
+                          type="checkbox"
+                          checked={importUsers.includes(user.username)}
+                          onChange={() => toggleImportUser(user.username)}
+                        />
+                      </td>
+                      <td className="py-2 pr-3 font-medium">{user.username}</td>
+                      <td className="py-2 pr-3">
+                        {user.exists ? (
+                          <span className="text-amber-600 dark:text-amber-400">已存在</span>
+                        ) : (
+                          <span className="text-green-600 dark:text-green-400">新增</span>
+                        )}
+                      </td>
+                      {(['playRecords', 'favorites', 'searchHistory', 'skipConfigs'] as const).map((entity) => {
+                        const diff = user.entities[entity];
+                        return (
+                          <td key={entity} className="py-2 pr-3 text-xs" title="备份条数 / 现有条数">
+                            {diff.incoming} / {diff.existing}
+                            {diff.conflicts > 0 && (
+                              <span className="ml-1 text-amber-600 dark:text-amber-400">
+                                冲突 {diff.conflicts}
+                                {diff.newer > 0 && `（较新 ${diff.newer}）`}
+                              </span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setImportPreview(null)}
+                disabled={isImporting}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || (importUsers.length === 0 && importAdminConfig === 'skip')}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+              >
+                {isImporting ? '导入中...' : `导入 ${importUsers.length} 个用户`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 在线迁移 */}
+      <div className="max-w-6xl mx-auto mt-6 border border-gray-200 dark:border-gray-700 rounded-lg p-6 bg-white dark:bg-gray-800 hover:shadow-sm transition-shadow">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-8 h-8 rounded-lg bg-purple-50 dark:bg-purple-900/20 flex items-center justify-center">
+            <ArrowRightLeft className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">在线迁移</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">将当前存储的数据直接复制到另一个存储，目标中的同名数据将被覆盖</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">目标存储</label>
+            <select
+              value={targetType}
+              onChange={(e) => setTargetType(e.target.value as StorageTargetType)}
+              disabled={isMigratingStorage}
+              className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+            >
+              <option value="sqlite">SQLite</option>
+              <option value="d1">Cloudflare D1（DB 绑定）</option>
+              <option value="redis">Redis</option>
+              <option value="kvrocks">Kvrocks</option>
+              <option value="upstash">Upstash</option>
+            </select>
+          </div>
+
+          {targetType === 'sqlite' && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">数据库文件</label>
+              <input
+                type="text"
+                value={targetPath}
+                onChange={(e) => setTargetPath(e.target.value)}
+                placeholder="默认 data/moontv.db"
+                disabled={isMigratingStorage}
+                className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+              />
+            </div>
+          )}
+
+          {(targetType === 'redis' || targetType === 'kvrocks' || targetType === 'upstash') && (
+            <div className={targetType === 'upstash' ? '' : 'md:col-span-2'}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">连接地址</label>
+              <input
+                type="text"
+                value={targetUrl}
+                onChange={(e) => setTargetUrl(e.target.value)}
+                placeholder={targetType === 'upstash' ? 'https://xxx.upstash.io' : 'redis://host:6379'}
+                disabled={isMigratingStorage}
+                className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+              />
+            </div>
+          )}
+
+          {targetType === 'upstash' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Token</label>
+              <input
+                type="password"
+                value={targetToken}
+                onChange={(e) => setTargetToken(e.target.value)}
+                disabled={isMigratingStorage}
+                className="w-full px-3 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-colors"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 迁移进度 */}
+        {migrationCheckpoint && (
+          <div className="mt-6 space-y-3">
+            <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+              <span>{PHASE_LABELS[migrationCheckpoint.phase]}</span>
+              {migrationCheckpoint.phase !== 'done' && (
+                <span>
+                  {migrationCheckpoint.processedUsers} / {migrationCheckpoint.totalUsers} 个用户
+                </span>
+              )}
+            </div>
+            {migrationCheckpoint.phase !== 'done' && (
+              <div className="w-full h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all"
+                  style={{
+                    width: `${migrationCheckpoint.totalUsers
+                      ? Math.round((migrationCheckpoint.processedUsers / migrationCheckpoint.totalUsers) * 100)
+                      : 100}%`,
+                  }}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-xs text-gray-600 dark:text-gray-400">
+              {(Object.keys(ENTITY_LABELS) as MigrationEntity[]).map((entity) => (
+                <div key={entity} className="px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                  <div>{ENTITY_LABELS[entity]}</div>
+                  <div className="mt-1 text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {migrationCheckpoint.copied[entity] ?? 0}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {migrationCheckpoint.mismatches.length > 0 && (
+              <div className="p-3 rounded-lg bg-amber-50/50 dark:bg-amber-900/10 text-xs text-amber-800 dark:text-amber-200 space-y-1">
+                <p className="font-medium">校验不一致（源 / 目标条数）：</p>
+                {migrationCheckpoint.mismatches.slice(0, 20).map((m) => (
+                  <p key={`${m.username}:${m.entity}`}>
+                    {m.username || '站点'} · {ENTITY_LABELS[m.entity]}：{m.source.count} / {m.target.count}
+                  </p>
+                ))}
+                {migrationCheckpoint.mismatches.length > 20 && (
+                  <p>…… 共 {migrationCheckpoint.mismatches.length} 处</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3 mt-6">
+          {isMigratingStorage ? (
+            <button
+              onClick={() => {
+                stopMigrationRef.current = true;
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              暂停
+            </button>
+          ) : (
+            <>
+              {migrationCheckpoint && migrationCheckpoint.phase !== 'done' && (
+                <button
+                  onClick={() => handleStorageMigration(true)}
+                  disabled={!targetReady}
+                  className="px-4 py-2 text-sm font-medium text-purple-700 dark:text-purple-300 bg-purple-50 dark:bg-purple-900/20 hover:bg-purple-100 dark:hover:bg-purple-900/40 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                >
+                  继续迁移
+                </button>
+              )}
+              <button
+                onClick={() => handleStorageMigration(false)}
+                disabled={!targetReady}
+                className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+              >
+                {migrationCheckpoint ? '重新开始' : '开始迁移'}
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
+      {/* 自动备份 */}
+      {backupSettings && (
+        <div className="max-w-6xl mx-auto mt-6 border border-gray-200 dark:border-gray-700 rounded-lg p-6 bg-white dark:bg-gray-800 hover:shadow-sm transition-shadow">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-8 h-8 rounded-lg bg-green-50 dark:bg-green-900/20 flex items-center justify-center">
+              <Archive className="w-4 h-4 text-green-600 dark:text-green-400" />
+            </div>
+            <div className="flex-1">
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100">自动备份</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                每天自动备份到{backupSettings.destination === 'directory' ? `目录 ${backupSettings.directory}` : '当前存储'}，
+                保留最近 {backupSettings.keepDaily} 天与 {backupSettings.keepWeekly} 周的备份
+              </p>
+            </div>
+            <button
+              onClick={() => runBackupAction('create')}
+              disabled={!backupSettings.enabled || backupBusy !== null}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              {backupBusy === 'create' ? '备份中...' : '立即备份'}
+            </button>
+          </div>
+
+          {!backupSettings.enabled && (
+            <div className="flex items-center gap-3 p-3 mb-4 border border-amber-200 dark:border-amber-700 rounded-lg bg-amber-50/30 dark:bg-amber-900/5">
+              <AlertTriangle className="w-4 h-4 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+              <p className="text-sm text-amber-800 dark:text-amber-200">
+                未设置 BACKUP_PASSWORD 环境变量，自动备份未启用
+              </p>
+            </div>
+          )}
+
+          {backups.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">暂无备份</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {backups.map((backup) => (
+                <div key={backup.id} className="flex items-center gap-3 py-2.5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                      {new Date(backup.created_at).toLocaleString('zh-CN')}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {backup.trigger === 'scheduled' ? '定时' : '手动'} · {formatSize(backup.size)}
+                    </p>
+                  </div>
+                  <a
+                    href={`/api/admin/backup?id=${encodeURIComponent(backup.id)}`}
+                    download={backup.id}
+                    className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+                    title="下载"
+                  >
+                    <Download className="w-4 h-4" />
+                  </a>
+                  <button
+                    onClick={() => confirmRestore(backup)}
+                    disabled={!backupSettings.enabled || backupBusy !== null}
+                    className="p-2 text-gray-500 hover:text-amber-600 dark:text-gray-400 dark:hover:text-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="恢复"
+                  >
+                    {backupBusy === backup.id ? (
+                      <div className="w-4 h-4 border-2 border-amber-600 border-t-transparent rounded-full animate-spin"></div>
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => confirmDelete(backup)}
+                    disabled={backupBusy !== null}
+                    className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    title="删除"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 弹窗组件 */}
       <AlertModal
         isOpen={alertModal.isOpen}
@@ -9,7 +9,7 @@ import React, {
   useState,
 } from 'react';
 
-import { SearchResult } from '@/lib/types';
+import { PlayLine, SearchResult } from '@/lib/types';
 import { getVideoResolutionFromM3u8, processImageUrl } from '@/lib/utils';
 
 // 定义视频信息类型
@@ -31,6 +31,11 @@ interface EpisodeSelectorProps {
   value?: number;
   /** 用户点击选集后的回调 */
   onChange?: (episodeNumber: number) => void;
+  /** 播放线路，多于一条时显示线路切换 */
+  playLines?: PlayLine[];
+  /** 当前线路名 */
+  currentPlayLine?: string;
+  onPlayLineChange?: (name: string) => void;
   /** 换源相关 */
   onSourceChange?: (source: string, id: string, title: string) => void;
   currentSource?: string;
@@ -60,6 +65,9 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   episodesPerPage = 50,
   value = 1,
   onChange,
+  playLines = [],
+  currentPlayLine,
+  onPlayLineChange,
   onSourceChange,
   currentSource,
   currentId,
@@ -114,6 +122,11 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
   // 取消优选标志
   const cancelOptimizationRef = useRef<boolean>(false);
 
+  // 切换线路或换源后总集数可能变少，分页索引不能越界
+  useEffect(() => {
+    setCurrentPage((page) => Math.min(page, Math.max(pageCount - 1, 0)));
+  }, [pageCount]);
+
   // 根据 descending 状态计算实际显示的分页索引
   const displayPage = useMemo(() => {
     if (descending) {
@@ -411,6 +424,31 @@ const EpisodeSelector: React.FC<EpisodeSelectorProps> = ({
       {/* 选集 Tab 内容 */}
       {activeTab === 'episodes' && (
         <>
+          {/* 线路切换 */}
+          {playLines.length > 1 && (
+            <div className='flex gap-2 mb-2 overflow-x-auto scrollbar-hide flex-shrink-0'>
+              {playLines.map((line) => {
+                const isActive = line.name === currentPlayLine;
+                return (
+                  <button
+                    key={line.name}
+                    onClick={() => !isActive && onPlayLineChange?.(line.name)}
+                    title={`${line.name}（${line.episodes.length} 集）`}
+                    className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap flex-shrink-0 transition-colors
+                      ${
+                        isActive
+                          ? 'bg-green-500 text-white dark:bg-green-600'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-white/10 dark:text-gray-300 dark:hover:bg-white/20'
+                      }
+                    `.trim()}
+                  >
+                    {line.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* 分类标签 */}
           <div className='flex items-center gap-4 mb-4 border-b border-gray-300 dark:border-gray-700 -mx-6 px-6 flex-shrink-0'>
             <div className='flex-1 overflow-x-auto scrollbar-hide' ref={categoryContainerRef}>
@@ -0,0 +1,254 @@
+/* eslint-disable no-console */
+
+'use client';
+
+import { Download, Upload, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { exportPersonalData, importPersonalData } from '@/lib/db.client';
+import {
+  parsePersonalData,
+  PersonalData,
+  PersonalDataEntity,
+  PersonalDataFormatError,
+  PersonalImportPlan,
+} from '@/lib/personal-data';
+
+interface PersonalDataPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<PersonalDataEntity, string> = {
+  playRecords: '播放记录',
+  favorites: '收藏',
+  searchHistory: '搜索历史',
+  skipConfigs: '跳过配置',
+};
+
+const countOf = (data: PersonalData['data'], entity: PersonalDataEntity) => {
+  const value = data[entity];
+  return Array.isArray(value) ? value.length : Object.keys(value).length;
+};
+
+export const PersonalDataPanel: React.FC<PersonalDataPanelProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<PersonalData | null>(null);
+  const [summary, setSummary] = useState<PersonalImportPlan['summary'] | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 确保组件已挂载
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setError('');
+      setPending(null);
+      setSummary(null);
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const data = await exportPersonalData();
+      const blob = new Blob([JSON.stringify(data, null, 2)], {
+        type: 'application/json',
+      });
+      const date = data.exportedAt.slice(0, 10).replace(/-/g, '');
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `moontv-personal-${data.username || 'local'}-${date}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('导出个人数据失败:', err);
+      setError('导出失败，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setSummary(null);
+    try {
+      setPending(parsePersonalData(await file.text()));
+    } catch (err) {
+      setPending(null);
+      setError(
+        err instanceof PersonalDataFormatError ? err.message : '读取文件失败'
+      );
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setLoading(true);
+    setError('');
+    try {
+      setSummary(await importPersonalData(pending));
+      setPending(null);
+    } catch (err) {
+      console.error('导入个人数据失败:', err);
+      setError('导入失败，部分数据可能已写入，可重新导入');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const entities = Object.keys(ENTITY_LABELS) as PersonalDataEntity[];
+
+  const panelContent = (
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-[1000]'
+        onClick={onClose}
+      />
+
+      {/* 个人数据面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-[1001] p-6 overflow-y-auto'>
+        {/* 标题栏 */}
+        <div className='flex items-center justify-between mb-6'>
+          <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+            个人数据
+          </h3>
+          <button
+            onClick={onClose}
+            className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+
+        <div className='space-y-4'>
+          {/* 导出 */}
+          <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+            <h4 className='text-sm font-medium text-gray-800 dark:text-gray-200'>
+              导出
+            </h4>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-1 mb-3'>
+              将播放记录、收藏、搜索历史与跳过配置导出为 JSON 文件，可导入到其他
+              MoonTV 站点
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={loading}
+              className='w-full px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2'
+            >
+              <Download className='w-4 h-4' />
+              导出个人数据
+            </button>
+          </div>
+
+          {/* 导入 */}
+          <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+            <h4 className='text-sm font-medium text-gray-800 dark:text-gray-200'>
+              导入
+            </h4>
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-1 mb-3'>
+              与现有数据合并：同一条目保留保存时间较新的一方，不会删除现有数据
+            </p>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='.json,application/json'
+              onChange={handleFileSelect}
+              className='hidden'
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className='w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2'
+            >
+              <Upload className='w-4 h-4' />
+              选择文件
+            </button>
+
+            {/* 待导入文件概览 */}
+            {pending && (
+              <div className='mt-3 space-y-3'>
+                <div className='text-xs text-gray-500 dark:text-gray-400'>
+                  {pending.username ? `来自用户 ${pending.username}，` : ''}
+                  导出于{' '}
+                  {pending.exportedAt
+                    ? new Date(pending.exportedAt).toLocaleString('zh-CN', {
+                        hour12: false,
+                      })
+                    : '未知时间'}
+                </div>
+                <div className='grid grid-cols-2 gap-2'>
+                  {entities.map((entity) => (
+                    <div
+                      key={entity}
+                      className='flex items-center justify-between px-3 py-2 rounded-md bg-gray-50 dark:bg-gray-800 text-xs'
+                    >
+                      <span className='text-gray-600 dark:text-gray-400'>
+                        {ENTITY_LABELS[entity]}
+                      </span>
+                      <span className='font-medium text-gray-800 dark:text-gray-200'>
+                        {countOf(pending.data, entity)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={handleImport}
+                  disabled={loading}
+                  className='w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  {loading ? '导入中...' : '确认导入'}
+                </button>
+              </div>
+            )}
+
+            {/* 导入结果 */}
+            {summary && (
+              <div className='mt-3 p-3 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-xs text-green-700 dark:text-green-300 space-y-1'>
+                <div className='font-medium'>导入完成</div>
+                {entities.map((entity) => (
+                  <div key={entity}>
+                    {ENTITY_LABELS[entity]}：写入 {summary[entity].imported}{' '}
+                    条，跳过 {summary[entity].skipped} 条
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 错误信息 */}
+          {error && (
+            <div className='text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(panelContent, document.body);
+};
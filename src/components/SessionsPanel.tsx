@@ -0,0 +1,214 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { LogOut, Monitor, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+interface SessionsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SessionItem {
+  id: string;
+  device: string;
+  ip?: string;
+  created_at: number;
+  last_seen: number;
+  expires_at: number;
+  current: boolean;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-CN', { hour12: false });
+
+export const SessionsPanel: React.FC<SessionsPanelProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // 确保组件已挂载
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchSessions();
+    }
+  }, [isOpen]);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/sessions', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '获取会话列表失败');
+        return;
+      }
+      setSessions(data.sessions || []);
+    } catch (err) {
+      console.error('获取会话列表失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revoke = async (body: { sessionId?: string; scope?: string }) => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/sessions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '注销失败');
+        return;
+      }
+      // 注销了当前会话，回到首页重新登录
+      const revokedCurrent =
+        body.scope === 'all' ||
+        sessions.some((s) => s.current && s.id === body.sessionId);
+      if (revokedCurrent) {
+        window.location.href = '/';
+        return;
+      }
+      await fetchSessions();
+    } catch (err) {
+      console.error('注销会话失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((s) => !s.current);
+
+  const panelContent = (
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-[1000]'
+        onClick={onClose}
+      />
+
+      {/* 会话面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-lg max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-[1001] p-6 overflow-y-auto'>
+        {/* 标题栏 */}
+        <div className='flex items-center justify-between mb-6'>
+          <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+            登录设备
+          </h3>
+          <button
+            onClick={onClose}
+            className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+
+        {/* 会话列表 */}
+        <div className='space-y-3'>
+          {loading && sessions.length === 0 && (
+            <div className='text-sm text-gray-500 dark:text-gray-400 text-center py-6'>
+              加载中...
+            </div>
+          )}
+
+          {!loading && sessions.length === 0 && !error && (
+            <div className='text-sm text-gray-500 dark:text-gray-400 text-center py-6'>
+              暂无登录会话
+            </div>
+          )}
+
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className='flex items-start justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700'
+            >
+              <div className='flex items-start gap-3 min-w-0'>
+                <Monitor className='w-5 h-5 mt-0.5 text-gray-500 dark:text-gray-400 flex-shrink-0' />
+                <div className='min-w-0'>
+                  <div className='flex items-center gap-2'>
+                    <span className='text-sm font-medium text-gray-800 dark:text-gray-200 truncate'>
+                      {session.device}
+                    </span>
+                    {session.current && (
+                      <span className='inline-flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'>
+                        当前设备
+                      </span>
+                    )}
+                  </div>
+                  <div className='text-xs text-gray-500 dark:text-gray-400 mt-1 space-y-0.5'>
+                    {session.ip && <div>IP：{session.ip}</div>}
+                    <div>登录时间：{formatDateTime(session.created_at)}</div>
+                    <div>最近活跃：{formatDateTime(session.last_seen)}</div>
+                    <div>过期时间：{formatDateTime(session.expires_at)}</div>
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => revoke({ sessionId: session.id })}
+                disabled={loading}
+                className='px-2 py-1 text-xs text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 border border-red-200 hover:border-red-300 dark:border-red-800 dark:hover:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors flex-shrink-0 disabled:opacity-50'
+              >
+                注销
+              </button>
+            </div>
+          ))}
+
+          {/* 错误信息 */}
+          {error && (
+            <div className='text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* 操作按钮 */}
+        <div className='flex gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-gray-700'>
+          <button
+            onClick={() => revoke({ scope: 'others' })}
+            className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+            disabled={loading || !hasOtherSessions}
+          >
+            登出其他设备
+          </button>
+          <button
+            onClick={() => revoke({ scope: 'all' })}
+            className='flex-1 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2'
+            disabled={loading || sessions.length === 0}
+          >
+            <LogOut className='w-4 h-4' />
+            登出全部设备
+          </button>
+        </div>
+
+        {/* 底部说明 */}
+        <div className='mt-4 pt-4 border-t border-gray-200 dark:border-gray-700'>
+          <p className='text-xs text-gray-500 dark:text-gray-400 text-center'>
+            登录会话有效期为 7 天，注销后对应设备需要重新登录
+          </p>
+        </div>
+      </div>
+    </>
+  );
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(panelContent, document.body);
+};
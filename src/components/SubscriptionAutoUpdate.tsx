@@ -12,10 +12,8 @@ export default function SubscriptionAutoUpdate() {
   useEffect(() => {
     const checkUpdate = async () => {
       try {
-        const response = await fetch('/api/admin/subscription', {
+        const response = await fetch('/api/subscription/check', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ action: 'check' }),
         });
         if (response.ok) {
           const data = await response.json();
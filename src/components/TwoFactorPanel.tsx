@@ -0,0 +1,293 @@
+/* eslint-disable no-console,react-hooks/exhaustive-deps */
+
+'use client';
+
+import { ShieldCheck, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+interface TwoFactorPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+export const TwoFactorPanel: React.FC<TwoFactorPanelProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const [mounted, setMounted] = useState(false);
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUri: string;
+  } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // 确保组件已挂载
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSetup(null);
+      setRecoveryCodes([]);
+      setCode('');
+      fetchStatus();
+    }
+  }, [isOpen]);
+
+  const fetchStatus = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/two-factor', { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '获取两步验证状态失败');
+        return;
+      }
+      setStatus(data);
+    } catch (err) {
+      console.error('获取两步验证状态失败:', err);
+      setError('网络错误，请稍后重试');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const postAction = async (body: { action: string; code?: string }) => {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || '操作失败');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error('两步验证操作失败:', err);
+      setError('网络错误，请稍后重试');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetup = async () => {
+    const data = await postAction({ action: 'setup' });
+    if (data) {
+      setSetup(data);
+      setCode('');
+    }
+  };
+
+  const handleEnable = async () => {
+    const data = await postAction({ action: 'enable', code });
+    if (data) {
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes || []);
+      await fetchStatus();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const data = await postAction({ action: 'regenerate', code });
+    if (data) {
+      setCode('');
+      setRecoveryCodes(data.recoveryCodes || []);
+      await fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await postAction({ action: 'disable', code });
+    if (data) {
+      setCode('');
+      setRecoveryCodes([]);
+      await fetchStatus();
+    }
+  };
+
+  const codeInput = (
+    <input
+      type='text'
+      inputMode='numeric'
+      autoComplete='one-time-code'
+      className='w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent'
+      placeholder='验证器中的 6 位验证码'
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      disabled={loading}
+    />
+  );
+
+  const panelContent = (
+    <>
+      {/* 背景遮罩 */}
+      <div
+        className='fixed inset-0 bg-black/50 backdrop-blur-sm z-[1000]'
+        onClick={onClose}
+      />
+
+      {/* 两步验证面板 */}
+      <div className='fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-md max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-xl z-[1001] p-6 overflow-y-auto'>
+        {/* 标题栏 */}
+        <div className='flex items-center justify-between mb-6'>
+          <h3 className='text-xl font-bold text-gray-800 dark:text-gray-200'>
+            两步验证
+          </h3>
+          <button
+            onClick={onClose}
+            className='w-8 h-8 p-1 rounded-full flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors'
+            aria-label='Close'
+          >
+            <X className='w-full h-full' />
+          </button>
+        </div>
+
+        <div className='space-y-4'>
+          {loading && !status && (
+            <div className='text-sm text-gray-500 dark:text-gray-400 text-center py-6'>
+              加载中...
+            </div>
+          )}
+
+          {status && (
+            <div className='flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700'>
+              <ShieldCheck
+                className={`w-5 h-5 flex-shrink-0 ${
+                  status.enabled
+                    ? 'text-green-600 dark:text-green-400'
+                    : 'text-gray-400 dark:text-gray-500'
+                }`}
+              />
+              <div className='text-sm text-gray-800 dark:text-gray-200'>
+                {status.enabled
+                  ? `已启用，剩余 ${status.recoveryCodesLeft} 个恢复码`
+                  : '未启用'}
+              </div>
+            </div>
+          )}
+
+          {status?.required && !status.enabled && (
+            <div className='text-sm text-yellow-800 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-md border border-yellow-200 dark:border-yellow-800'>
+              站长要求管理员启用两步验证，启用前无法使用管理功能
+            </div>
+          )}
+
+          {/* 新生成的恢复码，仅展示一次 */}
+          {recoveryCodes.length > 0 && (
+            <div className='p-3 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20'>
+              <p className='text-sm text-green-800 dark:text-green-300 mb-2'>
+                请妥善保存以下恢复码，每个仅可使用一次，关闭后将不再显示：
+              </p>
+              <div className='grid grid-cols-2 gap-1 font-mono text-sm text-gray-800 dark:text-gray-200'>
+                {recoveryCodes.map((c) => (
+                  <span key={c}>{c}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 未启用：绑定流程 */}
+          {status && !status.enabled && !setup && (
+            <button
+              onClick={handleSetup}
+              disabled={loading}
+              className='w-full px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+            >
+              开始绑定
+            </button>
+          )}
+
+          {status && !status.enabled && setup && (
+            <div className='space-y-3'>
+              <p className='text-sm text-gray-600 dark:text-gray-400'>
+                在验证器应用中
+                <a
+                  href={setup.otpauthUri}
+                  className='text-green-600 dark:text-green-400 hover:underline mx-1'
+                >
+                  打开绑定链接
+                </a>
+                ，或手动输入以下密钥：
+              </p>
+              <div className='font-mono text-sm break-all p-2 rounded bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 select-all'>
+                {setup.secret}
+              </div>
+              {codeInput}
+              <button
+                onClick={handleEnable}
+                disabled={loading || !code}
+                className='w-full px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+              >
+                验证并启用
+              </button>
+            </div>
+          )}
+
+          {/* 已启用：重新生成恢复码 / 关闭 */}
+          {status?.enabled && (
+            <div className='space-y-3'>
+              {codeInput}
+              <div className='flex gap-3'>
+                <button
+                  onClick={handleRegenerate}
+                  disabled={loading || !code}
+                  className='flex-1 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                  重新生成恢复码
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={handleDisable}
+                    disabled={loading || !code}
+                    className='flex-1 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+                  >
+                    关闭两步验证
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* 错误信息 */}
+          {error && (
+            <div className='text-red-500 text-sm bg-red-50 dark:bg-red-900/20 p-3 rounded-md border border-red-200 dark:border-red-800'>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* 底部说明 */}
+        <div className='mt-6 pt-4 border-t border-gray-200 dark:border-gray-700'>
+          <p className='text-xs text-gray-500 dark:text-gray-400 text-center'>
+            启用后登录需额外输入验证码，丢失验证器时可使用恢复码登录
+          </p>
+        </div>
+      </div>
+    </>
+  );
+
+  if (!isOpen || !mounted) return null;
+
+  return createPortal(panelContent, document.body);
+};
@@ -5,11 +5,15 @@
 import {
   Check,
   ChevronDown,
+  Database,
   ExternalLink,
   KeyRound,
+  KeySquare,
   LogOut,
+  MonitorSmartphone,
   Settings,
   Shield,
+  ShieldCheck,
   User,
   X,
 } from 'lucide-react';
@@ -20,7 +24,11 @@ import { createPortal } from 'react-dom';
 import { getAuthInfoFromBrowserCookie } from '@/lib/auth';
 import { checkForUpdates, CURRENT_VERSION, UpdateStatus } from '@/lib/version';
 
+import { ApiTokensPanel } from './ApiTokensPanel';
 import { useNavigationLoading } from './NavigationLoadingProvider';
+import { PersonalDataPanel } from './PersonalDataPanel';
+import { SessionsPanel } from './SessionsPanel';
+import { TwoFactorPanel } from './TwoFactorPanel';
 import { VersionPanel } from './VersionPanel';
 
 interface AuthInfo {
@@ -36,6 +44,11 @@ export const UserMenu: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
   const [isVersionPanelOpen, setIsVersionPanelOpen] = useState(false);
+  const [isSessionsPanelOpen, setIsSessionsPanelOpen] = useState(false);
+  const [isTwoFactorPanelOpen, setIsTwoFactorPanelOpen] = useState(false);
+  const [isApiTokensPanelOpen, setIsApiTokensPanelOpen] = useState(false);
+  const [isPersonalDataPanelOpen, setIsPersonalDataPanelOpen] =
+    useState(false);
   const [authInfo, setAuthInfo] = useState<AuthInfo | null>(null);
   const [storageType, setStorageType] = useState<string>('localstorage');
   const [mounted, setMounted] = useState(false);
@@ -539,6 +552,9 @@ export const UserMenu: React.FC = () => {
   const showAdminPanel =
     authInfo?.role === 'owner' || authInfo?.role === 'admin';
 
+  // 检查是否显示登录设备按钮（仅服务端存储模式有会话）
+  const showSessions = storageType !== 'localstorage';
+
   // 检查是否显示修改密码按钮
   const showChangePassword =
     authInfo?.role !== 'owner' && storageType !== 'localstorage';
@@ -632,6 +648,60 @@ export const UserMenu: React.FC = () => {
             </button>
           )}
 
+          {/* 登录设备按钮 */}
+          {showSessions && (
+            <button
+              onClick={() => {
+                setIsSessionsPanelOpen(true);
+                handleCloseMenu();
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+            >
+              <MonitorSmartphone className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>登录设备</span>
+            </button>
+          )}
+
+          {/* 两步验证按钮 */}
+          {showSessions && (
+            <button
+              onClick={() => {
+                setIsTwoFactorPanelOpen(true);
+                handleCloseMenu();
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+            >
+              <ShieldCheck className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>两步验证</span>
+            </button>
+          )}
+
+          {/* API 令牌按钮 */}
+          {showSessions && (
+            <button
+              onClick={() => {
+                setIsApiTokensPanelOpen(true);
+                handleCloseMenu();
+              }}
+              className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+            >
+              <KeySquare className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+              <span className='font-medium'>API 令牌</span>
+            </button>
+          )}
+
+          {/* 个人数据按钮 */}
+          <button
+            onClick={() => {
+              setIsPersonalDataPanelOpen(true);
+              handleCloseMenu();
+            }}
+            className='w-full px-3 py-2 text-left flex items-center gap-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm'
+          >
+            <Database className='w-4 h-4 text-gray-500 dark:text-gray-400' />
+            <span className='font-medium'>个人数据</span>
+          </button>
+
           {/* 分割线 */}
           <div className='my-1 border-t border-gray-200 dark:border-gray-700'></div>
 
@@ -1348,6 +1418,30 @@ export const UserMenu: React.FC = () => {
         mounted &&
         createPortal(changePasswordPanel, document.body)}
 
+      {/* 登录设备面板 */}
+      <SessionsPanel
+        isOpen={isSessionsPanelOpen}
+        onClose={() => setIsSessionsPanelOpen(false)}
+      />
+
+      {/* 两步验证面板 */}
+      <TwoFactorPanel
+        isOpen={isTwoFactorPanelOpen}
+        onClose={() => setIsTwoFactorPanelOpen(false)}
+      />
+
+      {/* API 令牌面板 */}
+      <ApiTokensPanel
+        isOpen={isApiTokensPanelOpen}
+        onClose={() => setIsApiTokensPanelOpen(false)}
+      />
+
+      {/* 个人数据面板 */}
+      <PersonalDataPanel
+        isOpen={isPersonalDataPanelOpen}
+        onClose={() => setIsPersonalDataPanelOpen(false)}
+      />
+
       {/* 版本面板 */}
       <VersionPanel
         isOpen={isVersionPanelOpen}
@@ -0,0 +1,150 @@
+/* eslint-disable no-console */
+
+import { NextRequest } from 'next/server';
+
+import { getRequestApiToken } from './auth';
+import { resolveUserRole } from './authz';
+import { getStorage } from './db';
+import { getAuthInfoFromCookie } from './session';
+import { ApiToken } from './types';
+
+const TOKEN_PREFIX = 'mtv_';
+
+// 列表中展示的令牌前缀长度（含 mtv_）
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// 最近使用时间的刷新间隔，避免每个请求都写存储
+const TOKEN_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// 每个用户最多持有的令牌数
+export const MAX_TOKENS_PER_USER = 20;
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 创建令牌，返回仅展示一次的令牌明文与存储记录
+ */
+export async function createApiToken(
+  username: string,
+  name: string
+): Promise<{ token: string; record: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${randomHex(32)}`;
+  const record: ApiToken = {
+    id: randomHex(8),
+    username,
+    name,
+    token_hash: await hashToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    created_at: Date.now(),
+  };
+  await getStorage().createApiToken(record);
+  return { token, record };
+}
+
+/**
+ * 校验令牌，返回令牌所属用户名；令牌不存在或用户已被封禁、待审核时返回 null
+ * 有效时按间隔刷新最近使用时间
+ */
+export async function verifyApiToken(token: string): Promise<string | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  try {
+    const storage = getStorage();
+    if (!storage) return null;
+
+    const tokenHash = await hashToken(token);
+    const record = await storage.getApiTokenByHash(tokenHash);
+    if (!record) return null;
+
+    if (!(await resolveUserRole(record.username))) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (
+      !record.last_used_at ||
+      now - record.last_used_at > TOKEN_TOUCH_INTERVAL_MS
+    ) {
+      await storage.touchApiToken(tokenHash, now);
+    }
+
+    return record.username;
+  } catch (err) {
+    console.error('API 令牌校验失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 获取用户的全部令牌，按创建时间倒序
+ */
+export async function listUserApiTokens(username: string): Promise<ApiToken[]> {
+  const tokens = await getStorage().getUserApiTokens(username);
+  return tokens.sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * 获取全部令牌（管理员审计），按最近使用时间倒序
+ */
+export async function listAllApiTokens(): Promise<ApiToken[]> {
+  const tokens = await getStorage().getAllApiTokens();
+  return tokens.sort(
+    (a, b) =>
+      (b.last_used_at || b.created_at) - (a.last_used_at || a.created_at)
+  );
+}
+
+/**
+ * 按 ID 吊销令牌；指定 username 时只能吊销该用户自己的令牌
+ * @returns 是否找到并删除
+ */
+export async function revokeApiToken(
+  id: string,
+  username?: string
+): Promise<boolean> {
+  const tokens = username
+    ? await getStorage().getUserApiTokens(username)
+    : await getStorage().getAllApiTokens();
+  const token = tokens.find((t) => t.id === id);
+  if (!token) return false;
+  await getStorage().deleteApiToken(token.token_hash);
+  return true;
+}
+
+/**
+ * 去掉哈希后返回给客户端
+ */
+export function toPublicApiToken(
+  token: ApiToken
+): Omit<ApiToken, 'token_hash'> {
+  const { token_hash: _tokenHash, ...rest } = token;
+  return rest;
+}
+
+/**
+ * 解析请求对应的用户名：优先使用登录 cookie 会话，其次使用 API 令牌
+ */
+export async function getRequestUsername(
+  request: NextRequest
+): Promise<string | null> {
+  const authInfo = await getAuthInfoFromCookie(request);
+  if (authInfo?.username) {
+    return authInfo.username;
+  }
+  const token = getRequestApiToken(request);
+  return token ? verifyApiToken(token) : null;
+}
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+import { diffForAudit } from './audit';
+
+describe('diffForAudit', () => {
+  it('reports changed leaf fields by path', () => {
+    expect(
+      diffForAudit(
+        { SiteConfig: { SiteName: 'A', Announcement: '公告' }, Version: 1 },
+        { SiteConfig: { SiteName: 'B', Announcement: '公告' }, Version: 2 }
+      )
+    ).toEqual([{ path: 'SiteConfig.SiteName', before: 'A', after: 'B' }]);
+  });
+
+  it('aligns keyed arrays and records additions, removals and reordering', () => {
+    const before = {
+      SourceConfig: [
+        { key: 'a', name: '源A', disabled: false },
+        { key: 'b', name: '源B', disabled: false },
+        { key: 'c', name: '源C', disabled: false },
+      ],
+    };
+    const after = {
+      SourceConfig: [
+        { key: 'b', name: '源B', disabled: true },
+        { key: 'a', name: '源A', disabled: false },
+        { key: 'd', name: '源D', disabled: false },
+      ],
+    };
+
+    expect(diffForAudit(before, after)).toEqual([
+      { path: 'SourceConfig[b].disabled', before: false, after: true },
+      {
+        path: 'SourceConfig[c]',
+        before: { key: 'c', name: '源C', disabled: false },
+      },
+      {
+        path: 'SourceConfig[d]',
+        after: { key: 'd', name: '源D', disabled: false },
+      },
+      {
+        path: 'SourceConfig[]',
+        before: ['a', 'b', 'c'],
+        after: ['b', 'a', 'd'],
+      },
+    ]);
+  });
+
+  it('masks password fields', () => {
+    expect(
+      diffForAudit(
+        { SiteConfig: { TVBoxPassword: 'old' } },
+        { SiteConfig: { TVBoxPassword: 'new' } }
+      )
+    ).toEqual([
+      { path: 'SiteConfig.TVBoxPassword', before: '******', after: '******' },
+    ]);
+  });
+
+  it('returns no changes for equal values', () => {
+    expect(diffForAudit({ a: [1, 2] }, { a: [1, 2] })).toEqual([]);
+    expect(diffForAudit(undefined, undefined)).toEqual([]);
+  });
+});
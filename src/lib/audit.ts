@@ -0,0 +1,161 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import { getConfig } from './config';
+import { getStorage } from './db';
+import { stableStringify } from './storage-migration';
+import { AuditChange } from './types';
+
+/**
+ * 管理操作审计日志
+ * 修改共享状态的管理接口在操作成功后记录操作者、操作类型、操作对象与字段变更，
+ * 日志只追加，超出保留天数的由定时任务（/api/cron）清理。
+ */
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+
+// 分页查询每页最大条数
+export const MAX_AUDIT_PAGE_SIZE = 100;
+
+// 不写入日志的敏感字段
+const MASKED_FIELD = /password/i;
+const MASK = '******';
+
+// 数组元素的标识字段，按标识对齐后逐项比较，避免排序变化导致整表变更
+const IDENTITY_FIELDS = ['key', 'name', 'username', 'code'];
+
+// 配置版本号每次写入都会变化，不作为变更记录
+const IGNORED_PATHS = ['Version'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 两侧数组中每个元素都有互不重复的字符串标识时，返回该标识字段
+function identityField(...lists: unknown[][]): string | null {
+  if (!lists.every((items) => items.every(isPlainObject))) return null;
+  return (
+    IDENTITY_FIELDS.find((field) =>
+      lists.every((items) => {
+        const ids = (items as Record<string, unknown>[]).map(
+          (item) => item[field]
+        );
+        return (
+          ids.every((id) => typeof id === 'string') &&
+          new Set(ids).size === ids.length
+        );
+      })
+    ) ?? null
+  );
+}
+
+function mask(path: string, value: unknown): unknown {
+  return value !== undefined && MASKED_FIELD.test(path) ? MASK : value;
+}
+
+/**
+ * 计算两个值之间的字段级变更
+ * 对象逐字段比较；元素带 key/name 等标识的数组按标识对齐，顺序变化单独记录
+ */
+export function diffForAudit(
+  before: unknown,
+  after: unknown,
+  path = ''
+): AuditChange[] {
+  if (IGNORED_PATHS.includes(path)) return [];
+  if (stableStringify(before) === stableStringify(after)) return [];
+
+  const join = (key: string) => (path ? `${path}.${key}` : key);
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    ).sort();
+    return keys.flatMap((key) =>
+      diffForAudit(before[key], after[key], join(key))
+    );
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const field = identityField(before, after);
+    if (field) {
+      const idsOf = (items: unknown[]) =>
+        (items as Record<string, string>[]).map((item) => item[field]);
+      const beforeIds = idsOf(before);
+      const afterIds = idsOf(after);
+      const byId = (items: unknown[], id: string) =>
+        (items as Record<string, unknown>[]).find((item) => item[field] === id);
+
+      const changes = Array.from(new Set([...beforeIds, ...afterIds])).flatMap(
+        (id) =>
+          diffForAudit(byId(before, id), byId(after, id), `${path}[${id}]`)
+      );
+      const common = (ids: string[], other: string[]) =>
+        ids.filter((id) => other.includes(id));
+      if (
+        stableStringify(common(beforeIds, afterIds)) !==
+        stableStringify(common(afterIds, beforeIds))
+      ) {
+        changes.push({ path: `${path}[]`, before: beforeIds, after: afterIds });
+      }
+      return changes;
+    }
+  }
+
+  const change: AuditChange = { path };
+  if (before !== undefined) change.before = mask(path, before);
+  if (after !== undefined) change.after = mask(path, after);
+  return [change];
+}
+
+function randomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 记录一次管理操作；写入失败只打印日志，不影响已完成的操作
+ */
+export async function recordAudit(
+  actor: string,
+  action: string,
+  target: string,
+  before?: unknown,
+  after?: unknown
+): Promise<void> {
+  const timestamp = Date.now();
+  try {
+    await getStorage().addAuditLog({
+      id: `${timestamp}-${randomId()}`,
+      timestamp,
+      actor,
+      action,
+      target,
+      changes: diffForAudit(before, after),
+    });
+  } catch (err) {
+    console.error('写入审计日志失败:', err);
+  }
+}
+
+export function getAuditRetentionDays(config: AdminConfig): number {
+  return config.AuditLogConfig?.RetentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS;
+}
+
+/**
+ * 删除超出保留天数的审计日志，由定时任务调用
+ */
+export async function pruneAuditLogs(now = Date.now()): Promise<void> {
+  if (
+    (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage'
+  ) {
+    return;
+  }
+
+  try {
+    const days = getAuditRetentionDays(await getConfig());
+    await getStorage().deleteAuditLogsBefore(now - days * 24 * 60 * 60 * 1000);
+  } catch (err) {
+    console.error('清理审计日志失败:', err);
+  }
+}
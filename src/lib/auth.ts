@@ -1,12 +1,18 @@
 import { NextRequest } from 'next/server';
 
-// 从cookie获取认证信息 (服务端使用)
-export function getAuthInfoFromCookie(request: NextRequest): {
+// 本文件不依赖存储：middleware（Edge 运行时）与客户端组件都会引用
+// 需要校验服务端会话时使用 session.ts 中的 getAuthInfoFromCookie
+
+export interface AuthCookieInfo {
   password?: string;
   username?: string;
   signature?: string;
   timestamp?: number;
-} | null {
+  sessionId?: string;
+}
+
+// 仅解析 cookie，不做会话校验
+export function parseAuthCookie(request: NextRequest): AuthCookieInfo | null {
   const authCookie = request.cookies.get('auth');
 
   if (!authCookie) {
@@ -22,12 +28,34 @@ export function getAuthInfoFromCookie(request: NextRequest): {
   }
 }
 
+/**
+ * 从请求中读取 API 令牌：优先 Authorization: Bearer，其次 token 查询参数
+ */
+export function getRequestApiToken(request: Request): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+  }
+  const token = new URL(request.url).searchParams.get('token');
+  return token || null;
+}
+
+// 允许使用 API 令牌访问的接口（搜索与详情），供 TVBox 等第三方客户端调用
+export function allowsApiToken(pathname: string): boolean {
+  const tokenPaths = ['/api/search', '/api/detail'];
+  return tokenPaths.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
 // 从cookie获取认证信息 (客户端使用)
 export function getAuthInfoFromBrowserCookie(): {
   password?: string;
   username?: string;
   signature?: string;
   timestamp?: number;
+  sessionId?: string;
   role?: 'owner' | 'admin' | 'user';
 } | null {
   if (typeof window === 'undefined') {
@@ -70,3 +98,20 @@ export function getAuthInfoFromBrowserCookie(): {
     return null;
   }
 }
+
+// 获取客户端 IP（服务端使用），登录限流按此地址计数
+// 信任前提：服务部署在 Cloudflare、Vercel 或会覆盖 X-Real-IP 的反向代理之后，这些头由平台写入，客户端无法伪造
+// X-Forwarded-For 的第一项由客户端自行填写，只取最后一项，即离本服务最近的一层代理追加的地址
+export function getClientIp(request: NextRequest): string {
+  const forwardedHops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    request.headers.get('cf-connecting-ip') ||
+    request.headers.get('x-real-ip') ||
+    request.ip ||
+    forwardedHops[forwardedHops.length - 1] ||
+    'unknown'
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+
+import { verifyApiToken } from './api-token';
+import {
+  authorizeRequest,
+  getRequiredRole,
+  hasRole,
+  requireAuth,
+  verifyRequestAuth,
+} from './authz';
+import { getAuthInfoFromCookie } from './session';
+import { isTwoFactorEnabled, isTwoFactorRequired } from './two-factor';
+
+jest.mock('./user-registry', () => {
+  const records: Record<string, object> = {
+    owner: { username: 'owner', role: 'owner' },
+    alice: { username: 'alice', role: 'admin' },
+    bob: { username: 'bob', role: 'user' },
+    mallory: { username: 'mallory', role: 'admin', banned: true },
+  };
+  return {
+    getUserRecord: jest.fn(
+      async (username: string) => records[username] ?? null
+    ),
+  };
+});
+
+jest.mock('./api-token', () => ({
+  verifyApiToken: jest.fn(async (token: string) =>
+    token === 'mtv_valid' ? 'bob' : null
+  ),
+}));
+
+jest.mock('./session', () => ({
+  getAuthInfoFromCookie: jest.fn(async () => null),
+}));
+
+// jest 的 node 环境没有 Request，无法加载 next/server
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      body,
+      status: init?.status ?? 200,
+    }),
+  },
+}));
+
+jest.mock('./two-factor', () => ({
+  isTwoFactorRequired: jest.fn(async () => false),
+  isTwoFactorEnabled: jest.fn(async () => false),
+}));
+
+type Who = 'user' | 'admin' | 'owner' | 'banned';
+
+const USERNAMES: Record<Who, string> = {
+  owner: 'owner',
+  admin: 'alice',
+  user: 'bob',
+  banned: 'mallory',
+};
+
+async function statusOf(path: string, method: string, who: Who) {
+  const result = await authorizeRequest(path, method, USERNAMES[who]);
+  return result.ok ? 'pass' : result.status;
+}
+
+beforeAll(() => {
+  process.env.USERNAME = 'owner';
+});
+
+describe('admin route role policies', () => {
+  const ADMIN_ROUTES: [string, string][] = [
+    ['/api/admin/config', 'GET'],
+    ['/api/admin/category', 'POST'],
+    ['/api/admin/config_file', 'POST'],
+    ['/api/admin/group', 'POST'],
+    ['/api/admin/site', 'POST'],
+    ['/api/admin/source', 'POST'],
+    ['/api/admin/user', 'POST'],
+    ['/api/admin/subscription', 'GET'],
+    ['/api/admin/subscription', 'POST'],
+    ['/api/admin/tvbox', 'POST'],
+  ];
+
+  const OWNER_ROUTES: [string, string][] = [
+    ['/api/admin/reset', 'GET'],
+    ['/api/admin/data_migration/export', 'POST'],
+    ['/api/admin/data_migration/import', 'POST'],
+    ['/api/admin/unknown', 'GET'],
+  ];
+
+  const USER_ROUTES: [string, string][] = [['/api/admin/tvbox', 'GET']];
+
+  it.each(ADMIN_ROUTES)('%s %s requires admin', async (path, method) => {
+    expect(await statusOf(path, method, 'banned')).toBe(401);
+    expect(await statusOf(path, method, 'user')).toBe(403);
+    expect(await statusOf(path, method, 'admin')).toBe('pass');
+    expect(await statusOf(path, method, 'owner')).toBe('pass');
+  });
+
+  it.each(OWNER_ROUTES)('%s %s requires owner', async (path, method) => {
+    expect(await statusOf(path, method, 'banned')).toBe(401);
+    expect(await statusOf(path, method, 'user')).toBe(403);
+    expect(await statusOf(path, method, 'admin')).toBe(403);
+    expect(await statusOf(path, method, 'owner')).toBe('pass');
+  });
+
+  it.each(USER_ROUTES)('%s %s allows any user', async (path, method) => {
+    expect(await statusOf(path, method, 'banned')).toBe(401);
+    expect(await statusOf(path, method, 'user')).toBe('pass');
+    expect(await statusOf(path, method, 'admin')).toBe('pass');
+    expect(await statusOf(path, method, 'owner')).toBe('pass');
+  });
+
+  it('does not apply to non-admin routes', async () => {
+    expect(await statusOf('/api/favorites', 'GET', 'user')).toBe('pass');
+    expect(await statusOf('/api/favorites', 'GET', 'banned')).toBe('pass');
+  });
+
+  it('treats unregistered users as plain users', async () => {
+    const result = await authorizeRequest('/api/admin/config', 'GET', 'eve');
+    expect(result).toEqual({ ok: false, status: 403, error: '权限不足' });
+  });
+});
+
+describe('mandatory two-factor for admins', () => {
+  beforeEach(() => {
+    (isTwoFactorRequired as jest.Mock).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    (isTwoFactorRequired as jest.Mock).mockResolvedValue(false);
+    (isTwoFactorEnabled as jest.Mock).mockResolvedValue(false);
+  });
+
+  it('blocks admins without 2FA from admin routes', async () => {
+    expect(await statusOf('/api/admin/source', 'POST', 'admin')).toBe(403);
+    expect(await statusOf('/api/admin/tvbox', 'GET', 'admin')).toBe('pass');
+    expect(await statusOf('/api/admin/source', 'POST', 'owner')).toBe('pass');
+  });
+
+  it('allows admins once 2FA is enabled', async () => {
+    (isTwoFactorEnabled as jest.Mock).mockResolvedValue(true);
+    expect(await statusOf('/api/admin/source', 'POST', 'admin')).toBe('pass');
+  });
+});
+
+describe('authz helpers', () => {
+  it('ranks roles', () => {
+    expect(hasRole('owner', 'admin')).toBe(true);
+    expect(hasRole('admin', 'admin')).toBe(true);
+    expect(hasRole('user', 'admin')).toBe(false);
+    expect(hasRole(null, 'user')).toBe(false);
+  });
+
+  it('resolves required roles by method', () => {
+    expect(getRequiredRole('/api/search', 'GET')).toBeNull();
+    expect(getRequiredRole('/api/administrator', 'GET')).toBeNull();
+    expect(getRequiredRole('/api/admin/tvbox', 'get')).toBe('user');
+    expect(getRequiredRole('/api/admin/tvbox', 'POST')).toBe('admin');
+    expect(getRequiredRole('/api/admin/source/', 'POST')).toBe('admin');
+    expect(getRequiredRole('/api/admin/reset', 'GET')).toBe('owner');
+  });
+});
+
+describe('requireAuth', () => {
+  function request(pathname: string, method: string) {
+    return { nextUrl: { pathname }, method } as unknown as NextRequest;
+  }
+
+  it('rejects requests without a valid session', async () => {
+    const result = await requireAuth(request('/api/admin/config', 'GET'));
+    expect(result.ok ? 'pass' : result.response.status).toBe(401);
+  });
+
+  it('applies the route policy to the session user', async () => {
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue({
+      username: 'bob',
+    });
+    const denied = await requireAuth(request('/api/admin/config', 'GET'));
+    expect(denied.ok ? 'pass' : denied.response.status).toBe(403);
+
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue({
+      username: 'alice',
+    });
+    expect(await requireAuth(request('/api/admin/config', 'GET'))).toEqual({
+      ok: true,
+      username: 'alice',
+      role: 'admin',
+    });
+  });
+});
+
+describe('verifyRequestAuth', () => {
+  function request(token?: string) {
+    return {
+      url: 'http://localhost/api/auth/verify',
+      headers: new Map(token ? [['authorization', `Bearer ${token}`]] : []),
+    } as unknown as NextRequest;
+  }
+
+  afterEach(() => {
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue(null);
+    (verifyApiToken as jest.Mock).mockClear();
+  });
+
+  it('accepts a session that is still valid in storage', async () => {
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue({
+      username: 'bob',
+    });
+    expect(await verifyRequestAuth(request(), '/play', 'GET')).toEqual({
+      ok: true,
+      username: 'bob',
+      role: null,
+    });
+  });
+
+  it('rejects a revoked session', async () => {
+    const result = await verifyRequestAuth(request(), '/play', 'GET');
+    expect(result.ok ? 'pass' : result.status).toBe(401);
+  });
+
+  it('accepts only verified API tokens, and only on token paths', async () => {
+    expect(
+      await verifyRequestAuth(request('mtv_valid'), '/api/search', 'GET')
+    ).toEqual({ ok: true, username: 'bob', role: null });
+
+    const forged = await verifyRequestAuth(
+      request('mtv_forged'),
+      '/api/detail',
+      'GET'
+    );
+    expect(forged.ok ? 'pass' : forged.status).toBe(401);
+
+    const elsewhere = await verifyRequestAuth(
+      request('mtv_valid'),
+      '/api/favorites',
+      'GET'
+    );
+    expect(elsewhere.ok ? 'pass' : elsewhere.status).toBe(401);
+    expect(verifyApiToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('applies admin route policies before the handler runs', async () => {
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue({
+      username: 'bob',
+    });
+    expect(
+      await verifyRequestAuth(request(), '/api/admin/config', 'GET')
+    ).toEqual({ ok: false, status: 403, error: '权限不足' });
+
+    (getAuthInfoFromCookie as jest.Mock).mockResolvedValue({
+      username: 'alice',
+    });
+    expect(
+      await verifyRequestAuth(request(), '/api/admin/reset', 'GET')
+    ).toEqual({ ok: false, status: 403, error: '权限不足，仅站长可操作' });
+    expect(
+      await verifyRequestAuth(request(), '/api/admin/config', 'GET')
+    ).toEqual({ ok: true, username: 'alice', role: 'admin' });
+  });
+});
@@ -0,0 +1,227 @@
+/* eslint-disable no-console */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { verifyApiToken } from './api-token';
+import { allowsApiToken, getRequestApiToken } from './auth';
+import { getAuthInfoFromCookie } from './session';
+import { isTwoFactorEnabled, isTwoFactorRequired } from './two-factor';
+import { getUserRecord } from './user-registry';
+
+export type Role = 'owner' | 'admin' | 'user';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// 单个路由的策略：按请求方法声明所需最低角色，'*' 为默认值
+export type RoutePolicy = Partial<Record<HttpMethod | '*', Role>>;
+
+const ROLE_RANK: Record<Role, number> = {
+  user: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * /api/admin 下各路由的访问策略
+ * 未在此声明的 /api/admin 路由默认仅站长可访问
+ */
+export const ADMIN_ROUTE_POLICIES: Record<string, RoutePolicy> = {
+  '/api/admin/config': { '*': 'admin' },
+  '/api/admin/category': { '*': 'admin' },
+  '/api/admin/config_file': { '*': 'admin' },
+  '/api/admin/group': { '*': 'admin' },
+  '/api/admin/site': { '*': 'admin' },
+  '/api/admin/source': { '*': 'admin' },
+  '/api/admin/user': { '*': 'admin' },
+  '/api/admin/login_lock': { '*': 'admin' },
+  '/api/admin/invite': { '*': 'admin' },
+  '/api/admin/api_token': { '*': 'admin' },
+  // 管理员可查看审计日志，保留天数仅站长可设置
+  '/api/admin/audit': { GET: 'admin', POST: 'owner' },
+  // 管理员可查看配置历史，回滚仅站长可操作
+  '/api/admin/config_history': { GET: 'admin', POST: 'owner' },
+  '/api/admin/source_health': { GET: 'admin' },
+  // 页面触发的自动更新检查见 /api/subscription/check
+  '/api/admin/subscription': { '*': 'admin' },
+  // GET 供用户菜单读取 TVBox 订阅信息
+  '/api/admin/tvbox': { GET: 'user', POST: 'admin' },
+  '/api/admin/reset': { '*': 'owner' },
+  '/api/admin/data_migration/export': { '*': 'owner' },
+  '/api/admin/data_migration/import': { '*': 'owner' },
+  '/api/admin/schema': { '*': 'owner' },
+  '/api/admin/storage_migration': { '*': 'owner' },
+  '/api/admin/backup': { '*': 'owner' },
+};
+
+// 未声明策略的管理路由默认要求的角色
+const DEFAULT_ADMIN_ROLE: Role = 'owner';
+
+/**
+ * 判断角色是否满足最低要求
+ */
+export function hasRole(
+  role: Role | null | undefined,
+  required: Role
+): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * 获取请求路径与方法所需的最低角色，非管理路由返回 null
+ */
+export function getRequiredRole(pathname: string, method: string): Role | null {
+  if (pathname !== '/api/admin' && !pathname.startsWith('/api/admin/')) {
+    return null;
+  }
+
+  const normalized = pathname.replace(/\/+$/, '');
+  const policy = ADMIN_ROUTE_POLICIES[normalized];
+  if (!policy) {
+    return DEFAULT_ADMIN_ROLE;
+  }
+
+  return (
+    policy[method.toUpperCase() as HttpMethod] ??
+    policy['*'] ??
+    DEFAULT_ADMIN_ROLE
+  );
+}
+
+/**
+ * 根据存储中的用户记录解析用户角色（不信任 cookie 中的 role）
+ * 站长由 USERNAME 环境变量确定；被封禁或待审核的用户返回 null
+ */
+export async function resolveUserRole(username: string): Promise<Role | null> {
+  if (!username) return null;
+  if (username === process.env.USERNAME) {
+    return 'owner';
+  }
+
+  const user = await getUserRecord(username);
+  if (user?.banned || user?.pending) {
+    return null;
+  }
+  if (user?.role === 'admin') {
+    return 'admin';
+  }
+  return 'user';
+}
+
+/**
+ * 对请求进行角色授权
+ * @returns ok 为 false 时附带应返回的状态码与错误信息
+ */
+export async function authorizeRequest(
+  pathname: string,
+  method: string,
+  username: string
+): Promise<
+  { ok: true; role: Role | null } | { ok: false; status: number; error: string }
+> {
+  const required = getRequiredRole(pathname, method);
+  if (!required) {
+    return { ok: true, role: null };
+  }
+
+  let role: Role | null;
+  let missingTwoFactor = false;
+  try {
+    role = await resolveUserRole(username);
+    // 站长开启强制两步验证后，未绑定的管理员不能使用管理功能
+    if (role === 'admin' && required === 'admin') {
+      missingTwoFactor =
+        (await isTwoFactorRequired(username)) &&
+        !(await isTwoFactorEnabled(username));
+    }
+  } catch (err) {
+    console.error('解析用户角色失败:', err);
+    return { ok: false, status: 500, error: '权限校验失败' };
+  }
+
+  if (!role) {
+    return { ok: false, status: 401, error: '用户已被封禁' };
+  }
+  if (!hasRole(role, required)) {
+    return {
+      ok: false,
+      status: 403,
+      error: required === 'owner' ? '权限不足，仅站长可操作' : '权限不足',
+    };
+  }
+  if (missingTwoFactor) {
+    return {
+      ok: false,
+      status: 403,
+      error: '站长要求管理员启用两步验证，请先在用户菜单中完成绑定',
+    };
+  }
+  return { ok: true, role };
+}
+
+/**
+ * middleware 转交的请求校验（/api/auth/verify）：对照存储校验登录会话，
+ * 会话无效时，允许令牌访问的接口再校验 API 令牌；管理路由再按 ADMIN_ROUTE_POLICIES 校验角色。
+ * 所有 /api/admin 请求在到达处理函数前都经过这里，处理函数遗漏鉴权也不会越权。
+ * @param pathname 原请求的路径
+ * @param method 原请求的方法
+ */
+export async function verifyRequestAuth(
+  request: NextRequest,
+  pathname: string,
+  method: string
+): Promise<
+  | { ok: true; username: string; role: Role | null }
+  | { ok: false; status: number; error: string }
+> {
+  let username = (await getAuthInfoFromCookie(request))?.username || null;
+  if (!username && allowsApiToken(pathname)) {
+    const token = getRequestApiToken(request);
+    username = token ? await verifyApiToken(token) : null;
+  }
+  if (!username) {
+    return { ok: false, status: 401, error: 'Unauthorized' };
+  }
+
+  const authz = await authorizeRequest(pathname, method, username);
+  if (!authz.ok) {
+    return authz;
+  }
+  return { ok: true, username, role: authz.role };
+}
+
+/**
+ * 接口处理函数中的鉴权：校验登录会话，管理路由再按声明的策略校验角色
+ * middleware 已统一校验过角色，处理函数借此取得当前用户并再校验一次
+ * @returns ok 为 false 时附带应直接返回的响应
+ */
+export async function requireAuth(
+  request: NextRequest
+): Promise<
+  | { ok: true; username: string; role: Role | null }
+  | { ok: false; response: NextResponse }
+> {
+  const authInfo = await getAuthInfoFromCookie(request);
+  if (!authInfo || !authInfo.username) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const authz = await authorizeRequest(
+    request.nextUrl.pathname,
+    request.method,
+    authInfo.username
+  );
+  if (!authz.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: authz.error },
+        { status: authz.status }
+      ),
+    };
+  }
+  return { ok: true, username: authInfo.username, role: authz.role };
+}
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig } from './admin.types';
+import {
+  BackupDisabledError,
+  createBackup,
+  listBackups,
+  restoreBackup,
+  runScheduledBackup,
+  selectExpiredBackups,
+} from './backup';
+import { getStorage } from './db';
+import { MemoryStorage } from './memory.db';
+import { BackupMeta, PlayRecord } from './types';
+
+jest.mock('./db', () =>
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('@/__mocks__/memory-db').createMemoryDbMock()
+);
+
+const CONFIG = {
+  ConfigFile: '{}',
+  SiteConfig: { SiteName: 'MoonTV' },
+  UserConfig: { AllowRegister: false },
+  SourceConfig: [],
+  CustomCategories: [],
+} as unknown as AdminConfig;
+
+const ENV_KEYS = [
+  'NEXT_PUBLIC_STORAGE_TYPE',
+  'BACKUP_PASSWORD',
+  'BACKUP_KEEP_DAILY',
+  'BACKUP_KEEP_WEEKLY',
+  'BACKUP_ENCRYPTION_ITERATIONS',
+];
+const savedEnv = ENV_KEYS.map((key) => process.env[key]);
+
+function playRecord(title: string): PlayRecord {
+  return {
+    title,
+    source_name: '测试源',
+    cover: '',
+    year: '2024',
+    index: 1,
+    total_episodes: 12,
+    play_time: 60,
+    total_time: 1800,
+    save_time: 1,
+    search_title: '',
+  };
+}
+
+// 本地时间 2024 年 1 月的某一天
+function jan(day: number, hour = 3): number {
+  return new Date(2024, 0, day, hour).getTime();
+}
+
+function scheduled(timestamp: number): BackupMeta {
+  return {
+    id: `backup-${timestamp}`,
+    created_at: timestamp,
+    size: 1,
+    trigger: 'scheduled',
+  };
+}
+
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  ENV_KEYS.forEach((key, i) => {
+    if (savedEnv[i] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[i];
+  });
+});
+
+beforeEach(async () => {
+  process.env.NEXT_PUBLIC_STORAGE_TYPE = 'redis';
+  process.env.BACKUP_PASSWORD = 'backup-password';
+  process.env.BACKUP_ENCRYPTION_ITERATIONS = '1000';
+  delete process.env.BACKUP_KEEP_DAILY;
+  delete process.env.BACKUP_KEEP_WEEKLY;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('./db').__reset();
+  storage = getStorage() as MemoryStorage;
+  await storage.setAdminConfig(JSON.parse(JSON.stringify(CONFIG)));
+  await storage.registerUser('alice', 'password');
+  await storage.setPlayRecord('alice', 'src1+1', playRecord('剧集一'));
+  await storage.setPlayRecord('alice', 'src1+2', playRecord('剧集二'));
+});
+
+describe('selectExpiredBackups', () => {
+  it('keeps the newest backup per recent day and per recent week', () => {
+    // 2024-01-01 是周一
+    const backups = Array.from({ length: 20 }, (_, i) => scheduled(jan(i + 1)));
+    const earlierToday = scheduled(jan(20, 1));
+    const manual: BackupMeta = {
+      ...scheduled(jan(1, 0)),
+      id: 'manual',
+      trigger: 'manual',
+    };
+
+    const expired = selectExpiredBackups(
+      [...backups, earlierToday, manual],
+      3,
+      2
+    );
+    const kept = backups.filter((b) => !expired.includes(b));
+
+    expect(kept.map((b) => new Date(b.created_at).getDate())).toEqual([
+      14, 18, 19, 20,
+    ]);
+    expect(expired).toContain(earlierToday);
+    expect(expired).not.toContain(manual);
+  });
+});
+
+describe('createBackup', () => {
+  it('requires BACKUP_PASSWORD', async () => {
+    delete process.env.BACKUP_PASSWORD;
+
+    await expect(createBackup('manual')).rejects.toBeInstanceOf(
+      BackupDisabledError
+    );
+  });
+
+  it('restores the data captured at backup time', async () => {
+    const meta = await createBackup('manual', jan(1));
+    expect(meta.id).toBe('moontv-backup-20240101-030000.dat');
+
+    await storage.deletePlayRecord('alice', 'src1+2');
+    const config = (await storage.getAdminConfig()) as AdminConfig;
+    config.SiteConfig.SiteName = '修改后';
+    await storage.setAdminConfig(config);
+
+    const result = await restoreBackup(meta.id);
+
+    expect(result.importedUsers).toBe(1);
+    expect(
+      Object.keys(await storage.getAllPlayRecords('alice')).sort()
+    ).toEqual(['src1+1', 'src1+2']);
+    expect((await storage.getAdminConfig())?.SiteConfig.SiteName).toBe(
+      'MoonTV'
+    );
+  });
+});
+
+describe('runScheduledBackup', () => {
+  it('backs up once per day and rotates old scheduled backups', async () => {
+    process.env.BACKUP_KEEP_DAILY = '3';
+    process.env.BACKUP_KEEP_WEEKLY = '0';
+    await createBackup('manual', jan(1, 1));
+
+    for (let day = 1; day <= 6; day++) {
+      await runScheduledBackup(jan(day));
+      await runScheduledBackup(jan(day, 4));
+    }
+
+    const backups = await listBackups();
+    expect(backups.map((b) => b.id)).toEqual([
+      'moontv-backup-20240106-030000-auto.dat',
+      'moontv-backup-20240105-030000-auto.dat',
+      'moontv-backup-20240104-030000-auto.dat',
+      'moontv-backup-20240101-010000.dat',
+    ]);
+  });
+
+  it('does nothing when backups are disabled', async () => {
+    delete process.env.BACKUP_PASSWORD;
+
+    await runScheduledBackup(jan(1));
+    expect(await listBackups()).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+/* eslint-disable no-console */
+
+import {
+  collectExportData,
+  encryptExportData,
+  exportFileName,
+} from './data-export';
+import { applyImport, ImportResult, parseBackupFile } from './data-import';
+import { getStorage } from './db';
+import { BackupMeta } from './types';
+
+/**
+ * 自动备份
+ * 定时任务（/api/cron）每天生成一份与数据导出格式相同的加密备份，
+ * 保存到 BACKUP_DIR 目录（仅 Node.js 运行时）或当前存储中，并按保留规则轮换：
+ * 保留最近 N 天每天最新的一份，以及最近 M 周每周最新的一份。
+ * 站长手动创建的备份不参与轮换。
+ */
+
+export const DEFAULT_KEEP_DAILY = 7;
+export const DEFAULT_KEEP_WEEKLY = 4;
+
+// 备份 ID 即文件名，校验后才可用于拼接文件路径
+const BACKUP_ID_PATTERN = /^moontv-backup-\d{8}-\d{6}(-auto)?\.dat$/;
+
+export interface BackupSettings {
+  enabled: boolean; // 设置了 BACKUP_PASSWORD 才会创建备份
+  destination: 'directory' | 'storage';
+  directory?: string;
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+// 未设置备份密码
+export class BackupDisabledError extends Error {
+  constructor() {
+    super('未设置 BACKUP_PASSWORD，备份功能未启用');
+    this.name = 'BackupDisabledError';
+  }
+}
+
+export class BackupNotFoundError extends Error {
+  constructor(id: string) {
+    super(`备份不存在: ${id}`);
+    this.name = 'BackupNotFoundError';
+  }
+}
+
+function readCount(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : fallback;
+}
+
+export function getBackupSettings(): BackupSettings {
+  const directory = process.env.BACKUP_DIR?.trim();
+  return {
+    enabled: !!process.env.BACKUP_PASSWORD,
+    destination: directory ? 'directory' : 'storage',
+    ...(directory ? { directory } : {}),
+    keepDaily: readCount(process.env.BACKUP_KEEP_DAILY, DEFAULT_KEEP_DAILY),
+    keepWeekly: readCount(process.env.BACKUP_KEEP_WEEKLY, DEFAULT_KEEP_WEEKLY),
+  };
+}
+
+export function isBackupId(id: unknown): id is string {
+  return typeof id === 'string' && BACKUP_ID_PATTERN.test(id);
+}
+
+// ---------- 备份保存位置 ----------
+interface BackupStore {
+  list(): Promise<BackupMeta[]>; // 按创建时间倒序
+  read(id: string): Promise<string | null>;
+  write(meta: BackupMeta, content: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+function storageBackupStore(): BackupStore {
+  const storage = getStorage();
+  return {
+    list: () => storage.listBackups(),
+    read: (id) => storage.getBackup(id),
+    write: (meta, content) => storage.saveBackup(meta, content),
+    remove: (id) => storage.deleteBackup(id),
+  };
+}
+
+// 本地目录：文件名即备份 ID，定时备份带 -auto 后缀
+function directoryBackupStore(directory: string): BackupStore {
+  // 仅在 Node.js 运行时按需加载，避免进入 Edge 构建产物
+  const load = () =>
+    Promise.all([
+      import(/* webpackIgnore: true */ 'node:fs/promises'),
+      import(/* webpackIgnore: true */ 'node:path'),
+    ]);
+
+  return {
+    async list() {
+      const [fs, path] = await load();
+      let names: string[];
+      try {
+        names = await fs.readdir(path.resolve(directory));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+
+      const backups: BackupMeta[] = [];
+      for (const name of names.filter(isBackupId)) {
+        const stat = await fs.stat(path.resolve(directory, name));
+        backups.push({
+          id: name,
+          created_at: stat.mtimeMs,
+          size: stat.size,
+          trigger: name.endsWith('-auto.dat') ? 'scheduled' : 'manual',
+        });
+      }
+      return backups.sort((a, b) => b.created_at - a.created_at);
+    },
+    async read(id) {
+      const [fs, path] = await load();
+      try {
+        return await fs.readFile(path.resolve(directory, id), 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async write(meta, content) {
+      const [fs, path] = await load();
+      await fs.mkdir(path.resolve(directory), { recursive: true });
+      await fs.writeFile(path.resolve(directory, meta.id), content, 'utf8');
+    },
+    async remove(id) {
+      const [fs, path] = await load();
+      await fs.rm(path.resolve(directory, id), { force: true });
+    },
+  };
+}
+
+function getBackupStore(settings = getBackupSettings()): BackupStore {
+  return settings.directory
+    ? directoryBackupStore(settings.directory)
+    : storageBackupStore();
+}
+
+// ---------- 轮换 ----------
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// 以所在周的周一作为周标识
+function weekKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(date.getTime());
+}
+
+/**
+ * 按保留规则选出需要删除的定时备份
+ * 保留最近 keepDaily 个有备份的日期中每天最新的一份，
+ * 以及最近 keepWeekly 个有备份的周中每周最新的一份
+ */
+export function selectExpiredBackups(
+  backups: BackupMeta[],
+  keepDaily: number,
+  keepWeekly: number
+): BackupMeta[] {
+  const scheduled = backups
+    .filter((b) => b.trigger === 'scheduled')
+    .sort((a, b) => b.created_at - a.created_at);
+
+  const keep = new Set<string>();
+  const pick = (keyOf: (timestamp: number) => string, limit: number) => {
+    const seen = new Set<string>();
+    for (const backup of scheduled) {
+      const key = keyOf(backup.created_at);
+      if (seen.has(key)) continue;
+      if (seen.size >= limit) break;
+      seen.add(key);
+      keep.add(backup.id);
+    }
+  };
+  pick(dayKey, keepDaily);
+  pick(weekKey, keepWeekly);
+
+  return scheduled.filter((b) => !keep.has(b.id));
+}
+
+// ---------- 备份与恢复 ----------
+export async function listBackups(): Promise<BackupMeta[]> {
+  return getBackupStore().list();
+}
+
+export async function readBackup(id: string): Promise<string> {
+  const content = isBackupId(id) ? await getBackupStore().read(id) : null;
+  if (content === null) {
+    throw new BackupNotFoundError(id);
+  }
+  return content;
+}
+
+/**
+ * 立即创建一份备份
+ */
+export async function createBackup(
+  trigger: BackupMeta['trigger'],
+  now = Date.now()
+): Promise<BackupMeta> {
+  const password = process.env.BACKUP_PASSWORD;
+  if (!password) {
+    throw new BackupDisabledError();
+  }
+
+  const content = await encryptExportData(await collectExportData(), password);
+  const meta: BackupMeta = {
+    id: exportFileName(new Date(now), trigger === 'scheduled' ? '-auto' : ''),
+    created_at: now,
+    size: content.length,
+    trigger,
+  };
+  await getBackupStore().write(meta, content);
+  console.log(`已创建备份 ${meta.id}（${meta.size} 字节）`);
+  return meta;
+}
+
+export async function deleteBackup(id: string): Promise<void> {
+  if (!isBackupId(id)) {
+    throw new BackupNotFoundError(id);
+  }
+  await getBackupStore().remove(id);
+}
+
+/**
+ * 用备份覆盖当前数据：导入备份中的全部用户与管理员配置，
+ * 备份中不存在的用户保持不变
+ */
+export async function restoreBackup(id: string): Promise<ImportResult> {
+  const password = process.env.BACKUP_PASSWORD;
+  if (!password) {
+    throw new BackupDisabledError();
+  }
+
+  const backup = await parseBackupFile(await readBackup(id), password);
+  const result = await applyImport(backup, {
+    users: Object.keys(backup.data.userData),
+    strategies: {
+      account: 'overwrite',
+      playRecords: 'overwrite',
+      favorites: 'overwrite',
+      searchHistory: 'overwrite',
+      skipConfigs: 'overwrite',
+    },
+    adminConfig: 'overwrite',
+  });
+  console.log(`已从备份 ${id} 恢复数据`);
+  return result;
+}
+
+/**
+ * 定时任务入口：当天还没有定时备份时创建一份，并清理超出保留规则的旧备份
+ * 未启用备份或使用 localstorage 时直接跳过
+ */
+export async function runScheduledBackup(now = Date.now()): Promise<void> {
+  if (
+    (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage'
+  ) {
+    return;
+  }
+  const settings = getBackupSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  try {
+    const store = getBackupStore(settings);
+    const backups = await store.list();
+    const today = dayKey(now);
+    if (
+      backups.some(
+        (b) => b.trigger === 'scheduled' && dayKey(b.created_at) === today
+      )
+    ) {
+      return;
+    }
+
+    const meta = await createBackup('scheduled', now);
+    const expired = selectExpiredBackups(
+      [meta, ...backups],
+      settings.keepDaily,
+      settings.keepWeekly
+    );
+    for (const backup of expired) {
+      await store.remove(backup.id);
+      console.log(`已删除过期备份 ${backup.id}`);
+    }
+  } catch (err) {
+    console.error('定时备份失败:', err);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig } from './admin.types';
+import {
+  ConfigHistoryNotFoundError,
+  restoreConfigVersion,
+  saveAdminConfig,
+} from './config-history';
+import { getStorage } from './db';
+import { diffLines } from './line-diff';
+import { AdminConfigConflictError } from './types';
+
+jest.mock('./db', () =>
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('@/__mocks__/memory-db').createMemoryDbMock()
+);
+
+const CONFIG: AdminConfig = {
+  ConfigFile: '{}',
+  SiteConfig: {
+    SiteName: 'MoonTV',
+    Announcement: '',
+    SearchDownstreamMaxPage: 5,
+    SiteInterfaceCacheTime: 7200,
+    DoubanProxyType: 'direct',
+    DoubanProxy: '',
+    DoubanImageProxyType: 'direct',
+    DoubanImageProxy: '',
+    DisableYellowFilter: false,
+  },
+  UserConfig: { AllowRegister: false },
+  SourceConfig: [],
+  CustomCategories: [],
+};
+
+const savedLimit = process.env.CONFIG_HISTORY_LIMIT;
+
+async function currentConfig(): Promise<AdminConfig> {
+  return (await getStorage().getAdminConfig()) as AdminConfig;
+}
+
+async function rename(siteName: string, author = 'admin') {
+  const config = await currentConfig();
+  config.SiteConfig.SiteName = siteName;
+  await saveAdminConfig(config, author, 'site.update');
+}
+
+afterAll(() => {
+  if (savedLimit === undefined) delete process.env.CONFIG_HISTORY_LIMIT;
+  else process.env.CONFIG_HISTORY_LIMIT = savedLimit;
+});
+
+beforeEach(async () => {
+  delete process.env.CONFIG_HISTORY_LIMIT;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('./db').__reset();
+  // 启用历史之前写入的配置
+  await getStorage().setAdminConfig(JSON.parse(JSON.stringify(CONFIG)));
+});
+
+describe('saveAdminConfig', () => {
+  it('records each saved version with its author and reason', async () => {
+    await rename('站点二', 'alice');
+
+    const history = await getStorage().listConfigHistory();
+    expect(
+      history.map(({ version, author, reason }) => ({
+        version,
+        author,
+        reason,
+      }))
+    ).toEqual([
+      { version: 2, author: 'alice', reason: 'site.update' },
+      { version: 1, author: 'system', reason: 'config.baseline' },
+    ]);
+    expect((await getStorage().getConfigHistory(1))?.SiteConfig.SiteName).toBe(
+      'MoonTV'
+    );
+    expect((await getStorage().getConfigHistory(2))?.SiteConfig.SiteName).toBe(
+      '站点二'
+    );
+  });
+
+  it('keeps only the newest CONFIG_HISTORY_LIMIT versions', async () => {
+    process.env.CONFIG_HISTORY_LIMIT = '3';
+    for (let i = 2; i <= 6; i++) {
+      await rename(`站点${i}`);
+    }
+
+    expect(
+      (await getStorage().listConfigHistory()).map((m) => m.version)
+    ).toEqual([6, 5, 4]);
+  });
+
+  it('does not record a rejected write', async () => {
+    const stale = await currentConfig();
+    await rename('站点二');
+
+    await expect(
+      saveAdminConfig(stale, 'admin', 'site.update')
+    ).rejects.toBeInstanceOf(AdminConfigConflictError);
+    expect(
+      (await getStorage().listConfigHistory()).map((m) => m.version)
+    ).toEqual([2, 1]);
+  });
+});
+
+describe('restoreConfigVersion', () => {
+  it('writes the old config as a new version', async () => {
+    await rename('站点二');
+    await rename('站点三');
+
+    const restored = await restoreConfigVersion(2, 'owner');
+
+    expect(restored.Version).toBe(4);
+    expect(await currentConfig()).toEqual({
+      ...CONFIG,
+      SiteConfig: { ...CONFIG.SiteConfig, SiteName: '站点二' },
+      Version: 4,
+    });
+    const [latest] = await getStorage().listConfigHistory();
+    expect(latest).toMatchObject({
+      version: 4,
+      author: 'owner',
+      reason: 'config.rollback:2',
+    });
+  });
+
+  it('refuses a version that does not match the config schema', async () => {
+    const broken = { ...CONFIG, SourceConfig: [{ key: 'a' }] };
+    await getStorage().saveConfigHistory(
+      { version: 1, saved_at: 1, author: 'admin', reason: 'source.add' },
+      broken as unknown as AdminConfig
+    );
+
+    await expect(restoreConfigVersion(1, 'owner')).rejects.toMatchObject({
+      issues: [
+        { path: 'SourceConfig[0].name', message: '缺少必填字段' },
+        { path: 'SourceConfig[0].api', message: '缺少必填字段' },
+        { path: 'SourceConfig[0].from', message: '缺少必填字段' },
+      ],
+    });
+  });
+
+  it('rejects an unknown version', async () => {
+    await expect(restoreConfigVersion(42, 'owner')).rejects.toBeInstanceOf(
+      ConfigHistoryNotFoundError
+    );
+  });
+});
+
+describe('diffLines', () => {
+  it('pairs removed and added lines as changes beside unchanged lines', () => {
+    expect(diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+      { type: 'same', left: 'a', right: 'a' },
+      { type: 'changed', left: 'b', right: 'x' },
+      { type: 'same', left: 'c', right: 'c' },
+      { type: 'same', left: 'd', right: 'd' },
+      { type: 'added', right: 'e' },
+    ]);
+  });
+
+  it('keeps moved blocks aligned on the longest common subsequence', () => {
+    expect(diffLines(['a', 'b', 'c'], ['c', 'a', 'b'])).toEqual([
+      { type: 'added', right: 'c' },
+      { type: 'same', left: 'a', right: 'a' },
+      { type: 'same', left: 'b', right: 'b' },
+      { type: 'removed', left: 'c' },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import {
+  adminConfigSchema,
+  checkSchema,
+  ConfigValidationError,
+} from './config-schema';
+import { getStorage } from './db';
+import { ConfigHistoryMeta } from './types';
+
+/**
+ * 管理员配置历史
+ * 通过 saveAdminConfig 写入的配置会在写入成功后保存一份快照（以写入后的版本号为标识），
+ * 记录修改者与原因，只保留最近 CONFIG_HISTORY_LIMIT 个版本；任一版本可回滚为当前配置。
+ */
+
+export const DEFAULT_CONFIG_HISTORY_LIMIT = 20;
+
+// 首次记录历史时，为启用历史之前已存在的配置补一条记录，以便回滚到修改之前
+const BASELINE_REASON = 'config.baseline';
+
+export class ConfigHistoryNotFoundError extends Error {
+  constructor(version: number) {
+    super(`配置版本不存在: ${version}`);
+    this.name = 'ConfigHistoryNotFoundError';
+  }
+}
+
+export function getConfigHistoryLimit(): number {
+  const limit = Number(process.env.CONFIG_HISTORY_LIMIT);
+  return Number.isInteger(limit) && limit > 0
+    ? limit
+    : DEFAULT_CONFIG_HISTORY_LIMIT;
+}
+
+async function recordBaseline(): Promise<void> {
+  const storage = getStorage();
+  if ((await storage.listConfigHistory()).length > 0) return;
+  const current = await storage.getAdminConfig();
+  if (!current?.Version) return;
+  await storage.saveConfigHistory(
+    {
+      version: current.Version,
+      saved_at: Date.now(),
+      author: 'system',
+      reason: BASELINE_REASON,
+    },
+    current
+  );
+}
+
+async function trimConfigHistory(): Promise<void> {
+  const storage = getStorage();
+  const expired = (await storage.listConfigHistory()).slice(
+    getConfigHistoryLimit()
+  );
+  for (const meta of expired) {
+    await storage.deleteConfigHistory(meta.version);
+  }
+}
+
+/**
+ * 写入管理员配置并记录历史版本
+ * 配置写入失败（如版本冲突）时抛出原错误；历史记录失败只打印日志，不影响已写入的配置
+ */
+export async function saveAdminConfig(
+  config: AdminConfig,
+  author: string,
+  reason: string
+): Promise<void> {
+  const storage = getStorage();
+  try {
+    await recordBaseline();
+  } catch (err) {
+    console.error('记录配置历史失败:', err);
+  }
+
+  await storage.setAdminConfig(config);
+
+  try {
+    await storage.saveConfigHistory(
+      {
+        version: config.Version as number,
+        saved_at: Date.now(),
+        author,
+        reason,
+      },
+      config
+    );
+    await trimConfigHistory();
+  } catch (err) {
+    console.error('记录配置历史失败:', err);
+  }
+}
+
+export async function listConfigHistory(): Promise<ConfigHistoryMeta[]> {
+  return getStorage().listConfigHistory();
+}
+
+export async function getConfigVersion(version: number): Promise<AdminConfig> {
+  const config = await getStorage().getConfigHistory(version);
+  if (!config) {
+    throw new ConfigHistoryNotFoundError(version);
+  }
+  return config;
+}
+
+/**
+ * 将历史版本的配置写为当前配置（生成一个新版本），返回写入后的配置
+ * 历史配置不符合当前的配置结构时抛出 ConfigValidationError
+ */
+export async function restoreConfigVersion(
+  version: number,
+  author: string
+): Promise<AdminConfig> {
+  const restored = await getConfigVersion(version);
+  const checked = checkSchema(adminConfigSchema, restored);
+  if (!checked.success) {
+    throw new ConfigValidationError(
+      `版本 ${version} 的配置校验失败`,
+      checked.issues
+    );
+  }
+  const current = await getStorage().getAdminConfig();
+  restored.Version = current?.Version;
+  await saveAdminConfig(restored, author, `config.rollback:${version}`);
+  return restored;
+}
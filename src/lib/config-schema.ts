@@ -0,0 +1,466 @@
+import { z } from 'zod';
+
+import { AdminConfig } from './admin.types';
+
+/**
+ * 配置文件、订阅数据与管理员配置的结构校验
+ * 校验失败时返回字段路径级别的错误；配置文件为 JSON 文本时同时给出错误所在行列，供编辑器标注。
+ * 本模块不依赖存储，前后端均可引用。
+ */
+
+// 一项校验错误
+export interface ConfigIssue {
+  path: string; // 字段路径，如 "api_site.dyttzy.api"、"custom_category[0].type"，根为空字符串
+  message: string;
+  line?: number; // 错误所在行，从 1 开始（仅 JSON 文本）
+  column?: number; // 错误所在列，从 1 开始（仅 JSON 文本）
+}
+
+export type ConfigCheckResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ConfigIssue[] };
+
+export class ConfigValidationError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(message: string, issues: ConfigIssue[]) {
+    super(message);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+// ---------- 配置文件与订阅数据 ----------
+const apiSiteSchema = z.object({
+  key: z.string().optional(),
+  api: z.string().trim().url(),
+  name: z.string().trim().min(1),
+  detail: z.string().optional(),
+});
+
+const categoryTypeSchema = z.enum(['movie', 'tv']);
+
+export const configFileSchema = z.object({
+  cache_time: z.number().int().nonnegative().optional(),
+  api_site: z.record(apiSiteSchema),
+  custom_category: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        type: categoryTypeSchema,
+        query: z.string().trim().min(1),
+      })
+    )
+    .optional(),
+});
+
+export type ConfigFileStruct = z.infer<typeof configFileSchema>;
+
+// 订阅地址返回的数据与配置文件格式相同，导入时只使用其中的 api_site
+export const subscriptionDataSchema = configFileSchema;
+
+// 订阅设置（/api/admin/subscription 的 save 操作，缺省 id 时新建订阅）
+export const subscriptionSettingsSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1),
+  url: z.string().trim().url(),
+  priority: z.number().int(),
+  enabled: z.boolean(),
+  updateInterval: z.number().int().min(60), // 秒
+});
+
+// 请求头名称只能由 RFC 7230 规定的 token 字符组成
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// 正向代理只支持 http 与 https 协议，不是有效 URL 的由 url() 校验报告
+function isHttpProxy(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return true;
+  }
+}
+
+// 视频源请求配置（/api/admin/source 的 add 与 profile 操作）
+export const sourceRequestProfileSchema = z.object({
+  userAgent: z.string().trim().min(1).optional(),
+  referer: z.string().trim().url().optional(),
+  headers: z
+    .record(
+      z.string().regex(HEADER_NAME, '不是有效的请求头名称'),
+      z.string().regex(/^[^\r\n\0]*$/, '不能包含换行符')
+    )
+    .optional(),
+  timeout: z.number().int().min(1000).max(120000).optional(), // 毫秒
+  proxy: z
+    .string()
+    .trim()
+    .url()
+    .refine(isHttpProxy, '仅支持 http 或 https 代理')
+    .optional(),
+  proxyPrefix: z.string().trim().url().optional(),
+});
+
+// 视频源接口返回格式，缺省时自动识别
+export const sourceResponseFormatSchema = z.enum(['json', 'xml']);
+
+// ---------- 管理员配置 ----------
+const inviteCodeSchema = z.object({
+  code: z.string().min(1),
+  maxUses: z.number().int().positive(),
+  used: z.number().int().nonnegative(),
+  expiresAt: z.number().optional(),
+  group: z.string().optional(),
+  createdBy: z.string(),
+  createdAt: z.number(),
+});
+
+export const adminConfigSchema: z.ZodType<AdminConfig> = z.object({
+  Version: z.number().int().nonnegative().optional(),
+  ConfigFile: z.string(),
+  SiteConfig: z.object({
+    SiteName: z.string(),
+    Announcement: z.string(),
+    SearchDownstreamMaxPage: z.number().int().positive(),
+    SiteInterfaceCacheTime: z.number().int().nonnegative(),
+    DoubanProxyType: z.string(),
+    DoubanProxy: z.string(),
+    DoubanImageProxyType: z.string(),
+    DoubanImageProxy: z.string(),
+    DisableYellowFilter: z.boolean(),
+    DanmakuApiBaseUrl: z.string().optional(),
+    TVBoxEnabled: z.boolean().optional(),
+    TVBoxPassword: z.string().optional(),
+  }),
+  UserConfig: z.object({
+    AllowRegister: z.boolean(),
+    RequireAdminTwoFactor: z.boolean().optional(),
+    RequireInvite: z.boolean().optional(),
+    RequireApproval: z.boolean().optional(),
+    Users: z
+      .array(
+        z.object({
+          username: z.string().min(1),
+          role: z.enum(['user', 'admin', 'owner']),
+          banned: z.boolean().optional(),
+          pending: z.boolean().optional(),
+          group: z.string().optional(),
+          lastOnline: z.number().optional(),
+        })
+      )
+      .optional(),
+    Groups: z
+      .array(
+        z.object({ name: z.string().min(1), sourceKeys: z.array(z.string()) })
+      )
+      .optional(),
+    InviteCodes: z.array(inviteCodeSchema).optional(),
+  }),
+  SourceConfig: z.array(
+    z.object({
+      key: z.string().min(1),
+      name: z.string(),
+      api: z.string().min(1),
+      detail: z.string().optional(),
+      from: z.enum(['config', 'custom']),
+      disabled: z.boolean().optional(),
+      autoDisabled: z.boolean().optional(),
+      subscription: z.string().optional(),
+      request: sourceRequestProfileSchema.optional(),
+      format: sourceResponseFormatSchema.optional(),
+    })
+  ),
+  CustomCategories: z.array(
+    z.object({
+      name: z.string().optional(),
+      type: categoryTypeSchema,
+      query: z.string().min(1),
+      from: z.enum(['config', 'custom']),
+      disabled: z.boolean().optional(),
+    })
+  ),
+  SubscriptionConfig: z
+    .object({
+      Subscriptions: z
+        .array(
+          subscriptionSettingsSchema.required({ id: true }).extend({
+            lastUpdated: z.number().optional(),
+          })
+        )
+        .optional(),
+      subscriptionUrl: z.string().optional(),
+      autoUpdate: z.boolean().optional(),
+      updateInterval: z.number().int().positive().optional(),
+      lastUpdated: z.number().optional(),
+      importMode: z.enum(['overwrite', 'merge']).optional(),
+    })
+    .optional(),
+  AuditLogConfig: z
+    .object({ RetentionDays: z.number().int().min(1).max(3650) })
+    .optional(),
+});
+
+// ---------- 错误信息 ----------
+const TYPE_NAMES: Record<string, string> = {
+  string: '字符串',
+  number: '数字',
+  integer: '整数',
+  float: '小数',
+  boolean: '布尔值',
+  object: '对象',
+  array: '数组',
+  null: 'null',
+};
+
+const typeName = (type: string) => TYPE_NAMES[type] ?? type;
+
+const errorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === 'undefined') return { message: '缺少必填字段' };
+      return {
+        message: `应为${typeName(issue.expected)}，实际为${typeName(
+          issue.received
+        )}`,
+      };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `取值无效，应为 ${issue.options.join(' / ')}` };
+    case z.ZodIssueCode.invalid_union:
+      return { message: '取值无效' };
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === 'url') return { message: '不是有效的 URL' };
+      break;
+    case z.ZodIssueCode.too_small:
+      if (issue.type === 'string') return { message: '不能为空' };
+      if (issue.type === 'number') {
+        return { message: `不能小于 ${issue.minimum}` };
+      }
+      break;
+    case z.ZodIssueCode.too_big:
+      if (issue.type === 'number') {
+        return { message: `不能大于 ${issue.maximum}` };
+      }
+      break;
+  }
+  return { message: ctx.defaultError };
+};
+
+export function formatIssuePath(segments: (string | number)[]): string {
+  return segments.reduce<string>(
+    (path, segment) =>
+      typeof segment === 'number'
+        ? `${path}[${segment}]`
+        : path
+        ? `${path}.${segment}`
+        : segment,
+    ''
+  );
+}
+
+export function checkSchema<T>(
+  schema: z.ZodType<T>,
+  value: unknown
+): ConfigCheckResult<T> {
+  const result = schema.safeParse(value, { errorMap });
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    })),
+  };
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues
+    .map(({ path, message, line }) =>
+      [line ? `第 ${line} 行` : '', path, message].filter(Boolean).join(' ')
+    )
+    .join('；');
+}
+
+/**
+ * 写入前校验完整的管理员配置，避免把不完整的数据保存下来
+ */
+export function assertValidAdminConfig(config: AdminConfig): AdminConfig {
+  const checked = checkSchema(adminConfigSchema, config);
+  if (!checked.success) {
+    throw new ConfigValidationError('管理员配置校验失败', checked.issues);
+  }
+  return config;
+}
+
+// ---------- JSON 文本定位 ----------
+class JsonSyntaxError extends Error {
+  offset: number;
+
+  constructor(offset: number) {
+    super('JSON 语法错误');
+    this.offset = offset;
+  }
+}
+
+const LITERAL_PATTERN =
+  /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+// 扫描 JSON 文本，记录每个字段（对象成员取键名位置）的起始偏移；语法错误时抛出 JsonSyntaxError
+function scanJson(text: string): Map<string, number> {
+  const positions = new Map<string, number>();
+  let i = 0;
+
+  const fail = (): never => {
+    throw new JsonSyntaxError(Math.min(i, text.length));
+  };
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = (): string => {
+    const start = i;
+    if (text[i] !== '"') fail();
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\n') fail();
+      i += text[i] === '\\' ? 2 : 1;
+    }
+    if (i >= text.length) fail();
+    i++;
+    try {
+      return JSON.parse(text.slice(start, i)) as string;
+    } catch {
+      i = start;
+      return fail();
+    }
+  };
+  const readValue = (segments: (string | number)[], keyStart?: number) => {
+    skipSpace();
+    positions.set(formatIssuePath(segments), keyStart ?? i);
+    if (text[i] === '{') {
+      i++;
+      skipSpace();
+      if (text[i] === '}') {
+        i++;
+        return;
+      }
+      for (;;) {
+        skipSpace();
+        const keyStart = i;
+        const key = readString();
+        skipSpace();
+        if (text[i] !== ':') fail();
+        i++;
+        readValue([...segments, key], keyStart);
+        skipSpace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === '}') {
+          i++;
+          return;
+        } else {
+          fail();
+        }
+      }
+    }
+    if (text[i] === '[') {
+      i++;
+      skipSpace();
+      if (text[i] === ']') {
+        i++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        readValue([...segments, index]);
+        skipSpace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === ']') {
+          i++;
+          return;
+        } else {
+          fail();
+        }
+      }
+    }
+    if (text[i] === '"') {
+      readString();
+      return;
+    }
+    LITERAL_PATTERN.lastIndex = i;
+    if (!LITERAL_PATTERN.test(text)) fail();
+    i = LITERAL_PATTERN.lastIndex;
+  };
+
+  readValue([]);
+  skipSpace();
+  if (i < text.length) fail();
+  return positions;
+}
+
+function lineColumn(text: string, offset: number) {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// 找到字段或其最近的上级在文本中的位置（缺少的字段定位到所在对象）
+function locate(
+  text: string,
+  positions: Map<string, number>,
+  path: string
+): { line: number; column: number } | undefined {
+  for (let current = path; ; ) {
+    const offset = positions.get(current);
+    if (offset !== undefined) return lineColumn(text, offset);
+    if (!current) return undefined;
+    const cut = Math.max(current.lastIndexOf('.'), current.lastIndexOf('['));
+    current = current.slice(0, Math.max(cut, 0));
+  }
+}
+
+/**
+ * 解析并校验 JSON 文本，错误附带所在行列
+ */
+export function checkJsonText<T>(
+  schema: z.ZodType<T>,
+  text: string
+): ConfigCheckResult<T> {
+  let positions: Map<string, number>;
+  try {
+    positions = scanJson(text);
+  } catch (err) {
+    const offset = err instanceof JsonSyntaxError ? err.offset : 0;
+    return {
+      success: false,
+      issues: [
+        { path: '', message: 'JSON 语法错误', ...lineColumn(text, offset) },
+      ],
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return {
+      success: false,
+      issues: [
+        { path: '', message: `JSON 语法错误：${(err as Error).message}` },
+      ],
+    };
+  }
+
+  const result = checkSchema(schema, value);
+  if (result.success) return result;
+  return {
+    success: false,
+    issues: result.issues.map((issue) => ({
+      ...issue,
+      ...locate(text, positions, issue.path),
+    })),
+  };
+}
+
+export function parseConfigFile(
+  text: string
+): ConfigCheckResult<ConfigFileStruct> {
+  return checkJsonText(configFileSchema, text);
+}
@@ -2,26 +2,35 @@
 
 import { getStorage } from '@/lib/db';
 
-import { AdminConfig } from './admin.types';
+import {
+  AdminConfig,
+  SourceRequestProfile,
+  SourceResponseFormat,
+} from './admin.types';
+import { saveAdminConfig } from './config-history';
+import {
+  ConfigFileStruct,
+  formatIssues,
+  parseConfigFile,
+} from './config-schema';
+import { ensureSchema } from './migrations';
 import runtimeConfig from './runtime';
+import { AdminConfigConflictError } from './types';
+import {
+  ensureUserRecords,
+  forEachUserRecord,
+  getUserRecord,
+  migrateLegacyUsers,
+  saveUserRecord,
+} from './user-registry';
 
 export interface ApiSite {
   key: string;
   api: string;
   name: string;
   detail?: string;
-}
-
-interface ConfigFileStruct {
-  cache_time?: number;
-  api_site: {
-    [key: string]: ApiSite;
-  };
-  custom_category?: {
-    name?: string;
-    type: 'movie' | 'tv';
-    query: string;
-  }[];
+  request?: SourceRequestProfile;
+  format?: SourceResponseFormat;
 }
 
 export const API_CONFIG = {
@@ -47,13 +56,38 @@ export const API_CONFIG = {
 // 在模块加载时根据环境决定配置来源
 let fileConfig: ConfigFileStruct;
 let cachedConfig: AdminConfig;
+// 配置文件（管理员配置中保存的或 Docker 挂载的 config.json）最近一次校验失败的原因，校验通过时为空
+let configFileError: string | null = null;
+
+// 解析配置文件，校验失败时沿用上一次有效的配置（没有时为空配置）并记录错误，供管理后台提示
+function loadConfigFile(text: string): ConfigFileStruct {
+  const result = parseConfigFile(text);
+  if (!result.success) {
+    configFileError = formatIssues(result.issues);
+    console.error('配置文件校验失败，沿用上一次有效配置:', configFileError);
+    return fileConfig || ({} as ConfigFileStruct);
+  }
+  configFileError = null;
+  return result.data;
+}
+
+export function getConfigFileError(): string | null {
+  return configFileError;
+}
+
+// 读取 Docker 部署挂载的 config.json，校验失败时与管理员配置一样沿用上一次有效配置
+function readDockerConfigFile(): ConfigFileStruct {
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  const _require = eval('require') as NodeJS.Require;
+  const fs = _require('fs') as typeof import('fs');
+  const path = _require('path') as typeof import('path');
+
+  const configPath = path.join(process.cwd(), 'config.json');
+  return loadConfigFile(fs.readFileSync(configPath, 'utf-8'));
+}
 
 export function refineConfig(adminConfig: AdminConfig): AdminConfig {
-  try {
-    fileConfig = JSON.parse(adminConfig.ConfigFile) as ConfigFileStruct;
-  } catch (e) {
-    fileConfig = {} as ConfigFileStruct;
-  }
+  fileConfig = loadConfigFile(adminConfig.ConfigFile);
   // 合并文件中的源信息
   const apiSiteEntries = Object.entries(fileConfig.api_site || []);
   const sourceConfigMap = new Map(
@@ -68,6 +102,8 @@ export function refineConfig(adminConfig: AdminConfig): AdminConfig {
       existingSource.api = site.api;
       existingSource.detail = site.detail;
       existingSource.from = 'config';
+      // 配置文件中的源不属于任何订阅
+      delete existingSource.subscription;
     } else {
       // 如果不存在，创建新条目
       sourceConfigMap.set(key, {
@@ -144,14 +180,7 @@ async function initConfig() {
   }
 
   if (process.env.DOCKER_ENV === 'true') {
-    // eslint-disable-next-line @typescript-eslint/no-implied-eval
-    const _require = eval('require') as NodeJS.Require;
-    const fs = _require('fs') as typeof import('fs');
-    const path = _require('path') as typeof import('path');
-
-    const configPath = path.join(process.cwd(), 'config.json');
-    const raw = fs.readFileSync(configPath, 'utf-8');
-    fileConfig = JSON.parse(raw) as ConfigFileStruct;
+    fileConfig = readDockerConfigFile();
     console.log('load dynamic config success');
   } else {
     // 默认使用编译时生成的配置
@@ -175,7 +204,7 @@ async function initConfig() {
         adminConfig = await (storage as any).getAdminConfig();
       }
   
-      // 获取所有用户名，用于补全 Users
+      // 获取所有用户名，用于补全用户账户记录
       let userNames: string[] = [];
       if (storage && typeof (storage as any).getAllUsers === 'function') {
         try {
@@ -186,12 +215,7 @@ async function initConfig() {
       }
   
       if (adminConfig) {
-        try {
-          fileConfig = JSON.parse(adminConfig.ConfigFile) as ConfigFileStruct;
-        } catch (e) {
-          console.error('解析配置文件失败:', e);
-          fileConfig = {} as ConfigFileStruct;
-        }
+        fileConfig = loadConfigFile(adminConfig.ConfigFile);
         const apiSiteEntries = Object.entries(fileConfig.api_site || []);
         const customCategories = fileConfig.custom_category || [];
   
@@ -255,31 +279,11 @@ async function initConfig() {
         // 将 Map 转换回数组
         adminConfig.CustomCategories = Array.from(customCategoriesMap.values());
   
-        const existedUsers = new Set(
-          (adminConfig.UserConfig.Users || []).map((u) => u.username)
-        );
-        userNames.forEach((uname) => {
-          if (!existedUsers.has(uname)) {
-            adminConfig!.UserConfig.Users.push({
-              username: uname,
-              role: 'user',
-            });
-          }
-        });
-        // 站长
-        const ownerUser = process.env.USERNAME;
-        if (ownerUser) {
-          adminConfig!.UserConfig.Users = adminConfig!.UserConfig.Users.filter(
-            (u) => u.username !== ownerUser
-          );
-          adminConfig!.UserConfig.Users.unshift({
-            username: ownerUser,
-            role: 'owner',
-          });
-        }
+        // 旧版配置中的用户列表迁移到账户记录存储
+        await migrateLegacyUsers(adminConfig);
         // 初始化分组结构（若缺失）
         if (!adminConfig.UserConfig) {
-          adminConfig.UserConfig = { AllowRegister: false, Users: [], Groups: [] } as any;
+          adminConfig.UserConfig = { AllowRegister: false, Groups: [] } as any;
         }
         if (!('Groups' in adminConfig.UserConfig) || !adminConfig.UserConfig.Groups) {
           (adminConfig.UserConfig as any).Groups = [];
@@ -287,31 +291,12 @@ async function initConfig() {
       } else {
         // 数据库中没有配置，使用默认的运行时配置
         if (process.env.DOCKER_ENV === 'true') {
-          // eslint-disable-next-line @typescript-eslint/no-implied-eval
-          const _require = eval('require') as NodeJS.Require;
-          const fs = _require('fs') as typeof import('fs');
-          const path = _require('path') as typeof import('path');
-
-          const configPath = path.join(process.cwd(), 'config.json');
-          const raw = fs.readFileSync(configPath, 'utf-8');
-          fileConfig = JSON.parse(raw) as ConfigFileStruct;
+          fileConfig = readDockerConfigFile();
         } else {
           // 默认使用编译时生成的配置
           fileConfig = runtimeConfig as unknown as ConfigFileStruct;
         }
         // 数据库中没有配置，创建新的管理员配置
-        let allUsers = userNames.map((uname) => ({
-          username: uname,
-          role: 'user',
-        }));
-        const ownerUser = process.env.USERNAME;
-        if (ownerUser) {
-          allUsers = allUsers.filter((u) => u.username !== ownerUser);
-          allUsers.unshift({
-            username: ownerUser,
-            role: 'owner',
-          });
-        }
         adminConfig = {
           ConfigFile: JSON.stringify(fileConfig),
           SiteConfig: {
@@ -338,7 +323,6 @@ async function initConfig() {
           },
           UserConfig: {
             AllowRegister: process.env.NEXT_PUBLIC_ENABLE_REGISTER === 'true',
-            Users: allUsers as any,
             Groups: [],
           },
           SourceConfig: Object.entries(fileConfig.api_site || {}).map(([key, site]) => ({
@@ -362,8 +346,9 @@ async function initConfig() {
   
       // 写回数据库（更新/创建）
       if (storage && typeof (storage as any).setAdminConfig === 'function') {
-        await (storage as any).setAdminConfig(adminConfig);
+        await saveAdminConfig(adminConfig, 'system', 'config.init');
       }
+      await ensureUserRecords(userNames);
   
       // 更新缓存
       cachedConfig = adminConfig;
@@ -398,10 +383,9 @@ async function initConfig() {
       },
       UserConfig: {
         AllowRegister: process.env.NEXT_PUBLIC_ENABLE_REGISTER === 'true',
-        Users: [],
         Groups: [],
       },
-      SourceConfig: Object.entries(fileConfig.api_site).map(([key, site]) => ({
+      SourceConfig: Object.entries(fileConfig.api_site || {}).map(([key, site]) => ({
         key,
         name: site.name,
         api: site.api,
@@ -429,7 +413,8 @@ export async function getConfig(): Promise<AdminConfig> {
     return cachedConfig;
   }
 
-  // 非本地存储，直接读 db 配置
+  // 非本地存储，先确保存储结构为最新，再直接读 db 配置
+  await ensureSchema();
   const storage = getStorage();
   let adminConfig: AdminConfig | null = null;
   if (storage && typeof (storage as any).getAdminConfig === 'function') {
@@ -489,12 +474,7 @@ export async function getConfig(): Promise<AdminConfig> {
           : '';
     }
 
-    try {
-      fileConfig = JSON.parse(adminConfig.ConfigFile) as ConfigFileStruct;
-    } catch (e) {
-      console.error('解析配置文件失败:', e);
-      fileConfig = {} as ConfigFileStruct;
-    }
+    fileConfig = loadConfigFile(adminConfig.ConfigFile);
 
     // 合并文件中的源信息
     const apiSiteEntries = Object.entries(fileConfig.api_site || []);
@@ -582,31 +562,23 @@ export async function getConfig(): Promise<AdminConfig> {
 
     // 初始化分组结构（若缺失）
     if (!adminConfig.UserConfig) {
-      adminConfig.UserConfig = { AllowRegister: false, Users: [], Groups: [] } as any;
+      adminConfig.UserConfig = { AllowRegister: false, Groups: [] } as any;
     }
     if (!('Groups' in adminConfig.UserConfig) || !adminConfig.UserConfig.Groups) {
       (adminConfig.UserConfig as any).Groups = [];
     }
 
-    const ownerUser = process.env.USERNAME || '';
-    // 检查配置中的站长用户是否和 USERNAME 匹配，如果不匹配则降级为普通用户
-    let containOwner = false;
-    adminConfig.UserConfig.Users.forEach((user) => {
-      if (user.username !== ownerUser && user.role === 'owner') {
-        user.role = 'user';
-      }
-      if (user.username === ownerUser) {
-        containOwner = true;
-        user.role = 'owner';
+    // 旧版配置中的用户列表迁移到账户记录存储，并写回移除了 Users 的配置
+    if (await migrateLegacyUsers(adminConfig)) {
+      try {
+        await saveAdminConfig(adminConfig, 'system', 'config.migrateUsers');
+      } catch (err) {
+        // 其他请求已先完成迁移，重新读取
+        if (err instanceof AdminConfigConflictError) {
+          return getConfig();
+        }
+        throw err;
       }
-    });
-
-    // 如果不在则添加
-    if (!containOwner) {
-      adminConfig.UserConfig.Users.unshift({
-        username: ownerUser,
-        role: 'owner',
-      });
     }
     cachedConfig = adminConfig;
   } else {
@@ -619,10 +591,7 @@ export async function getConfig(): Promise<AdminConfig> {
 export function configSelfCheck(adminConfig: AdminConfig): AdminConfig {
   // 确保必要的属性存在和初始化
   if (!adminConfig.UserConfig) {
-    adminConfig.UserConfig = { AllowRegister: false, Users: [] };
-  }
-  if (!adminConfig.UserConfig.Users || !Array.isArray(adminConfig.UserConfig.Users)) {
-    adminConfig.UserConfig.Users = [];
+    adminConfig.UserConfig = { AllowRegister: false };
   }
   if (!adminConfig.SourceConfig || !Array.isArray(adminConfig.SourceConfig)) {
     adminConfig.SourceConfig = [];
@@ -634,36 +603,6 @@ export function configSelfCheck(adminConfig: AdminConfig): AdminConfig {
     adminConfig.SubscriptionConfig = {};
   }
 
-  // 站长变更自检
-  const ownerUser = process.env.USERNAME;
-  const originalOwner = adminConfig.UserConfig.Users.find((u) => u.username === ownerUser);
-
-  // 去重
-  const seenUsernames = new Set<string>();
-  adminConfig.UserConfig.Users = adminConfig.UserConfig.Users.filter((user) => {
-    if (seenUsernames.has(user.username)) {
-      return false;
-    }
-    seenUsernames.add(user.username);
-    return true;
-  });
-  // 过滤站长
-  adminConfig.UserConfig.Users = adminConfig.UserConfig.Users.filter((user) => user.username !== ownerUser);
-  // 其他用户不得拥有 owner 权限
-  adminConfig.UserConfig.Users.forEach((user) => {
-    if (user.role === 'owner') {
-      user.role = 'user';
-    }
-  });
-  // 重新添加回站长
-  adminConfig.UserConfig.Users.unshift({
-    username: ownerUser!,
-    role: 'owner',
-    banned: originalOwner?.banned ?? false,
-    group: originalOwner?.group,
-    lastOnline: originalOwner?.lastOnline,
-  });
-
   // 采集源去重
   const seenSourceKeys = new Set<string>();
   adminConfig.SourceConfig = adminConfig.SourceConfig.filter((source) => {
@@ -688,49 +627,27 @@ export function configSelfCheck(adminConfig: AdminConfig): AdminConfig {
 }
 
 
-export async function resetConfig() {
+export async function resetConfig(author = 'system') {
   const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
   const storage = getStorage();
-  // 获取所有用户名，用于补全 Users
-  let userNames: string[] = [];
-  if (storage && typeof (storage as any).getAllUsers === 'function') {
-    try {
-      userNames = await (storage as any).getAllUsers();
-    } catch (e) {
-      console.error('获取用户列表失败:', e);
-    }
+  // 在当前版本上覆盖写入
+  let currentVersion: number | undefined;
+  if (storage && typeof (storage as any).getAdminConfig === 'function') {
+    currentVersion = (await (storage as any).getAdminConfig())?.Version;
   }
 
   if (process.env.DOCKER_ENV === 'true') {
-    // eslint-disable-next-line @typescript-eslint/no-implied-eval
-    const _require = eval('require') as NodeJS.Require;
-    const fs = _require('fs') as typeof import('fs');
-    const path = _require('path') as typeof import('path');
-
-    const configPath = path.join(process.cwd(), 'config.json');
-    const raw = fs.readFileSync(configPath, 'utf-8');
-    fileConfig = JSON.parse(raw) as ConfigFileStruct;
+    fileConfig = readDockerConfigFile();
     console.log('load dynamic config success');
   } else {
     // 默认使用编译时生成的配置
     fileConfig = runtimeConfig as unknown as ConfigFileStruct;
   }
 
-  const apiSiteEntries = Object.entries(fileConfig.api_site);
+  const apiSiteEntries = Object.entries(fileConfig.api_site || {});
   const customCategories = fileConfig.custom_category || [];
-  let allUsers = userNames.map((uname) => ({
-    username: uname,
-    role: 'user',
-  }));
-  const ownerUser = process.env.USERNAME;
-  if (ownerUser) {
-    allUsers = allUsers.filter((u) => u.username !== ownerUser);
-    allUsers.unshift({
-      username: ownerUser,
-      role: 'owner',
-    });
-  }
   const adminConfig = {
+    Version: currentVersion,
     ConfigFile: JSON.stringify(fileConfig),
     SiteConfig: {
       SiteName: process.env.SITE_NAME || 'MoonTV',
@@ -755,7 +672,6 @@ export async function resetConfig() {
     },
     UserConfig: {
       AllowRegister: process.env.NEXT_PUBLIC_ENABLE_REGISTER === 'true',
-      Users: allUsers as any,
     },
     SourceConfig: apiSiteEntries.map(([key, site]) => ({
       key,
@@ -779,7 +695,18 @@ export async function resetConfig() {
   } as AdminConfig;
 
   if (storage && typeof (storage as any).setAdminConfig === 'function') {
-    await (storage as any).setAdminConfig(adminConfig);
+    await saveAdminConfig(adminConfig, author, 'config.reset');
+
+    // 分组随配置一起清空，管理员降级为普通用户
+    await forEachUserRecord(async (record) => {
+      if (record.role === 'admin' || record.group) {
+        await saveUserRecord({
+          ...record,
+          role: record.role === 'admin' ? 'user' : record.role,
+          group: undefined,
+        });
+      }
+    });
   }
   if (cachedConfig == null) {
     // serverless 环境，直接使用 adminConfig
@@ -798,24 +725,28 @@ export async function getCacheTime(): Promise<number> {
   return config.SiteConfig.SiteInterfaceCacheTime || 7200;
 }
 
+function toApiSite(s: AdminConfig['SourceConfig'][number]): ApiSite {
+  return { key: s.key, name: s.name, api: s.api, detail: s.detail, request: s.request, format: s.format };
+}
+
 export async function getAvailableApiSites(username?: string): Promise<ApiSite[]> {
   const config = await getConfig();
   const all = config.SourceConfig.filter((s) => !s.disabled);
   if (!username || !config.UserConfig?.Groups || config.UserConfig.Groups.length === 0) {
-    return all.map((s) => ({ key: s.key, name: s.name, api: s.api, detail: s.detail }));
+    return all.map(toApiSite);
   }
-  const user = config.UserConfig.Users.find((u) => u.username === username);
+  const user = await getUserRecord(username);
   const groupName = user?.group;
   if (!groupName) {
-    return all.map((s) => ({ key: s.key, name: s.name, api: s.api, detail: s.detail }));
+    return all.map(toApiSite);
   }
   const group = config.UserConfig.Groups.find((g) => g.name === groupName);
   if (!group) {
-    return all.map((s) => ({ key: s.key, name: s.name, api: s.api, detail: s.detail }));
+    return all.map(toApiSite);
   }
   const allowed = new Set(group.sourceKeys);
   const filtered = all.filter((s) => allowed.has(s.key));
-  return filtered.map((s) => ({ key: s.key, name: s.name, api: s.api, detail: s.detail }));
+  return filtered.map(toApiSite);
 }
 
 export async function setCachedConfig(config: AdminConfig) {
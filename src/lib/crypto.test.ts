@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+import CryptoJS from 'crypto-js';
+
+import { SimpleCrypto } from './crypto';
+
+describe('SimpleCrypto', () => {
+  it('round-trips data through the versioned envelope', async () => {
+    const encrypted = await SimpleCrypto.encrypt('备份数据', 'secret', 1000);
+
+    expect(encrypted.startsWith('moontv-enc$1$1000$')).toBe(true);
+    expect(SimpleCrypto.isLegacy(encrypted)).toBe(false);
+    expect(await SimpleCrypto.decrypt(encrypted, 'secret')).toBe('备份数据');
+  });
+
+  it('rejects a wrong password', async () => {
+    const encrypted = await SimpleCrypto.encrypt('备份数据', 'secret', 1000);
+
+    await expect(SimpleCrypto.decrypt(encrypted, 'wrong')).rejects.toThrow(
+      '解密失败'
+    );
+    expect(await SimpleCrypto.canDecrypt(encrypted, 'wrong')).toBe(false);
+  });
+
+  it('detects tampering with the header or ciphertext', async () => {
+    const encrypted = await SimpleCrypto.encrypt('备份数据', 'secret', 1000);
+    const parts = encrypted.split('$');
+
+    // 修改迭代次数会改变派生密钥与附加认证数据
+    const header = [...parts.slice(0, 2), '1001', ...parts.slice(3)].join('$');
+    await expect(SimpleCrypto.decrypt(header, 'secret')).rejects.toThrow();
+
+    const data = Buffer.from(parts[5], 'base64');
+    data[0] ^= 0xff;
+    const body = [...parts.slice(0, 5), data.toString('base64')].join('$');
+    await expect(SimpleCrypto.decrypt(body, 'secret')).rejects.toThrow();
+  });
+
+  it('rejects unknown envelope versions', async () => {
+    const encrypted = await SimpleCrypto.encrypt('备份数据', 'secret', 1000);
+
+    await expect(
+      SimpleCrypto.decrypt(
+        encrypted.replace('moontv-enc$1$', 'moontv-enc$9$'),
+        'secret'
+      )
+    ).rejects.toThrow('不支持的加密格式版本');
+  });
+
+  it('rejects iteration counts above the limit before deriving the key', async () => {
+    const encrypted = await SimpleCrypto.encrypt('备份数据', 'secret', 1000);
+    const deriveKey = jest.spyOn(crypto.subtle, 'deriveKey');
+
+    await expect(
+      SimpleCrypto.decrypt(
+        encrypted.replace('moontv-enc$1$1000$', 'moontv-enc$1$10000000$'),
+        'secret'
+      )
+    ).rejects.toThrow('加密数据格式错误');
+    expect(deriveKey).not.toHaveBeenCalled();
+    deriveKey.mockRestore();
+  });
+
+  it('still decrypts legacy CryptoJS exports', async () => {
+    const legacy = CryptoJS.AES.encrypt('旧版备份', 'secret').toString();
+
+    expect(SimpleCrypto.isLegacy(legacy)).toBe(true);
+    expect(await SimpleCrypto.decrypt(legacy, 'secret')).toBe('旧版备份');
+    await expect(SimpleCrypto.decrypt(legacy, 'wrong')).rejects.toThrow(
+      '解密失败'
+    );
+  });
+});
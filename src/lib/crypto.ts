@@ -1,32 +1,189 @@
 import CryptoJS from 'crypto-js';
 
 /**
- * 简单的对称加密工具
- * 使用 AES 加密算法
+ * 数据导出使用的对称加密工具
+ * 基于 WebCrypto PBKDF2 派生密钥 + AES-GCM 认证加密，可同时运行在 Node 与 Edge Runtime
+ *
+ * 密文格式：moontv-enc$<版本>$<迭代次数>$<盐(base64)>$<IV(base64)>$<密文(base64)>
+ * 格式头作为附加认证数据参与校验，篡改任一部分都会解密失败
+ * 不带格式头的数据视为旧版 CryptoJS 密文，仅支持解密
  */
+
+const ENVELOPE_PREFIX = 'moontv-enc';
+const ENVELOPE_VERSION = 1;
+// Cloudflare Workers 上 PBKDF2 迭代次数上限为 100000
+export const DEFAULT_ENCRYPTION_ITERATIONS = 100000;
+// 迭代次数来自密文头，解密前先限制上限，避免构造的超大值耗尽 CPU
+const MAX_ITERATIONS = 1000000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  // 分段转换，避免大数据一次展开参数导致栈溢出
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.from(bytes.subarray(i, i + chunkSize))
+    );
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// 解析新版密文；不是新版格式时返回 null
+function parseEnvelope(encryptedData: string) {
+  const parts = encryptedData.trim().split('$');
+  if (parts[0] !== ENVELOPE_PREFIX) return null;
+  if (parts.length !== 6) {
+    throw new Error('加密数据格式错误');
+  }
+
+  const [, version, iterationsText, salt, iv, data] = parts;
+  if (Number(version) !== ENVELOPE_VERSION) {
+    throw new Error(`不支持的加密格式版本: ${version}`);
+  }
+  const iterations = Number(iterationsText);
+  if (
+    !Number.isInteger(iterations) ||
+    iterations <= 0 ||
+    iterations > MAX_ITERATIONS
+  ) {
+    throw new Error('加密数据格式错误');
+  }
+  try {
+    return {
+      header: parts.slice(0, 5).join('$'),
+      iterations,
+      salt: fromBase64(salt),
+      iv: fromBase64(iv),
+      data: fromBase64(data),
+    };
+  } catch {
+    throw new Error('加密数据格式错误');
+  }
+}
+
 export class SimpleCrypto {
   /**
    * 加密数据
    * @param data 要加密的数据
    * @param password 加密密码
+   * @param iterations PBKDF2 迭代次数，会写入密文以便解密
    * @returns 加密后的字符串
    */
-  static encrypt(data: string, password: string): string {
+  static async encrypt(
+    data: string,
+    password: string,
+    iterations = DEFAULT_ENCRYPTION_ITERATIONS
+  ): Promise<string> {
+    if (
+      !Number.isInteger(iterations) ||
+      iterations <= 0 ||
+      iterations > MAX_ITERATIONS
+    ) {
+      throw new Error('加密迭代次数无效');
+    }
     try {
-      const encrypted = CryptoJS.AES.encrypt(data, password).toString();
-      return encrypted;
+      const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      const header = [
+        ENVELOPE_PREFIX,
+        ENVELOPE_VERSION,
+        iterations,
+        toBase64(salt),
+        toBase64(iv),
+      ].join('$');
+      const key = await deriveKey(password, salt, iterations);
+      const encrypted = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: new TextEncoder().encode(header),
+        },
+        key,
+        new TextEncoder().encode(data)
+      );
+      return `${header}$${toBase64(new Uint8Array(encrypted))}`;
     } catch (error) {
       throw new Error('加密失败');
     }
   }
 
   /**
-   * 解密数据
+   * 解密数据，兼容旧版 CryptoJS 导出的密文
    * @param encryptedData 加密的数据
    * @param password 解密密码
    * @returns 解密后的字符串
    */
-  static decrypt(encryptedData: string, password: string): string {
+  static async decrypt(
+    encryptedData: string,
+    password: string
+  ): Promise<string> {
+    const envelope = parseEnvelope(encryptedData);
+    if (!envelope) {
+      return this.decryptLegacy(encryptedData, password);
+    }
+
+    try {
+      const key = await deriveKey(password, envelope.salt, envelope.iterations);
+      const decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: envelope.iv,
+          additionalData: new TextEncoder().encode(envelope.header),
+        },
+        key,
+        envelope.data
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      throw new Error('解密失败，请检查密码是否正确');
+    }
+  }
+
+  /**
+   * 判断密文是否为旧版 CryptoJS 格式
+   */
+  static isLegacy(encryptedData: string): boolean {
+    return !encryptedData.trim().startsWith(`${ENVELOPE_PREFIX}$`);
+  }
+
+  // 旧版 CryptoJS 口令加密（OpenSSL MD5 派生、无认证），仅用于读取历史备份
+  private static decryptLegacy(
+    encryptedData: string,
+    password: string
+  ): string {
     try {
       const bytes = CryptoJS.AES.decrypt(encryptedData, password);
       const decrypted = bytes.toString(CryptoJS.enc.Utf8);
@@ -47,9 +204,12 @@ export class SimpleCrypto {
    * @param password 密码
    * @returns 是否能正确解密
    */
-  static canDecrypt(encryptedData: string, password: string): boolean {
+  static async canDecrypt(
+    encryptedData: string,
+    password: string
+  ): Promise<boolean> {
     try {
-      const decrypted = this.decrypt(encryptedData, password);
+      const decrypted = await this.decrypt(encryptedData, password);
       return decrypted.length > 0;
     } catch {
       return false;
@@ -0,0 +1,209 @@
+/**
+ * D1 / SQLite 表结构迁移
+ * 新增表或字段时在末尾追加一个版本，不要修改已发布的版本；
+ * d1-init.sql 为最新结构的完整快照，需同步更新
+ */
+export interface D1Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export const D1_MIGRATIONS: D1Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password TEXT NOT NULL,
+        role TEXT DEFAULT 'user',
+        banned BOOLEAN DEFAULT false,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS play_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        source_name TEXT NOT NULL,
+        year TEXT,
+        cover TEXT,
+        episode_index INTEGER,
+        total_episodes INTEGER,
+        play_time INTEGER,
+        total_time INTEGER,
+        save_time INTEGER,
+        search_title TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, source, video_id),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS favorites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        source_name TEXT NOT NULL,
+        year TEXT,
+        cover TEXT,
+        total_episodes INTEGER,
+        save_time INTEGER,
+        search_title TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, source, video_id),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS search_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        keyword TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, keyword),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS skip_configs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        enable BOOLEAN DEFAULT false,
+        intro_time INTEGER DEFAULT 0,
+        outro_time INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, source, video_id),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS admin_config (
+        id INTEGER PRIMARY KEY DEFAULT 1,
+        config TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    name: 'accounts_and_auth',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS user_accounts (
+        username TEXT PRIMARY KEY,
+        role TEXT NOT NULL DEFAULT 'user',
+        banned INTEGER NOT NULL DEFAULT 0,
+        pending INTEGER NOT NULL DEFAULT 0,
+        user_group TEXT,
+        last_online INTEGER,
+        created_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_user_accounts_created_at ON user_accounts (created_at)',
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        device TEXT,
+        ip TEXT,
+        created_at INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sessions_username ON sessions (username)',
+      `CREATE TABLE IF NOT EXISTS two_factor (
+        username TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 0,
+        recovery_codes TEXT NOT NULL DEFAULT '[]',
+        last_used_step INTEGER,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS api_tokens (
+        token_hash TEXT PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        username TEXT NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_api_tokens_username ON api_tokens (username)',
+      `CREATE TABLE IF NOT EXISTS login_attempts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        last_failed_at INTEGER NOT NULL,
+        next_attempt_at INTEGER NOT NULL DEFAULT 0,
+        locked_until INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_login_attempts_locked ON login_attempts (locked_until)',
+    ],
+  },
+  {
+    version: 3,
+    name: 'backups',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS backups (
+        id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        trigger_type TEXT NOT NULL,
+        content TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_backups_created_at ON backups (created_at)',
+    ],
+  },
+  {
+    version: 4,
+    name: 'audit_logs',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS audit_logs (
+        id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target TEXT NOT NULL DEFAULT '',
+        changes TEXT NOT NULL DEFAULT '[]'
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs (timestamp)',
+    ],
+  },
+  {
+    version: 5,
+    name: 'config_history',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS config_history (
+        version INTEGER PRIMARY KEY,
+        saved_at INTEGER NOT NULL,
+        author TEXT NOT NULL,
+        reason TEXT NOT NULL DEFAULT '',
+        config TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    name: 'source_health',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS source_health (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        checked_at INTEGER NOT NULL,
+        ok INTEGER NOT NULL,
+        status INTEGER,
+        latency INTEGER NOT NULL,
+        parsed INTEGER NOT NULL,
+        results INTEGER NOT NULL DEFAULT 0,
+        total INTEGER,
+        error TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_source_health_source ON source_health (source, checked_at)',
+    ],
+  },
+  {
+    version: 7,
+    name: 'play_record_line',
+    statements: ['ALTER TABLE play_records ADD COLUMN play_line TEXT'],
+  },
+];
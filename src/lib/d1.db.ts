@@ -1,25 +1,44 @@
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
 
 import { AdminConfig } from './admin.types';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import { D1_MIGRATIONS } from './d1-migrations';
+import { ensurePasswordHash, hashPassword, verifyPassword } from './password';
+import {
+  AdminConfigConflictError,
+  ApiToken,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuthSession,
+  BackupMeta,
+  ConfigHistoryMeta,
+  Favorite,
+  IStorage,
+  LoginAttempt,
+  PlayRecord,
+  SchemaMigration,
+  SkipConfig,
+  SourceHealthProbe,
+  TwoFactorConfig,
+  UserRecord,
+} from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
 
-// D1 数据库类型定义
-interface D1Database {
+// D1 数据库类型定义（SQLite 存储通过适配器复用同一接口）
+export interface D1Database {
   prepare(query: string): D1PreparedStatement;
   exec(query: string): Promise<D1Result>;
 }
 
-interface D1PreparedStatement {
+export interface D1PreparedStatement {
   bind(...params: any[]): D1PreparedStatement;
   first<T = any>(): Promise<T | null>;
   all<T = any>(): Promise<D1Result<T>>;
   run(): Promise<D1Result>;
 }
 
-interface D1Result<T = any> {
+export interface D1Result<T = any> {
   success: boolean;
   results?: T[];
   meta?: any;
@@ -41,8 +60,8 @@ function getD1Database(): D1Database {
 export class D1Storage implements IStorage {
   private db: D1Database;
 
-  constructor() {
-    this.db = getD1Database();
+  constructor(db: D1Database = getD1Database()) {
+    this.db = db;
   }
 
   // ---------- 用户相关 ----------
@@ -71,19 +90,30 @@ export class D1Storage implements IStorage {
   }
 
   async registerUser(userName: string, password: string): Promise<void> {
+    const passwordHash = await hashPassword(password);
     await this.db
       .prepare('INSERT INTO users (username, password) VALUES (?, ?)')
-      .bind(userName, password)
+      .bind(userName, passwordHash)
       .run();
   }
 
   async verifyUser(userName: string, password: string): Promise<boolean> {
     const result = await this.db
-      .prepare('SELECT id FROM users WHERE username = ? AND password = ?')
-      .bind(userName, password)
-      .first();
+      .prepare('SELECT password FROM users WHERE username = ?')
+      .bind(userName)
+      .first<{ password: string }>();
 
-    return !!result;
+    if (!result || !result.password) return false;
+
+    const { valid, needsRehash } = await verifyPassword(
+      password,
+      String(result.password)
+    );
+    // 旧版明文密码在登录成功后透明迁移为哈希
+    if (valid && needsRehash) {
+      await this.changePassword(userName, password);
+    }
+    return valid;
   }
 
   async checkUserExist(userName: string): Promise<boolean> {
@@ -99,13 +129,39 @@ export class D1Storage implements IStorage {
     const userId = await this.getUserId(userName);
     if (!userId) throw new Error('User not found');
 
+    const passwordHash = await hashPassword(newPassword);
     await this.db
       .prepare('UPDATE users SET password = ? WHERE id = ?')
-      .bind(newPassword, userId)
+      .bind(passwordHash, userId)
+      .run();
+  }
+
+  async getPasswordHash(userName: string): Promise<string | null> {
+    const result = await this.db
+      .prepare('SELECT password FROM users WHERE username = ?')
+      .bind(userName)
+      .first<{ password: string }>();
+
+    if (!result || !result.password) return null;
+    return ensurePasswordHash(String(result.password));
+  }
+
+  async setPasswordHash(userName: string, passwordHash: string): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO users (username, password) VALUES (?, ?)
+        ON CONFLICT(username) DO UPDATE SET password = excluded.password
+      `
+      )
+      .bind(userName, passwordHash)
       .run();
   }
 
   async deleteUser(userName: string): Promise<void> {
+    // 账户记录按用户名存储，没有密码的用户也可能存在
+    await this.deleteUserRecord(userName);
+
     const userId = await this.getUserId(userName);
     if (!userId) return;
 
@@ -130,6 +186,10 @@ export class D1Storage implements IStorage {
       .bind(userId)
       .run();
 
+    await this.deleteUserSessions(userName);
+    await this.deleteTwoFactor(userName);
+    await this.deleteUserApiTokens(userName);
+
     await this.db.prepare('DELETE FROM users WHERE id = ?').bind(userId).run();
   }
 
@@ -168,6 +228,7 @@ export class D1Storage implements IStorage {
       total_time: result.total_time as number,
       save_time: result.save_time as number,
       search_title: result.search_title as string,
+      play_line: (result.play_line as string) || undefined,
     };
   }
 
@@ -200,8 +261,8 @@ export class D1Storage implements IStorage {
         `
         INSERT INTO play_records 
         (user_id, source, video_id, title, source_name, year, cover, episode_index, 
-         total_episodes, play_time, total_time, save_time, search_title)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         total_episodes, play_time, total_time, save_time, search_title, play_line)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(user_id, source, video_id) 
         DO UPDATE SET
           title = excluded.title,
@@ -214,6 +275,7 @@ export class D1Storage implements IStorage {
           total_time = excluded.total_time,
           save_time = excluded.save_time,
           search_title = excluded.search_title,
+          play_line = excluded.play_line,
           updated_at = CURRENT_TIMESTAMP
       `
       )
@@ -230,7 +292,8 @@ export class D1Storage implements IStorage {
         record.play_time ?? 0,
         record.total_time ?? 0,
         record.save_time ?? Date.now(),
-        record.search_title || ''
+        record.search_title || '',
+        record.play_line ?? null
       )
       .run();
   }
@@ -260,6 +323,7 @@ export class D1Storage implements IStorage {
         total_time: result.total_time as number,
         save_time: result.save_time as number,
         search_title: result.search_title as string,
+        play_line: (result.play_line as string) || undefined,
       };
     }
 
@@ -406,7 +470,7 @@ export class D1Storage implements IStorage {
         `
         SELECT keyword FROM search_history 
         WHERE user_id = ? 
-        ORDER BY created_at DESC 
+        ORDER BY created_at DESC, id DESC 
         LIMIT ?
       `
       )
@@ -441,7 +505,7 @@ export class D1Storage implements IStorage {
         WHERE user_id = ? AND id NOT IN (
           SELECT id FROM search_history 
           WHERE user_id = ? 
-          ORDER BY created_at DESC 
+          ORDER BY created_at DESC, id DESC 
           LIMIT ?
         )
       `
@@ -476,6 +540,375 @@ export class D1Storage implements IStorage {
     );
   }
 
+  // ---------- 用户账户记录 ----------
+  private rowToUserRecord(result: any): UserRecord {
+    return {
+      username: result.username as string,
+      role: result.role as UserRecord['role'],
+      banned: result.banned ? true : undefined,
+      pending: result.pending ? true : undefined,
+      group: (result.user_group as string) ?? undefined,
+      lastOnline: (result.last_online as number) ?? undefined,
+      created_at: result.created_at as number,
+    };
+  }
+
+  async getUserRecord(userName: string): Promise<UserRecord | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM user_accounts WHERE username = ?')
+      .bind(userName)
+      .first();
+
+    return result ? this.rowToUserRecord(result) : null;
+  }
+
+  async setUserRecord(record: UserRecord): Promise<void> {
+    // 更新时保留原有 created_at，last_online 仅在提供时覆盖
+    await this.db
+      .prepare(
+        `
+        INSERT INTO user_accounts (username, role, banned, pending, user_group, last_online, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(username) DO UPDATE SET
+          role = excluded.role,
+          banned = excluded.banned,
+          pending = excluded.pending,
+          user_group = excluded.user_group,
+          last_online = COALESCE(excluded.last_online, user_accounts.last_online)
+      `
+      )
+      .bind(
+        record.username,
+        record.role,
+        record.banned ? 1 : 0,
+        record.pending ? 1 : 0,
+        record.group ?? null,
+        record.lastOnline ?? null,
+        record.created_at
+      )
+      .run();
+  }
+
+  async deleteUserRecord(userName: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM user_accounts WHERE username = ?')
+      .bind(userName)
+      .run();
+  }
+
+  async listUserRecords(
+    offset: number,
+    limit: number
+  ): Promise<{ users: UserRecord[]; total: number }> {
+    const count = await this.db
+      .prepare('SELECT COUNT(*) AS total FROM user_accounts')
+      .first<{ total: number }>();
+    const results = await this.db
+      .prepare(
+        'SELECT * FROM user_accounts ORDER BY created_at ASC, username ASC LIMIT ? OFFSET ?'
+      )
+      .bind(limit, offset)
+      .all();
+
+    return {
+      users: (results.results || []).map((result: any) =>
+        this.rowToUserRecord(result)
+      ),
+      total: count?.total ?? 0,
+    };
+  }
+
+  async setUserLastOnline(userName: string, lastOnline: number): Promise<void> {
+    await this.db
+      .prepare('UPDATE user_accounts SET last_online = ? WHERE username = ?')
+      .bind(lastOnline, userName)
+      .run();
+  }
+
+  // ---------- 登录会话 ----------
+  private rowToSession(result: any): AuthSession {
+    return {
+      id: result.id as string,
+      username: result.username as string,
+      device: (result.device as string) || '',
+      ip: (result.ip as string) || undefined,
+      created_at: result.created_at as number,
+      last_seen: result.last_seen as number,
+      expires_at: result.expires_at as number,
+    };
+  }
+
+  async createSession(session: AuthSession): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO sessions (id, username, device, ip, created_at, last_seen, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .bind(
+        session.id,
+        session.username,
+        session.device,
+        session.ip || null,
+        session.created_at,
+        session.last_seen,
+        session.expires_at
+      )
+      .run();
+  }
+
+  async getSession(sessionId: string): Promise<AuthSession | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM sessions WHERE id = ? AND expires_at > ?')
+      .bind(sessionId, Date.now())
+      .first();
+
+    return result ? this.rowToSession(result) : null;
+  }
+
+  async touchSession(sessionId: string, lastSeen: number): Promise<void> {
+    await this.db
+      .prepare('UPDATE sessions SET last_seen = ? WHERE id = ?')
+      .bind(lastSeen, sessionId)
+      .run();
+  }
+
+  async getUserSessions(userName: string): Promise<AuthSession[]> {
+    // 顺便清理已过期的会话
+    await this.db
+      .prepare('DELETE FROM sessions WHERE username = ? AND expires_at <= ?')
+      .bind(userName, Date.now())
+      .run();
+
+    const results = await this.db
+      .prepare('SELECT * FROM sessions WHERE username = ?')
+      .bind(userName)
+      .all();
+
+    return (results.results || []).map((result: any) =>
+      this.rowToSession(result)
+    );
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM sessions WHERE id = ?')
+      .bind(sessionId)
+      .run();
+  }
+
+  async deleteUserSessions(userName: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM sessions WHERE username = ?')
+      .bind(userName)
+      .run();
+  }
+
+  // ---------- 两步验证 ----------
+  async getTwoFactor(userName: string): Promise<TwoFactorConfig | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM two_factor WHERE username = ?')
+      .bind(userName)
+      .first<any>();
+
+    if (!result) return null;
+
+    return {
+      secret: result.secret,
+      enabled: Boolean(result.enabled),
+      recovery_codes: JSON.parse(result.recovery_codes || '[]'),
+      last_used_step: result.last_used_step ?? undefined,
+      created_at: result.created_at,
+    };
+  }
+
+  async setTwoFactor(userName: string, config: TwoFactorConfig): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO two_factor (username, secret, enabled, recovery_codes, last_used_step, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(username) DO UPDATE SET
+          secret = excluded.secret,
+          enabled = excluded.enabled,
+          recovery_codes = excluded.recovery_codes,
+          last_used_step = excluded.last_used_step,
+          created_at = excluded.created_at
+      `
+      )
+      .bind(
+        userName,
+        config.secret,
+        config.enabled ? 1 : 0,
+        JSON.stringify(config.recovery_codes),
+        config.last_used_step ?? null,
+        config.created_at
+      )
+      .run();
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM two_factor WHERE username = ?')
+      .bind(userName)
+      .run();
+  }
+
+  // ---------- API 令牌 ----------
+  private rowToApiToken(result: any): ApiToken {
+    return {
+      id: result.id as string,
+      username: result.username as string,
+      name: result.name as string,
+      token_hash: result.token_hash as string,
+      prefix: result.prefix as string,
+      created_at: result.created_at as number,
+      last_used_at: (result.last_used_at as number) ?? undefined,
+    };
+  }
+
+  async createApiToken(token: ApiToken): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO api_tokens (token_hash, id, username, name, prefix, created_at, last_used_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .bind(
+        token.token_hash,
+        token.id,
+        token.username,
+        token.name,
+        token.prefix,
+        token.created_at,
+        token.last_used_at ?? null
+      )
+      .run();
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM api_tokens WHERE token_hash = ?')
+      .bind(tokenHash)
+      .first();
+
+    return result ? this.rowToApiToken(result) : null;
+  }
+
+  async getUserApiTokens(userName: string): Promise<ApiToken[]> {
+    const results = await this.db
+      .prepare('SELECT * FROM api_tokens WHERE username = ?')
+      .bind(userName)
+      .all();
+
+    return (results.results || []).map((result: any) =>
+      this.rowToApiToken(result)
+    );
+  }
+
+  async getAllApiTokens(): Promise<ApiToken[]> {
+    const results = await this.db.prepare('SELECT * FROM api_tokens').all();
+
+    return (results.results || []).map((result: any) =>
+      this.rowToApiToken(result)
+    );
+  }
+
+  async touchApiToken(tokenHash: string, lastUsedAt: number): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_tokens SET last_used_at = ? WHERE token_hash = ?')
+      .bind(lastUsedAt, tokenHash)
+      .run();
+  }
+
+  async deleteApiToken(tokenHash: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM api_tokens WHERE token_hash = ?')
+      .bind(tokenHash)
+      .run();
+  }
+
+  async deleteUserApiTokens(userName: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM api_tokens WHERE username = ?')
+      .bind(userName)
+      .run();
+  }
+
+  // ---------- 登录失败计数 ----------
+  private rowToLoginAttempt(result: any): LoginAttempt {
+    return {
+      key: result.key as string,
+      failures: result.failures as number,
+      last_failed_at: result.last_failed_at as number,
+      next_attempt_at: result.next_attempt_at as number,
+      locked_until: result.locked_until as number,
+    };
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    const result = await this.db
+      .prepare('SELECT * FROM login_attempts WHERE key = ? AND expires_at > ?')
+      .bind(key, Date.now())
+      .first();
+
+    return result ? this.rowToLoginAttempt(result) : null;
+  }
+
+  async setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO login_attempts (key, failures, last_failed_at, next_attempt_at, locked_until, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          failures = excluded.failures,
+          last_failed_at = excluded.last_failed_at,
+          next_attempt_at = excluded.next_attempt_at,
+          locked_until = excluded.locked_until,
+          expires_at = excluded.expires_at
+      `
+      )
+      .bind(
+        attempt.key,
+        attempt.failures,
+        attempt.last_failed_at,
+        attempt.next_attempt_at,
+        attempt.locked_until,
+        Date.now() + ttlMs
+      )
+      .run();
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM login_attempts WHERE key = ?')
+      .bind(key)
+      .run();
+  }
+
+  async getLockedLoginAttempts(): Promise<LoginAttempt[]> {
+    const now = Date.now();
+    // 顺便清理已失效的计数
+    await this.db
+      .prepare('DELETE FROM login_attempts WHERE expires_at <= ?')
+      .bind(now)
+      .run();
+
+    const results = await this.db
+      .prepare(
+        'SELECT * FROM login_attempts WHERE locked_until > ? ORDER BY locked_until DESC'
+      )
+      .bind(now)
+      .all();
+
+    return (results.results || []).map((result: any) =>
+      this.rowToLoginAttempt(result)
+    );
+  }
+
   // ---------- 管理员配置 ----------
   async getAdminConfig(): Promise<AdminConfig | null> {
     try {
@@ -493,17 +926,29 @@ export class D1Storage implements IStorage {
   }
 
   async setAdminConfig(config: AdminConfig): Promise<void> {
+    const expected = config.Version ?? 0;
+    const next = { ...config, Version: expected + 1 };
+    let result: D1Result;
     try {
-      await this.db
+      // 仅当库中配置的版本号与预期一致时才覆盖
+      result = await this.db
         .prepare(
-          'INSERT OR REPLACE INTO admin_config (id, config) VALUES (1, ?)'
+          `
+          INSERT INTO admin_config (id, config) VALUES (1, ?)
+          ON CONFLICT(id) DO UPDATE SET config = excluded.config, updated_at = CURRENT_TIMESTAMP
+          WHERE COALESCE(json_extract(admin_config.config, '$.Version'), 0) = ?
+        `
         )
-        .bind(JSON.stringify(config))
+        .bind(JSON.stringify(next), expected)
         .run();
     } catch (err) {
       console.error('Failed to set admin config:', err);
       throw err;
     }
+    if (result.meta?.changes === 0) {
+      throw new AdminConfigConflictError();
+    }
+    config.Version = next.Version;
   }
 
   // ---------- 跳过片头片尾配置 ----------
@@ -611,6 +1056,301 @@ export class D1Storage implements IStorage {
     await this.db.prepare('DELETE FROM search_history').run();
     await this.db.prepare('DELETE FROM skip_configs').run();
     await this.db.prepare('DELETE FROM users').run();
+    await this.db.prepare('DELETE FROM user_accounts').run();
     await this.db.prepare('DELETE FROM admin_config').run();
   }
+
+  // ---------- 数据备份 ----------
+  async listBackups(): Promise<BackupMeta[]> {
+    const results = await this.db
+      .prepare(
+        'SELECT id, created_at, size, trigger_type FROM backups ORDER BY created_at DESC'
+      )
+      .all();
+
+    return (results.results || []).map((result: any) => ({
+      id: result.id,
+      created_at: Number(result.created_at),
+      size: Number(result.size),
+      trigger: result.trigger_type,
+    }));
+  }
+
+  async getBackup(id: string): Promise<string | null> {
+    const result = await this.db
+      .prepare('SELECT content FROM backups WHERE id = ?')
+      .bind(id)
+      .first<{ content: string }>();
+    return result ? result.content : null;
+  }
+
+  async saveBackup(meta: BackupMeta, content: string): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO backups (id, created_at, size, trigger_type, content)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          created_at = excluded.created_at,
+          size = excluded.size,
+          trigger_type = excluded.trigger_type,
+          content = excluded.content
+      `
+      )
+      .bind(meta.id, meta.created_at, meta.size, meta.trigger, content)
+      .run();
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    await this.db.prepare('DELETE FROM backups WHERE id = ?').bind(id).run();
+  }
+
+  // ---------- 配置历史 ----------
+  async listConfigHistory(): Promise<ConfigHistoryMeta[]> {
+    const results = await this.db
+      .prepare(
+        'SELECT version, saved_at, author, reason FROM config_history ORDER BY version DESC'
+      )
+      .all();
+
+    return (results.results || []).map((result: any) => ({
+      version: Number(result.version),
+      saved_at: Number(result.saved_at),
+      author: result.author,
+      reason: result.reason,
+    }));
+  }
+
+  async getConfigHistory(version: number): Promise<AdminConfig | null> {
+    const result = await this.db
+      .prepare('SELECT config FROM config_history WHERE version = ?')
+      .bind(version)
+      .first<{ config: string }>();
+    return result ? (JSON.parse(result.config) as AdminConfig) : null;
+  }
+
+  async saveConfigHistory(
+    meta: ConfigHistoryMeta,
+    config: AdminConfig
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO config_history (version, saved_at, author, reason, config)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(version) DO UPDATE SET
+          saved_at = excluded.saved_at,
+          author = excluded.author,
+          reason = excluded.reason,
+          config = excluded.config
+      `
+      )
+      .bind(
+        meta.version,
+        meta.saved_at,
+        meta.author,
+        meta.reason,
+        JSON.stringify(config)
+      )
+      .run();
+  }
+
+  async deleteConfigHistory(version: number): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM config_history WHERE version = ?')
+      .bind(version)
+      .run();
+  }
+
+  // ---------- 视频源健康检查 ----------
+  async addSourceHealthProbe(
+    probe: SourceHealthProbe,
+    keep: number
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO source_health (source, checked_at, ok, status, latency, parsed, results, total, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .bind(
+        probe.source,
+        probe.checked_at,
+        probe.ok ? 1 : 0,
+        probe.status ?? null,
+        probe.latency,
+        probe.parsed ? 1 : 0,
+        probe.results,
+        probe.total ?? null,
+        probe.error ?? null
+      )
+      .run();
+    await this.db
+      .prepare(
+        `
+        DELETE FROM source_health
+        WHERE source = ? AND id NOT IN (
+          SELECT id FROM source_health WHERE source = ?
+          ORDER BY checked_at DESC, id DESC LIMIT ?
+        )
+      `
+      )
+      .bind(probe.source, probe.source, keep)
+      .run();
+  }
+
+  async listSourceHealthProbes(
+    source: string,
+    limit: number
+  ): Promise<SourceHealthProbe[]> {
+    const results = await this.db
+      .prepare(
+        'SELECT * FROM source_health WHERE source = ? ORDER BY checked_at DESC, id DESC LIMIT ?'
+      )
+      .bind(source, limit)
+      .all();
+
+    return (results.results || []).map((result: any) => {
+      const probe: SourceHealthProbe = {
+        source: result.source,
+        checked_at: Number(result.checked_at),
+        ok: Boolean(result.ok),
+        latency: Number(result.latency),
+        parsed: Boolean(result.parsed),
+        results: Number(result.results),
+      };
+      if (result.status !== null) probe.status = Number(result.status);
+      if (result.total !== null) probe.total = Number(result.total);
+      if (result.error !== null) probe.error = result.error;
+      return probe;
+    });
+  }
+
+  // ---------- 审计日志 ----------
+  async addAuditLog(entry: AuditLogEntry): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO audit_logs (id, timestamp, actor, action, target, changes)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `
+      )
+      .bind(
+        entry.id,
+        entry.timestamp,
+        entry.actor,
+        entry.action,
+        entry.target,
+        JSON.stringify(entry.changes)
+      )
+      .run();
+  }
+
+  async listAuditLogs(
+    query: AuditLogQuery,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (query.actor) {
+      conditions.push('actor = ?');
+      params.push(query.actor);
+    }
+    if (query.action) {
+      conditions.push("(action = ? OR action LIKE ? || '.%')");
+      params.push(query.action, query.action);
+    }
+    if (query.target) {
+      conditions.push('target = ?');
+      params.push(query.target);
+    }
+    if (query.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.until);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const count = await this.db
+      .prepare(`SELECT COUNT(*) as total FROM audit_logs ${where}`)
+      .bind(...params)
+      .first<{ total: number }>();
+    const results = await this.db
+      .prepare(
+        `SELECT * FROM audit_logs ${where} ORDER BY timestamp DESC LIMIT ? OFFSET ?`
+      )
+      .bind(...params, limit, offset)
+      .all();
+
+    return {
+      entries: (results.results || []).map((result: any) => ({
+        id: result.id,
+        timestamp: Number(result.timestamp),
+        actor: result.actor,
+        action: result.action,
+        target: result.target,
+        changes: JSON.parse(result.changes),
+      })),
+      total: Number(count?.total ?? 0),
+    };
+  }
+
+  async deleteAuditLogsBefore(before: number): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM audit_logs WHERE timestamp < ?')
+      .bind(before)
+      .run();
+  }
+
+  // ---------- 结构版本 ----------
+  async getSchemaVersion(): Promise<number> {
+    // 版本表本身不属于任何迁移，首次读取时创建
+    await this.db
+      .prepare(
+        `
+        CREATE TABLE IF NOT EXISTS schema_version (
+          id INTEGER PRIMARY KEY DEFAULT 1,
+          version INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `
+      )
+      .run();
+
+    const result = await this.db
+      .prepare('SELECT version FROM schema_version WHERE id = 1')
+      .first<{ version: number }>();
+    return result ? Number(result.version) : 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.db
+      .prepare(
+        `
+        INSERT INTO schema_version (id, version, updated_at) VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          version = excluded.version,
+          updated_at = excluded.updated_at
+      `
+      )
+      .bind(version, Date.now())
+      .run();
+  }
+
+  getMigrations(): SchemaMigration[] {
+    return D1_MIGRATIONS.map(({ version, name, statements }) => ({
+      version,
+      name,
+      up: async () => {
+        for (const statement of statements) {
+          await this.db.prepare(statement).run();
+        }
+      },
+    }));
+  }
 }
@@ -0,0 +1,84 @@
+import { deflate } from 'pako';
+
+import { DEFAULT_ENCRYPTION_ITERATIONS, SimpleCrypto } from './crypto';
+import type { BackupData, BackupUserData } from './data-import';
+import { getStorage } from './db';
+import { hashPassword } from './password';
+import { getUserRecord } from './user-registry';
+import { CURRENT_VERSION } from './version';
+
+/**
+ * 收集全部数据：管理员配置与每个用户的播放记录、收藏、搜索历史、跳过配置和账户
+ */
+export async function collectExportData(): Promise<BackupData> {
+  const storage = getStorage();
+  const config = await storage.getAdminConfig();
+  if (!config) {
+    throw new Error('无法获取配置');
+  }
+
+  const exportData: BackupData = {
+    timestamp: new Date().toISOString(),
+    serverVersion: CURRENT_VERSION,
+    data: {
+      adminConfig: config,
+      userData: {},
+    },
+  };
+
+  // 所有用户（含站长）
+  const owner = process.env.USERNAME;
+  const allUsers = Array.from(
+    new Set([...(await storage.getAllUsers()), ...(owner ? [owner] : [])])
+  );
+
+  for (const username of allUsers) {
+    const userData: BackupUserData = {
+      playRecords: await storage.getAllPlayRecords(username),
+      favorites: await storage.getAllFavorites(username),
+      searchHistory: await storage.getSearchHistory(username),
+      skipConfigs: await storage.getAllSkipConfigs(username),
+      // 用户密码哈希（不导出明文密码）
+      passwordHash: await storage.getPasswordHash(username),
+      // 账户记录（角色、封禁、分组等）
+      account: await getUserRecord(username),
+    };
+    exportData.data.userData[username] = userData;
+  }
+
+  // 站长密码以环境变量为准
+  if (owner) {
+    exportData.data.userData[owner].passwordHash = await hashPassword(
+      process.env.PASSWORD || ''
+    );
+  }
+
+  return exportData;
+}
+
+/**
+ * 压缩并加密导出数据，得到备份文件内容
+ */
+export async function encryptExportData(
+  data: BackupData,
+  password: string
+): Promise<string> {
+  const compressedBase64 = Buffer.from(deflate(JSON.stringify(data))).toString(
+    'base64'
+  );
+  const iterations =
+    Number(process.env.BACKUP_ENCRYPTION_ITERATIONS) ||
+    DEFAULT_ENCRYPTION_ITERATIONS;
+  return SimpleCrypto.encrypt(compressedBase64, password, iterations);
+}
+
+/**
+ * 备份文件名，如 moontv-backup-20240101-010000.dat
+ */
+export function exportFileName(date = new Date(), suffix = ''): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const timestamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `moontv-backup-${timestamp}${suffix}.dat`;
+}
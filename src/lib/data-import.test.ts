@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig } from './admin.types';
+import {
+  applyImport,
+  BackupData,
+  ImportOptions,
+  previewImport,
+} from './data-import';
+import { getStorage } from './db';
+import { MemoryStorage } from './memory.db';
+import { PlayRecord } from './types';
+
+jest.mock('./db', () =>
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('@/__mocks__/memory-db').createMemoryDbMock()
+);
+
+const CONFIG = {
+  ConfigFile: '{}',
+  SiteConfig: { SiteName: 'MoonTV' },
+  UserConfig: { AllowRegister: false },
+  SourceConfig: [],
+  CustomCategories: [],
+} as unknown as AdminConfig;
+
+function playRecord(title: string, saveTime: number): PlayRecord {
+  return {
+    title,
+    source_name: '测试源',
+    cover: '',
+    year: '2024',
+    index: 1,
+    total_episodes: 12,
+    play_time: 60,
+    total_time: 1800,
+    save_time: saveTime,
+    search_title: '',
+  };
+}
+
+function backupOf(): BackupData {
+  return {
+    timestamp: '2024-01-01T00:00:00.000Z',
+    serverVersion: '1.0.0',
+    data: {
+      adminConfig: {
+        ...JSON.parse(JSON.stringify(CONFIG)),
+        SiteConfig: { SiteName: '备份站点' },
+      },
+      userData: {
+        alice: {
+          passwordHash: 'backup-hash',
+          playRecords: {
+            'src1+1': playRecord('较新', 20),
+            'src1+2': playRecord('较旧', 5),
+            'src1+3': playRecord('新增', 1),
+          },
+          searchHistory: ['备份关键词'],
+        },
+        bob: {
+          passwordHash: 'bob-hash',
+          playRecords: { 'src1+1': playRecord('bob', 1) },
+        },
+      },
+    },
+  };
+}
+
+function optionsOf(
+  strategy: ImportOptions['strategies']['playRecords']
+): ImportOptions {
+  return {
+    users: ['alice'],
+    strategies: {
+      account: 'skip',
+      playRecords: strategy,
+      favorites: strategy,
+      searchHistory: 'skip',
+      skipConfigs: 'skip',
+    },
+    adminConfig: 'skip',
+  };
+}
+
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+beforeEach(async () => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('./db').__reset();
+  storage = getStorage() as MemoryStorage;
+  await storage.setAdminConfig(JSON.parse(JSON.stringify(CONFIG)));
+  await storage.registerUser('alice', 'current-password');
+  await storage.setPlayRecord('alice', 'src1+1', playRecord('当前一', 10));
+  await storage.setPlayRecord('alice', 'src1+2', playRecord('当前二', 10));
+  await storage.setPlayRecord('alice', 'src1+9', playRecord('仅当前', 10));
+  await storage.addSearchHistory('alice', '当前关键词');
+});
+
+describe('previewImport', () => {
+  it('reports per-user counts, conflicts and config changes', async () => {
+    const preview = await previewImport(backupOf());
+
+    expect(preview.users.map((u) => [u.username, u.exists])).toEqual([
+      ['alice', true],
+      ['bob', false],
+    ]);
+    expect(preview.users[0].entities.playRecords).toEqual({
+      incoming: 3,
+      existing: 3,
+      conflicts: 2,
+      newer: 1,
+    });
+    expect(preview.adminConfigChanges).toEqual(['SiteConfig.SiteName']);
+  });
+});
+
+describe('applyImport', () => {
+  it('keeps the newer record when using the newer strategy', async () => {
+    await applyImport(backupOf(), optionsOf('newer'));
+
+    const records = await storage.getAllPlayRecords('alice');
+    expect(records['src1+1'].title).toBe('较新');
+    expect(records['src1+2'].title).toBe('当前二');
+    expect(records['src1+3'].title).toBe('新增');
+    expect(records['src1+9'].title).toBe('仅当前');
+    expect(await storage.verifyUser('alice', 'current-password')).toBe(true);
+    expect(await storage.getSearchHistory('alice')).toEqual([
+      '备份关键词',
+      '当前关键词',
+    ]);
+  });
+
+  it('only adds missing records when skipping existing ones', async () => {
+    await applyImport(backupOf(), optionsOf('skip'));
+
+    const records = await storage.getAllPlayRecords('alice');
+    expect(records['src1+1'].title).toBe('当前一');
+    expect(records['src1+3'].title).toBe('新增');
+  });
+
+  it('replaces existing records when overwriting', async () => {
+    await applyImport(backupOf(), optionsOf('overwrite'));
+
+    const records = await storage.getAllPlayRecords('alice');
+    expect(Object.keys(records).sort()).toEqual(['src1+1', 'src1+2', 'src1+3']);
+    expect(records['src1+2'].title).toBe('较旧');
+  });
+
+  it('leaves unselected users and the admin config untouched', async () => {
+    const result = await applyImport(backupOf(), optionsOf('overwrite'));
+
+    expect(result).toEqual({ importedUsers: 1, adminConfigImported: false });
+    expect(await storage.getPasswordHash('bob')).toBeNull();
+    expect(await storage.getAllPlayRecords('bob')).toEqual({});
+    expect((await storage.getAdminConfig())?.SiteConfig.SiteName).toBe(
+      'MoonTV'
+    );
+  });
+});
@@ -0,0 +1,403 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any */
+
+import { inflate } from 'pako';
+
+import { AdminConfig } from './admin.types';
+import { configSelfCheck, setCachedConfig } from './config';
+import { saveAdminConfig } from './config-history';
+import { SimpleCrypto } from './crypto';
+import { getStorage } from './db';
+import { stableStringify } from './storage-migration';
+import { Favorite, PlayRecord, SkipConfig, UserRecord } from './types';
+import {
+  ensureUserRecords,
+  migrateLegacyUsers,
+  saveUserRecord,
+} from './user-registry';
+
+// 备份文件中单个用户的数据（见 data_migration/export）
+export interface BackupUserData {
+  playRecords?: Record<string, PlayRecord>;
+  favorites?: Record<string, Favorite>;
+  searchHistory?: string[];
+  skipConfigs?: Record<string, SkipConfig>;
+  passwordHash?: string | null;
+  password?: string; // 旧版备份携带明文密码
+  account?: UserRecord | null;
+}
+
+export interface BackupData {
+  timestamp?: string;
+  serverVersion?: string;
+  legacyEncryption?: boolean; // 解析时标记，不属于备份文件内容
+  data: {
+    adminConfig: AdminConfig;
+    userData: Record<string, BackupUserData>;
+  };
+}
+
+// 备份文件无法解密或格式不正确，错误信息可直接展示给用户
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export type ImportStrategy = 'overwrite' | 'skip' | 'newer';
+
+export type ImportEntity =
+  | 'account'
+  | 'playRecords'
+  | 'favorites'
+  | 'searchHistory'
+  | 'skipConfigs';
+
+export interface ImportOptions {
+  users: string[]; // 需要导入的用户
+  strategies: Record<ImportEntity, ImportStrategy>;
+  adminConfig: 'overwrite' | 'skip';
+}
+
+export interface EntityDiff {
+  incoming: number; // 备份中的条数
+  existing: number; // 当前存储中的条数
+  conflicts: number; // 两边都存在的条目数
+  newer: number; // 冲突条目中备份更新（save_time 更大）的条数
+}
+
+export interface UserImportPreview {
+  username: string;
+  exists: boolean;
+  entities: Record<Exclude<ImportEntity, 'account'>, EntityDiff>;
+}
+
+export interface ImportPreview {
+  timestamp?: string;
+  serverVersion?: string;
+  users: UserImportPreview[];
+  adminConfigChanges: string[]; // 有变化的配置项路径，如 SiteConfig.SiteName
+  legacyEncryption: boolean; // 备份文件使用旧版 CryptoJS 加密格式
+}
+
+export interface ImportResult {
+  importedUsers: number;
+  adminConfigImported: boolean;
+}
+
+/**
+ * 解密、解压并解析备份文件，兼容旧版 CryptoJS 加密的备份
+ */
+export async function parseBackupFile(
+  encryptedData: string,
+  password: string
+): Promise<BackupData> {
+  let decryptedData: string;
+  try {
+    decryptedData = await SimpleCrypto.decrypt(encryptedData, password);
+  } catch (error) {
+    throw new BackupFormatError((error as Error).message);
+  }
+
+  let importData: any;
+  try {
+    const compressedBuffer = Buffer.from(decryptedData, 'base64');
+    importData = JSON.parse(
+      new TextDecoder().decode(inflate(compressedBuffer))
+    );
+  } catch {
+    throw new BackupFormatError('备份文件格式错误');
+  }
+
+  if (!importData?.data?.adminConfig || !importData.data.userData) {
+    throw new BackupFormatError('备份文件格式无效');
+  }
+  importData.legacyEncryption = SimpleCrypto.isLegacy(encryptedData);
+  return importData as BackupData;
+}
+
+function mapDiff<T>(
+  incoming: Record<string, T> = {},
+  existing: Record<string, T> = {},
+  isNewer: (incoming: T, existing: T) => boolean = () => false
+): EntityDiff {
+  const diff: EntityDiff = {
+    incoming: Object.keys(incoming).length,
+    existing: Object.keys(existing).length,
+    conflicts: 0,
+    newer: 0,
+  };
+  for (const [key, value] of Object.entries(incoming)) {
+    if (!(key in existing)) continue;
+    diff.conflicts++;
+    if (isNewer(value, existing[key])) diff.newer++;
+  }
+  return diff;
+}
+
+const isNewerSave = (
+  incoming: { save_time: number },
+  existing: { save_time: number }
+) => (incoming.save_time || 0) > (existing.save_time || 0);
+
+/**
+ * 对比两份管理员配置，返回有变化的配置项路径（对象类配置展开一层）
+ */
+export function diffAdminConfig(
+  current: AdminConfig | null,
+  incoming: AdminConfig
+): string[] {
+  const before = (current || {}) as Record<string, any>;
+  const after = incoming as Record<string, any>;
+  const changes: string[] = [];
+  const keys = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)])
+  ).sort();
+  for (const key of keys) {
+    // 版本号各自递增；旧版用户列表会迁移为账户记录
+    if (key === 'Version') continue;
+    const a = before[key];
+    const b = after[key];
+    const isPlainObject = (v: unknown) =>
+      !!v && typeof v === 'object' && !Array.isArray(v);
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const subKeys = Array.from(
+        new Set([...Object.keys(a), ...Object.keys(b)])
+      ).sort();
+      for (const subKey of subKeys) {
+        if (key === 'UserConfig' && subKey === 'Users') continue;
+        if (stableStringify(a[subKey]) !== stableStringify(b[subKey])) {
+          changes.push(`${key}.${subKey}`);
+        }
+      }
+    } else if (stableStringify(a) !== stableStringify(b)) {
+      changes.push(key);
+    }
+  }
+  return changes;
+}
+
+/**
+ * 生成导入预览：每个用户新增或覆盖的情况、各类数据条数，以及管理员配置的变化
+ */
+export async function previewImport(
+  backup: BackupData
+): Promise<ImportPreview> {
+  const storage = getStorage();
+  const users: UserImportPreview[] = [];
+
+  for (const [username, user] of Object.entries(backup.data.userData)) {
+    const exists = await userExists(username);
+    const history = await storage.getSearchHistory(username);
+    const incomingHistory = Array.isArray(user.searchHistory)
+      ? user.searchHistory
+      : [];
+    const toMap = (keywords: string[]) =>
+      Object.fromEntries(keywords.map((k) => [k, true]));
+
+    users.push({
+      username,
+      exists,
+      entities: {
+        playRecords: mapDiff(
+          user.playRecords,
+          await storage.getAllPlayRecords(username),
+          isNewerSave
+        ),
+        favorites: mapDiff(
+          user.favorites,
+          await storage.getAllFavorites(username),
+          isNewerSave
+        ),
+        searchHistory: mapDiff(toMap(incomingHistory), toMap(history)),
+        skipConfigs: mapDiff(
+          user.skipConfigs,
+          await storage.getAllSkipConfigs(username)
+        ),
+      },
+    });
+  }
+
+  // 两边都经过自检补全默认值，避免把缺省字段误报为变化
+  const normalize = (config: AdminConfig) =>
+    configSelfCheck(JSON.parse(JSON.stringify(config)));
+  const current = await storage.getAdminConfig();
+  return {
+    timestamp: backup.timestamp,
+    serverVersion: backup.serverVersion,
+    users,
+    legacyEncryption: !!backup.legacyEncryption,
+    adminConfigChanges: diffAdminConfig(
+      current ? normalize(current) : null,
+      normalize(backup.data.adminConfig)
+    ),
+  };
+}
+
+// 按策略决定是否写入某个条目
+function shouldWrite(
+  strategy: ImportStrategy,
+  existing: { save_time?: number } | undefined,
+  incoming: { save_time?: number }
+): boolean {
+  if (!existing || strategy === 'overwrite') return true;
+  if (strategy === 'newer') {
+    return (incoming.save_time || 0) > (existing.save_time || 0);
+  }
+  return false;
+}
+
+async function userExists(username: string): Promise<boolean> {
+  const storage = getStorage();
+  return (
+    (await storage.checkUserExist(username)) ||
+    !!(await storage.getUserRecord(username))
+  );
+}
+
+async function importUser(
+  username: string,
+  user: BackupUserData,
+  exists: boolean,
+  strategies: ImportOptions['strategies']
+): Promise<void> {
+  const storage = getStorage();
+
+  // 账户：新用户直接写入，已有用户仅在覆盖策略下写入
+  if (!exists || strategies.account === 'overwrite') {
+    // 新版备份携带密码哈希，旧版备份携带明文密码（写入时哈希）
+    if (user.passwordHash) {
+      await storage.setPasswordHash(username, String(user.passwordHash));
+    } else if (user.password) {
+      await storage.registerUser(username, String(user.password));
+    }
+    if (user.account) {
+      await saveUserRecord({ ...user.account, username });
+    }
+  }
+
+  // 播放记录
+  const playRecords = await storage.getAllPlayRecords(username);
+  const incomingPlayRecords = user.playRecords || {};
+  if (strategies.playRecords === 'overwrite') {
+    for (const key of Object.keys(playRecords)) {
+      if (!(key in incomingPlayRecords)) {
+        await storage.deletePlayRecord(username, key);
+      }
+    }
+  }
+  for (const [key, record] of Object.entries(incomingPlayRecords)) {
+    if (shouldWrite(strategies.playRecords, playRecords[key], record)) {
+      await storage.setPlayRecord(username, key, record);
+    }
+  }
+
+  // 收藏夹
+  const favorites = await storage.getAllFavorites(username);
+  const incomingFavorites = user.favorites || {};
+  if (strategies.favorites === 'overwrite') {
+    for (const key of Object.keys(favorites)) {
+      if (!(key in incomingFavorites)) {
+        await storage.deleteFavorite(username, key);
+      }
+    }
+  }
+  for (const [key, favorite] of Object.entries(incomingFavorites)) {
+    if (shouldWrite(strategies.favorites, favorites[key], favorite)) {
+      await storage.setFavorite(username, key, favorite);
+    }
+  }
+
+  // 搜索历史：覆盖时整体替换，否则只补充缺少的关键词；按从旧到新写入以保持顺序
+  const incomingHistory = Array.isArray(user.searchHistory)
+    ? user.searchHistory
+    : [];
+  let history = await storage.getSearchHistory(username);
+  if (strategies.searchHistory === 'overwrite') {
+    await storage.deleteSearchHistory(username);
+    history = [];
+  }
+  for (const keyword of incomingHistory.slice().reverse()) {
+    if (!history.includes(keyword)) {
+      await storage.addSearchHistory(username, keyword);
+    }
+  }
+
+  // 跳过片头片尾配置（没有保存时间，newer 等同于 skip）
+  const skipConfigs = await storage.getAllSkipConfigs(username);
+  const incomingSkipConfigs = user.skipConfigs || {};
+  if (strategies.skipConfigs === 'overwrite') {
+    for (const key of Object.keys(skipConfigs)) {
+      if (!(key in incomingSkipConfigs)) {
+        const [source, id] = key.split('+');
+        await storage.deleteSkipConfig(username, source, id);
+      }
+    }
+  }
+  for (const [key, config] of Object.entries(incomingSkipConfigs)) {
+    const [source, id] = key.split('+');
+    if (!source || !id) continue;
+    if (strategies.skipConfigs === 'overwrite' || !(key in skipConfigs)) {
+      await storage.setSkipConfig(username, source, id, config);
+    }
+  }
+}
+
+/**
+ * 按选择的用户与策略导入备份，不在选择范围内的用户与数据保持不变
+ */
+export async function applyImport(
+  backup: BackupData,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const storage = getStorage();
+  const selected = new Set(options.users);
+  const config = configSelfCheck(
+    JSON.parse(JSON.stringify(backup.data.adminConfig))
+  ) as AdminConfig;
+  const usernames = Object.keys(backup.data.userData).filter((username) =>
+    selected.has(username)
+  );
+
+  // 迁移旧版用户会创建账户记录，需在此之前记录哪些用户已存在
+  const existing = new Set<string>();
+  for (const username of usernames) {
+    if (await userExists(username)) existing.add(username);
+  }
+
+  // 旧版备份的用户列表保存在配置中，只为选中的用户迁移为账户记录
+  if (Array.isArray(config.UserConfig?.Users)) {
+    config.UserConfig.Users = config.UserConfig.Users.filter((u) =>
+      selected.has(u.username)
+    );
+  }
+  await migrateLegacyUsers(config);
+
+  let adminConfigImported = false;
+  if (options.adminConfig === 'overwrite') {
+    const current = await storage.getAdminConfig();
+    config.Version = current?.Version;
+    await saveAdminConfig(config, 'system', 'data.import');
+    await setCachedConfig(config);
+    adminConfigImported = true;
+  }
+
+  for (const username of usernames) {
+    await importUser(
+      username,
+      backup.data.userData[username],
+      existing.has(username),
+      options.strategies
+    );
+  }
+
+  // 补全缺少账户记录的用户
+  await ensureUserRecords(usernames);
+
+  console.log(
+    `数据导入完成：${usernames.length} 个用户${
+      adminConfigImported ? '，已覆盖管理员配置' : ''
+    }`
+  );
+  return { importedUsers: usernames.length, adminConfigImported };
+}
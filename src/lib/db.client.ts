@@ -15,6 +15,12 @@
  */
 
 import { getAuthInfoFromBrowserCookie } from './auth';
+import {
+  buildPersonalData,
+  PersonalData,
+  PersonalImportPlan,
+  planPersonalImport,
+} from './personal-data';
 import { SkipConfig } from './types';
 
 // 全局错误触发函数
@@ -40,6 +46,7 @@ export interface PlayRecord {
   total_time: number; // 总进度（秒）
   save_time: number; // 记录保存时间（时间戳）
   search_title?: string; // 搜索时使用的标题
+  play_line?: string; // 所选播放线路名，缺省为默认线路
 }
 
 // ---- 收藏类型 ----
@@ -1675,3 +1682,59 @@ export async function deleteSkipConfig(
     throw err;
   }
 }
+
+/* ---------------- 个人数据导入导出 ---------------- */
+
+// 读取当前用户的全部个人数据，数据库存储模式下先从服务器刷新缓存，避免读到过期数据
+async function loadPersonalData(): Promise<PersonalData['data']> {
+  await refreshAllCache();
+  const [playRecords, favorites, searchHistory, skipConfigs] =
+    await Promise.all([
+      getAllPlayRecords(),
+      getAllFavorites(),
+      getSearchHistory(),
+      getAllSkipConfigs(),
+    ]);
+  return { playRecords, favorites, searchHistory, skipConfigs };
+}
+
+/**
+ * 导出当前用户的播放记录、收藏、搜索历史与跳过配置。
+ * localstorage 模式下导出本机数据，格式见 personal-data.ts。
+ */
+export async function exportPersonalData(): Promise<PersonalData> {
+  const data = await loadPersonalData();
+  return buildPersonalData(data, getAuthInfoFromBrowserCookie()?.username);
+}
+
+/**
+ * 将个人数据合并到当前用户：播放记录与收藏按 save_time 保留较新的一方，
+ * 搜索历史与跳过配置只补充缺少的条目。
+ * @returns 各类数据写入与跳过的条数
+ */
+export async function importPersonalData(
+  personalData: PersonalData
+): Promise<PersonalImportPlan['summary']> {
+  const plan = planPersonalImport(
+    await loadPersonalData(),
+    personalData.data
+  );
+
+  for (const [key, record] of Object.entries(plan.playRecords)) {
+    const [source, id] = key.split('+');
+    await savePlayRecord(source, id, record);
+  }
+  for (const [key, favorite] of Object.entries(plan.favorites)) {
+    const [source, id] = key.split('+');
+    await saveFavorite(source, id, favorite);
+  }
+  for (const keyword of plan.searchHistory) {
+    await addSearchHistory(keyword);
+  }
+  for (const [key, config] of Object.entries(plan.skipConfigs)) {
+    const [source, id] = key.split('+');
+    await saveSkipConfig(source, id, config);
+  }
+
+  return plan.summary;
+}
@@ -4,10 +4,16 @@ import { AdminConfig } from './admin.types';
 import { D1Storage } from './d1.db';
 import { KvrocksStorage } from './kvrocks.db';
 import { RedisStorage } from './redis.db';
+import { connectStandaloneRedisClient } from './redis-base.db';
+import {
+  DEFAULT_SQLITE_PATH,
+  SqliteD1Adapter,
+  SqliteStorage,
+} from './sqlite.db';
 import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
 import { UpstashRedisStorage } from './upstash.db';
 
-// storage type 常量: 'localstorage' | 'redis' | 'kvrocks' | 'upstash' | 'd1'，默认 'localstorage'
+// storage type 常量: 'localstorage' | 'redis' | 'kvrocks' | 'upstash' | 'd1' | 'sqlite'，默认 'localstorage'
 const STORAGE_TYPE =
   (process.env.NEXT_PUBLIC_STORAGE_TYPE as
     | 'localstorage'
@@ -15,6 +21,7 @@ const STORAGE_TYPE =
     | 'kvrocks'
     | 'upstash'
     | 'd1'
+    | 'sqlite'
     | undefined) || 'localstorage';
 
 // 创建存储实例
@@ -28,12 +35,80 @@ function createStorage(): IStorage {
       return new UpstashRedisStorage();
     case 'd1':
       return new D1Storage();
+    case 'sqlite':
+      return new SqliteStorage();
     case 'localstorage':
     default:
       return null as unknown as IStorage;
   }
 }
 
+// 在线迁移的目标存储连接信息
+export type StorageTarget =
+  | { type: 'redis' | 'kvrocks'; url: string }
+  | { type: 'upstash'; url: string; token: string }
+  | { type: 'd1' }
+  | { type: 'sqlite'; path?: string };
+
+// 在线迁移的目标存储实例，用完须调用 close() 释放连接
+export interface TargetStorage {
+  storage: IStorage;
+  close(): Promise<void>;
+}
+
+// 按连接信息创建独立于当前存储的实例
+// Redis / Kvrocks 使用一次性客户端，连接失败时直接抛错
+export async function openTargetStorage(
+  target: StorageTarget
+): Promise<TargetStorage> {
+  switch (target.type) {
+    case 'redis':
+    case 'kvrocks': {
+      const client = await connectStandaloneRedisClient({
+        url: target.url,
+        clientName: target.type === 'redis' ? 'Redis' : 'Kvrocks',
+      });
+      const storage =
+        target.type === 'redis'
+          ? new RedisStorage(client)
+          : new KvrocksStorage(client);
+      return { storage, close: () => storage.quit() };
+    }
+    case 'upstash':
+      return {
+        storage: new UpstashRedisStorage(target.url, target.token),
+        close: async () => undefined,
+      };
+    case 'd1':
+      return { storage: new D1Storage(), close: async () => undefined };
+    case 'sqlite':
+      return {
+        storage: new D1Storage(new SqliteD1Adapter(target.path)),
+        close: async () => undefined,
+      };
+  }
+}
+
+// 目标是否就是当前使用的存储
+export function isCurrentStorage(target: StorageTarget): boolean {
+  if (target.type !== STORAGE_TYPE) return false;
+  switch (target.type) {
+    case 'redis':
+      return target.url === process.env.REDIS_URL;
+    case 'kvrocks':
+      return target.url === process.env.KVROCKS_URL;
+    case 'upstash':
+      return target.url === process.env.UPSTASH_URL;
+    case 'sqlite':
+      return (
+        (target.path || DEFAULT_SQLITE_PATH) ===
+        (process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH)
+      );
+    default:
+      return true;
+  }
+}
+
 // 单例存储实例
 let storageInstance: IStorage | null = null;
 
@@ -150,6 +225,16 @@ export class DbManager {
     return this.storage.checkUserExist(userName);
   }
 
+  // 获取用户密码哈希（数据迁移导出使用）
+  async getPasswordHash(userName: string): Promise<string | null> {
+    return this.storage.getPasswordHash(userName);
+  }
+
+  // 写入用户密码哈希（数据迁移导入使用）
+  async setPasswordHash(userName: string, passwordHash: string): Promise<void> {
+    await this.storage.setPasswordHash(userName, passwordHash);
+  }
+
   // ---------- 搜索历史 ----------
   async getSearchHistory(userName: string): Promise<string[]> {
     return this.storage.getSearchHistory(userName);
@@ -0,0 +1,287 @@
+/**
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { AdminConfig } from './admin.types';
+import { getStorage } from './db';
+import {
+  getDetailFromApi,
+  parseSourceResponse,
+  searchFromApiStream,
+} from './downstream';
+import { SearchResult } from './types';
+
+jest.mock('./db', () =>
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('@/__mocks__/memory-db').createMemoryDbMock()
+);
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '__fixtures__', 'downstream', name), 'utf8');
+
+const CONFIG: AdminConfig = {
+  ConfigFile: JSON.stringify({ api_site: {} }),
+  SiteConfig: {
+    SiteName: 'MoonTV',
+    Announcement: '',
+    SearchDownstreamMaxPage: 5,
+    SiteInterfaceCacheTime: 7200,
+    DoubanProxyType: 'direct',
+    DoubanProxy: '',
+    DoubanImageProxyType: 'direct',
+    DoubanImageProxy: '',
+    DisableYellowFilter: false,
+  },
+  UserConfig: { AllowRegister: false },
+  SourceConfig: [],
+  CustomCategories: [],
+};
+
+const savedStorageType = process.env.NEXT_PUBLIC_STORAGE_TYPE;
+const originalFetch = global.fetch;
+const fetchMock = jest.fn();
+
+function respond(body: string, status = 200) {
+  fetchMock.mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+  });
+}
+
+beforeAll(async () => {
+  process.env.NEXT_PUBLIC_STORAGE_TYPE = 'redis';
+  global.fetch = fetchMock;
+  await getStorage().setAdminConfig(CONFIG);
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+  if (savedStorageType === undefined) {
+    delete process.env.NEXT_PUBLIC_STORAGE_TYPE;
+  } else {
+    process.env.NEXT_PUBLIC_STORAGE_TYPE = savedStorageType;
+  }
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+});
+
+describe('parseSourceResponse', () => {
+  it('parses the Apple CMS JSON dialect', () => {
+    const data = parseSourceResponse(fixture('maccms-json.json'));
+
+    expect(data).toMatchObject({ pagecount: 1, total: 2 });
+    expect(data?.list).toHaveLength(2);
+    expect(data?.list[0]).toMatchObject({
+      vod_id: '41279',
+      vod_name: '庆余年',
+      vod_remarks: '全46集',
+      vod_year: '2019',
+      vod_class: '剧情,古装',
+      vod_douban_id: 25853071,
+      vod_play_from: 'ffm3u8',
+      type_name: '国产剧',
+    });
+  });
+
+  it('parses the Apple CMS XML dialect', () => {
+    const data = parseSourceResponse(fixture('maccms-xml.xml'));
+
+    expect(data).toEqual({
+      pagecount: 1,
+      total: 1,
+      list: [
+        {
+          vod_id: '41279',
+          vod_name: '庆余年',
+          vod_pic:
+            'https://img.example.com/upload/vod/20191126-1/qingyunian.jpg',
+          vod_remarks: '全46集',
+          vod_play_from: 'ffm3u8$$$ffyun$$$lzm3u8',
+          vod_play_url:
+            '第01集$https://cdn.example.com/20191126/1_a1b2c3/index.m3u8#第02集$https://cdn.example.com/20191126/2_d4e5f6/index.m3u8' +
+            '$$$第01集$https://share.example.com/share/a1b2c3#第02集$https://share.example.com/share/d4e5f6' +
+            '$$$第01集$https://cdn2.example.net/share/8812/1/index.m3u8',
+          vod_year: '2019',
+          vod_content: '<p>范闲在济州的司南伯爵府长大……</p>',
+          type_name: '国产剧',
+        },
+      ],
+    });
+  });
+
+  it('maps unprefixed field names and wrapped lists', () => {
+    const data = parseSourceResponse(fixture('alt-json.json'));
+
+    expect(data).toMatchObject({ pagecount: 3, total: 41 });
+    // 缺少 id 的条目被丢弃
+    expect(data?.list).toEqual([
+      {
+        vod_id: '8812',
+        vod_name: '庆余年',
+        vod_pic: 'https://img.example.net/cover/8812.jpg',
+        vod_remarks: '全46集',
+        vod_play_from: 'lzm3u8',
+        vod_play_url:
+          '第01集$https://v.example.net/share/8812/1/index.m3u8#第02集$https://v.example.net/share/8812/2/index.m3u8',
+        vod_year: '2019',
+        vod_content: '范闲在济州的司南伯爵府长大……',
+        type_name: '国产剧',
+      },
+    ]);
+  });
+
+  it('decodes entities and accepts an empty XML list', () => {
+    expect(
+      parseSourceResponse(
+        '<rss><list pagecount="2"><video><id>1</id><name>Tom &amp; Jerry &#x2764;</name></video></list></rss>'
+      )?.list[0].vod_name
+    ).toBe('Tom & Jerry ❤');
+    expect(
+      parseSourceResponse(
+        '<?xml version="1.0"?><rss><list page="1" pagecount="0" recordcount="0"/></rss>'
+      )
+    ).toEqual({ list: [], pagecount: 1, total: 0 });
+  });
+
+  it('uses only the adapter of the configured format', () => {
+    expect(parseSourceResponse(fixture('maccms-xml.xml'), 'json')).toBeNull();
+    expect(parseSourceResponse(fixture('maccms-json.json'), 'xml')).toBeNull();
+    expect(
+      parseSourceResponse(fixture('maccms-xml.xml'), 'xml')?.list
+    ).toHaveLength(1);
+  });
+
+  it('rejects content no adapter understands', () => {
+    expect(parseSourceResponse('<html><body>维护中</body></html>')).toBeNull();
+    expect(parseSourceResponse('{"code": 0, "msg": "error"}')).toBeNull();
+    expect(parseSourceResponse('')).toBeNull();
+  });
+});
+
+describe('searchFromApiStream', () => {
+  it('searches an XML source', async () => {
+    respond(fixture('maccms-xml.xml'));
+    const site = {
+      key: 'xml',
+      name: 'XML 源',
+      api: 'https://xml.example/api.php/provide/vod/at/xml/',
+    };
+
+    const batches: SearchResult[][] = [];
+    for await (const batch of searchFromApiStream(site, '庆余年')) {
+      batches.push(batch);
+    }
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0][0]).toMatchObject({
+      id: '41279',
+      title: '庆余年',
+      source: 'xml',
+      source_name: 'XML 源',
+      year: '2019',
+      desc: '范闲在济州的司南伯爵府长大……',
+      episodes: [
+        'https://cdn.example.com/20191126/1_a1b2c3/index.m3u8',
+        'https://cdn.example.com/20191126/2_d4e5f6/index.m3u8',
+      ],
+      episodes_titles: ['第01集', '第02集'],
+    });
+    // 不含 m3u8 地址的线路被忽略
+    expect(batches[0][0].play_lines).toEqual([
+      {
+        name: 'ffm3u8',
+        episodes: batches[0][0].episodes,
+        episodes_titles: ['第01集', '第02集'],
+      },
+      {
+        name: 'lzm3u8',
+        episodes: ['https://cdn2.example.net/share/8812/1/index.m3u8'],
+        episodes_titles: ['第01集'],
+      },
+    ]);
+  });
+});
+
+describe('getDetailFromApi', () => {
+  it('reads the detail of a JSON source', async () => {
+    respond(fixture('maccms-json.json'));
+
+    const detail = await getDetailFromApi(
+      { key: 'json', name: 'JSON 源', api: 'https://json.example/api.php' },
+      '41279'
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://json.example/api.php?ac=videolist&ids=41279'
+    );
+    expect(detail).toMatchObject({
+      id: '41279',
+      title: '庆余年',
+      douban_id: 25853071,
+      episodes_titles: ['第01集', '第02集'],
+    });
+  });
+
+  it('keeps every play line and defaults to the longest one', async () => {
+    respond(
+      JSON.stringify({
+        list: [
+          {
+            vod_id: 1,
+            vod_name: '多线路',
+            vod_play_from: 'line$$$line$$$',
+            vod_play_url: [
+              '1$https://a.example/1.m3u8',
+              '1$https://b.example/1.m3u8#2$https://b.example/2.m3u8',
+              '1$https://c.example/1.m3u8#2$https://c.example/2.m3u8',
+            ].join('$$$'),
+          },
+        ],
+      })
+    );
+
+    const detail = await getDetailFromApi(
+      { key: 'json', name: 'JSON 源', api: 'https://json.example/api.php' },
+      '1'
+    );
+
+    // 重名线路加上序号，缺少名称时按序号命名；分集数相同时取靠前的线路
+    expect(detail.play_lines?.map((line) => line.name)).toEqual([
+      'line',
+      'line-2',
+      '线路3',
+    ]);
+    expect(detail.episodes).toEqual([
+      'https://b.example/1.m3u8',
+      'https://b.example/2.m3u8',
+    ]);
+  });
+
+  it('omits play lines when there is only one', async () => {
+    respond(fixture('maccms-json.json'));
+
+    const detail = await getDetailFromApi(
+      { key: 'json', name: 'JSON 源', api: 'https://json.example/api.php' },
+      '41279'
+    );
+
+    expect(detail.play_lines).toBeUndefined();
+  });
+
+  it('rejects a response that cannot be parsed', async () => {
+    respond('<html>502 Bad Gateway</html>');
+
+    await expect(
+      getDetailFromApi(
+        { key: 'json', name: 'JSON 源', api: 'https://json.example/api.php' },
+        '1'
+      )
+    ).rejects.toThrow('获取到的详情内容无效');
+  });
+});
@@ -1,12 +1,16 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { SourceResponseFormat } from '@/lib/admin.types';
 import { API_CONFIG, ApiSite, getConfig } from '@/lib/config';
-import { SearchResult } from '@/lib/types';
+import { PlayLine, SearchResult } from '@/lib/types';
 import { cleanHtmlTags } from '@/lib/utils';
 
-interface ApiSearchItem {
+export interface ApiSearchItem {
   vod_id: string;
   vod_name: string;
   vod_pic: string;
   vod_remarks?: string;
+  vod_play_from?: string;
   vod_play_url?: string;
   vod_class?: string;
   vod_year?: string;
@@ -18,12 +22,14 @@ interface ApiSearchItem {
 // 匹配 m3u8 链接的正则
 const M3U8_PATTERN = /(https?:\/\/[^"'\s]+?\.m3u8)/g;
 
+type Fetcher = (url: string, init: RequestInit) => Promise<Response>;
+
 /** 封装带超时的 fetch，区分超时和网络错误 */
-async function fetchWithTimeout(url: string, options: RequestInit, timeout = 30000): Promise<Response> {
+export async function fetchWithTimeout(url: string, options: RequestInit, timeout = 30000, fetcher: Fetcher = fetch): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
   try {
-    return await fetch(url, { ...options, signal: controller.signal });
+    return await fetcher(url, { ...options, signal: controller.signal });
   } catch (error: unknown) {
     // 区分超时错误和网络错误
     const err = error as Error;
@@ -39,20 +45,217 @@ async function fetchWithTimeout(url: string, options: RequestInit, timeout = 300
   }
 }
 
+/**
+ * HTTP 正向代理的请求方法，依赖 Node.js 网络模块，只在 Node.js 运行时加载
+ * 边缘运行时无法建立代理连接，直接报错而不是绕过代理直连
+ */
+async function proxyFetcher(proxy: string): Promise<Fetcher> {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { fetchViaProxy } = await import('./source-proxy');
+    return (url, init) =>
+      fetchViaProxy(proxy, url, {
+        headers: init.headers as Record<string, string>,
+        signal: init.signal ?? undefined,
+      });
+  }
+  throw new Error('HTTP 代理仅支持 Node.js 运行时（Docker 部署），边缘运行时请使用代理前缀');
+}
+
+/**
+ * 按视频源的请求配置发起请求：替换 User-Agent、附加 Referer 与自定义请求头，
+ * 配置了 HTTP 代理时经代理连接，配置了代理前缀时请求拼接后的地址，源配置的超时优先于调用方传入的超时
+ */
+export async function fetchFromSource(apiSite: Pick<ApiSite, 'request'>, url: string, baseHeaders: Record<string, string>, timeout?: number): Promise<Response> {
+  const profile = apiSite.request || {};
+  const headers: Record<string, string> = { ...baseHeaders };
+  if (profile.userAgent) headers['User-Agent'] = profile.userAgent;
+  if (profile.referer) headers['Referer'] = profile.referer;
+  Object.assign(headers, profile.headers);
+  if (profile.proxy) {
+    return fetchWithTimeout(url, { headers }, profile.timeout ?? timeout, await proxyFetcher(profile.proxy));
+  }
+  const target = profile.proxyPrefix ? profile.proxyPrefix + encodeURIComponent(url) : url;
+  return fetchWithTimeout(target, { headers }, profile.timeout ?? timeout);
+}
+
+/** 经适配器统一后的列表接口返回 */
+export interface VodListResponse {
+  list: ApiSearchItem[];
+  pagecount: number;
+  total?: number;
+}
+
+/**
+ * 响应适配器：将资源站的返回内容转换为统一的列表结构
+ * detect 用于未指定格式时自动识别，parse 无法解析时返回 null
+ */
+export interface ResponseAdapter {
+  detect: (text: string) => boolean;
+  parse: (text: string) => VodListResponse | null;
+}
+
+/** 取第一个非空字段，数字转为字符串 */
+function pickString(obj: any, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = obj?.[key];
+    if (typeof value === 'string' && value !== '') return value;
+    if (typeof value === 'number') return value.toString();
+  }
+  return undefined;
+}
+
+function pickNumber(obj: any, ...keys: string[]): number | undefined {
+  const value = Number(pickString(obj, ...keys));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** 不同程序的 JSON 接口字段名不尽相同，统一为苹果 CMS 的 vod_ 字段，缺少 id 或名称的条目丢弃 */
+function normalizeJsonItem(item: any): ApiSearchItem | null {
+  const id = pickString(item, 'vod_id', 'id');
+  const name = pickString(item, 'vod_name', 'name', 'title');
+  if (!id || !name) return null;
+  return {
+    vod_id: id,
+    vod_name: name,
+    vod_pic: pickString(item, 'vod_pic', 'pic', 'cover') || '',
+    vod_remarks: pickString(item, 'vod_remarks', 'remarks', 'note'),
+    vod_play_from: pickString(item, 'vod_play_from', 'play_from'),
+    vod_play_url: pickString(item, 'vod_play_url', 'play_url'),
+    vod_class: pickString(item, 'vod_class', 'class'),
+    vod_year: pickString(item, 'vod_year', 'year'),
+    vod_content: pickString(item, 'vod_content', 'content', 'des'),
+    vod_douban_id: pickNumber(item, 'vod_douban_id', 'douban_id'),
+    type_name: pickString(item, 'type_name', 'type'),
+  };
+}
+
+/** JSON 接口：标准的 { list, pagecount, total }，或包在 data 中的 { data: { list } }、{ data: [] } */
+function parseJsonResponse(text: string): VodListResponse | null {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const body = !Array.isArray(data?.list) && data?.data && typeof data.data === 'object' && !Array.isArray(data.data) ? data.data : data;
+  const list = Array.isArray(body?.list) ? body.list : Array.isArray(data?.data) ? data.data : null;
+  if (!list) return null;
+
+  return {
+    list: list.map(normalizeJsonItem).filter((item: ApiSearchItem | null): item is ApiSearchItem => !!item),
+    pagecount: pickNumber(body, 'pagecount', 'page_count', 'pageCount', 'total_page') || 1,
+    total: pickNumber(body, 'total', 'recordcount'),
+  };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** 取出 XML 节点的文本：去掉 CDATA 包裹并解码实体 */
+function xmlText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1].trim();
+  return raw
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return XML_ENTITIES[code.toLowerCase()] ?? entity;
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    })
+    .trim();
+}
+
+function xmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? xmlText(match[1]) || undefined : undefined;
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+  return attrs.match(new RegExp(`\\b${name}=["']([^"']*)["']`))?.[1];
+}
+
+/** 苹果 CMS XML 接口（rss/list/video），每个播放源为 dl 下的一个 dd，flag 为播放源名称 */
+function parseXmlResponse(text: string): VodListResponse | null {
+  const listMatch = text.match(/<list(\s[^>]*?)?\s*(?:\/>|>([\s\S]*?)<\/list>)/);
+  if (!listMatch) return null;
+  const attrs = listMatch[1] || '';
+  const body = listMatch[2] || '';
+
+  const list: ApiSearchItem[] = [];
+  const videoPattern = /<video>([\s\S]*?)<\/video>/g;
+  let video: RegExpExecArray | null;
+  while ((video = videoPattern.exec(body))) {
+    const xml = video[1];
+    const id = xmlTag(xml, 'id');
+    const name = xmlTag(xml, 'name');
+    if (!id || !name) continue;
+
+    const from: string[] = [];
+    const urls: string[] = [];
+    const ddPattern = /<dd(\s[^>]*)?>([\s\S]*?)<\/dd>/g;
+    let dd: RegExpExecArray | null;
+    while ((dd = ddPattern.exec(xml))) {
+      from.push(xmlAttr(dd[1] || '', 'flag') || '');
+      urls.push(xmlText(dd[2]));
+    }
+
+    list.push({
+      vod_id: id,
+      vod_name: name,
+      vod_pic: xmlTag(xml, 'pic') || '',
+      vod_remarks: xmlTag(xml, 'note'),
+      vod_play_from: from.length > 0 ? from.join('$$$') : undefined,
+      vod_play_url: urls.length > 0 ? urls.join('$$$') : undefined,
+      vod_year: xmlTag(xml, 'year'),
+      vod_content: xmlTag(xml, 'des'),
+      type_name: xmlTag(xml, 'type'),
+    });
+  }
+
+  const total = Number(xmlAttr(attrs, 'recordcount'));
+  return {
+    list,
+    pagecount: Number(xmlAttr(attrs, 'pagecount')) || 1,
+    total: Number.isFinite(total) ? total : undefined,
+  };
+}
+
+/** 可用的响应适配器，未指定格式时按顺序尝试 */
+export const RESPONSE_ADAPTERS: Record<SourceResponseFormat, ResponseAdapter> = {
+  json: {
+    detect: (text) => text.startsWith('{') || text.startsWith('['),
+    parse: parseJsonResponse,
+  },
+  xml: {
+    detect: (text) => text.startsWith('<'),
+    parse: parseXmlResponse,
+  },
+};
+
+/** 解析视频源的列表接口返回，源指定了格式时只使用对应的适配器 */
+export function parseSourceResponse(text: string, format?: SourceResponseFormat): VodListResponse | null {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (format) return RESPONSE_ADAPTERS[format].parse(content);
+  for (const adapter of Object.values(RESPONSE_ADAPTERS)) {
+    if (!adapter.detect(content)) continue;
+    const data = adapter.parse(content);
+    if (data) return data;
+  }
+  return null;
+}
+
 /**
  * 通用的播放源解析
  * 支持：
- *  1. vod_play_url (通过 $$$、#、$ 分割)
+ *  1. vod_play_url (通过 $$$、#、$ 分割)，线路名取自 vod_play_from 的对应项
  *  2. 内容中的 m3u8 链接（正则提取）
+ * 保留所有含 m3u8 地址的线路，episodes 与 titles 为分集最多的默认线路
  */
-function parseEpisodes(vod_play_url?: string, fallbackContent?: string): { episodes: string[]; titles: string[] } {
-  let episodes: string[] = [];
-  let titles: string[] = [];
+function parseEpisodes(vod_play_url?: string, fallbackContent?: string, vod_play_from?: string): { episodes: string[]; titles: string[]; lines: PlayLine[] } {
+  const lines: PlayLine[] = [];
 
   // 1. 优先解析 vod_play_url
   if (vod_play_url) {
-    const sources = vod_play_url.split('$$$');
-    sources.forEach((source) => {
+    const names = vod_play_from?.split('$$$') || [];
+    vod_play_url.split('$$$').forEach((source, i) => {
       const currentEpisodes: string[] = [];
       const currentTitles: string[] = [];
 
@@ -63,29 +266,32 @@ function parseEpisodes(vod_play_url?: string, fallbackContent?: string): { episo
           currentEpisodes.push(url);
         }
       });
+      if (currentEpisodes.length === 0) return;
 
-      // 选用分集最多的播放源
-      if (currentEpisodes.length > episodes.length) {
-        episodes = currentEpisodes;
-        titles = currentTitles;
-      }
+      // 播放记录按线路名记住所选线路，重名时加上序号
+      let name = names[i]?.trim() || `线路${i + 1}`;
+      if (lines.some((line) => line.name === name)) name = `${name}-${i + 1}`;
+      lines.push({ name, episodes: currentEpisodes, episodes_titles: currentTitles });
     });
   }
 
   // 2. 如果没有解析到，尝试 fallback 内容
-  if (episodes.length === 0 && fallbackContent) {
-    episodes = (fallbackContent.match(M3U8_PATTERN) ?? []).map((link: string) =>
+  if (lines.length === 0 && fallbackContent) {
+    const episodes = (fallbackContent.match(M3U8_PATTERN) ?? []).map((link: string) =>
       link.replace(/^\$/, '')
     );
-    titles = episodes.map((_, i) => (i + 1).toString()); // 默认用序号作为标题
+    const titles = episodes.map((_, i) => (i + 1).toString()); // 默认用序号作为标题
+    return { episodes, titles, lines: [] };
   }
 
-  return { episodes, titles };
+  // 默认选用分集最多的线路
+  const best = lines.reduce<PlayLine | null>((a, b) => (!a || b.episodes.length > a.episodes.length ? b : a), null);
+  return { episodes: best?.episodes || [], titles: best?.episodes_titles || [], lines };
 }
 
 /** 映射 API 数据到 SearchResult */
 function mapItemToResult(item: ApiSearchItem, apiSite: ApiSite, apiName: string): SearchResult {
-  const { episodes, titles } = parseEpisodes(item.vod_play_url, item.vod_content);
+  const { episodes, titles, lines } = parseEpisodes(item.vod_play_url, item.vod_content, item.vod_play_from);
 
   return {
     id: item.vod_id.toString(),
@@ -100,6 +306,7 @@ function mapItemToResult(item: ApiSearchItem, apiSite: ApiSite, apiName: string)
     desc: cleanHtmlTags(item.vod_content || ''),
     type_name: item.type_name,
     douban_id: item.vod_douban_id,
+    ...(lines.length > 1 ? { play_lines: lines } : {}),
   };
 }
 
@@ -112,11 +319,11 @@ export async function* searchFromApiStream(
 ): AsyncGenerator<SearchResult[], void, unknown> {
   const apiUrl = apiSite.api + API_CONFIG.search.path + encodeURIComponent(query);
 
-  const response = await fetchWithTimeout(apiUrl, { headers: API_CONFIG.search.headers }, timeout);
+  const response = await fetchFromSource(apiSite, apiUrl, API_CONFIG.search.headers, timeout);
   if (!response.ok) return;
 
-  const data = await response.json();
-  if (!Array.isArray(data?.list)) return;
+  const data = parseSourceResponse(await response.text(), apiSite.format);
+  if (!data) return;
 
   // 第一页
   yield data.list.map((item: ApiSearchItem) => mapItemToResult(item, apiSite, apiSite.name));
@@ -124,8 +331,7 @@ export async function* searchFromApiStream(
   // 分页
   const { SiteConfig } = await getConfig();
   const maxPages = SiteConfig.SearchDownstreamMaxPage;
-  const pageCount = data.pagecount || 1;
-  const pagesToFetch = Math.min(pageCount, maxPages);
+  const pagesToFetch = Math.min(data.pagecount, maxPages);
 
   if (pagesToFetch > 1) {
     if (parallel) {
@@ -140,11 +346,11 @@ export async function* searchFromApiStream(
             .replace('{page}', page.toString());
 
         const promise = (async () => {
-          const pageRes = await fetchWithTimeout(pageUrl, { headers: API_CONFIG.search.headers }, timeout);
+          const pageRes = await fetchFromSource(apiSite, pageUrl, API_CONFIG.search.headers, timeout);
           if (!pageRes.ok) return null;
 
-          const pageData = await pageRes.json();
-          if (!Array.isArray(pageData?.list)) return null;
+          const pageData = parseSourceResponse(await pageRes.text(), apiSite.format);
+          if (!pageData) return null;
 
           const results = pageData.list.map((item: ApiSearchItem) =>
             mapItemToResult(item, apiSite, apiSite.name)
@@ -170,11 +376,11 @@ export async function* searchFromApiStream(
             .replace('{query}', encodeURIComponent(query))
             .replace('{page}', page.toString());
 
-        const pageRes = await fetchWithTimeout(pageUrl, { headers: API_CONFIG.search.headers }, timeout);
+        const pageRes = await fetchFromSource(apiSite, pageUrl, API_CONFIG.search.headers, timeout);
         if (!pageRes.ok) continue;
 
-        const pageData = await pageRes.json();
-        if (Array.isArray(pageData?.list)) {
+        const pageData = parseSourceResponse(await pageRes.text(), apiSite.format);
+        if (pageData) {
           const results = pageData.list.map((item: ApiSearchItem) =>
             mapItemToResult(item, apiSite, apiSite.name)
           );
@@ -191,17 +397,17 @@ export async function getDetailFromApi(apiSite: ApiSite, id: string): Promise<Se
   if (apiSite.detail) return handleSpecialSourceDetail(id, apiSite);
 
   const detailUrl = `${apiSite.api}${API_CONFIG.detail.path}${id}`;
-  const response = await fetchWithTimeout(detailUrl, { headers: API_CONFIG.detail.headers });
+  const response = await fetchFromSource(apiSite, detailUrl, API_CONFIG.detail.headers);
 
   if (!response.ok) throw new Error(`详情请求失败: ${response.status}`);
 
-  const data = await response.json();
-  if (!Array.isArray(data?.list) || data.list.length === 0) {
+  const data = parseSourceResponse(await response.text(), apiSite.format);
+  if (!data || data.list.length === 0) {
     throw new Error('获取到的详情内容无效');
   }
 
   const video = data.list[0];
-  const { episodes, titles } = parseEpisodes(video.vod_play_url, video.vod_content);
+  const { episodes, titles, lines } = parseEpisodes(video.vod_play_url, video.vod_content, video.vod_play_from);
 
   return {
     id: id.toString(),
@@ -213,16 +419,17 @@ export async function getDetailFromApi(apiSite: ApiSite, id: string): Promise<Se
     source_name: apiSite.name,
     class: video.vod_class,
     year: video.vod_year?.match(/\d{4}/)?.[0] || 'unknown',
-    desc: cleanHtmlTags(video.vod_content),
+    desc: cleanHtmlTags(video.vod_content || ''),
     type_name: video.type_name,
     douban_id: video.vod_douban_id,
+    ...(lines.length > 1 ? { play_lines: lines } : {}),
   };
 }
 
 /** 特殊站点详情处理 */
 async function handleSpecialSourceDetail(id: string, apiSite: ApiSite): Promise<SearchResult> {
   const detailUrl = `${apiSite.detail}/index.php/vod/detail/id/${id}.html`;
-  const response = await fetchWithTimeout(detailUrl, { headers: API_CONFIG.detail.headers });
+  const response = await fetchFromSource(apiSite, detailUrl, API_CONFIG.detail.headers);
 
   if (!response.ok) throw new Error(`详情页请求失败: ${response.status}`);
 
@@ -0,0 +1,48 @@
+import { AdminConfig, InviteCode } from './admin.types';
+
+// 去掉易混淆字符（0/O、1/I/L）
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 10;
+
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  return Array.from(bytes)
+    .map((b) => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length])
+    .join('');
+}
+
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * 邀请码是否仍可使用（未过期且有剩余次数）
+ */
+export function isInviteUsable(invite: InviteCode, now = Date.now()): boolean {
+  if (invite.used >= invite.maxUses) return false;
+  return !invite.expiresAt || invite.expiresAt > now;
+}
+
+/**
+ * 在配置中查找邀请码
+ * @returns 可用时返回邀请码，否则返回错误信息
+ */
+export function findUsableInvite(
+  config: AdminConfig,
+  code: string
+): { invite: InviteCode } | { error: string } {
+  const normalized = normalizeInviteCode(code);
+  const invite = (config.UserConfig.InviteCodes || []).find(
+    (i) => i.code === normalized
+  );
+  if (!invite) {
+    return { error: '邀请码无效' };
+  }
+  if (invite.used >= invite.maxUses) {
+    return { error: '邀请码已用完' };
+  }
+  if (!isInviteUsable(invite)) {
+    return { error: '邀请码已过期' };
+  }
+  return { invite };
+}
@@ -1,14 +1,17 @@
 /* eslint-disable no-console, @typescript-eslint/no-explicit-any, @typescript-eslint/no-non-null-assertion */
 
+import { RedisClientType } from 'redis';
+
 import { BaseRedisStorage } from './redis-base.db';
 
 export class KvrocksStorage extends BaseRedisStorage {
-  constructor() {
+  // 传入 client 时连接其他实例（如在线迁移的目标），否则使用 KVROCKS_URL
+  constructor(client?: RedisClientType) {
     const config = {
       url: process.env.KVROCKS_URL!,
       clientName: 'Kvrocks'
     };
     const globalSymbol = Symbol.for('__MOONTV_KVROCKS_CLIENT__');
-    super(config, globalSymbol);
+    super(config, globalSymbol, client);
   }
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+/**
+ * 按行比较两段文本，生成左右并排展示用的行列表
+ * 基于最长公共子序列；相邻的删除与新增按顺序配对为同一行的修改
+ */
+
+export interface DiffRow {
+  type: 'same' | 'changed' | 'removed' | 'added';
+  left?: string; // 旧版本的行，新增时缺省
+  right?: string; // 新版本的行，删除时缺省
+}
+
+type Op = { type: 'same' | 'removed' | 'added'; line: string };
+
+function diffOps(before: string[], after: string[]): Op[] {
+  // 去掉公共前后缀，缩小需要比较的范围
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    before[endBefore - 1] === after[endAfter - 1]
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+  // lcs[i * width + j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = before
+    .slice(0, start)
+    .map((line) => ({ type: 'same', line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: 'same', line: a[i] });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+    ) {
+      ops.push({ type: 'removed', line: a[i] });
+      i++;
+    } else {
+      ops.push({ type: 'added', line: b[j] });
+      j++;
+    }
+  }
+  before.slice(endBefore).forEach((line) => ops.push({ type: 'same', line }));
+  return ops;
+}
+
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      if (left !== undefined && right !== undefined) {
+        rows.push({ type: 'changed', left, right });
+      } else if (left !== undefined) {
+        rows.push({ type: 'removed', left });
+      } else {
+        rows.push({ type: 'added', right });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffOps(before, after)) {
+    if (op.type === 'removed') {
+      removed.push(op.line);
+    } else if (op.type === 'added') {
+      added.push(op.line);
+    } else {
+      flush();
+      rows.push({ type: 'same', left: op.line, right: op.line });
+    }
+  }
+  flush();
+  return rows;
+}
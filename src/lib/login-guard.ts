@@ -0,0 +1,204 @@
+/* eslint-disable no-console */
+
+import { getStorage } from './db';
+import { IStorage, LoginAttempt } from './types';
+
+// 失败计数在最后一次失败后保留 24 小时
+const ATTEMPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 退避：超过免罚次数后，每次失败的等待时间翻倍，最长 5 分钟
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// 锁定：每累计一轮阈值的失败锁定一次，锁定时长逐轮翻倍，最长 24 小时
+const LOCK_DURATION_MS = 15 * 60 * 1000;
+const MAX_LOCK_DURATION_MS = 24 * 60 * 60 * 1000;
+
+interface AttemptPolicy {
+  freeAttempts: number; // 不触发退避的失败次数
+  lockThreshold: number; // 触发锁定的失败次数
+}
+
+// 按用户名：防止针对单个账户的猜测
+const USER_POLICY: AttemptPolicy = { freeAttempts: 3, lockThreshold: 10 };
+
+// 按 IP：防止同一来源轮换用户名撞库，阈值放宽以兼顾共享出口 IP
+const IP_POLICY: AttemptPolicy = { freeAttempts: 10, lockThreshold: 30 };
+
+type AttemptStore = Pick<
+  IStorage,
+  | 'getLoginAttempt'
+  | 'setLoginAttempt'
+  | 'deleteLoginAttempt'
+  | 'getLockedLoginAttempts'
+>;
+
+// localstorage 模式没有服务端存储，退化为进程内计数
+class MemoryAttemptStore implements AttemptStore {
+  private attempts = new Map<
+    string,
+    { attempt: LoginAttempt; expiresAt: number }
+  >();
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    const entry = this.attempts.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.attempts.delete(key);
+      return null;
+    }
+    return entry.attempt;
+  }
+
+  async setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void> {
+    this.attempts.set(attempt.key, {
+      attempt,
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+
+  async getLockedLoginAttempts(): Promise<LoginAttempt[]> {
+    const now = Date.now();
+    const locked: LoginAttempt[] = [];
+    this.attempts.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.attempts.delete(key);
+      } else if (entry.attempt.locked_until > now) {
+        locked.push(entry.attempt);
+      }
+    });
+    return locked;
+  }
+}
+
+let memoryStore: MemoryAttemptStore | null = null;
+
+function getAttemptStore(): AttemptStore {
+  const storage = getStorage();
+  if (storage) return storage;
+  if (!memoryStore) {
+    memoryStore = new MemoryAttemptStore();
+  }
+  return memoryStore;
+}
+
+function attemptKeys(username?: string, ip?: string) {
+  const keys: { key: string; policy: AttemptPolicy }[] = [];
+  if (username) keys.push({ key: `user:${username}`, policy: USER_POLICY });
+  if (ip) keys.push({ key: `ip:${ip}`, policy: IP_POLICY });
+  return keys;
+}
+
+export type LoginGuardResult =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfter: number };
+
+/**
+ * 登录前检查：用户名或 IP 处于锁定或退避期时拒绝
+ * retryAfter 为需要等待的秒数
+ */
+export async function checkLoginAllowed(
+  username?: string,
+  ip?: string
+): Promise<LoginGuardResult> {
+  const store = getAttemptStore();
+  const now = Date.now();
+
+  let lockedUntil = 0;
+  let backoffUntil = 0;
+  for (const { key } of attemptKeys(username, ip)) {
+    const attempt = await store.getLoginAttempt(key);
+    if (!attempt) continue;
+    lockedUntil = Math.max(lockedUntil, attempt.locked_until);
+    backoffUntil = Math.max(backoffUntil, attempt.next_attempt_at);
+  }
+
+  if (lockedUntil > now) {
+    return {
+      allowed: false,
+      locked: true,
+      retryAfter: Math.ceil((lockedUntil - now) / 1000),
+    };
+  }
+  if (backoffUntil > now) {
+    return {
+      allowed: false,
+      locked: false,
+      retryAfter: Math.ceil((backoffUntil - now) / 1000),
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * 记录一次登录失败，更新退避与锁定时间
+ */
+export async function recordLoginFailure(
+  username?: string,
+  ip?: string
+): Promise<void> {
+  const store = getAttemptStore();
+  const now = Date.now();
+
+  for (const { key, policy } of attemptKeys(username, ip)) {
+    const prev = await store.getLoginAttempt(key);
+    const failures = (prev?.failures || 0) + 1;
+
+    let nextAttemptAt = 0;
+    if (failures > policy.freeAttempts) {
+      const exponent = failures - policy.freeAttempts - 1;
+      nextAttemptAt =
+        now + Math.min(BASE_DELAY_MS * 2 ** exponent, MAX_DELAY_MS);
+    }
+
+    let lockedUntil = prev?.locked_until || 0;
+    if (failures % policy.lockThreshold === 0) {
+      const round = failures / policy.lockThreshold - 1;
+      lockedUntil =
+        now + Math.min(LOCK_DURATION_MS * 2 ** round, MAX_LOCK_DURATION_MS);
+    }
+
+    await store.setLoginAttempt(
+      {
+        key,
+        failures,
+        last_failed_at: now,
+        next_attempt_at: nextAttemptAt,
+        locked_until: lockedUntil,
+      },
+      Math.max(ATTEMPT_TTL_MS, lockedUntil - now)
+    );
+  }
+}
+
+/**
+ * 登录成功后清除该用户名的失败计数
+ * IP 计数保留，避免攻击者用自己的账户重置来源 IP 的计数
+ */
+export async function recordLoginSuccess(username?: string): Promise<void> {
+  if (!username) return;
+  try {
+    await getAttemptStore().deleteLoginAttempt(`user:${username}`);
+  } catch (err) {
+    console.error('清除登录失败计数失败:', err);
+  }
+}
+
+/**
+ * 获取当前处于锁定状态的用户名与 IP，按锁定截止时间倒序
+ */
+export async function listLockedLogins(): Promise<LoginAttempt[]> {
+  const locked = await getAttemptStore().getLockedLoginAttempts();
+  return locked.sort((a, b) => b.locked_until - a.locked_until);
+}
+
+/**
+ * 解除锁定并清空失败计数
+ */
+export async function unlockLogin(key: string): Promise<void> {
+  await getAttemptStore().deleteLoginAttempt(key);
+}
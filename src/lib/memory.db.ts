@@ -0,0 +1,561 @@
+import { AdminConfig } from './admin.types';
+import { ensurePasswordHash, hashPassword, verifyPassword } from './password';
+import {
+  AdminConfigConflictError,
+  ApiToken,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuthSession,
+  BackupMeta,
+  ConfigHistoryMeta,
+  Favorite,
+  IStorage,
+  LoginAttempt,
+  matchesAuditLogQuery,
+  PlayRecord,
+  SchemaMigration,
+  SkipConfig,
+  SourceHealthProbe,
+  TwoFactorConfig,
+  UserRecord,
+} from './types';
+
+// 搜索历史最大条数
+const SEARCH_HISTORY_LIMIT = 20;
+
+// 单个用户的数据
+interface MemoryUserData {
+  playRecords: Map<string, PlayRecord>;
+  favorites: Map<string, Favorite>;
+  skipConfigs: Map<string, SkipConfig>;
+  searchHistory: string[];
+}
+
+// 存取时深拷贝，避免调用方修改对象影响已存储的数据
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * 进程内存储，数据仅保存在内存中，进程重启后丢失
+ * 主要用于测试，以及作为其他存储实现的行为参照
+ */
+export class MemoryStorage implements IStorage {
+  private passwords = new Map<string, string>();
+  private userData = new Map<string, MemoryUserData>();
+  private userRecords = new Map<string, UserRecord>();
+  private sessions = new Map<string, AuthSession>();
+  private twoFactors = new Map<string, TwoFactorConfig>();
+  private apiTokens = new Map<string, ApiToken>();
+  private loginAttempts = new Map<
+    string,
+    { attempt: LoginAttempt; expiresAt: number }
+  >();
+  private adminConfig: AdminConfig | null = null;
+  private backups = new Map<string, { meta: BackupMeta; content: string }>();
+  private configHistory = new Map<
+    number,
+    { meta: ConfigHistoryMeta; config: AdminConfig }
+  >();
+  private auditLogs: AuditLogEntry[] = [];
+  private sourceHealth = new Map<string, SourceHealthProbe[]>();
+  private schemaVersion = 0;
+
+  private getUserData(userName: string): MemoryUserData {
+    let data = this.userData.get(userName);
+    if (!data) {
+      data = {
+        playRecords: new Map(),
+        favorites: new Map(),
+        skipConfigs: new Map(),
+        searchHistory: [],
+      };
+      this.userData.set(userName, data);
+    }
+    return data;
+  }
+
+  // ---------- 播放记录 ----------
+  async getPlayRecord(
+    userName: string,
+    key: string
+  ): Promise<PlayRecord | null> {
+    const record = this.userData.get(userName)?.playRecords.get(key);
+    return record ? clone(record) : null;
+  }
+
+  async setPlayRecord(
+    userName: string,
+    key: string,
+    record: PlayRecord
+  ): Promise<void> {
+    const { playRecords } = this.getUserData(userName);
+    // 删除同名的旧记录
+    if (record.title) {
+      playRecords.forEach((existing, existingKey) => {
+        if (existing.title === record.title && existingKey !== key) {
+          playRecords.delete(existingKey);
+        }
+      });
+    }
+    playRecords.set(key, clone(record));
+  }
+
+  async getAllPlayRecords(
+    userName: string
+  ): Promise<{ [key: string]: PlayRecord }> {
+    const records = this.userData.get(userName)?.playRecords;
+    return records ? clone(Object.fromEntries(records)) : {};
+  }
+
+  async deletePlayRecord(userName: string, key: string): Promise<void> {
+    this.userData.get(userName)?.playRecords.delete(key);
+  }
+
+  // ---------- 收藏 ----------
+  async getFavorite(userName: string, key: string): Promise<Favorite | null> {
+    const favorite = this.userData.get(userName)?.favorites.get(key);
+    return favorite ? clone(favorite) : null;
+  }
+
+  async setFavorite(
+    userName: string,
+    key: string,
+    favorite: Favorite
+  ): Promise<void> {
+    this.getUserData(userName).favorites.set(key, clone(favorite));
+  }
+
+  async getAllFavorites(
+    userName: string
+  ): Promise<{ [key: string]: Favorite }> {
+    const favorites = this.userData.get(userName)?.favorites;
+    return favorites ? clone(Object.fromEntries(favorites)) : {};
+  }
+
+  async deleteFavorite(userName: string, key: string): Promise<void> {
+    this.userData.get(userName)?.favorites.delete(key);
+  }
+
+  // ---------- 用户注册 / 登录 ----------
+  async registerUser(userName: string, password: string): Promise<void> {
+    this.passwords.set(userName, await hashPassword(password));
+  }
+
+  async verifyUser(userName: string, password: string): Promise<boolean> {
+    const stored = this.passwords.get(userName);
+    if (stored === undefined) return false;
+    const { valid, needsRehash } = await verifyPassword(password, stored);
+    if (valid && needsRehash) {
+      await this.changePassword(userName, password);
+    }
+    return valid;
+  }
+
+  async checkUserExist(userName: string): Promise<boolean> {
+    return this.passwords.has(userName);
+  }
+
+  async changePassword(userName: string, newPassword: string): Promise<void> {
+    this.passwords.set(userName, await hashPassword(newPassword));
+  }
+
+  async getPasswordHash(userName: string): Promise<string | null> {
+    const stored = this.passwords.get(userName);
+    return stored === undefined ? null : ensurePasswordHash(stored);
+  }
+
+  async setPasswordHash(userName: string, passwordHash: string): Promise<void> {
+    this.passwords.set(userName, passwordHash);
+  }
+
+  async deleteUser(userName: string): Promise<void> {
+    this.passwords.delete(userName);
+    this.userData.delete(userName);
+    await this.deleteUserRecord(userName);
+    await this.deleteUserSessions(userName);
+    await this.deleteTwoFactor(userName);
+    await this.deleteUserApiTokens(userName);
+  }
+
+  // ---------- 用户账户记录 ----------
+  async getUserRecord(userName: string): Promise<UserRecord | null> {
+    const record = this.userRecords.get(userName);
+    return record ? clone(record) : null;
+  }
+
+  async setUserRecord(record: UserRecord): Promise<void> {
+    const existing = this.userRecords.get(record.username);
+    // 更新记录时保持原有排序位置与最近在线时间
+    this.userRecords.set(record.username, {
+      ...clone(record),
+      created_at: existing ? existing.created_at : record.created_at,
+      lastOnline: record.lastOnline ?? existing?.lastOnline,
+    });
+  }
+
+  async deleteUserRecord(userName: string): Promise<void> {
+    this.userRecords.delete(userName);
+  }
+
+  async listUserRecords(
+    offset: number,
+    limit: number
+  ): Promise<{ users: UserRecord[]; total: number }> {
+    const sorted = Array.from(this.userRecords.values()).sort(
+      (a, b) =>
+        a.created_at - b.created_at || a.username.localeCompare(b.username)
+    );
+    return {
+      users: clone(sorted.slice(offset, offset + limit)),
+      total: sorted.length,
+    };
+  }
+
+  async setUserLastOnline(userName: string, lastOnline: number): Promise<void> {
+    const record = this.userRecords.get(userName);
+    if (record) {
+      record.lastOnline = lastOnline;
+    }
+  }
+
+  // ---------- 搜索历史 ----------
+  async getSearchHistory(userName: string): Promise<string[]> {
+    return [...(this.userData.get(userName)?.searchHistory ?? [])];
+  }
+
+  async addSearchHistory(userName: string, keyword: string): Promise<void> {
+    const data = this.getUserData(userName);
+    data.searchHistory = [
+      keyword,
+      ...data.searchHistory.filter((k) => k !== keyword),
+    ].slice(0, SEARCH_HISTORY_LIMIT);
+  }
+
+  async deleteSearchHistory(userName: string, keyword?: string): Promise<void> {
+    const data = this.userData.get(userName);
+    if (!data) return;
+    data.searchHistory = keyword
+      ? data.searchHistory.filter((k) => k !== keyword)
+      : [];
+  }
+
+  // ---------- 获取全部用户 ----------
+  async getAllUsers(): Promise<string[]> {
+    return Array.from(this.passwords.keys());
+  }
+
+  // ---------- 登录会话 ----------
+  private getLiveSession(sessionId: string): AuthSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.expires_at <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  async createSession(session: AuthSession): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async getSession(sessionId: string): Promise<AuthSession | null> {
+    const session = this.getLiveSession(sessionId);
+    return session ? clone(session) : null;
+  }
+
+  async touchSession(sessionId: string, lastSeen: number): Promise<void> {
+    const session = this.getLiveSession(sessionId);
+    if (session) {
+      session.last_seen = lastSeen;
+    }
+  }
+
+  async getUserSessions(userName: string): Promise<AuthSession[]> {
+    const sessions: AuthSession[] = [];
+    Array.from(this.sessions.keys()).forEach((id) => {
+      const session = this.getLiveSession(id);
+      if (session && session.username === userName) {
+        sessions.push(clone(session));
+      }
+    });
+    return sessions;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async deleteUserSessions(userName: string): Promise<void> {
+    this.sessions.forEach((session, id) => {
+      if (session.username === userName) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+
+  // ---------- 两步验证 ----------
+  async getTwoFactor(userName: string): Promise<TwoFactorConfig | null> {
+    const config = this.twoFactors.get(userName);
+    return config ? clone(config) : null;
+  }
+
+  async setTwoFactor(userName: string, config: TwoFactorConfig): Promise<void> {
+    this.twoFactors.set(userName, clone(config));
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    this.twoFactors.delete(userName);
+  }
+
+  // ---------- API 令牌 ----------
+  async createApiToken(token: ApiToken): Promise<void> {
+    this.apiTokens.set(token.token_hash, clone(token));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const token = this.apiTokens.get(tokenHash);
+    return token ? clone(token) : null;
+  }
+
+  async getUserApiTokens(userName: string): Promise<ApiToken[]> {
+    return clone(
+      Array.from(this.apiTokens.values()).filter(
+        (token) => token.username === userName
+      )
+    );
+  }
+
+  async getAllApiTokens(): Promise<ApiToken[]> {
+    return clone(Array.from(this.apiTokens.values()));
+  }
+
+  async touchApiToken(tokenHash: string, lastUsedAt: number): Promise<void> {
+    const token = this.apiTokens.get(tokenHash);
+    if (token) {
+      token.last_used_at = lastUsedAt;
+    }
+  }
+
+  async deleteApiToken(tokenHash: string): Promise<void> {
+    this.apiTokens.delete(tokenHash);
+  }
+
+  async deleteUserApiTokens(userName: string): Promise<void> {
+    this.apiTokens.forEach((token, hash) => {
+      if (token.username === userName) {
+        this.apiTokens.delete(hash);
+      }
+    });
+  }
+
+  // ---------- 登录失败计数 ----------
+  private getLiveLoginAttempt(key: string): LoginAttempt | null {
+    const entry = this.loginAttempts.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.loginAttempts.delete(key);
+      return null;
+    }
+    return entry.attempt;
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    const attempt = this.getLiveLoginAttempt(key);
+    return attempt ? clone(attempt) : null;
+  }
+
+  async setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void> {
+    this.loginAttempts.set(attempt.key, {
+      attempt: clone(attempt),
+      expiresAt: Date.now() + ttlMs,
+    });
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    this.loginAttempts.delete(key);
+  }
+
+  async getLockedLoginAttempts(): Promise<LoginAttempt[]> {
+    const now = Date.now();
+    const locked: LoginAttempt[] = [];
+    Array.from(this.loginAttempts.keys()).forEach((key) => {
+      const attempt = this.getLiveLoginAttempt(key);
+      if (attempt && attempt.locked_until > now) {
+        locked.push(clone(attempt));
+      }
+    });
+    return locked.sort((a, b) => b.locked_until - a.locked_until);
+  }
+
+  // ---------- 管理员配置 ----------
+  async getAdminConfig(): Promise<AdminConfig | null> {
+    return this.adminConfig ? clone(this.adminConfig) : null;
+  }
+
+  async setAdminConfig(config: AdminConfig): Promise<void> {
+    const expected = config.Version ?? 0;
+    if ((this.adminConfig?.Version ?? 0) !== expected) {
+      throw new AdminConfigConflictError();
+    }
+    this.adminConfig = clone({ ...config, Version: expected + 1 });
+    config.Version = this.adminConfig.Version;
+  }
+
+  // ---------- 跳过片头片尾配置 ----------
+  async getSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<SkipConfig | null> {
+    const config = this.userData
+      .get(userName)
+      ?.skipConfigs.get(`${source}+${id}`);
+    return config ? clone(config) : null;
+  }
+
+  async setSkipConfig(
+    userName: string,
+    source: string,
+    id: string,
+    config: SkipConfig
+  ): Promise<void> {
+    this.getUserData(userName).skipConfigs.set(
+      `${source}+${id}`,
+      clone(config)
+    );
+  }
+
+  async deleteSkipConfig(
+    userName: string,
+    source: string,
+    id: string
+  ): Promise<void> {
+    this.userData.get(userName)?.skipConfigs.delete(`${source}+${id}`);
+  }
+
+  async getAllSkipConfigs(
+    userName: string
+  ): Promise<{ [key: string]: SkipConfig }> {
+    const configs = this.userData.get(userName)?.skipConfigs;
+    return configs ? clone(Object.fromEntries(configs)) : {};
+  }
+
+  // ---------- 数据清理 ----------
+  async clearAllData(): Promise<void> {
+    this.passwords.clear();
+    this.userData.clear();
+    this.userRecords.clear();
+    this.sessions.clear();
+    this.twoFactors.clear();
+    this.apiTokens.clear();
+    this.loginAttempts.clear();
+    this.adminConfig = null;
+  }
+
+  // ---------- 数据备份 ----------
+  async listBackups(): Promise<BackupMeta[]> {
+    return Array.from(this.backups.values())
+      .map(({ meta }) => clone(meta))
+      .sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async getBackup(id: string): Promise<string | null> {
+    return this.backups.get(id)?.content ?? null;
+  }
+
+  async saveBackup(meta: BackupMeta, content: string): Promise<void> {
+    this.backups.set(meta.id, { meta: clone(meta), content });
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    this.backups.delete(id);
+  }
+
+  // ---------- 配置历史 ----------
+  async listConfigHistory(): Promise<ConfigHistoryMeta[]> {
+    return Array.from(this.configHistory.values())
+      .map(({ meta }) => clone(meta))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getConfigHistory(version: number): Promise<AdminConfig | null> {
+    const entry = this.configHistory.get(version);
+    return entry ? clone(entry.config) : null;
+  }
+
+  async saveConfigHistory(
+    meta: ConfigHistoryMeta,
+    config: AdminConfig
+  ): Promise<void> {
+    this.configHistory.set(meta.version, {
+      meta: clone(meta),
+      config: clone(config),
+    });
+  }
+
+  async deleteConfigHistory(version: number): Promise<void> {
+    this.configHistory.delete(version);
+  }
+
+  // ---------- 视频源健康检查 ----------
+  async addSourceHealthProbe(
+    probe: SourceHealthProbe,
+    keep: number
+  ): Promise<void> {
+    const probes = [
+      clone(probe),
+      ...(this.sourceHealth.get(probe.source) || []),
+    ]
+      .sort((a, b) => b.checked_at - a.checked_at)
+      .slice(0, keep);
+    this.sourceHealth.set(probe.source, probes);
+  }
+
+  async listSourceHealthProbes(
+    source: string,
+    limit: number
+  ): Promise<SourceHealthProbe[]> {
+    return (this.sourceHealth.get(source) || []).slice(0, limit).map(clone);
+  }
+
+  // ---------- 审计日志 ----------
+  async addAuditLog(entry: AuditLogEntry): Promise<void> {
+    this.auditLogs.push(clone(entry));
+  }
+
+  async listAuditLogs(
+    query: AuditLogQuery,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const matched = this.auditLogs
+      .filter((entry) => matchesAuditLogQuery(entry, query))
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return {
+      entries: matched.slice(offset, offset + limit).map(clone),
+      total: matched.length,
+    };
+  }
+
+  async deleteAuditLogsBefore(before: number): Promise<void> {
+    this.auditLogs = this.auditLogs.filter(
+      (entry) => entry.timestamp >= before
+    );
+  }
+
+  // ---------- 结构版本 ----------
+  async getSchemaVersion(): Promise<number> {
+    return this.schemaVersion;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    this.schemaVersion = version;
+  }
+
+  // 内存存储没有历史结构，无需迁移
+  getMigrations(): SchemaMigration[] {
+    return [];
+  }
+}
@@ -0,0 +1,87 @@
+/* eslint-disable no-console */
+
+import { getStorage } from './db';
+import { IStorage } from './types';
+
+// 存储中的结构版本高于当前程序支持的版本（通常是回退了程序版本）
+export class SchemaVersionError extends Error {
+  constructor(public current: number, public latest: number) {
+    super(
+      `存储结构版本为 ${current}，当前程序最高支持 ${latest}，请升级程序后再启动`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export interface SchemaStatus {
+  current: number; // 存储中记录的结构版本
+  latest: number; // 当前程序支持的最高版本
+  pending: { version: number; name: string }[]; // 待执行的迁移
+}
+
+/**
+ * 读取存储的结构版本与待执行的迁移
+ */
+export async function getSchemaStatus(
+  storage: IStorage = getStorage()
+): Promise<SchemaStatus> {
+  const migrations = storage.getMigrations();
+  const current = await storage.getSchemaVersion();
+  const latest = migrations.length
+    ? migrations[migrations.length - 1].version
+    : 0;
+  return {
+    current,
+    latest,
+    pending: migrations
+      .filter((m) => m.version > current)
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * 按版本顺序执行尚未应用的迁移，每完成一个即记录版本，中途失败时下次从失败处继续
+ * 存储版本高于程序支持的版本时抛出 SchemaVersionError，不做任何修改
+ * @returns 本次执行的迁移版本
+ */
+export async function runMigrations(
+  storage: IStorage = getStorage()
+): Promise<number[]> {
+  const { current, latest } = await getSchemaStatus(storage);
+  if (current > latest) {
+    throw new SchemaVersionError(current, latest);
+  }
+
+  const applied: number[] = [];
+  for (const migration of storage.getMigrations()) {
+    if (migration.version <= current) continue;
+    console.log(`执行存储结构迁移 ${migration.version}: ${migration.name}`);
+    await migration.up();
+    await storage.setSchemaVersion(migration.version);
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+// 进程内的启动迁移任务
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * 启动时确保存储结构为最新，进程内只执行一次；失败后下次调用重试
+ * 本地存储模式下直接返回
+ */
+export function ensureSchema(): Promise<void> {
+  const storage = getStorage();
+  if (!storage) return Promise.resolve();
+
+  if (!schemaReady) {
+    schemaReady = runMigrations(storage)
+      .then(() => undefined)
+      .catch((err) => {
+        schemaReady = null;
+        console.error('存储结构迁移失败:', err);
+        throw err;
+      });
+  }
+  return schemaReady;
+}
@@ -0,0 +1,121 @@
+/**
+ * 用户密码哈希工具
+ * 基于 WebCrypto PBKDF2，可同时运行在 Node 与 Edge Runtime
+ *
+ * 存储格式：pbkdf2$sha256$<迭代次数>$<盐(hex)>$<哈希(hex)>
+ */
+
+const HASH_PREFIX = 'pbkdf2';
+const HASH_ALGORITHM = 'sha256';
+// Cloudflare Workers 上 PBKDF2 迭代次数上限为 100000
+const DEFAULT_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(
+    hex.match(/.{1,2}/g)?.map((byte) => parseInt(byte, 16)) || []
+  );
+}
+
+// 常量时间比较，避免时序攻击
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function derive(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+/**
+ * 判断存储值是否已经是哈希格式（否则视为旧版明文密码）
+ */
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+/**
+ * 生成带随机盐的密码哈希
+ * @param password 明文密码
+ * @returns 可直接存储的哈希字符串
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, DEFAULT_ITERATIONS);
+  return [
+    HASH_PREFIX,
+    HASH_ALGORITHM,
+    DEFAULT_ITERATIONS,
+    toHex(salt),
+    hash,
+  ].join('$');
+}
+
+/**
+ * 校验密码
+ * @param password 用户输入的明文密码
+ * @param stored 存储的哈希（或旧版明文）
+ * @returns valid 是否匹配；needsRehash 为 true 时调用方应重新哈希后写回
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) {
+    // 旧版明文密码，校验通过后需要迁移为哈希
+    const valid = timingSafeEqual(stored, password);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, algorithm, iterationsRaw, saltHex, hashHex] = stored.split('$');
+  const iterations = Number(iterationsRaw);
+  if (
+    algorithm !== HASH_ALGORITHM ||
+    !Number.isFinite(iterations) ||
+    iterations <= 0 ||
+    !saltHex ||
+    !hashHex
+  ) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const computed = await derive(password, fromHex(saltHex), iterations);
+  const valid = timingSafeEqual(computed, hashHex);
+  return { valid, needsRehash: valid && iterations !== DEFAULT_ITERATIONS };
+}
+
+/**
+ * 确保值为哈希格式：已是哈希则原样返回，明文则哈希后返回
+ * 用于数据迁移导出等场景
+ */
+export async function ensurePasswordHash(stored: string): Promise<string> {
+  return isPasswordHash(stored) ? stored : hashPassword(stored);
+}
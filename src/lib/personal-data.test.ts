@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  buildPersonalData,
+  parsePersonalData,
+  PersonalData,
+  planPersonalImport,
+} from './personal-data';
+
+function playRecord(title: string, saveTime: number) {
+  return {
+    title,
+    source_name: '测试源',
+    cover: '',
+    year: '2024',
+    index: 1,
+    total_episodes: 12,
+    play_time: 60,
+    total_time: 1800,
+    save_time: saveTime,
+    search_title: '',
+  };
+}
+
+function dataOf(
+  overrides: Partial<PersonalData['data']> = {}
+): PersonalData['data'] {
+  return {
+    playRecords: {},
+    favorites: {},
+    searchHistory: [],
+    skipConfigs: {},
+    ...overrides,
+  };
+}
+
+describe('parsePersonalData', () => {
+  it('round-trips an exported file', () => {
+    const exported = buildPersonalData(
+      dataOf({
+        playRecords: { 'src1+1': playRecord('剧集', 1) },
+        searchHistory: ['关键词'],
+      }),
+      'alice'
+    );
+
+    expect(parsePersonalData(JSON.stringify(exported))).toEqual(exported);
+  });
+
+  it('rejects files that are not personal data exports', () => {
+    expect(() => parsePersonalData('not json')).toThrow('不是有效的 JSON');
+    expect(() => parsePersonalData('{"data":{}}')).toThrow(
+      '不是 MoonTV 个人数据文件'
+    );
+    expect(() =>
+      parsePersonalData(
+        JSON.stringify({
+          format: 'moontv-personal-data',
+          version: 99,
+          data: {},
+        })
+      )
+    ).toThrow('不支持的文件版本');
+  });
+
+  it('drops malformed entries', () => {
+    const parsed = parsePersonalData(
+      JSON.stringify({
+        format: 'moontv-personal-data',
+        version: 1,
+        data: {
+          playRecords: {
+            'src1+1': playRecord('剧集', 1),
+            nokey: playRecord('无效键', 1),
+            'src1+2': { title: '缺少保存时间' },
+          },
+          searchHistory: ['关键词', 42, ' '],
+        },
+      })
+    );
+
+    expect(Object.keys(parsed.data.playRecords)).toEqual(['src1+1']);
+    expect(parsed.data.searchHistory).toEqual(['关键词']);
+    expect(parsed.data.skipConfigs).toEqual({});
+  });
+});
+
+describe('planPersonalImport', () => {
+  it('merges by save_time and only fills in missing entries', () => {
+    const existing = dataOf({
+      playRecords: {
+        'src1+1': playRecord('当前较新', 20),
+        'src1+2': playRecord('当前较旧', 5),
+      },
+      searchHistory: ['共有', '当前'],
+      skipConfigs: {
+        'src1+1': { enable: true, intro_time: 10, outro_time: 0 },
+      },
+    });
+    const incoming = dataOf({
+      playRecords: {
+        'src1+1': playRecord('导入较旧', 10),
+        'src1+2': playRecord('导入较新', 10),
+        'src1+3': playRecord('导入新增', 1),
+      },
+      searchHistory: ['导入新', '共有', '导入旧'],
+      skipConfigs: {
+        'src1+1': { enable: false, intro_time: 0, outro_time: 0 },
+        'src1+2': { enable: true, intro_time: 90, outro_time: 0 },
+      },
+    });
+
+    const plan = planPersonalImport(existing, incoming);
+
+    expect(Object.keys(plan.playRecords).sort()).toEqual(['src1+2', 'src1+3']);
+    expect(plan.searchHistory).toEqual(['导入旧', '导入新']);
+    expect(Object.keys(plan.skipConfigs)).toEqual(['src1+2']);
+    expect(plan.summary).toEqual({
+      playRecords: { imported: 2, skipped: 1 },
+      favorites: { imported: 0, skipped: 0 },
+      searchHistory: { imported: 2, skipped: 1 },
+      skipConfigs: { imported: 1, skipped: 1 },
+    });
+  });
+});
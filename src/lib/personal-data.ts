@@ -0,0 +1,205 @@
+import type { Favorite, PlayRecord } from './db.client';
+import { SkipConfig } from './types';
+
+/**
+ * 个人数据导出格式（JSON，未加密）：
+ * {
+ *   "format": "moontv-personal-data",
+ *   "version": 1,
+ *   "exportedAt": "2024-01-01T00:00:00.000Z",
+ *   "username": "alice",              // localstorage 模式下可能为空
+ *   "data": {
+ *     "playRecords":   { "<source>+<id>": PlayRecord },
+ *     "favorites":     { "<source>+<id>": Favorite },
+ *     "searchHistory": ["最新的关键词", "..."],
+ *     "skipConfigs":   { "<source>+<id>": SkipConfig }
+ *   }
+ * }
+ * 导入时按条目合并：播放记录与收藏保留 save_time 较新的一方，
+ * 搜索历史与跳过配置只补充当前不存在的条目
+ */
+
+export const PERSONAL_DATA_FORMAT = 'moontv-personal-data';
+export const PERSONAL_DATA_VERSION = 1;
+
+export interface PersonalData {
+  format: typeof PERSONAL_DATA_FORMAT;
+  version: number;
+  exportedAt: string;
+  username?: string;
+  data: {
+    playRecords: Record<string, PlayRecord>;
+    favorites: Record<string, Favorite>;
+    searchHistory: string[];
+    skipConfigs: Record<string, SkipConfig>;
+  };
+}
+
+export type PersonalDataEntity = keyof PersonalData['data'];
+
+// 文件不是有效的个人数据导出，错误信息可直接展示给用户
+export class PersonalDataFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonalDataFormatError';
+  }
+}
+
+// 导入计划：需要写入的条目，以及各类数据写入与跳过的条数
+export interface PersonalImportPlan {
+  playRecords: Record<string, PlayRecord>;
+  favorites: Record<string, Favorite>;
+  searchHistory: string[]; // 按从旧到新排列，便于依次写入
+  skipConfigs: Record<string, SkipConfig>;
+  summary: Record<PersonalDataEntity, { imported: number; skipped: number }>;
+}
+
+export function buildPersonalData(
+  data: PersonalData['data'],
+  username?: string
+): PersonalData {
+  return {
+    format: PERSONAL_DATA_FORMAT,
+    version: PERSONAL_DATA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(username ? { username } : {}),
+    data,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 条目键必须为 source+id 形式，值必须为对象；不符合的条目直接丢弃
+function pickEntries<T>(
+  value: unknown,
+  isValid: (item: Record<string, unknown>) => boolean
+): Record<string, T> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    throw new PersonalDataFormatError('个人数据文件格式无效');
+  }
+  const result: Record<string, T> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const [source, id] = key.split('+');
+    if (source && id && isRecord(item) && isValid(item)) {
+      result[key] = item as T;
+    }
+  }
+  return result;
+}
+
+const hasSaveTime = (item: Record<string, unknown>) =>
+  typeof item.title === 'string' && typeof item.save_time === 'number';
+
+/**
+ * 解析并校验个人数据文件
+ */
+export function parsePersonalData(text: string): PersonalData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PersonalDataFormatError('文件不是有效的 JSON');
+  }
+
+  if (!isRecord(raw) || raw.format !== PERSONAL_DATA_FORMAT) {
+    throw new PersonalDataFormatError('不是 MoonTV 个人数据文件');
+  }
+  if (typeof raw.version !== 'number' || raw.version > PERSONAL_DATA_VERSION) {
+    throw new PersonalDataFormatError(
+      `不支持的文件版本: ${String(raw.version)}，请升级后再导入`
+    );
+  }
+  if (!isRecord(raw.data)) {
+    throw new PersonalDataFormatError('个人数据文件格式无效');
+  }
+
+  const { data } = raw;
+  const searchHistory = Array.isArray(data.searchHistory)
+    ? data.searchHistory.filter(
+        (keyword): keyword is string =>
+          typeof keyword === 'string' && keyword.trim() !== ''
+      )
+    : [];
+
+  return {
+    format: PERSONAL_DATA_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    ...(typeof raw.username === 'string' ? { username: raw.username } : {}),
+    data: {
+      playRecords: pickEntries<PlayRecord>(data.playRecords, hasSaveTime),
+      favorites: pickEntries<Favorite>(data.favorites, hasSaveTime),
+      searchHistory,
+      skipConfigs: pickEntries<SkipConfig>(
+        data.skipConfigs,
+        (item) => typeof item.enable === 'boolean'
+      ),
+    },
+  };
+}
+
+function mergeBySaveTime<T extends { save_time: number }>(
+  existing: Record<string, T>,
+  incoming: Record<string, T>
+) {
+  const writes: Record<string, T> = {};
+  let skipped = 0;
+  for (const [key, item] of Object.entries(incoming)) {
+    const current = existing[key];
+    if (!current || (item.save_time || 0) > (current.save_time || 0)) {
+      writes[key] = item;
+    } else {
+      skipped++;
+    }
+  }
+  return {
+    writes,
+    summary: { imported: Object.keys(writes).length, skipped },
+  };
+}
+
+/**
+ * 对比当前数据与导入文件，得出需要写入的条目
+ */
+export function planPersonalImport(
+  existing: PersonalData['data'],
+  incoming: PersonalData['data']
+): PersonalImportPlan {
+  const playRecords = mergeBySaveTime(
+    existing.playRecords,
+    incoming.playRecords
+  );
+  const favorites = mergeBySaveTime(existing.favorites, incoming.favorites);
+
+  const searchHistory = incoming.searchHistory
+    .filter((keyword) => !existing.searchHistory.includes(keyword))
+    .reverse();
+
+  const skipConfigs: Record<string, SkipConfig> = {};
+  for (const [key, config] of Object.entries(incoming.skipConfigs)) {
+    if (!(key in existing.skipConfigs)) skipConfigs[key] = config;
+  }
+
+  return {
+    playRecords: playRecords.writes,
+    favorites: favorites.writes,
+    searchHistory,
+    skipConfigs,
+    summary: {
+      playRecords: playRecords.summary,
+      favorites: favorites.summary,
+      searchHistory: {
+        imported: searchHistory.length,
+        skipped: incoming.searchHistory.length - searchHistory.length,
+      },
+      skipConfigs: {
+        imported: Object.keys(skipConfigs).length,
+        skipped:
+          Object.keys(incoming.skipConfigs).length -
+          Object.keys(skipConfigs).length,
+      },
+    },
+  };
+}
@@ -3,11 +3,42 @@
 import { createClient, RedisClientType } from 'redis';
 
 import { AdminConfig } from './admin.types';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import { ensurePasswordHash, hashPassword, verifyPassword } from './password';
+import {
+  DELETE_PLAY_RECORD_SCRIPT,
+  SET_ADMIN_CONFIG_SCRIPT,
+  SET_PLAY_RECORD_SCRIPT,
+} from './redis-scripts';
+import {
+  AdminConfigConflictError,
+  ApiToken,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuthSession,
+  BackupMeta,
+  ConfigHistoryMeta,
+  Favorite,
+  IStorage,
+  LoginAttempt,
+  matchesAuditLogQuery,
+  PlayRecord,
+  SchemaMigration,
+  SkipConfig,
+  SourceHealthProbe,
+  TwoFactorConfig,
+  UserRecord,
+} from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
 
+// 用户数据存储布局版本：2 表示播放记录、收藏、跳过配置以用户哈希存储
+const USER_DATA_LAYOUT_VERSION = '2';
+
+// 旧版按条目存储的 key 类型，迁移时逐类扫描
+const LEGACY_DATA_KINDS = ['pr', 'fav', 'skip'] as const;
+type LegacyDataKind = (typeof LEGACY_DATA_KINDS)[number];
+
 // 数据类型转换辅助函数
 function ensureString(value: any): string {
   return String(value);
@@ -140,27 +171,153 @@ export function createRedisClient(config: RedisConnectionConfig, globalSymbol: s
   return client;
 }
 
+/**
+ * 创建一次性客户端（如在线迁移的目标），不缓存到全局
+ * 连接超时即失败、断开后不再重连，调用方用完须 quit()
+ */
+export async function connectStandaloneRedisClient(config: RedisConnectionConfig): Promise<RedisClientType> {
+  const client: RedisClientType = createClient({
+    url: config.url,
+    socket: {
+      connectTimeout: 5000,
+      reconnectStrategy: false,
+      noDelay: true,
+    },
+  });
+
+  client.on('error', (err) => {
+    console.error(`${config.clientName} client error:`, err);
+  });
+
+  await client.connect();
+  return client;
+}
+
 // 抽象基类，包含所有通用的Redis操作逻辑
 export abstract class BaseRedisStorage implements IStorage {
   protected client: RedisClientType;
   protected withRetry: <T>(operation: () => Promise<T>, maxRetries?: number) => Promise<T>;
+  // 旧版 key 迁移任务，进程内只执行一次
+  private layoutMigration: Promise<void> | null = null;
 
-  constructor(config: RedisConnectionConfig, globalSymbol: symbol) {
-    this.client = createRedisClient(config, globalSymbol);
+  // 传入 client 时使用该客户端（见 connectStandaloneRedisClient），否则使用全局缓存的客户端
+  constructor(config: RedisConnectionConfig, globalSymbol: symbol, client?: RedisClientType) {
+    this.client = client ?? createRedisClient(config, globalSymbol);
     this.withRetry = createRetryWrapper(config.clientName, () => this.client);
   }
 
+  // 关闭连接，仅用于一次性客户端
+  async quit(): Promise<void> {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  // ---------- 旧版数据迁移 ----------
+  private dataLayoutKey() {
+    return 'migration:user_data_layout';
+  }
+
+  /**
+   * 确保旧版 u:{user}:pr:*、u:{user}:fav:*、u:{user}:skip:* 已迁移到用户哈希
+   * 迁移失败时下次访问重试
+   */
+  private ensureDataLayout(): Promise<void> {
+    if (!this.layoutMigration) {
+      this.layoutMigration = this.migrateLegacyDataKeys().catch((err) => {
+        this.layoutMigration = null;
+        throw err;
+      });
+    }
+    return this.layoutMigration;
+  }
+
+  private async migrateLegacyDataKeys(): Promise<void> {
+    const layout = await this.withRetry(() =>
+      this.client.get(this.dataLayoutKey())
+    );
+    if (layout === USER_DATA_LAYOUT_VERSION) return;
+
+    let migrated = 0;
+    for (const kind of LEGACY_DATA_KINDS) {
+      let cursor = 0;
+      do {
+        const reply = await this.withRetry(() =>
+          this.client.scan(cursor, { MATCH: `u:*:${kind}:*`, COUNT: 500 })
+        );
+        cursor = reply.cursor;
+        if (reply.keys.length === 0) continue;
+
+        const values = await this.withRetry(() => this.client.mGet(reply.keys));
+        for (let i = 0; i < reply.keys.length; i++) {
+          const match = reply.keys[i].match(/^u:(.+?):(?:pr|fav|skip):(.+)$/);
+          const raw = values[i];
+          if (match && raw) {
+            await this.migrateLegacyEntry(kind, match[1], match[2], raw);
+            migrated++;
+          }
+        }
+        await this.withRetry(() => this.client.del(reply.keys));
+      } while (cursor !== 0);
+    }
+
+    await this.withRetry(() =>
+      this.client.set(this.dataLayoutKey(), USER_DATA_LAYOUT_VERSION)
+    );
+    if (migrated > 0) {
+      console.log(`已迁移 ${migrated} 条用户数据到哈希存储`);
+    }
+  }
+
+  // 迁移单条旧数据；新布局中已存在的数据优先
+  private async migrateLegacyEntry(
+    kind: LegacyDataKind,
+    userName: string,
+    field: string,
+    raw: string
+  ): Promise<void> {
+    switch (kind) {
+      case 'pr': {
+        await this.withRetry(() =>
+          this.client.hSetNX(this.prHashKey(userName), field, raw)
+        );
+        const { title } = JSON.parse(raw) as PlayRecord;
+        if (title) {
+          await this.withRetry(() =>
+            this.client.hSetNX(this.prTitleKey(userName), title, field)
+          );
+        }
+        break;
+      }
+      case 'fav':
+        await this.withRetry(() =>
+          this.client.hSetNX(this.favHashKey(userName), field, raw)
+        );
+        break;
+      case 'skip':
+        await this.withRetry(() =>
+          this.client.hSetNX(this.skipHashKey(userName), field, raw)
+        );
+        break;
+    }
+  }
+
   // ---------- 播放记录 ----------
-  private prKey(user: string, key: string) {
-    return `u:${user}:pr:${key}`; // u:username:pr:source+id
+  private prHashKey(user: string) {
+    return `u:${user}:playrecords`; // field: source+id
+  }
+
+  private prTitleKey(user: string) {
+    return `u:${user}:playrecords:titles`; // field: title, value: source+id
   }
 
   async getPlayRecord(
     userName: string,
     key: string
   ): Promise<PlayRecord | null> {
+    await this.ensureDataLayout();
     const val = await this.withRetry(() =>
-      this.client.get(this.prKey(userName, key))
+      this.client.hGet(this.prHashKey(userName), key)
     );
     return val ? (JSON.parse(val) as PlayRecord) : null;
   }
@@ -170,59 +327,49 @@ export abstract class BaseRedisStorage implements IStorage {
     key: string,
     record: PlayRecord
   ): Promise<void> {
-    // 删除同名的旧记录
-    if (record.title) {
-      const pattern = `u:${userName}:pr:*`;
-      const allKeys: string[] = await this.withRetry(() => this.client.keys(pattern));
-      
-      for (const fullKey of allKeys) {
-        const val = await this.withRetry(() => this.client.get(fullKey));
-        if (val) {
-          const existingRecord = JSON.parse(val) as PlayRecord;
-          // 如果找到同名但不是当前key的记录，则删除它
-          if (existingRecord.title === record.title && fullKey !== this.prKey(userName, key)) {
-            await this.withRetry(() => this.client.del(fullKey));
-          }
-        }
-      }
-    }
+    await this.ensureDataLayout();
+    // 同名的旧记录由脚本通过标题索引删除
     await this.withRetry(() =>
-      this.client.set(this.prKey(userName, key), JSON.stringify(record))
+      this.client.eval(SET_PLAY_RECORD_SCRIPT, {
+        keys: [this.prHashKey(userName), this.prTitleKey(userName)],
+        arguments: [key, JSON.stringify(record), record.title || ''],
+      })
     );
   }
 
   async getAllPlayRecords(
     userName: string
   ): Promise<Record<string, PlayRecord>> {
-    const pattern = `u:${userName}:pr:*`;
-    const keys: string[] = await this.withRetry(() => this.client.keys(pattern));
-    if (keys.length === 0) return {};
-    const values = await this.withRetry(() => this.client.mGet(keys));
+    await this.ensureDataLayout();
+    const values = await this.withRetry(() =>
+      this.client.hGetAll(this.prHashKey(userName))
+    );
     const result: Record<string, PlayRecord> = {};
-    keys.forEach((fullKey: string, idx: number) => {
-      const raw = values[idx];
-      if (raw) {
-        const rec = JSON.parse(raw) as PlayRecord;
-        // 截取 source+id 部分
-        const keyPart = ensureString(fullKey.replace(`u:${userName}:pr:`, ''));
-        result[keyPart] = rec;
-      }
-    });
+    for (const [field, raw] of Object.entries(values)) {
+      result[ensureString(field)] = JSON.parse(raw) as PlayRecord;
+    }
     return result;
   }
 
   async deletePlayRecord(userName: string, key: string): Promise<void> {
-    await this.withRetry(() => this.client.del(this.prKey(userName, key)));
+    await this.ensureDataLayout();
+    await this.withRetry(() =>
+      this.client.eval(DELETE_PLAY_RECORD_SCRIPT, {
+        keys: [this.prHashKey(userName), this.prTitleKey(userName)],
+        arguments: [key],
+      })
+    );
   }
 
   // ---------- 收藏 ----------
-  private favKey(user: string, key: string) {
-    return `u:${user}:fav:${key}`;
+  private favHashKey(user: string) {
+    return `u:${user}:favorites`; // field: source+id
   }
 
   async getFavorite(userName: string, key: string): Promise<Favorite | null> {
+    await this.ensureDataLayout();
     const val = await this.withRetry(() =>
-      this.client.get(this.favKey(userName, key))
+      this.client.hGet(this.favHashKey(userName), key)
     );
     return val ? (JSON.parse(val) as Favorite) : null;
   }
@@ -232,30 +379,29 @@ export abstract class BaseRedisStorage implements IStorage {
     key: string,
     favorite: Favorite
   ): Promise<void> {
+    await this.ensureDataLayout();
     await this.withRetry(() =>
-      this.client.set(this.favKey(userName, key), JSON.stringify(favorite))
+      this.client.hSet(this.favHashKey(userName), key, JSON.stringify(favorite))
     );
   }
 
   async getAllFavorites(userName: string): Promise<Record<string, Favorite>> {
-    const pattern = `u:${userName}:fav:*`;
-    const keys: string[] = await this.withRetry(() => this.client.keys(pattern));
-    if (keys.length === 0) return {};
-    const values = await this.withRetry(() => this.client.mGet(keys));
+    await this.ensureDataLayout();
+    const values = await this.withRetry(() =>
+      this.client.hGetAll(this.favHashKey(userName))
+    );
     const result: Record<string, Favorite> = {};
-    keys.forEach((fullKey: string, idx: number) => {
-      const raw = values[idx];
-      if (raw) {
-        const fav = JSON.parse(raw) as Favorite;
-        const keyPart = ensureString(fullKey.replace(`u:${userName}:fav:`, ''));
-        result[keyPart] = fav;
-      }
-    });
+    for (const [field, raw] of Object.entries(values)) {
+      result[ensureString(field)] = JSON.parse(raw) as Favorite;
+    }
     return result;
   }
 
   async deleteFavorite(userName: string, key: string): Promise<void> {
-    await this.withRetry(() => this.client.del(this.favKey(userName, key)));
+    await this.ensureDataLayout();
+    await this.withRetry(() =>
+      this.client.hDel(this.favHashKey(userName), key)
+    );
   }
 
   // ---------- 用户注册 / 登录 ----------
@@ -264,8 +410,10 @@ export abstract class BaseRedisStorage implements IStorage {
   }
 
   async registerUser(userName: string, password: string): Promise<void> {
-    // 简单存储明文密码，生产环境应加密
-    await this.withRetry(() => this.client.set(this.userPwdKey(userName), password));
+    const passwordHash = await hashPassword(password);
+    await this.withRetry(() =>
+      this.client.set(this.userPwdKey(userName), passwordHash)
+    );
   }
 
   async verifyUser(userName: string, password: string): Promise<boolean> {
@@ -274,7 +422,15 @@ export abstract class BaseRedisStorage implements IStorage {
     );
     if (stored === null) return false;
     // 确保比较时都是字符串类型
-    return ensureString(stored) === password;
+    const { valid, needsRehash } = await verifyPassword(
+      password,
+      ensureString(stored)
+    );
+    // 旧版明文密码在登录成功后透明迁移为哈希
+    if (valid && needsRehash) {
+      await this.changePassword(userName, password);
+    }
+    return valid;
   }
 
   // 检查用户是否存在
@@ -288,9 +444,23 @@ export abstract class BaseRedisStorage implements IStorage {
 
   // 修改用户密码
   async changePassword(userName: string, newPassword: string): Promise<void> {
-    // 简单存储明文密码，生产环境应加密
+    const passwordHash = await hashPassword(newPassword);
+    await this.withRetry(() =>
+      this.client.set(this.userPwdKey(userName), passwordHash)
+    );
+  }
+
+  async getPasswordHash(userName: string): Promise<string | null> {
+    const stored = await this.withRetry(() =>
+      this.client.get(this.userPwdKey(userName))
+    );
+    if (stored === null) return null;
+    return ensurePasswordHash(ensureString(stored));
+  }
+
+  async setPasswordHash(userName: string, passwordHash: string): Promise<void> {
     await this.withRetry(() =>
-      this.client.set(this.userPwdKey(userName), newPassword)
+      this.client.set(this.userPwdKey(userName), passwordHash)
     );
   }
 
@@ -302,32 +472,22 @@ export abstract class BaseRedisStorage implements IStorage {
     // 删除搜索历史
     await this.withRetry(() => this.client.del(this.shKey(userName)));
 
-    // 删除播放记录
-    const playRecordPattern = `u:${userName}:pr:*`;
-    const playRecordKeys = await this.withRetry(() =>
-      this.client.keys(playRecordPattern)
-    );
-    if (playRecordKeys.length > 0) {
-      await this.withRetry(() => this.client.del(playRecordKeys));
-    }
-
-    // 删除收藏夹
-    const favoritePattern = `u:${userName}:fav:*`;
-    const favoriteKeys = await this.withRetry(() =>
-      this.client.keys(favoritePattern)
-    );
-    if (favoriteKeys.length > 0) {
-      await this.withRetry(() => this.client.del(favoriteKeys));
-    }
+    // 删除账户记录、登录会话、两步验证配置与 API 令牌
+    await this.deleteUserRecord(userName);
+    await this.deleteUserSessions(userName);
+    await this.deleteTwoFactor(userName);
+    await this.deleteUserApiTokens(userName);
 
-    // 删除跳过片头片尾配置
-    const skipConfigPattern = `u:${userName}:skip:*`;
-    const skipConfigKeys = await this.withRetry(() =>
-      this.client.keys(skipConfigPattern)
+    // 删除播放记录、收藏夹与跳过片头片尾配置
+    await this.ensureDataLayout();
+    await this.withRetry(() =>
+      this.client.del([
+        this.prHashKey(userName),
+        this.prTitleKey(userName),
+        this.favHashKey(userName),
+        this.skipHashKey(userName),
+      ])
     );
-    if (skipConfigKeys.length > 0) {
-      await this.withRetry(() => this.client.del(skipConfigKeys));
-    }
   }
 
   // ---------- 搜索历史 ----------
@@ -373,25 +533,387 @@ export abstract class BaseRedisStorage implements IStorage {
       .filter((u): u is string => typeof u === 'string');
   }
 
+  // ---------- 用户账户记录 ----------
+  private userInfoKey(user: string) {
+    return `u:${user}:info`;
+  }
+
+  private userOnlineKey(user: string) {
+    return `u:${user}:online`; // 在线时间单独存放，心跳更新不覆盖账户记录
+  }
+
+  private userRegistryKey() {
+    return 'users'; // 有序集合，score 为加入时间，用于分页
+  }
+
+  private async getUserRecordsByNames(
+    userNames: string[]
+  ): Promise<UserRecord[]> {
+    if (userNames.length === 0) return [];
+    const infos = await this.withRetry(() =>
+      this.client.mGet(userNames.map((u) => this.userInfoKey(u)))
+    );
+    const onlines = await this.withRetry(() =>
+      this.client.mGet(userNames.map((u) => this.userOnlineKey(u)))
+    );
+    const records: UserRecord[] = [];
+    infos.forEach((raw, i) => {
+      if (!raw) return;
+      const record = JSON.parse(raw) as UserRecord;
+      if (onlines[i]) {
+        record.lastOnline = Number(onlines[i]);
+      }
+      records.push(record);
+    });
+    return records;
+  }
+
+  async getUserRecord(userName: string): Promise<UserRecord | null> {
+    const [record] = await this.getUserRecordsByNames([userName]);
+    return record ?? null;
+  }
+
+  async setUserRecord(record: UserRecord): Promise<void> {
+    const { lastOnline, ...info } = record;
+    await this.withRetry(() =>
+      this.client.set(this.userInfoKey(record.username), JSON.stringify(info))
+    );
+    if (lastOnline) {
+      await this.setUserLastOnline(record.username, lastOnline);
+    }
+    // NX：更新记录时保持原有排序位置
+    await this.withRetry(() =>
+      this.client.zAdd(
+        this.userRegistryKey(),
+        { score: record.created_at, value: record.username },
+        { NX: true }
+      )
+    );
+  }
+
+  async deleteUserRecord(userName: string): Promise<void> {
+    await this.withRetry(() =>
+      this.client.del([this.userInfoKey(userName), this.userOnlineKey(userName)])
+    );
+    await this.withRetry(() =>
+      this.client.zRem(this.userRegistryKey(), userName)
+    );
+  }
+
+  async listUserRecords(
+    offset: number,
+    limit: number
+  ): Promise<{ users: UserRecord[]; total: number }> {
+    const total = await this.withRetry(() =>
+      this.client.zCard(this.userRegistryKey())
+    );
+    const userNames = await this.withRetry(() =>
+      this.client.zRange(this.userRegistryKey(), offset, offset + limit - 1)
+    );
+    return { users: await this.getUserRecordsByNames(userNames), total };
+  }
+
+  async setUserLastOnline(userName: string, lastOnline: number): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.userOnlineKey(userName), String(lastOnline))
+    );
+  }
+
+  // ---------- 登录会话 ----------
+  private sessionKey(sessionId: string) {
+    return `session:${sessionId}`;
+  }
+
+  private userSessionsKey(user: string) {
+    return `u:${user}:sessions`; // 用户的会话 ID 集合
+  }
+
+  async createSession(session: AuthSession): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.sessionKey(session.id), JSON.stringify(session), {
+        PXAT: session.expires_at,
+      })
+    );
+    await this.withRetry(() =>
+      this.client.sAdd(this.userSessionsKey(session.username), session.id)
+    );
+  }
+
+  async getSession(sessionId: string): Promise<AuthSession | null> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.sessionKey(sessionId))
+    );
+    return val ? (JSON.parse(val) as AuthSession) : null;
+  }
+
+  async touchSession(sessionId: string, lastSeen: number): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) return;
+    session.last_seen = lastSeen;
+    await this.withRetry(() =>
+      this.client.set(this.sessionKey(sessionId), JSON.stringify(session), {
+        PXAT: session.expires_at,
+      })
+    );
+  }
+
+  async getUserSessions(userName: string): Promise<AuthSession[]> {
+    const ids = await this.withRetry(() =>
+      this.client.sMembers(this.userSessionsKey(userName))
+    );
+    if (ids.length === 0) return [];
+    const values = await this.withRetry(() =>
+      this.client.mGet(ids.map((id) => this.sessionKey(id)))
+    );
+    const sessions: AuthSession[] = [];
+    const expiredIds: string[] = [];
+    ids.forEach((id, idx) => {
+      const raw = values[idx];
+      if (raw) {
+        sessions.push(JSON.parse(raw) as AuthSession);
+      } else {
+        expiredIds.push(id);
+      }
+    });
+    // 清理已过期的会话 ID
+    if (expiredIds.length > 0) {
+      await this.withRetry(() =>
+        this.client.sRem(this.userSessionsKey(userName), expiredIds)
+      );
+    }
+    return sessions;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    await this.withRetry(() => this.client.del(this.sessionKey(sessionId)));
+    if (session) {
+      await this.withRetry(() =>
+        this.client.sRem(this.userSessionsKey(session.username), sessionId)
+      );
+    }
+  }
+
+  async deleteUserSessions(userName: string): Promise<void> {
+    const ids = await this.withRetry(() =>
+      this.client.sMembers(this.userSessionsKey(userName))
+    );
+    if (ids.length > 0) {
+      await this.withRetry(() =>
+        this.client.del(ids.map((id) => this.sessionKey(id)))
+      );
+    }
+    await this.withRetry(() => this.client.del(this.userSessionsKey(userName)));
+  }
+
+  // ---------- 两步验证 ----------
+  private twoFactorKey(user: string) {
+    return `u:${user}:2fa`;
+  }
+
+  async getTwoFactor(userName: string): Promise<TwoFactorConfig | null> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.twoFactorKey(userName))
+    );
+    return val ? (JSON.parse(val) as TwoFactorConfig) : null;
+  }
+
+  async setTwoFactor(userName: string, config: TwoFactorConfig): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.twoFactorKey(userName), JSON.stringify(config))
+    );
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await this.withRetry(() => this.client.del(this.twoFactorKey(userName)));
+  }
+
+  // ---------- API 令牌 ----------
+  private apiTokenKey(tokenHash: string) {
+    return `apitoken:${tokenHash}`;
+  }
+
+  private userApiTokensKey(user: string) {
+    return `u:${user}:apitokens`; // 用户的令牌哈希集合
+  }
+
+  private allApiTokensKey() {
+    return 'apitokens'; // 全部令牌哈希集合，供管理员审计
+  }
+
+  private async getApiTokensByHashes(hashes: string[]): Promise<ApiToken[]> {
+    if (hashes.length === 0) return [];
+    const values = await this.withRetry(() =>
+      this.client.mGet(hashes.map((h) => this.apiTokenKey(h)))
+    );
+    return values
+      .filter((raw): raw is string => !!raw)
+      .map((raw) => JSON.parse(raw) as ApiToken);
+  }
+
+  async createApiToken(token: ApiToken): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.apiTokenKey(token.token_hash), JSON.stringify(token))
+    );
+    await this.withRetry(() =>
+      this.client.sAdd(this.userApiTokensKey(token.username), token.token_hash)
+    );
+    await this.withRetry(() =>
+      this.client.sAdd(this.allApiTokensKey(), token.token_hash)
+    );
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.apiTokenKey(tokenHash))
+    );
+    return val ? (JSON.parse(val) as ApiToken) : null;
+  }
+
+  async getUserApiTokens(userName: string): Promise<ApiToken[]> {
+    const hashes = await this.withRetry(() =>
+      this.client.sMembers(this.userApiTokensKey(userName))
+    );
+    return this.getApiTokensByHashes(hashes);
+  }
+
+  async getAllApiTokens(): Promise<ApiToken[]> {
+    const hashes = await this.withRetry(() =>
+      this.client.sMembers(this.allApiTokensKey())
+    );
+    return this.getApiTokensByHashes(hashes);
+  }
+
+  async touchApiToken(tokenHash: string, lastUsedAt: number): Promise<void> {
+    const token = await this.getApiTokenByHash(tokenHash);
+    if (!token) return;
+    token.last_used_at = lastUsedAt;
+    await this.withRetry(() =>
+      this.client.set(this.apiTokenKey(tokenHash), JSON.stringify(token))
+    );
+  }
+
+  async deleteApiToken(tokenHash: string): Promise<void> {
+    const token = await this.getApiTokenByHash(tokenHash);
+    await this.withRetry(() => this.client.del(this.apiTokenKey(tokenHash)));
+    if (token) {
+      await this.withRetry(() =>
+        this.client.sRem(this.userApiTokensKey(token.username), tokenHash)
+      );
+    }
+    await this.withRetry(() =>
+      this.client.sRem(this.allApiTokensKey(), tokenHash)
+    );
+  }
+
+  async deleteUserApiTokens(userName: string): Promise<void> {
+    const hashes = await this.withRetry(() =>
+      this.client.sMembers(this.userApiTokensKey(userName))
+    );
+    if (hashes.length > 0) {
+      await this.withRetry(() =>
+        this.client.del(hashes.map((h) => this.apiTokenKey(h)))
+      );
+      await this.withRetry(() =>
+        this.client.sRem(this.allApiTokensKey(), hashes)
+      );
+    }
+    await this.withRetry(() =>
+      this.client.del(this.userApiTokensKey(userName))
+    );
+  }
+
+  // ---------- 登录失败计数 ----------
+  private loginAttemptKey(key: string) {
+    return `login:attempt:${key}`;
+  }
+
+  private loginLockedKey() {
+    return 'login:locked'; // 有序集合，score 为锁定截止时间
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.loginAttemptKey(key))
+    );
+    return val ? (JSON.parse(val) as LoginAttempt) : null;
+  }
+
+  async setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.loginAttemptKey(attempt.key), JSON.stringify(attempt), {
+        PX: ttlMs,
+      })
+    );
+    if (attempt.locked_until > Date.now()) {
+      await this.withRetry(() =>
+        this.client.zAdd(this.loginLockedKey(), {
+          score: attempt.locked_until,
+          value: attempt.key,
+        })
+      );
+    } else {
+      await this.withRetry(() =>
+        this.client.zRem(this.loginLockedKey(), attempt.key)
+      );
+    }
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    await this.withRetry(() => this.client.del(this.loginAttemptKey(key)));
+    await this.withRetry(() => this.client.zRem(this.loginLockedKey(), key));
+  }
+
+  async getLockedLoginAttempts(): Promise<LoginAttempt[]> {
+    const now = Date.now();
+    // 清理已过期的锁定
+    await this.withRetry(() =>
+      this.client.zRemRangeByScore(this.loginLockedKey(), '-inf', now)
+    );
+    const keys = await this.withRetry(() =>
+      this.client.zRangeByScore(this.loginLockedKey(), now, '+inf')
+    );
+    if (keys.length === 0) return [];
+    const values = await this.withRetry(() =>
+      this.client.mGet(keys.map((k) => this.loginAttemptKey(k)))
+    );
+    return values
+      .filter((raw): raw is string => !!raw)
+      .map((raw) => JSON.parse(raw) as LoginAttempt);
+  }
+
   // ---------- 管理员配置 ----------
   private adminConfigKey() {
     return 'admin:config';
   }
 
+  private adminConfigVersionKey() {
+    return 'admin:config:version';
+  }
+
   async getAdminConfig(): Promise<AdminConfig | null> {
     const val = await this.withRetry(() => this.client.get(this.adminConfigKey()));
     return val ? (JSON.parse(val) as AdminConfig) : null;
   }
 
   async setAdminConfig(config: AdminConfig): Promise<void> {
-    await this.withRetry(() =>
-      this.client.set(this.adminConfigKey(), JSON.stringify(config))
+    const expected = config.Version ?? 0;
+    const next = { ...config, Version: expected + 1 };
+    const written = await this.withRetry(() =>
+      this.client.eval(SET_ADMIN_CONFIG_SCRIPT, {
+        keys: [this.adminConfigKey(), this.adminConfigVersionKey()],
+        arguments: [String(expected), JSON.stringify(next), String(next.Version)],
+      })
     );
+    if (written !== 1) {
+      throw new AdminConfigConflictError();
+    }
+    config.Version = next.Version;
   }
 
   // ---------- 跳过片头片尾配置 ----------
-  private skipConfigKey(user: string, source: string, id: string) {
-    return `u:${user}:skip:${source}+${id}`;
+  private skipHashKey(user: string) {
+    return `u:${user}:skipconfigs`; // field: source+id
   }
 
   async getSkipConfig(
@@ -399,8 +921,9 @@ export abstract class BaseRedisStorage implements IStorage {
     source: string,
     id: string
   ): Promise<SkipConfig | null> {
+    await this.ensureDataLayout();
     const val = await this.withRetry(() =>
-      this.client.get(this.skipConfigKey(userName, source, id))
+      this.client.hGet(this.skipHashKey(userName), `${source}+${id}`)
     );
     return val ? (JSON.parse(val) as SkipConfig) : null;
   }
@@ -411,9 +934,11 @@ export abstract class BaseRedisStorage implements IStorage {
     id: string,
     config: SkipConfig
   ): Promise<void> {
+    await this.ensureDataLayout();
     await this.withRetry(() =>
-      this.client.set(
-        this.skipConfigKey(userName, source, id),
+      this.client.hSet(
+        this.skipHashKey(userName),
+        `${source}+${id}`,
         JSON.stringify(config)
       )
     );
@@ -424,38 +949,24 @@ export abstract class BaseRedisStorage implements IStorage {
     source: string,
     id: string
   ): Promise<void> {
+    await this.ensureDataLayout();
     await this.withRetry(() =>
-      this.client.del(this.skipConfigKey(userName, source, id))
+      this.client.hDel(this.skipHashKey(userName), `${source}+${id}`)
     );
   }
 
   async getAllSkipConfigs(
     userName: string
   ): Promise<{ [key: string]: SkipConfig }> {
-    const pattern = `u:${userName}:skip:*`;
-    const keys = await this.withRetry(() => this.client.keys(pattern));
-
-    if (keys.length === 0) {
-      return {};
-    }
+    await this.ensureDataLayout();
+    const values = await this.withRetry(() =>
+      this.client.hGetAll(this.skipHashKey(userName))
+    );
 
     const configs: { [key: string]: SkipConfig } = {};
-
-    // 批量获取所有配置
-    const values = await this.withRetry(() => this.client.mGet(keys));
-
-    keys.forEach((key, index) => {
-      const value = values[index];
-      if (value) {
-        // 从key中提取source+id
-        const match = key.match(/^u:.+?:skip:(.+)$/);
-        if (match) {
-          const sourceAndId = match[1];
-          configs[sourceAndId] = JSON.parse(value as string) as SkipConfig;
-        }
-      }
-    });
-
+    for (const [sourceAndId, value] of Object.entries(values)) {
+      configs[sourceAndId] = JSON.parse(value) as SkipConfig;
+    }
     return configs;
   }
 
@@ -470,8 +981,18 @@ export abstract class BaseRedisStorage implements IStorage {
         await this.deleteUser(username);
       }
 
+      // 删除没有密码的账户记录（如站长）
+      const registered = await this.withRetry(() =>
+        this.client.zRange(this.userRegistryKey(), 0, -1)
+      );
+      for (const username of registered) {
+        await this.deleteUserRecord(username);
+      }
+
       // 删除管理员配置
-      await this.withRetry(() => this.client.del(this.adminConfigKey()));
+      await this.withRetry(() =>
+        this.client.del([this.adminConfigKey(), this.adminConfigVersionKey()])
+      );
 
       console.log('所有数据已清空');
     } catch (error) {
@@ -479,4 +1000,184 @@ export abstract class BaseRedisStorage implements IStorage {
       throw new Error('清空数据失败');
     }
   }
+
+  // ---------- 数据备份 ----------
+  private backupMetaKey() {
+    return 'backups'; // field: 备份 ID
+  }
+
+  private backupKey(id: string) {
+    return `backup:${id}`;
+  }
+
+  async listBackups(): Promise<BackupMeta[]> {
+    const values = await this.withRetry(() =>
+      this.client.hGetAll(this.backupMetaKey())
+    );
+    return Object.values(values)
+      .map((raw) => JSON.parse(raw) as BackupMeta)
+      .sort((a, b) => b.created_at - a.created_at);
+  }
+
+  async getBackup(id: string): Promise<string | null> {
+    return this.withRetry(() => this.client.get(this.backupKey(id)));
+  }
+
+  async saveBackup(meta: BackupMeta, content: string): Promise<void> {
+    await this.withRetry(() => this.client.set(this.backupKey(meta.id), content));
+    await this.withRetry(() =>
+      this.client.hSet(this.backupMetaKey(), meta.id, JSON.stringify(meta))
+    );
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    await this.withRetry(() => this.client.hDel(this.backupMetaKey(), id));
+    await this.withRetry(() => this.client.del(this.backupKey(id)));
+  }
+
+  // ---------- 配置历史 ----------
+  private configHistoryMetaKey() {
+    return 'admin:config:history'; // field: 配置版本号
+  }
+
+  private configHistoryKey(version: number) {
+    return `admin:config:history:${version}`;
+  }
+
+  async listConfigHistory(): Promise<ConfigHistoryMeta[]> {
+    const values = await this.withRetry(() =>
+      this.client.hGetAll(this.configHistoryMetaKey())
+    );
+    return Object.values(values)
+      .map((raw) => JSON.parse(raw) as ConfigHistoryMeta)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getConfigHistory(version: number): Promise<AdminConfig | null> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.configHistoryKey(version))
+    );
+    return val ? (JSON.parse(val) as AdminConfig) : null;
+  }
+
+  async saveConfigHistory(
+    meta: ConfigHistoryMeta,
+    config: AdminConfig
+  ): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(
+        this.configHistoryKey(meta.version),
+        JSON.stringify(config)
+      )
+    );
+    await this.withRetry(() =>
+      this.client.hSet(
+        this.configHistoryMetaKey(),
+        String(meta.version),
+        JSON.stringify(meta)
+      )
+    );
+  }
+
+  async deleteConfigHistory(version: number): Promise<void> {
+    await this.withRetry(() =>
+      this.client.hDel(this.configHistoryMetaKey(), String(version))
+    );
+    await this.withRetry(() => this.client.del(this.configHistoryKey(version)));
+  }
+
+  // ---------- 视频源健康检查 ----------
+  private sourceHealthKey(source: string) {
+    return `source:health:${source}`; // 列表，最新的探测结果在前
+  }
+
+  async addSourceHealthProbe(
+    probe: SourceHealthProbe,
+    keep: number
+  ): Promise<void> {
+    const key = this.sourceHealthKey(probe.source);
+    await this.withRetry(() => this.client.lPush(key, JSON.stringify(probe)));
+    await this.withRetry(() => this.client.lTrim(key, 0, keep - 1));
+  }
+
+  async listSourceHealthProbes(
+    source: string,
+    limit: number
+  ): Promise<SourceHealthProbe[]> {
+    const values = await this.withRetry(() =>
+      this.client.lRange(this.sourceHealthKey(source), 0, limit - 1)
+    );
+    return values.map((raw) => JSON.parse(raw) as SourceHealthProbe);
+  }
+
+  // ---------- 审计日志 ----------
+  private auditLogKey() {
+    return 'audit_log'; // 有序集合，score 为操作时间，member 为日志 JSON
+  }
+
+  async addAuditLog(entry: AuditLogEntry): Promise<void> {
+    await this.withRetry(() =>
+      this.client.zAdd(this.auditLogKey(), {
+        score: entry.timestamp,
+        value: JSON.stringify(entry),
+      })
+    );
+  }
+
+  async listAuditLogs(
+    query: AuditLogQuery,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    // 日志量受保留期限约束，按时间范围取出后在内存中筛选
+    const values = await this.withRetry(() =>
+      this.client.zRangeByScore(
+        this.auditLogKey(),
+        query.since ?? '-inf',
+        query.until ?? '+inf'
+      )
+    );
+    const matched = values
+      .map((raw) => JSON.parse(raw) as AuditLogEntry)
+      .filter((entry) => matchesAuditLogQuery(entry, query))
+      .reverse();
+    return {
+      entries: matched.slice(offset, offset + limit),
+      total: matched.length,
+    };
+  }
+
+  async deleteAuditLogsBefore(before: number): Promise<void> {
+    await this.withRetry(() =>
+      this.client.zRemRangeByScore(this.auditLogKey(), 0, before - 1)
+    );
+  }
+
+  // ---------- 结构版本 ----------
+  private schemaVersionKey() {
+    return 'schema:version';
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const val = await this.withRetry(() =>
+      this.client.get(this.schemaVersionKey())
+    );
+    return val ? Number(val) : 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.withRetry(() =>
+      this.client.set(this.schemaVersionKey(), String(version))
+    );
+  }
+
+  getMigrations(): SchemaMigration[] {
+    return [
+      {
+        version: 1,
+        name: 'user_data_hashes',
+        up: () => this.ensureDataLayout(),
+      },
+    ];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Redis 与 Upstash 存储共用的 Lua 脚本，保证多步读写的原子性
+ */
+
+// 管理员配置比较并写入：版本号与预期一致时才写入配置与新版本号
+export const SET_ADMIN_CONFIG_SCRIPT = `
+if (redis.call('GET', KEYS[2]) or '0') ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[2], ARGV[3])
+return 1
+`;
+
+// 写入播放记录：同名（title）的其他记录会被删除，并维护标题索引
+// KEYS[1] 播放记录哈希，KEYS[2] 标题索引哈希；ARGV[1] source+id，ARGV[2] 记录 JSON，ARGV[3] 标题
+export const SET_PLAY_RECORD_SCRIPT = `
+local prev = redis.call('HGET', KEYS[1], ARGV[1])
+if prev then
+  local prevTitle = cjson.decode(prev).title
+  if type(prevTitle) == 'string' and prevTitle ~= ARGV[3] and redis.call('HGET', KEYS[2], prevTitle) == ARGV[1] then
+    redis.call('HDEL', KEYS[2], prevTitle)
+  end
+end
+if ARGV[3] ~= '' then
+  local existing = redis.call('HGET', KEYS[2], ARGV[3])
+  if existing and existing ~= ARGV[1] then
+    redis.call('HDEL', KEYS[1], existing)
+  end
+  redis.call('HSET', KEYS[2], ARGV[3], ARGV[1])
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`;
+
+// 删除播放记录并清理指向它的标题索引
+export const DELETE_PLAY_RECORD_SCRIPT = `
+local prev = redis.call('HGET', KEYS[1], ARGV[1])
+if not prev then
+  return 0
+end
+local title = cjson.decode(prev).title
+if type(title) == 'string' and redis.call('HGET', KEYS[2], title) == ARGV[1] then
+  redis.call('HDEL', KEYS[2], title)
+end
+redis.call('HDEL', KEYS[1], ARGV[1])
+return 1
+`;
@@ -0,0 +1,165 @@
+/* eslint-disable no-console */
+
+import { NextRequest } from 'next/server';
+
+import { AuthCookieInfo, parseAuthCookie } from './auth';
+import { getStorage } from './db';
+import { AuthSession } from './types';
+
+// 会话有效期：7 天（与认证 cookie 过期时间一致）
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 最近活跃时间的刷新间隔，避免每个请求都写存储
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+function generateSessionId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 根据 User-Agent 生成简短的设备描述，如 "Chrome · Windows"
+ */
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return '未知设备';
+
+  let browser = '未知浏览器';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\//.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+  else if (/okhttp/i.test(userAgent)) browser = 'TVBox';
+
+  let os = '';
+  if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Mac OS X/.test(userAgent)) os = 'macOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return os ? `${browser} · ${os}` : browser;
+}
+
+/**
+ * 为用户创建新的登录会话
+ */
+export async function createSession(
+  username: string,
+  device: string,
+  ip?: string
+): Promise<AuthSession> {
+  const now = Date.now();
+  const session: AuthSession = {
+    id: generateSessionId(),
+    username,
+    device,
+    ip,
+    created_at: now,
+    last_seen: now,
+    expires_at: now + SESSION_TTL_MS,
+  };
+  await getStorage().createSession(session);
+  return session;
+}
+
+/**
+ * 校验会话是否有效：存在、属于该用户且未过期
+ * 有效时按间隔刷新最近活跃时间
+ */
+export async function validateSession(
+  username: string,
+  sessionId: string
+): Promise<AuthSession | null> {
+  try {
+    const storage = getStorage();
+    if (!storage) return null;
+
+    const session = await storage.getSession(sessionId);
+    if (!session || session.username !== username) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (session.expires_at <= now) {
+      await storage.deleteSession(sessionId);
+      return null;
+    }
+
+    if (now - session.last_seen > SESSION_TOUCH_INTERVAL_MS) {
+      session.last_seen = now;
+      await storage.touchSession(sessionId, now);
+    }
+
+    return session;
+  } catch (err) {
+    console.error('会话校验失败:', err);
+    return null;
+  }
+}
+
+/**
+ * 获取用户的全部有效会话，按最近活跃时间倒序
+ */
+export async function listUserSessions(
+  username: string
+): Promise<AuthSession[]> {
+  const now = Date.now();
+  const sessions = await getStorage().getUserSessions(username);
+  return sessions
+    .filter((s) => s.expires_at > now)
+    .sort((a, b) => b.last_seen - a.last_seen);
+}
+
+/**
+ * 注销单个会话
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await getStorage().deleteSession(sessionId);
+}
+
+/**
+ * 注销用户的全部会话，可保留当前会话（用于“登出其他设备”）
+ */
+export async function revokeUserSessions(
+  username: string,
+  exceptSessionId?: string
+): Promise<void> {
+  const storage = getStorage();
+  if (!exceptSessionId) {
+    await storage.deleteUserSessions(username);
+    return;
+  }
+
+  const sessions = await storage.getUserSessions(username);
+  for (const session of sessions) {
+    if (session.id !== exceptSessionId) {
+      await storage.deleteSession(session.id);
+    }
+  }
+}
+
+// 从cookie获取认证信息 (服务端使用)
+// 非 localstorage 模式下会校验服务端会话，会话不存在、过期或已注销时返回 null
+export async function getAuthInfoFromCookie(
+  request: NextRequest
+): Promise<AuthCookieInfo | null> {
+  const authData = parseAuthCookie(request);
+  if (!authData) {
+    return null;
+  }
+
+  const storageType = process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage';
+  if (storageType === 'localstorage') {
+    return authData;
+  }
+
+  if (!authData.username || !authData.sessionId) {
+    return null;
+  }
+
+  const session = await validateSession(authData.username, authData.sessionId);
+  return session ? authData : null;
+}
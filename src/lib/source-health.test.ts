@@ -0,0 +1,287 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig } from './admin.types';
+import { getStorage } from './db';
+import {
+  evaluateSourceHealth,
+  probeSource,
+  runSourceHealthCheck,
+} from './source-health';
+import { SourceHealthProbe } from './types';
+
+jest.mock('./db', () =>
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('@/__mocks__/memory-db').createMemoryDbMock()
+);
+
+const CONFIG: AdminConfig = {
+  ConfigFile: JSON.stringify({ api_site: {} }),
+  SiteConfig: {
+    SiteName: 'MoonTV',
+    Announcement: '',
+    SearchDownstreamMaxPage: 5,
+    SiteInterfaceCacheTime: 7200,
+    DoubanProxyType: 'direct',
+    DoubanProxy: '',
+    DoubanImageProxyType: 'direct',
+    DoubanImageProxy: '',
+    DisableYellowFilter: false,
+  },
+  UserConfig: { AllowRegister: false },
+  SourceConfig: [
+    { key: 'a', name: '源A', api: 'https://a.example/api', from: 'custom' },
+    {
+      key: 'off',
+      name: '手动禁用',
+      api: 'https://off.example/api',
+      from: 'custom',
+      disabled: true,
+    },
+  ],
+  CustomCategories: [],
+};
+
+const ENV_KEYS = [
+  'NEXT_PUBLIC_STORAGE_TYPE',
+  'SOURCE_HEALTH_FAILURE_THRESHOLD',
+  'SOURCE_HEALTH_INTERVAL',
+];
+const savedEnv = ENV_KEYS.map((key) => process.env[key]);
+const originalFetch = global.fetch;
+const fetchMock = jest.fn();
+
+function respond(body: string, status = 200) {
+  fetchMock.mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+  });
+}
+
+function probe(ok: boolean, checked_at = 1): SourceHealthProbe {
+  return {
+    source: 'a',
+    checked_at,
+    ok,
+    latency: 10,
+    parsed: ok,
+    results: 0,
+  };
+}
+
+async function currentSource(key: string) {
+  const config = (await getStorage().getAdminConfig()) as AdminConfig;
+  return config.SourceConfig.find((s) => s.key === key);
+}
+
+beforeAll(() => {
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+  ENV_KEYS.forEach((key, i) => {
+    if (savedEnv[i] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[i];
+  });
+});
+
+beforeEach(async () => {
+  process.env.NEXT_PUBLIC_STORAGE_TYPE = 'redis';
+  process.env.SOURCE_HEALTH_FAILURE_THRESHOLD = '2';
+  process.env.SOURCE_HEALTH_INTERVAL = '0';
+  fetchMock.mockReset();
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  require('./db').__reset();
+  await getStorage().setAdminConfig(JSON.parse(JSON.stringify(CONFIG)));
+});
+
+describe('probeSource', () => {
+  const source = { key: 'a', api: 'https://a.example/api' };
+
+  it('records the result count of a working source', async () => {
+    respond(
+      JSON.stringify({
+        list: [
+          { vod_id: 1, vod_name: '甲' },
+          { vod_id: 2, vod_name: '乙' },
+        ],
+        total: 120,
+      })
+    );
+
+    const result = await probeSource(source, '爱情', 1000);
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://a.example/api?ac=videolist&wd=%E7%88%B1%E6%83%85'
+    );
+    expect(result).toMatchObject({
+      source: 'a',
+      checked_at: 1000,
+      ok: true,
+      status: 200,
+      parsed: true,
+      results: 2,
+      total: 120,
+    });
+    expect(result.error).toBeUndefined();
+  });
+
+  it('fails on an HTTP error, an unparsable body or a network error', async () => {
+    respond('{"list": []}', 502);
+    expect(await probeSource(source, '爱情')).toMatchObject({
+      ok: false,
+      status: 502,
+      parsed: true,
+      error: 'HTTP 502',
+    });
+
+    respond('<html>维护中</html>');
+    expect(await probeSource(source, '爱情')).toMatchObject({
+      ok: false,
+      status: 200,
+      parsed: false,
+      error: '返回内容无法解析',
+    });
+
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const failed = await probeSource(source, '爱情');
+    expect(failed).toMatchObject({ ok: false, error: '请求失败' });
+    expect(failed.status).toBeUndefined();
+  });
+
+  it('applies the request profile of the source', async () => {
+    respond(JSON.stringify({ list: [] }));
+
+    await probeSource(
+      {
+        ...source,
+        request: {
+          userAgent: 'CustomUA/1.0',
+          referer: 'https://a.example/',
+          headers: { 'X-Token': 'abc' },
+          proxyPrefix: 'https://proxy.example/?url=',
+        },
+      },
+      '爱情'
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://proxy.example/?url=' +
+        encodeURIComponent(
+          'https://a.example/api?ac=videolist&wd=%E7%88%B1%E6%83%85'
+        )
+    );
+    expect(init.headers).toEqual({
+      'User-Agent': 'CustomUA/1.0',
+      Accept: 'application/json',
+      Referer: 'https://a.example/',
+      'X-Token': 'abc',
+    });
+  });
+
+  it('does not bypass an HTTP proxy outside the Node.js runtime', async () => {
+    respond(JSON.stringify({ list: [] }));
+
+    const result = await probeSource(
+      { ...source, request: { proxy: 'http://127.0.0.1:7890' } },
+      '爱情'
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      ok: false,
+      error:
+        'HTTP 代理仅支持 Node.js 运行时（Docker 部署），边缘运行时请使用代理前缀',
+    });
+  });
+});
+
+describe('evaluateSourceHealth', () => {
+  const source = CONFIG.SourceConfig[0];
+
+  it('disables after the threshold of consecutive failures', () => {
+    expect(evaluateSourceHealth(source, [probe(false), probe(false)], 2)).toBe(
+      'disable'
+    );
+    expect(evaluateSourceHealth(source, [probe(false), probe(true)], 2)).toBe(
+      null
+    );
+    expect(evaluateSourceHealth(source, [probe(false)], 2)).toBe(null);
+    expect(evaluateSourceHealth(source, [probe(false), probe(false)], 0)).toBe(
+      null
+    );
+  });
+
+  it('re-enables only sources it disabled itself', () => {
+    expect(
+      evaluateSourceHealth(
+        { ...source, disabled: true, autoDisabled: true },
+        [probe(true), probe(false)],
+        2
+      )
+    ).toBe('enable');
+    expect(
+      evaluateSourceHealth({ ...source, disabled: true }, [probe(true)], 2)
+    ).toBe(null);
+  });
+});
+
+describe('runSourceHealthCheck', () => {
+  it('disables a failing source and re-enables it after it recovers', async () => {
+    respond('bad gateway', 502);
+    await runSourceHealthCheck(1000);
+    expect((await currentSource('a'))?.disabled).toBeFalsy();
+
+    await runSourceHealthCheck(2000);
+    expect(await currentSource('a')).toMatchObject({
+      disabled: true,
+      autoDisabled: true,
+    });
+    const { entries } = await getStorage().listAuditLogs(
+      { action: 'source.autoDisable' },
+      0,
+      10
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ actor: 'system', target: 'a' });
+
+    respond(JSON.stringify({ list: [{}] }));
+    await runSourceHealthCheck(3000);
+    const recovered = await currentSource('a');
+    expect(recovered?.disabled).toBe(false);
+    expect(recovered?.autoDisabled).toBeUndefined();
+
+    expect(
+      (await getStorage().listSourceHealthProbes('a', 10)).map((p) => [
+        p.checked_at,
+        p.ok,
+      ])
+    ).toEqual([
+      [3000, true],
+      [2000, false],
+      [1000, false],
+    ]);
+    // 手动禁用的源不参与检查
+    expect(await getStorage().listSourceHealthProbes('off', 10)).toEqual([]);
+  });
+
+  it('waits for the probe interval before probing a source again', async () => {
+    process.env.SOURCE_HEALTH_INTERVAL = '60';
+    respond(JSON.stringify({ list: [] }));
+
+    await runSourceHealthCheck(0);
+    await runSourceHealthCheck(30 * 60 * 1000);
+    await runSourceHealthCheck(60 * 60 * 1000);
+
+    expect(
+      (await getStorage().listSourceHealthProbes('a', 10)).map(
+        (p) => p.checked_at
+      )
+    ).toEqual([60 * 60 * 1000, 0]);
+  });
+});
@@ -0,0 +1,225 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import { recordAudit } from './audit';
+import { API_CONFIG, getConfig } from './config';
+import { saveAdminConfig } from './config-history';
+import { getStorage } from './db';
+import { fetchFromSource, parseSourceResponse } from './downstream';
+import { AdminConfigConflictError, SourceHealthProbe } from './types';
+
+/**
+ * 视频源健康检查
+ * 定时任务用固定关键词请求各视频源的搜索接口（?ac=videolist），记录耗时、HTTP 状态、
+ * 能否解析（JSON 或 XML 接口）与结果数；连续失败达到阈值的源会被自动禁用，被自动禁用的源探测成功后重新启用。
+ * 手动禁用的源不参与检查。
+ */
+
+export const SOURCE_HEALTH_HISTORY = 48; // 每个源保留的探测记录数
+export const DEFAULT_SOURCE_HEALTH_KEYWORD = '爱情';
+export const DEFAULT_SOURCE_HEALTH_FAILURE_THRESHOLD = 3;
+export const DEFAULT_SOURCE_HEALTH_INTERVAL = 60; // 分钟
+
+const PROBE_TIMEOUT = 15000;
+const PROBE_CONCURRENCY = 4;
+// 定时任务的触发时间有抖动，距上次探测不足间隔但相差不到一分钟时仍然探测
+const INTERVAL_TOLERANCE = 60 * 1000;
+
+type SourceEntry = AdminConfig['SourceConfig'][number];
+
+export interface SourceHealthSettings {
+  keyword: string;
+  failureThreshold: number; // 连续失败多少次后自动禁用，0 表示不自动禁用
+  interval: number; // 同一个源两次探测的最小间隔（分钟）
+}
+
+function readInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed)
+    ? Math.max(parsed, 0)
+    : fallback;
+}
+
+export function getSourceHealthSettings(): SourceHealthSettings {
+  return {
+    keyword:
+      process.env.SOURCE_HEALTH_KEYWORD?.trim() ||
+      DEFAULT_SOURCE_HEALTH_KEYWORD,
+    failureThreshold: readInteger(
+      process.env.SOURCE_HEALTH_FAILURE_THRESHOLD,
+      DEFAULT_SOURCE_HEALTH_FAILURE_THRESHOLD
+    ),
+    interval: readInteger(
+      process.env.SOURCE_HEALTH_INTERVAL,
+      DEFAULT_SOURCE_HEALTH_INTERVAL
+    ),
+  };
+}
+
+/**
+ * 探测一个视频源，按源的请求配置发起请求，请求失败时返回失败结果而不抛出
+ */
+export async function probeSource(
+  source: Pick<SourceEntry, 'key' | 'api' | 'request' | 'format'>,
+  keyword: string,
+  now = Date.now()
+): Promise<SourceHealthProbe> {
+  const probe: SourceHealthProbe = {
+    source: source.key,
+    checked_at: now,
+    ok: false,
+    latency: 0,
+    parsed: false,
+    results: 0,
+  };
+  const start = Date.now();
+  try {
+    const response = await fetchFromSource(
+      source,
+      source.api + API_CONFIG.search.path + encodeURIComponent(keyword),
+      API_CONFIG.search.headers,
+      PROBE_TIMEOUT
+    );
+    probe.status = response.status;
+    const data = parseSourceResponse(await response.text(), source.format);
+    if (data) {
+      probe.parsed = true;
+      probe.results = data.list.length;
+      if (data.total !== undefined) probe.total = data.total;
+    }
+    probe.ok = response.ok && probe.parsed;
+    if (!response.ok) {
+      probe.error = `HTTP ${response.status}`;
+    } else if (!probe.parsed) {
+      probe.error = '返回内容无法解析';
+    }
+  } catch (err) {
+    probe.error = (err as Error).message;
+  }
+  probe.latency = Date.now() - start;
+  return probe;
+}
+
+/**
+ * 根据最近的探测结果（按时间倒序）判断是否需要自动禁用或重新启用
+ */
+export function evaluateSourceHealth(
+  source: SourceEntry,
+  probes: SourceHealthProbe[],
+  failureThreshold: number
+): 'disable' | 'enable' | null {
+  if (source.disabled) {
+    return source.autoDisabled && probes[0]?.ok ? 'enable' : null;
+  }
+  if (
+    failureThreshold > 0 &&
+    probes.length >= failureThreshold &&
+    probes.slice(0, failureThreshold).every((probe) => !probe.ok)
+  ) {
+    return 'disable';
+  }
+  return null;
+}
+
+async function applyHealthActions(
+  actions: Map<string, 'disable' | 'enable'>
+): Promise<void> {
+  const config = await getConfig();
+  const applied: [SourceEntry, 'disable' | 'enable'][] = [];
+  for (const [key, action] of Array.from(actions)) {
+    const entry = config.SourceConfig.find((s) => s.key === key);
+    // 探测期间管理员可能已修改了该源
+    if (!entry) continue;
+    if (action === 'disable' && !entry.disabled) {
+      entry.disabled = true;
+      entry.autoDisabled = true;
+      applied.push([entry, action]);
+    } else if (action === 'enable' && entry.disabled && entry.autoDisabled) {
+      entry.disabled = false;
+      delete entry.autoDisabled;
+      applied.push([entry, action]);
+    }
+  }
+  if (applied.length === 0) return;
+
+  await saveAdminConfig(config, 'system', 'source.health');
+  for (const [entry, action] of applied) {
+    console.log(
+      `视频源 ${entry.key} ${
+        action === 'disable' ? '已自动禁用' : '已恢复启用'
+      }`
+    );
+    await recordAudit(
+      'system',
+      action === 'disable' ? 'source.autoDisable' : 'source.autoEnable',
+      entry.key,
+      { disabled: action !== 'disable' },
+      { disabled: action === 'disable' }
+    );
+  }
+}
+
+/**
+ * 定时任务入口：探测到期的视频源并记录结果，按连续失败次数自动禁用或恢复
+ * 使用 localstorage 时直接跳过
+ */
+export async function runSourceHealthCheck(now = Date.now()): Promise<void> {
+  if (
+    (process.env.NEXT_PUBLIC_STORAGE_TYPE || 'localstorage') === 'localstorage'
+  ) {
+    return;
+  }
+
+  try {
+    const settings = getSourceHealthSettings();
+    const storage = getStorage();
+    const { SourceConfig } = await getConfig();
+    const targets = SourceConfig.filter((s) => !s.disabled || s.autoDisabled);
+    const actions = new Map<string, 'disable' | 'enable'>();
+
+    const check = async (source: SourceEntry) => {
+      const [last] = await storage.listSourceHealthProbes(source.key, 1);
+      if (
+        last &&
+        now - last.checked_at <
+          settings.interval * 60 * 1000 - INTERVAL_TOLERANCE
+      ) {
+        return;
+      }
+      const probe = await probeSource(source, settings.keyword, now);
+      await storage.addSourceHealthProbe(probe, SOURCE_HEALTH_HISTORY);
+      const probes = await storage.listSourceHealthProbes(
+        source.key,
+        Math.max(settings.failureThreshold, 1)
+      );
+      const action = evaluateSourceHealth(
+        source,
+        probes,
+        settings.failureThreshold
+      );
+      if (action) actions.set(source.key, action);
+    };
+
+    for (let i = 0; i < targets.length; i += PROBE_CONCURRENCY) {
+      await Promise.all(
+        targets
+          .slice(i, i + PROBE_CONCURRENCY)
+          .map((source) =>
+            check(source).catch((err) =>
+              console.error(`视频源 ${source.key} 健康检查失败:`, err)
+            )
+          )
+      );
+    }
+
+    if (actions.size > 0) {
+      await applyHealthActions(actions);
+    }
+  } catch (err) {
+    if (err instanceof AdminConfigConflictError) {
+      console.warn('配置已被其他操作修改，视频源状态将在下次检查时更新');
+      return;
+    }
+    console.error('视频源健康检查失败:', err);
+  }
+}
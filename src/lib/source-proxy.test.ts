@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import zlib from 'zlib';
+
+import { fetchViaProxy } from './source-proxy';
+
+// Jest 27 的 node 环境没有 Response，用只包含测试所需字段的实现代替
+class TestResponse {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(
+    private body: Buffer | null,
+    init: { status: number; headers: Record<string, string> }
+  ) {
+    this.status = init.status;
+    this.headers = init.headers;
+  }
+
+  async text() {
+    return this.body ? this.body.toString('utf8') : '';
+  }
+}
+
+const originalResponse = (global as any).Response;
+let target: http.Server;
+let proxy: http.Server;
+let targetUrl: string;
+let proxyUrl: string;
+// 代理收到的请求，用于确认请求确实经过代理
+const proxied: { url?: string; auth?: string }[] = [];
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+}
+
+beforeAll(async () => {
+  (global as any).Response = TestResponse;
+
+  target = http.createServer((req, res) => {
+    if (req.url === '/old') {
+      res.writeHead(302, { Location: '/api' });
+      res.end();
+    } else if (req.url === '/gzip') {
+      res.writeHead(200, { 'Content-Encoding': 'gzip' });
+      res.end(zlib.gzipSync('{"list":[]}'));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ua: req.headers['user-agent'] }));
+    }
+  });
+  targetUrl = await listen(target);
+
+  // 只处理 http 目标的最小正向代理：请求行为完整地址
+  proxy = http.createServer((req, res) => {
+    proxied.push({
+      url: req.url,
+      auth: req.headers['proxy-authorization'] as string | undefined,
+    });
+    const {
+      'proxy-authorization': _auth,
+      host: _host,
+      ...headers
+    } = req.headers;
+    const upstream = http.request(
+      req.url as string,
+      { headers },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      }
+    );
+    upstream.end();
+  });
+  const proxyBase = await listen(proxy);
+  proxyUrl = proxyBase.replace('http://', 'http://user:p%40ss@');
+});
+
+afterAll(async () => {
+  (global as any).Response = originalResponse;
+  await Promise.all([close(target), close(proxy)]);
+});
+
+beforeEach(() => {
+  proxied.length = 0;
+});
+
+describe('fetchViaProxy', () => {
+  it('sends the request through the proxy with credentials', async () => {
+    const response = await fetchViaProxy(proxyUrl, `${targetUrl}/api`, {
+      headers: { 'User-Agent': 'CustomUA/1.0' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(await response.text())).toEqual({ ua: 'CustomUA/1.0' });
+    expect(proxied).toEqual([
+      {
+        url: `${targetUrl}/api`,
+        auth: `Basic ${Buffer.from('user:p@ss').toString('base64')}`,
+      },
+    ]);
+  });
+
+  it('follows redirects through the proxy', async () => {
+    const response = await fetchViaProxy(proxyUrl, `${targetUrl}/old`, {
+      headers: {},
+    });
+
+    expect(response.status).toBe(200);
+    expect(proxied.map((p) => p.url)).toEqual([
+      `${targetUrl}/old`,
+      `${targetUrl}/api`,
+    ]);
+  });
+
+  it('decompresses the response body', async () => {
+    const response = await fetchViaProxy(proxyUrl, `${targetUrl}/gzip`, {
+      headers: {},
+    });
+
+    expect(await response.text()).toBe('{"list":[]}');
+    expect(response.headers).not.toHaveProperty('content-encoding');
+  });
+
+  it('aborts like fetch', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      fetchViaProxy(proxyUrl, `${targetUrl}/api`, {
+        headers: {},
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
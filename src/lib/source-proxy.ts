@@ -0,0 +1,159 @@
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import zlib from 'zlib';
+
+/**
+ * 经 HTTP 正向代理请求视频源，仅在 Node.js 运行时（Docker 部署）可用
+ * http 目标直接把完整地址发给代理；https 目标先用 CONNECT 建立隧道，再在隧道内进行 TLS 握手。
+ * 代理地址中的用户名与密码作为 Proxy-Authorization 发送。
+ */
+
+// 与 fetch 一样自动跟随重定向，最多跟随的次数
+const MAX_REDIRECTS = 5;
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+interface ProxyRequestOptions {
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(
+    proxy.username
+  )}:${decodeURIComponent(proxy.password)}`;
+  return {
+    'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString(
+      'base64'
+    )}`,
+  };
+}
+
+function proxyPort(proxy: URL): number {
+  return Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80);
+}
+
+// 与代理建立 CONNECT 隧道，返回隧道内的 TLS 连接
+function openTunnel(
+  proxy: URL,
+  target: URL,
+  signal?: AbortSignal
+): Promise<tls.TLSSocket> {
+  const port = Number(target.port) || 443;
+  const client = proxy.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request({
+      host: proxy.hostname,
+      port: proxyPort(proxy),
+      method: 'CONNECT',
+      path: `${target.hostname}:${port}`,
+      headers: {
+        Host: `${target.hostname}:${port}`,
+        ...proxyAuthorization(proxy),
+      },
+      signal,
+    });
+    req.once('connect', (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`代理拒绝连接: ${res.statusCode}`));
+        return;
+      }
+      resolve(tls.connect({ socket, servername: target.hostname }));
+    });
+    req.once('error', reject);
+    req.end();
+  });
+}
+
+function decode(res: http.IncomingMessage): NodeJS.ReadableStream {
+  switch (res.headers['content-encoding']) {
+    case 'gzip':
+      return res.pipe(zlib.createGunzip());
+    case 'deflate':
+      return res.pipe(zlib.createInflate());
+    case 'br':
+      return res.pipe(zlib.createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+async function requestOnce(
+  proxy: URL,
+  target: URL,
+  { headers, signal }: ProxyRequestOptions
+): Promise<{ res: http.IncomingMessage; body: Buffer }> {
+  let req: http.ClientRequest;
+  if (target.protocol === 'https:') {
+    const socket = await openTunnel(proxy, target, signal);
+    req = https.request(target, {
+      headers,
+      signal,
+      createConnection: () => socket,
+    });
+  } else {
+    const client = proxy.protocol === 'https:' ? https : http;
+    req = client.request({
+      host: proxy.hostname,
+      port: proxyPort(proxy),
+      path: target.href,
+      headers: { Host: target.host, ...headers, ...proxyAuthorization(proxy) },
+      signal,
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    req.once('response', (res) => {
+      const chunks: Buffer[] = [];
+      const stream = decode(res);
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.once('end', () => resolve({ res, body: Buffer.concat(chunks) }));
+      stream.once('error', reject);
+    });
+    req.once('error', reject);
+    req.end();
+  });
+}
+
+/**
+ * 通过代理发起 GET 请求，返回与 fetch 相同的 Response
+ * 中止时抛出 name 为 AbortError 的错误，与 fetch 一致
+ */
+export async function fetchViaProxy(
+  proxyUrl: string,
+  url: string,
+  options: ProxyRequestOptions
+): Promise<Response> {
+  const proxy = new URL(proxyUrl);
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const { res, body } = await requestOnce(proxy, target, options);
+    const status = res.statusCode || 502;
+    const location = res.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('重定向次数过多');
+      }
+      target = new URL(location, target);
+      continue;
+    }
+
+    const headers: Record<string, string> = {};
+    Object.entries(res.headers).forEach(([name, value]) => {
+      // 响应体已解压，去掉与原始编码相关的头
+      if (name === 'content-encoding' || name === 'content-length') return;
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    });
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, {
+      status,
+      statusText: res.statusMessage,
+      headers,
+    });
+  }
+}
@@ -0,0 +1,136 @@
+/* eslint-disable no-console, @typescript-eslint/no-explicit-any */
+
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+
+import { D1Database, D1PreparedStatement, D1Result, D1Storage } from './d1.db';
+
+// 默认数据库文件位置，Docker 部署时挂载 /app/data 卷
+export const DEFAULT_SQLITE_PATH = 'data/moontv.db';
+
+// 表结构与 D1 共用同一份初始化脚本
+const SCHEMA_FILE = 'd1-init.sql';
+
+// 打开数据库并执行建表脚本（建表语句均为 IF NOT EXISTS，可重复执行）
+// file 为 :memory: 时使用内存数据库（用于测试）
+async function openDatabase(file: string): Promise<DatabaseSync> {
+  // 仅在 Node.js 运行时按需加载，避免进入 Edge 构建产物
+  const [{ DatabaseSync }, fs, path] = await Promise.all([
+    import(/* webpackIgnore: true */ 'node:sqlite'),
+    import(/* webpackIgnore: true */ 'node:fs'),
+    import(/* webpackIgnore: true */ 'node:path'),
+  ]);
+
+  if (file !== ':memory:') {
+    file = path.resolve(file);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  const db = new DatabaseSync(file);
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA busy_timeout = 5000');
+  db.exec('PRAGMA foreign_keys = ON');
+  db.exec(fs.readFileSync(path.join(process.cwd(), SCHEMA_FILE), 'utf8'));
+
+  console.log(`SQLite database opened: ${file}`);
+  return db;
+}
+
+// D1 会把布尔值转为 0/1、拒绝 undefined，这里保持一致的绑定行为
+function toSqliteValue(value: any): any {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
+
+class SqlitePreparedStatement implements D1PreparedStatement {
+  constructor(
+    private adapter: SqliteD1Adapter,
+    private query: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]): D1PreparedStatement {
+    return new SqlitePreparedStatement(
+      this.adapter,
+      this.query,
+      params.map(toSqliteValue)
+    );
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const stmt = await this.adapter.statement(this.query);
+    return (stmt.get(...this.params) as T | undefined) ?? null;
+  }
+
+  async all<T = any>(): Promise<D1Result<T>> {
+    const stmt = await this.adapter.statement(this.query);
+    return { success: true, results: stmt.all(...this.params) as T[] };
+  }
+
+  async run(): Promise<D1Result> {
+    const stmt = await this.adapter.statement(this.query);
+    const result = stmt.run(...this.params);
+    return {
+      success: true,
+      meta: {
+        changes: Number(result.changes),
+        last_row_id: Number(result.lastInsertRowid),
+      },
+    };
+  }
+}
+
+/**
+ * 以 D1 的异步接口包装 node:sqlite，使 D1Storage 的查询可直接运行在本地文件上
+ */
+export class SqliteD1Adapter implements D1Database {
+  private db: Promise<DatabaseSync> | null = null;
+  private statements = new Map<string, StatementSync>();
+
+  constructor(
+    private file: string = process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH
+  ) {}
+
+  private open(): Promise<DatabaseSync> {
+    if (!this.db) {
+      this.db = openDatabase(this.file).catch((err) => {
+        this.db = null;
+        throw err;
+      });
+    }
+    return this.db;
+  }
+
+  // 预编译语句按 SQL 文本缓存复用
+  async statement(query: string): Promise<StatementSync> {
+    const db = await this.open();
+    let stmt = this.statements.get(query);
+    if (!stmt) {
+      stmt = db.prepare(query);
+      this.statements.set(query, stmt);
+    }
+    return stmt;
+  }
+
+  prepare(query: string): D1PreparedStatement {
+    return new SqlitePreparedStatement(this, query);
+  }
+
+  async exec(query: string): Promise<D1Result> {
+    const db = await this.open();
+    db.exec(query);
+    return { success: true };
+  }
+}
+
+export class SqliteStorage extends D1Storage {
+  constructor() {
+    const globalKey = Symbol.for('__MOONTV_SQLITE_DB__');
+    let adapter: SqliteD1Adapter | undefined = (global as any)[globalKey];
+    if (!adapter) {
+      adapter = new SqliteD1Adapter();
+      (global as any)[globalKey] = adapter;
+    }
+    super(adapter);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { createFakeNodeRedisClient } from '@/__mocks__/fake-redis';
+
+import { AdminConfig } from './admin.types';
+import { MemoryStorage } from './memory.db';
+import { RedisStorage } from './redis.db';
+import { migrateStep, MigrationCheckpoint } from './storage-migration';
+import { IStorage } from './types';
+
+const CONFIG = {
+  ConfigFile: '{}',
+  SiteConfig: { SiteName: 'MoonTV' },
+  UserConfig: {},
+  SourceConfig: [],
+  CustomCategories: [],
+} as unknown as AdminConfig;
+
+async function seed(storage: IStorage, userName: string) {
+  await storage.registerUser(userName, 'password');
+  await storage.setUserRecord({
+    username: userName,
+    role: 'user',
+    created_at: 1,
+  });
+  await storage.setPlayRecord(userName, 'src1+100', {
+    title: `${userName} 的剧集`,
+    source_name: '测试源',
+    cover: '',
+    year: '2024',
+    index: 2,
+    total_episodes: 12,
+    play_time: 60,
+    total_time: 1800,
+    save_time: 1,
+    search_title: '',
+  });
+  await storage.setSkipConfig(userName, 'src1', '100', {
+    enable: true,
+    intro_time: 90,
+    outro_time: 0,
+  });
+  await storage.addSearchHistory(userName, '旧关键词');
+  await storage.addSearchHistory(userName, '新关键词');
+}
+
+// 模拟前端：每步之间经过 JSON 序列化保存检查点
+async function migrateAll(
+  source: IStorage,
+  target: IStorage,
+  checkpoint: MigrationCheckpoint | null = null,
+  maxSteps = Infinity
+): Promise<MigrationCheckpoint> {
+  let steps = 0;
+  do {
+    checkpoint = JSON.parse(
+      JSON.stringify(await migrateStep(source, target, checkpoint, 2))
+    ) as MigrationCheckpoint;
+    steps++;
+  } while (checkpoint.phase !== 'done' && steps < maxSteps);
+  return checkpoint;
+}
+
+beforeAll(() => {
+  // 站长始终参与迁移，这里不设置站长以便精确断言用户数
+  delete process.env.USERNAME;
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('migrateStep', () => {
+  let source: MemoryStorage;
+  let target: RedisStorage;
+
+  beforeEach(async () => {
+    (global as any)[Symbol.for('__MOONTV_REDIS_CLIENT__')] =
+      createFakeNodeRedisClient();
+    source = new MemoryStorage();
+    target = new RedisStorage();
+    await source.setAdminConfig(JSON.parse(JSON.stringify(CONFIG)));
+    for (const userName of ['alice', 'bob', 'carol']) {
+      await seed(source, userName);
+    }
+  });
+
+  it('copies every entity and verifies the result', async () => {
+    const checkpoint = await migrateAll(source, target);
+
+    expect(checkpoint.mismatches).toEqual([]);
+    expect(checkpoint.totalUsers).toBe(3);
+    expect(checkpoint.copied).toEqual({
+      adminConfig: 1,
+      users: 3,
+      playRecords: 3,
+      favorites: 0,
+      searchHistory: 6,
+      skipConfigs: 3,
+    });
+    expect(await target.verifyUser('bob', 'password')).toBe(true);
+    expect(await target.getSearchHistory('bob')).toEqual([
+      '新关键词',
+      '旧关键词',
+    ]);
+    expect((await target.getAdminConfig())?.SiteConfig.SiteName).toBe('MoonTV');
+  });
+
+  it('resumes from a saved checkpoint', async () => {
+    const partial = await migrateAll(source, target, null, 2);
+    expect(partial.phase).toBe('copy');
+    expect(partial.cursor).toBe('bob');
+
+    const checkpoint = await migrateAll(source, target, partial);
+    expect(checkpoint.phase).toBe('done');
+    expect(checkpoint.copied.users).toBe(3);
+    expect(checkpoint.mismatches).toEqual([]);
+  });
+
+  it('reports entities that differ after copying', async () => {
+    let checkpoint = await migrateAll(source, target, null, 3);
+    expect(checkpoint.phase).toBe('verify');
+
+    await target.deleteSkipConfig('alice', 'src1', '100');
+    checkpoint = await migrateAll(source, target, checkpoint);
+
+    expect(checkpoint.mismatches).toEqual([
+      expect.objectContaining({
+        username: 'alice',
+        entity: 'skipConfigs',
+        source: expect.objectContaining({ count: 1 }),
+        target: expect.objectContaining({ count: 0 }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,322 @@
+/* eslint-disable no-console */
+
+import { runMigrations } from './migrations';
+import { IStorage } from './types';
+
+/**
+ * 存储之间的在线迁移
+ * 按用户名字典序分批复制，每批结束返回检查点；调用方保存检查点并以其继续，
+ * 中断后可从最后完成的用户处恢复。复制完成后逐用户比对条数与校验和。
+ */
+
+// 每批处理的用户数
+export const MIGRATION_BATCH_SIZE = 20;
+
+export const MIGRATION_ENTITIES = [
+  'adminConfig',
+  'users',
+  'playRecords',
+  'favorites',
+  'searchHistory',
+  'skipConfigs',
+] as const;
+export type MigrationEntity = (typeof MIGRATION_ENTITIES)[number];
+
+export interface EntityDigest {
+  count: number;
+  checksum: string;
+}
+
+// 校验阶段发现的不一致
+export interface MigrationMismatch {
+  username: string; // 管理员配置为空字符串
+  entity: MigrationEntity;
+  source: EntityDigest;
+  target: EntityDigest;
+}
+
+export interface MigrationCheckpoint {
+  phase: 'copy' | 'verify' | 'done';
+  cursor: string; // 当前阶段已处理的最后一个用户名
+  totalUsers: number;
+  processedUsers: number; // 当前阶段已处理的用户数
+  copied: Record<MigrationEntity, number>; // 各类数据已复制的条数
+  mismatches: MigrationMismatch[];
+  startedAt: number;
+}
+
+// 单个用户的全部数据
+interface UserSnapshot {
+  users: unknown;
+  playRecords: Record<string, unknown>;
+  favorites: Record<string, unknown>;
+  searchHistory: string[];
+  skipConfigs: Record<string, unknown>;
+}
+
+const USER_ENTITIES = [
+  'users',
+  'playRecords',
+  'favorites',
+  'searchHistory',
+  'skipConfigs',
+] as const;
+
+// 键排序后序列化，保证不同存储返回的相同数据得到相同结果
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function digestOf(value: unknown, count: number): Promise<EntityDigest> {
+  return { count, checksum: await sha256(stableStringify(value)) };
+}
+
+/**
+ * 需要迁移的全部用户：有密码的用户、有账户记录的用户与站长，按字典序排列
+ */
+async function listUsers(storage: IStorage): Promise<string[]> {
+  const names = new Set(await storage.getAllUsers());
+  if (process.env.USERNAME) names.add(process.env.USERNAME);
+
+  const pageSize = 100;
+  for (let offset = 0; ; offset += pageSize) {
+    const { users, total } = await storage.listUserRecords(offset, pageSize);
+    users.forEach((record) => names.add(record.username));
+    if (users.length === 0 || offset + pageSize >= total) break;
+  }
+  return Array.from(names).sort();
+}
+
+async function snapshotUser(
+  storage: IStorage,
+  username: string
+): Promise<UserSnapshot> {
+  const record = await storage.getUserRecord(username);
+  const tokens = await storage.getUserApiTokens(username);
+  return {
+    users: {
+      passwordHash: await storage.getPasswordHash(username),
+      // 最近在线时间随访问不断变化，不参与校验
+      account: record ? { ...record, lastOnline: undefined } : null,
+      twoFactor: await storage.getTwoFactor(username),
+      apiTokens: tokens
+        .map((token) => ({ ...token, last_used_at: undefined }))
+        .sort((a, b) => (a.id < b.id ? -1 : 1)),
+    },
+    playRecords: await storage.getAllPlayRecords(username),
+    favorites: await storage.getAllFavorites(username),
+    searchHistory: await storage.getSearchHistory(username),
+    skipConfigs: await storage.getAllSkipConfigs(username),
+  };
+}
+
+// 复制单个用户；重复执行结果相同，恢复时可安全重做未完成的批次
+async function copyUser(
+  source: IStorage,
+  target: IStorage,
+  username: string,
+  copied: Record<MigrationEntity, number>
+): Promise<void> {
+  const passwordHash = await source.getPasswordHash(username);
+  if (passwordHash) {
+    await target.setPasswordHash(username, passwordHash);
+  }
+  const record = await source.getUserRecord(username);
+  if (record) {
+    await target.setUserRecord(record);
+  }
+  const twoFactor = await source.getTwoFactor(username);
+  if (twoFactor) {
+    await target.setTwoFactor(username, twoFactor);
+  }
+  for (const token of await source.getUserApiTokens(username)) {
+    await target.deleteApiToken(token.token_hash);
+    await target.createApiToken(token);
+  }
+  copied.users++;
+
+  const playRecords = await source.getAllPlayRecords(username);
+  for (const [key, playRecord] of Object.entries(playRecords)) {
+    await target.setPlayRecord(username, key, playRecord);
+    copied.playRecords++;
+  }
+
+  const favorites = await source.getAllFavorites(username);
+  for (const [key, favorite] of Object.entries(favorites)) {
+    await target.setFavorite(username, key, favorite);
+    copied.favorites++;
+  }
+
+  // 搜索历史按从旧到新写入以保持顺序
+  const searchHistory = await source.getSearchHistory(username);
+  for (const keyword of searchHistory.slice().reverse()) {
+    await target.addSearchHistory(username, keyword);
+    copied.searchHistory++;
+  }
+
+  const skipConfigs = await source.getAllSkipConfigs(username);
+  for (const [key, config] of Object.entries(skipConfigs)) {
+    const [sourceKey, id] = key.split('+');
+    if (sourceKey && id) {
+      await target.setSkipConfig(username, sourceKey, id, config);
+      copied.skipConfigs++;
+    }
+  }
+}
+
+async function verifyUser(
+  source: IStorage,
+  target: IStorage,
+  username: string
+): Promise<MigrationMismatch[]> {
+  const [from, to] = await Promise.all([
+    snapshotUser(source, username),
+    snapshotUser(target, username),
+  ]);
+  const mismatches: MigrationMismatch[] = [];
+  for (const entity of USER_ENTITIES) {
+    const count = (data: unknown) =>
+      entity === 'users' ? 1 : Object.keys(data as object).length;
+    const sourceDigest = await digestOf(from[entity], count(from[entity]));
+    const targetDigest = await digestOf(to[entity], count(to[entity]));
+    if (sourceDigest.checksum !== targetDigest.checksum) {
+      mismatches.push({
+        username,
+        entity,
+        source: sourceDigest,
+        target: targetDigest,
+      });
+    }
+  }
+  return mismatches;
+}
+
+async function copyAdminConfig(
+  source: IStorage,
+  target: IStorage
+): Promise<boolean> {
+  const config = await source.getAdminConfig();
+  if (!config) return false;
+  // 以目标中的当前版本写入，避免版本冲突
+  const existing = await target.getAdminConfig();
+  await target.setAdminConfig({ ...config, Version: existing?.Version ?? 0 });
+  return true;
+}
+
+async function verifyAdminConfig(
+  source: IStorage,
+  target: IStorage
+): Promise<MigrationMismatch | null> {
+  const [from, to] = await Promise.all([
+    source.getAdminConfig(),
+    target.getAdminConfig(),
+  ]);
+  // 版本号在两个存储中各自递增，不参与校验
+  const sourceDigest = await digestOf(
+    from ? { ...from, Version: undefined } : null,
+    from ? 1 : 0
+  );
+  const targetDigest = await digestOf(
+    to ? { ...to, Version: undefined } : null,
+    to ? 1 : 0
+  );
+  if (sourceDigest.checksum === targetDigest.checksum) return null;
+  return {
+    username: '',
+    entity: 'adminConfig',
+    source: sourceDigest,
+    target: targetDigest,
+  };
+}
+
+/**
+ * 执行一步迁移：无检查点时初始化目标结构并复制管理员配置，之后每步处理一批用户
+ * @returns 新的检查点，phase 为 done 时迁移与校验均已完成
+ */
+export async function migrateStep(
+  source: IStorage,
+  target: IStorage,
+  checkpoint: MigrationCheckpoint | null,
+  batchSize = MIGRATION_BATCH_SIZE
+): Promise<MigrationCheckpoint> {
+  if (!checkpoint) {
+    await runMigrations(target);
+    const copied = Object.fromEntries(
+      MIGRATION_ENTITIES.map((entity) => [entity, 0])
+    ) as Record<MigrationEntity, number>;
+    if (await copyAdminConfig(source, target)) {
+      copied.adminConfig = 1;
+    }
+    return {
+      phase: 'copy',
+      cursor: '',
+      totalUsers: (await listUsers(source)).length,
+      processedUsers: 0,
+      copied,
+      mismatches: [],
+      startedAt: Date.now(),
+    };
+  }
+
+  if (checkpoint.phase === 'done') return checkpoint;
+
+  const next: MigrationCheckpoint = {
+    ...checkpoint,
+    copied: { ...checkpoint.copied },
+    mismatches: checkpoint.mismatches.slice(),
+  };
+
+  const remaining = (await listUsers(source)).filter(
+    (username) => username > checkpoint.cursor
+  );
+  const batch = remaining.slice(0, batchSize);
+  for (const username of batch) {
+    if (next.phase === 'copy') {
+      await copyUser(source, target, username, next.copied);
+    } else {
+      next.mismatches.push(...(await verifyUser(source, target, username)));
+    }
+    next.cursor = username;
+    next.processedUsers++;
+  }
+  // 迁移过程中可能有新用户注册
+  next.totalUsers = next.processedUsers + remaining.length - batch.length;
+
+  if (batch.length === remaining.length) {
+    if (next.phase === 'copy') {
+      // 复制完成，进入校验阶段
+      next.phase = 'verify';
+      next.cursor = '';
+      next.processedUsers = 0;
+      const mismatch = await verifyAdminConfig(source, target);
+      if (mismatch) next.mismatches.push(mismatch);
+    } else {
+      next.phase = 'done';
+      console.log(
+        `存储迁移完成，复制 ${next.totalUsers} 个用户，发现 ${next.mismatches.length} 处不一致`
+      );
+    }
+  }
+  return next;
+}
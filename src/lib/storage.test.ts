@@ -0,0 +1,575 @@
+/**
+ * @jest-environment node
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+  createFakeNodeRedisClient,
+  createFakeUpstashClient,
+} from '@/__mocks__/fake-redis';
+import { loadSqlJs } from '@/__mocks__/node-sqlite';
+
+import { AdminConfig } from './admin.types';
+import { D1Storage } from './d1.db';
+import { D1_MIGRATIONS } from './d1-migrations';
+import { KvrocksStorage } from './kvrocks.db';
+import { MemoryStorage } from './memory.db';
+import { runMigrations, SchemaVersionError } from './migrations';
+import { RedisStorage } from './redis.db';
+import { SqliteD1Adapter } from './sqlite.db';
+import {
+  AdminConfigConflictError,
+  IStorage,
+  PlayRecord,
+  SkipConfig,
+} from './types';
+import { UpstashRedisStorage } from './upstash.db';
+
+// D1 使用本地 SQLite 作为替身：Node 22 起使用内置的 node:sqlite，
+// 更早的版本（如 Node 20）使用基于 sql.js 的同接口实现
+// Jest 27 的模块解析不认识 node:sqlite，这里直接转发到运行时的内置模块
+const nodeSqlite = (process as any).getBuiltinModule?.('node:sqlite');
+jest.mock(
+  'node:sqlite',
+  () => nodeSqlite ?? jest.requireActual('@/__mocks__/node-sqlite'),
+  { virtual: true }
+);
+
+type BackendFactory = () => IStorage;
+
+const BACKENDS: [string, BackendFactory][] = [
+  ['memory', () => new MemoryStorage()],
+  [
+    'redis',
+    () => {
+      (global as any)[Symbol.for('__MOONTV_REDIS_CLIENT__')] =
+        createFakeNodeRedisClient();
+      return new RedisStorage();
+    },
+  ],
+  [
+    'kvrocks',
+    () => {
+      (global as any)[Symbol.for('__MOONTV_KVROCKS_CLIENT__')] =
+        createFakeNodeRedisClient();
+      return new KvrocksStorage();
+    },
+  ],
+  [
+    'upstash',
+    () => {
+      (global as any)[Symbol.for('__MOONTV_UPSTASH_REDIS_CLIENT__')] =
+        createFakeUpstashClient();
+      return new UpstashRedisStorage();
+    },
+  ],
+  ['d1', () => new D1Storage(new SqliteD1Adapter(':memory:'))],
+];
+
+function playRecord(title: string, overrides: Partial<PlayRecord> = {}) {
+  return {
+    title,
+    source_name: '测试源',
+    cover: 'https://example.com/cover.jpg',
+    year: '2024',
+    index: 1,
+    total_episodes: 12,
+    play_time: 60,
+    total_time: 1800,
+    save_time: 1700000000000,
+    search_title: title,
+    ...overrides,
+  };
+}
+
+const SKIP: SkipConfig = { enable: true, intro_time: 90, outro_time: 120 };
+
+beforeAll(async () => {
+  if (!nodeSqlite) {
+    await loadSqlJs();
+  }
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe.each(BACKENDS)('%s storage conformance', (_name, create) => {
+  let storage: IStorage;
+
+  beforeEach(() => {
+    storage = create();
+  });
+
+  describe('play records', () => {
+    it('round-trips a record by source+id key', async () => {
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('剧集A'));
+
+      expect(await storage.getPlayRecord('alice', 'src1+100')).toEqual(
+        playRecord('剧集A')
+      );
+      expect(await storage.getPlayRecord('alice', 'src1+404')).toBeNull();
+      expect(await storage.getPlayRecord('bob', 'src1+100')).toBeNull();
+    });
+
+    it('keeps only the latest record for the same title', async () => {
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('剧集A'));
+      await storage.setPlayRecord('alice', 'src2+200', playRecord('剧集A'));
+      await storage.setPlayRecord('alice', 'src3+300', playRecord('剧集B'));
+
+      const all = await storage.getAllPlayRecords('alice');
+      expect(Object.keys(all).sort()).toEqual(['src2+200', 'src3+300']);
+    });
+
+    it('does not dedupe against a title the key no longer has', async () => {
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('旧标题'));
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('新标题'));
+      await storage.setPlayRecord('alice', 'src2+200', playRecord('旧标题'));
+
+      const all = await storage.getAllPlayRecords('alice');
+      expect(all['src1+100']?.title).toBe('新标题');
+      expect(all['src2+200']?.title).toBe('旧标题');
+    });
+
+    it('dedupes per user only', async () => {
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('剧集A'));
+      await storage.setPlayRecord('bob', 'src2+200', playRecord('剧集A'));
+
+      expect(await storage.getPlayRecord('alice', 'src1+100')).not.toBeNull();
+      expect(await storage.getPlayRecord('bob', 'src2+200')).not.toBeNull();
+    });
+
+    it('deletes a record', async () => {
+      await storage.setPlayRecord('alice', 'src1+100', playRecord('剧集A'));
+      await storage.deletePlayRecord('alice', 'src1+100');
+
+      expect(await storage.getAllPlayRecords('alice')).toEqual({});
+      await storage.setPlayRecord('alice', 'src2+200', playRecord('剧集A'));
+      expect(await storage.getPlayRecord('alice', 'src2+200')).not.toBeNull();
+    });
+  });
+
+  describe('search history', () => {
+    it('keeps the 20 most recent keywords, newest first', async () => {
+      for (let i = 1; i <= 25; i++) {
+        await storage.addSearchHistory('alice', `关键词${i}`);
+      }
+
+      const history = await storage.getSearchHistory('alice');
+      expect(history).toHaveLength(20);
+      expect(history[0]).toBe('关键词25');
+      expect(history[19]).toBe('关键词6');
+    });
+
+    it('moves a repeated keyword to the front without duplicating it', async () => {
+      await storage.addSearchHistory('alice', 'a');
+      await storage.addSearchHistory('alice', 'b');
+      await storage.addSearchHistory('alice', 'a');
+
+      expect(await storage.getSearchHistory('alice')).toEqual(['a', 'b']);
+    });
+
+    it('deletes one keyword or the whole history', async () => {
+      await storage.addSearchHistory('alice', 'a');
+      await storage.addSearchHistory('alice', 'b');
+
+      await storage.deleteSearchHistory('alice', 'a');
+      expect(await storage.getSearchHistory('alice')).toEqual(['b']);
+
+      await storage.deleteSearchHistory('alice');
+      expect(await storage.getSearchHistory('alice')).toEqual([]);
+    });
+  });
+
+  describe('skip configs', () => {
+    it('stores configs per source and id', async () => {
+      await storage.setSkipConfig('alice', 'src1', '100', SKIP);
+      await storage.setSkipConfig('alice', 'src1', '200', {
+        ...SKIP,
+        enable: false,
+      });
+
+      expect(await storage.getSkipConfig('alice', 'src1', '100')).toEqual(SKIP);
+      expect(await storage.getSkipConfig('alice', 'src2', '100')).toBeNull();
+      expect(await storage.getAllSkipConfigs('alice')).toEqual({
+        'src1+100': SKIP,
+        'src1+200': { ...SKIP, enable: false },
+      });
+    });
+
+    it('deletes a config', async () => {
+      await storage.setSkipConfig('alice', 'src1', '100', SKIP);
+      await storage.deleteSkipConfig('alice', 'src1', '100');
+
+      expect(await storage.getSkipConfig('alice', 'src1', '100')).toBeNull();
+      expect(await storage.getAllSkipConfigs('alice')).toEqual({});
+    });
+  });
+
+  describe('deleteUser', () => {
+    async function seedUser(userName: string) {
+      await storage.registerUser(userName, 'password');
+      await storage.setUserRecord({
+        username: userName,
+        role: 'user',
+        created_at: 1,
+      });
+      await storage.setPlayRecord(userName, 'src1+100', playRecord('剧集A'));
+      await storage.setFavorite(userName, 'src1+100', {
+        title: '剧集A',
+        source_name: '测试源',
+        cover: '',
+        year: '2024',
+        total_episodes: 12,
+        save_time: 1,
+        search_title: '剧集A',
+      });
+      await storage.setSkipConfig(userName, 'src1', '100', SKIP);
+      await storage.addSearchHistory(userName, '关键词');
+      await storage.createSession({
+        id: `${userName}-session`,
+        username: userName,
+        device: 'test',
+        created_at: Date.now(),
+        last_seen: Date.now(),
+        expires_at: Date.now() + 60_000,
+      });
+      await storage.setTwoFactor(userName, {
+        secret: 'SECRET',
+        enabled: true,
+        recovery_codes: [],
+        created_at: 1,
+      });
+      await storage.createApiToken({
+        id: `${userName}-token`,
+        username: userName,
+        name: 'tv',
+        token_hash: `${userName}-hash`,
+        prefix: 'mtv_',
+        created_at: 1,
+      });
+    }
+
+    it('removes the user and everything they own', async () => {
+      await seedUser('alice');
+      await seedUser('bob');
+
+      await storage.deleteUser('alice');
+
+      expect(await storage.checkUserExist('alice')).toBe(false);
+      expect(await storage.verifyUser('alice', 'password')).toBe(false);
+      expect(await storage.getUserRecord('alice')).toBeNull();
+      expect(await storage.getAllPlayRecords('alice')).toEqual({});
+      expect(await storage.getAllFavorites('alice')).toEqual({});
+      expect(await storage.getAllSkipConfigs('alice')).toEqual({});
+      expect(await storage.getSearchHistory('alice')).toEqual([]);
+      expect(await storage.getSession('alice-session')).toBeNull();
+      expect(await storage.getTwoFactor('alice')).toBeNull();
+      expect(await storage.getApiTokenByHash('alice-hash')).toBeNull();
+      expect(await storage.getAllUsers()).not.toContain('alice');
+    });
+
+    it('leaves other users untouched', async () => {
+      await seedUser('alice');
+      await seedUser('bob');
+
+      await storage.deleteUser('alice');
+
+      expect(await storage.verifyUser('bob', 'password')).toBe(true);
+      expect(await storage.getUserRecord('bob')).not.toBeNull();
+      expect(Object.keys(await storage.getAllPlayRecords('bob'))).toEqual([
+        'src1+100',
+      ]);
+      expect(Object.keys(await storage.getAllFavorites('bob'))).toEqual([
+        'src1+100',
+      ]);
+      expect(await storage.getSkipConfig('bob', 'src1', '100')).toEqual(SKIP);
+      expect(await storage.getSearchHistory('bob')).toEqual(['关键词']);
+      expect(await storage.getSession('bob-session')).not.toBeNull();
+      expect(await storage.getTwoFactor('bob')).not.toBeNull();
+      expect(await storage.getApiTokenByHash('bob-hash')).not.toBeNull();
+      expect(await storage.getAllApiTokens()).toHaveLength(1);
+    });
+  });
+
+  describe('admin config', () => {
+    const CONFIG = {
+      ConfigFile: '{}',
+      SiteConfig: { SiteName: 'MoonTV' },
+      UserConfig: {},
+      SourceConfig: [{ key: 'src1', name: '测试源', api: 'https://a.b/api' }],
+      CustomCategories: [],
+    } as unknown as AdminConfig;
+
+    it('starts empty', async () => {
+      expect(await storage.getAdminConfig()).toBeNull();
+    });
+
+    it('round-trips the config and bumps its version', async () => {
+      const config = JSON.parse(JSON.stringify(CONFIG)) as AdminConfig;
+      await storage.setAdminConfig(config);
+
+      expect(config.Version).toBe(1);
+      expect(await storage.getAdminConfig()).toEqual({ ...CONFIG, Version: 1 });
+    });
+
+    it('rejects a write based on a stale version', async () => {
+      const first = JSON.parse(JSON.stringify(CONFIG)) as AdminConfig;
+      await storage.setAdminConfig(first);
+      const loaded = (await storage.getAdminConfig()) as AdminConfig;
+      const stale = { ...loaded };
+
+      loaded.SiteConfig.SiteName = '新站名';
+      await storage.setAdminConfig(loaded);
+      expect(loaded.Version).toBe(2);
+
+      await expect(storage.setAdminConfig(stale)).rejects.toBeInstanceOf(
+        AdminConfigConflictError
+      );
+      expect((await storage.getAdminConfig())?.SiteConfig.SiteName).toBe(
+        '新站名'
+      );
+    });
+  });
+
+  describe('backups', () => {
+    const meta = (id: string, created_at: number) => ({
+      id,
+      created_at,
+      size: 4,
+      trigger: 'scheduled' as const,
+    });
+
+    it('lists backups newest first and reads their content', async () => {
+      await storage.saveBackup(meta('older.dat', 1000), 'aaaa');
+      await storage.saveBackup(meta('newer.dat', 2000), 'bbbb');
+
+      expect((await storage.listBackups()).map((b) => b.id)).toEqual([
+        'newer.dat',
+        'older.dat',
+      ]);
+      expect(await storage.getBackup('older.dat')).toBe('aaaa');
+      expect(await storage.getBackup('missing.dat')).toBeNull();
+    });
+
+    it('deletes a backup', async () => {
+      await storage.saveBackup(meta('a.dat', 1000), 'aaaa');
+      await storage.deleteBackup('a.dat');
+
+      expect(await storage.listBackups()).toEqual([]);
+      expect(await storage.getBackup('a.dat')).toBeNull();
+    });
+  });
+
+  describe('config history', () => {
+    const config = (siteName: string, Version: number) =>
+      ({
+        ConfigFile: '{}',
+        SiteConfig: { SiteName: siteName },
+        UserConfig: {},
+        SourceConfig: [],
+        CustomCategories: [],
+        Version,
+      } as unknown as AdminConfig);
+    const meta = (version: number) => ({
+      version,
+      saved_at: version * 1000,
+      author: 'admin',
+      reason: 'site.update',
+    });
+
+    it('lists versions newest first and reads their config', async () => {
+      await storage.saveConfigHistory(meta(2), config('旧站名', 2));
+      await storage.saveConfigHistory(meta(10), config('新站名', 10));
+
+      expect(await storage.listConfigHistory()).toEqual([meta(10), meta(2)]);
+      expect(await storage.getConfigHistory(2)).toEqual(config('旧站名', 2));
+      expect(await storage.getConfigHistory(3)).toBeNull();
+    });
+
+    it('deletes a version', async () => {
+      await storage.saveConfigHistory(meta(1), config('站名', 1));
+      await storage.deleteConfigHistory(1);
+
+      expect(await storage.listConfigHistory()).toEqual([]);
+      expect(await storage.getConfigHistory(1)).toBeNull();
+    });
+  });
+
+  describe('source health', () => {
+    const probe = (source: string, checked_at: number, ok = true) => ({
+      source,
+      checked_at,
+      ok,
+      status: ok ? 200 : 502,
+      latency: 120,
+      parsed: ok,
+      results: ok ? 20 : 0,
+      ...(ok ? { total: 340 } : { error: 'HTTP 502' }),
+    });
+
+    it('lists probes of a source newest first', async () => {
+      await storage.addSourceHealthProbe(probe('a', 1), 10);
+      await storage.addSourceHealthProbe(probe('a', 2, false), 10);
+      await storage.addSourceHealthProbe(probe('b', 3), 10);
+
+      expect(await storage.listSourceHealthProbes('a', 10)).toEqual([
+        probe('a', 2, false),
+        probe('a', 1),
+      ]);
+      expect(await storage.listSourceHealthProbes('a', 1)).toEqual([
+        probe('a', 2, false),
+      ]);
+      expect(await storage.listSourceHealthProbes('c', 10)).toEqual([]);
+    });
+
+    it('keeps only the newest probes of each source', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await storage.addSourceHealthProbe(probe('a', i), 3);
+      }
+      await storage.addSourceHealthProbe(probe('b', 1), 3);
+
+      expect(
+        (await storage.listSourceHealthProbes('a', 10)).map((p) => p.checked_at)
+      ).toEqual([5, 4, 3]);
+      expect(await storage.listSourceHealthProbes('b', 10)).toHaveLength(1);
+    });
+  });
+
+  describe('audit logs', () => {
+    const entry = (
+      id: string,
+      timestamp: number,
+      actor: string,
+      action: string,
+      target = ''
+    ) => ({
+      id,
+      timestamp,
+      actor,
+      action,
+      target,
+      changes: [{ path: 'SiteConfig.SiteName', before: 'A', after: 'B' }],
+    });
+
+    beforeEach(async () => {
+      await storage.addAuditLog(
+        entry('1', 1000, 'alice', 'source.add', 'src1')
+      );
+      await storage.addAuditLog(entry('2', 2000, 'bob', 'user.ban', 'carol'));
+      await storage.addAuditLog(
+        entry('3', 3000, 'alice', 'user.unban', 'carol')
+      );
+      await storage.addAuditLog(entry('4', 4000, 'alice', 'users.cleanup'));
+    });
+
+    it('pages entries newest first', async () => {
+      const first = await storage.listAuditLogs({}, 0, 3);
+      expect(first.total).toBe(4);
+      expect(first.entries.map((e) => e.id)).toEqual(['4', '3', '2']);
+      expect(first.entries[0]).toEqual(
+        entry('4', 4000, 'alice', 'users.cleanup')
+      );
+
+      const second = await storage.listAuditLogs({}, 3, 3);
+      expect(second.entries.map((e) => e.id)).toEqual(['1']);
+    });
+
+    it('filters by actor, action prefix, target and time range', async () => {
+      const ids = async (query: Parameters<IStorage['listAuditLogs']>[0]) =>
+        (await storage.listAuditLogs(query, 0, 10)).entries.map((e) => e.id);
+
+      expect(await ids({ actor: 'alice' })).toEqual(['4', '3', '1']);
+      expect(await ids({ action: 'user' })).toEqual(['3', '2']);
+      expect(await ids({ action: 'user.ban' })).toEqual(['2']);
+      expect(await ids({ target: 'carol', actor: 'alice' })).toEqual(['3']);
+      expect(await ids({ since: 2000, until: 3000 })).toEqual(['3', '2']);
+      expect(
+        (await storage.listAuditLogs({ actor: 'alice' }, 0, 1)).total
+      ).toBe(3);
+    });
+
+    it('deletes entries older than a cutoff', async () => {
+      await storage.deleteAuditLogsBefore(3000);
+
+      const { entries, total } = await storage.listAuditLogs({}, 0, 10);
+      expect(total).toBe(2);
+      expect(entries.map((e) => e.id)).toEqual(['4', '3']);
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('brings the schema to the latest version once', async () => {
+      const migrations = storage.getMigrations();
+      const latest = migrations.length
+        ? migrations[migrations.length - 1].version
+        : 0;
+
+      await runMigrations(storage);
+      expect(await storage.getSchemaVersion()).toBe(latest);
+      expect(await runMigrations(storage)).toEqual([]);
+    });
+
+    it('refuses a schema newer than the code', async () => {
+      await runMigrations(storage);
+      const newer = (await storage.getSchemaVersion()) + 1;
+      await storage.setSchemaVersion(newer);
+
+      await expect(runMigrations(storage)).rejects.toBeInstanceOf(
+        SchemaVersionError
+      );
+      expect(await storage.getSchemaVersion()).toBe(newer);
+    });
+  });
+});
+
+describe('d1-init.sql', () => {
+  const schema = fs.readFileSync(
+    path.join(process.cwd(), 'd1-init.sql'),
+    'utf8'
+  );
+  const latest = D1_MIGRATIONS[D1_MIGRATIONS.length - 1].version;
+
+  function openDb() {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { DatabaseSync } = require('node:sqlite');
+    return new DatabaseSync(':memory:');
+  }
+
+  function schemaVersion(db: any): number {
+    return Number(
+      db.prepare('SELECT version FROM schema_version WHERE id = 1').get()
+        .version
+    );
+  }
+
+  it('marks a fresh database as the latest schema', () => {
+    const db = openDb();
+    db.exec(schema);
+
+    expect(schemaVersion(db)).toBe(latest);
+  });
+
+  it('leaves an unversioned existing database to the migrations', () => {
+    const db = openDb();
+    D1_MIGRATIONS[0].statements.forEach((statement) => db.exec(statement));
+    db.exec(schema);
+
+    expect(schemaVersion(db)).toBe(0);
+    D1_MIGRATIONS.forEach(({ statements }) =>
+      statements.forEach((statement) => db.exec(statement))
+    );
+    const columns = db.prepare('PRAGMA table_info(play_records)').all();
+    expect(columns.map((c: any) => c.name)).toContain('play_line');
+  });
+
+  it('keeps an existing version row', () => {
+    const db = openDb();
+    db.exec(schema);
+    db.exec('UPDATE schema_version SET version = 3 WHERE id = 1');
+    db.exec(schema);
+
+    expect(schemaVersion(db)).toBe(3);
+  });
+});
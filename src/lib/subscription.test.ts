@@ -0,0 +1,281 @@
+/**
+ * @jest-environment node
+ */
+
+import { AdminConfig, Subscription } from './admin.types';
+import { adminConfigSchema, checkSchema } from './config-schema';
+import {
+  applySubscriptionImport,
+  importDueSubscriptions,
+  normalizeSubscriptions,
+  previewSubscriptionImport,
+  removeSubscription,
+  SubscriptionNotFoundError,
+} from './subscription';
+
+function subscription(
+  id: string,
+  priority: number,
+  extra: Partial<Subscription> = {}
+): Subscription {
+  return {
+    id,
+    name: `订阅${id}`,
+    url: `https://${id}.example/sub.json`,
+    priority,
+    enabled: true,
+    updateInterval: 3600,
+    ...extra,
+  };
+}
+
+function site(name: string, api = `https://${name}.example/api`) {
+  return { name, api };
+}
+
+function makeConfig(
+  sources: AdminConfig['SourceConfig'],
+  subscriptions: Subscription[]
+): AdminConfig {
+  return {
+    ConfigFile: '{}',
+    SiteConfig: {
+      SiteName: 'MoonTV',
+      Announcement: '',
+      SearchDownstreamMaxPage: 5,
+      SiteInterfaceCacheTime: 7200,
+      DoubanProxyType: 'direct',
+      DoubanProxy: '',
+      DoubanImageProxyType: 'direct',
+      DoubanImageProxy: '',
+      DisableYellowFilter: false,
+    },
+    UserConfig: { AllowRegister: false },
+    SourceConfig: sources,
+    CustomCategories: [],
+    SubscriptionConfig: { Subscriptions: subscriptions },
+  };
+}
+
+describe('previewSubscriptionImport', () => {
+  it('lists added, changed, removed and skipped sources', () => {
+    const a = subscription('a', 1);
+    const config = makeConfig(
+      [
+        { key: 'same', ...site('same'), from: 'custom', subscription: 'a' },
+        { key: 'moved', ...site('moved'), from: 'custom', subscription: 'a' },
+        { key: 'gone', ...site('gone'), from: 'custom', subscription: 'a' },
+        { key: 'manual', ...site('manual'), from: 'custom' },
+      ],
+      [a]
+    );
+
+    const preview = previewSubscriptionImport(config, a, {
+      api_site: {
+        same: site('same'),
+        moved: site('moved', 'https://new.example/api'),
+        manual: site('manual2'),
+        fresh: site('fresh'),
+      },
+    });
+
+    expect(preview).toEqual({
+      added: [{ key: 'fresh', ...site('fresh') }],
+      changed: [
+        {
+          before: { key: 'moved', ...site('moved') },
+          after: { key: 'moved', ...site('moved', 'https://new.example/api') },
+        },
+      ],
+      removed: [{ key: 'gone', ...site('gone') }],
+      skipped: [{ source: { key: 'manual', ...site('manual2') } }],
+      unchanged: 1,
+    });
+    // 预览不修改配置
+    expect(config.SourceConfig.map((s) => s.key)).toEqual([
+      'same',
+      'moved',
+      'gone',
+      'manual',
+    ]);
+  });
+
+  it('lets the higher priority subscription own a shared key', () => {
+    const high = subscription('high', 0);
+    const low = subscription('low', 5);
+    const config = makeConfig(
+      [{ key: 'shared', ...site('低'), from: 'custom', subscription: 'low' }],
+      [low, high]
+    );
+
+    expect(
+      previewSubscriptionImport(config, high, {
+        api_site: { shared: site('高') },
+      }).changed
+    ).toEqual([
+      {
+        before: { key: 'shared', ...site('低') },
+        after: { key: 'shared', ...site('高') },
+        from: 'low',
+      },
+    ]);
+
+    config.SourceConfig[0].subscription = 'high';
+    expect(
+      previewSubscriptionImport(config, low, {
+        api_site: { shared: site('低') },
+      }).skipped
+    ).toEqual([{ source: { key: 'shared', ...site('低') }, owner: 'high' }]);
+  });
+});
+
+describe('applySubscriptionImport', () => {
+  it('applies the preview and keeps the disabled flag', () => {
+    const a = subscription('a', 1);
+    const config = makeConfig(
+      [
+        {
+          key: 'kept',
+          ...site('kept'),
+          from: 'custom',
+          disabled: true,
+          subscription: 'a',
+        },
+        { key: 'gone', ...site('gone'), from: 'custom', subscription: 'a' },
+      ],
+      [a]
+    );
+
+    const preview = previewSubscriptionImport(config, a, {
+      api_site: {
+        kept: site('改名', 'https://kept.example/api'),
+        fresh: site('fresh'),
+      },
+    });
+    applySubscriptionImport(config, a, preview, 1000);
+
+    expect(config.SourceConfig).toEqual([
+      {
+        key: 'kept',
+        name: '改名',
+        api: 'https://kept.example/api',
+        from: 'custom',
+        disabled: true,
+        subscription: 'a',
+      },
+      {
+        key: 'fresh',
+        ...site('fresh'),
+        from: 'custom',
+        disabled: false,
+        subscription: 'a',
+      },
+    ]);
+    expect(a.lastUpdated).toBe(1000);
+    expect(checkSchema(adminConfigSchema, config).success).toBe(true);
+  });
+});
+
+describe('removeSubscription', () => {
+  it('removes only the sources owned by the subscription', () => {
+    const config = makeConfig(
+      [
+        { key: 'a1', ...site('a1'), from: 'custom', subscription: 'a' },
+        { key: 'b1', ...site('b1'), from: 'custom', subscription: 'b' },
+        { key: 'manual', ...site('manual'), from: 'custom' },
+      ],
+      [subscription('a', 0), subscription('b', 1)]
+    );
+
+    expect(removeSubscription(config, 'a')).toEqual([
+      { key: 'a1', ...site('a1') },
+    ]);
+    expect(config.SourceConfig.map((s) => s.key)).toEqual(['b1', 'manual']);
+    expect(config.SubscriptionConfig?.Subscriptions?.map((s) => s.id)).toEqual([
+      'b',
+    ]);
+    expect(() => removeSubscription(config, 'a')).toThrow(
+      SubscriptionNotFoundError
+    );
+  });
+});
+
+describe('normalizeSubscriptions', () => {
+  it('migrates the legacy single subscription', () => {
+    const config = makeConfig([], []);
+    config.SubscriptionConfig = {
+      subscriptionUrl: 'https://old.example/sub.json',
+      autoUpdate: true,
+      updateInterval: 7200,
+      lastUpdated: 123,
+      importMode: 'merge',
+    };
+
+    expect(normalizeSubscriptions(config)).toEqual([
+      {
+        id: 'default',
+        name: '默认订阅',
+        url: 'https://old.example/sub.json',
+        priority: 0,
+        enabled: true,
+        updateInterval: 7200,
+        lastUpdated: 123,
+      },
+    ]);
+    expect(config.SubscriptionConfig).toEqual({
+      Subscriptions: [expect.objectContaining({ id: 'default' })],
+    });
+  });
+
+  it('sorts subscriptions by priority', () => {
+    const config = makeConfig(
+      [],
+      [subscription('b', 3), subscription('a', -1), subscription('c', 10)]
+    );
+
+    expect(normalizeSubscriptions(config).map((s) => s.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+});
+
+describe('importDueSubscriptions', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('imports due subscriptions and reports failures', async () => {
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      status: 200,
+      text: async () =>
+        url.includes('broken')
+          ? 'not json'
+          : JSON.stringify({ api_site: { fresh: site('fresh') } }),
+    })) as unknown as typeof fetch;
+    const config = makeConfig(
+      [],
+      [
+        subscription('a', 0),
+        subscription('broken', 1),
+        subscription('recent', 2, { lastUpdated: 1000 }),
+        subscription('off', 3, { enabled: false }),
+      ]
+    );
+
+    const result = await importDueSubscriptions(config, 2000);
+
+    expect(result.imported).toEqual(['订阅a']);
+    expect(result.errors).toEqual([
+      { id: 'broken', error: expect.stringContaining('不是有效的 JSON') },
+    ]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(config.SourceConfig.map((s) => [s.key, s.subscription])).toEqual([
+      ['fresh', 'a'],
+    ]);
+  });
+});
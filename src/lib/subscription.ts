@@ -0,0 +1,327 @@
+import { AdminConfig, Subscription } from './admin.types';
+import {
+  checkSchema,
+  ConfigFileStruct,
+  ConfigValidationError,
+  formatIssues,
+  subscriptionDataSchema,
+} from './config-schema';
+
+/**
+ * 多订阅管理
+ * 每个视频源通过 subscription 字段记录所属订阅，导入订阅时只增删改该订阅拥有的源；
+ * 多个订阅提供同一 key 的源时由优先级高（priority 数值小）的订阅拥有，
+ * 手动添加或来自配置文件的源不会被订阅改写。本模块不访问存储，只修改传入的配置。
+ */
+
+export const DEFAULT_SUBSCRIPTION_INTERVAL = 86400; // 秒
+
+type SourceEntry = AdminConfig['SourceConfig'][number];
+
+// 订阅数据中的一个源
+export type SubscriptionSource = Pick<
+  SourceEntry,
+  'key' | 'name' | 'api' | 'detail'
+>;
+
+// 导入前的变更预览
+export interface SubscriptionPreview {
+  added: SubscriptionSource[];
+  changed: {
+    before: SubscriptionSource;
+    after: SubscriptionSource;
+    from?: string; // 从其他订阅接管时为原订阅 id
+  }[];
+  removed: SubscriptionSource[];
+  skipped: {
+    source: SubscriptionSource;
+    owner?: string; // 占用该 key 的订阅 id，手动添加或来自配置文件的源缺省
+  }[];
+  unchanged: number;
+}
+
+export class SubscriptionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`订阅不存在: ${id}`);
+    this.name = 'SubscriptionNotFoundError';
+  }
+}
+
+// Base58 解码函数（使用 BigInt，边缘运行时支持）
+function decodeBase58(str: string): string {
+  const alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+  // @ts-expect-error BigInt is supported in edge runtime
+  let num = 0n;
+  for (const ch of str) {
+    const index = alphabet.indexOf(ch);
+    if (index === -1) throw new Error('Invalid Base58 character');
+    // @ts-expect-error BigInt is supported in edge runtime
+    num = num * 58n + BigInt(index);
+  }
+  // 转换为字节数组
+  const bytes: number[] = [];
+  // @ts-expect-error BigInt is supported in edge runtime
+  while (num > 0n) {
+    // @ts-expect-error BigInt is supported in edge runtime
+    bytes.unshift(Number(num & 0xffn));
+    // @ts-expect-error BigInt is supported in edge runtime
+    num >>= 8n;
+  }
+  // 转换为 UTF-8 字符串
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * 从 URL 获取并解析订阅数据，数据结构不符合要求时抛出 ConfigValidationError
+ */
+export async function fetchSubscriptionData(
+  url: string
+): Promise<ConfigFileStruct> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const text = await response.text();
+  let data: unknown;
+  // 尝试 Base58 解码
+  try {
+    data = JSON.parse(decodeBase58(text));
+  } catch {
+    // 如果不是 Base58，直接解析为 JSON
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new ConfigValidationError('订阅数据不是有效的 JSON', [
+        { path: '', message: 'JSON 语法错误' },
+      ]);
+    }
+  }
+
+  const checked = checkSchema(subscriptionDataSchema, data);
+  if (!checked.success) {
+    throw new ConfigValidationError('订阅数据校验失败', checked.issues);
+  }
+  return checked.data;
+}
+
+export function generateSubscriptionId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(6)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 返回按优先级排序的订阅列表，并将旧版单订阅设置迁移为一个订阅
+ * 旧版导入的源无法区分来源，迁移后仍视为手动添加的源
+ */
+export function normalizeSubscriptions(config: AdminConfig): Subscription[] {
+  const subConfig = (config.SubscriptionConfig =
+    config.SubscriptionConfig || {});
+  if (!subConfig.Subscriptions) {
+    subConfig.Subscriptions = subConfig.subscriptionUrl
+      ? [
+          {
+            id: 'default',
+            name: '默认订阅',
+            url: subConfig.subscriptionUrl,
+            priority: 0,
+            enabled: subConfig.autoUpdate === true,
+            updateInterval:
+              subConfig.updateInterval || DEFAULT_SUBSCRIPTION_INTERVAL,
+            lastUpdated: subConfig.lastUpdated,
+          },
+        ]
+      : [];
+  }
+  delete subConfig.subscriptionUrl;
+  delete subConfig.autoUpdate;
+  delete subConfig.updateInterval;
+  delete subConfig.lastUpdated;
+  delete subConfig.importMode;
+
+  subConfig.Subscriptions.sort((a, b) => a.priority - b.priority);
+  return subConfig.Subscriptions;
+}
+
+export function findSubscription(
+  config: AdminConfig,
+  id: string
+): Subscription {
+  const subscription = normalizeSubscriptions(config).find((s) => s.id === id);
+  if (!subscription) {
+    throw new SubscriptionNotFoundError(id);
+  }
+  return subscription;
+}
+
+// 是否有到期需要自动更新的订阅
+export function isSubscriptionDue(
+  subscription: Subscription,
+  now: number
+): boolean {
+  return (
+    subscription.enabled &&
+    (!subscription.lastUpdated ||
+      now - subscription.lastUpdated > subscription.updateInterval)
+  );
+}
+
+const toSource = ({ key, name, api, detail }: SubscriptionSource) => ({
+  key,
+  name,
+  api,
+  detail,
+});
+
+const sameSource = (a: SubscriptionSource, b: SubscriptionSource) =>
+  a.name === b.name && a.api === b.api && (a.detail || '') === (b.detail || '');
+
+/**
+ * 计算导入订阅数据会对视频源做出的变更，不修改配置
+ */
+export function previewSubscriptionImport(
+  config: AdminConfig,
+  subscription: Subscription,
+  data: ConfigFileStruct
+): SubscriptionPreview {
+  const priorities = new Map(
+    normalizeSubscriptions(config).map((s) => [s.id, s.priority])
+  );
+  const existing = new Map(config.SourceConfig.map((s) => [s.key, s]));
+  const preview: SubscriptionPreview = {
+    added: [],
+    changed: [],
+    removed: [],
+    skipped: [],
+    unchanged: 0,
+  };
+
+  const incoming = Object.entries(data.api_site).map(([key, site]) => ({
+    key,
+    name: site.name,
+    api: site.api,
+    detail: site.detail,
+  }));
+  for (const source of incoming) {
+    const current = existing.get(source.key);
+    if (!current) {
+      preview.added.push(source);
+    } else if (current.subscription === subscription.id) {
+      if (sameSource(current, source)) {
+        preview.unchanged++;
+      } else {
+        preview.changed.push({ before: toSource(current), after: source });
+      }
+    } else if (
+      current.subscription &&
+      // 原订阅已不存在时视为优先级最低
+      subscription.priority <
+        (priorities.get(current.subscription) ?? Number.POSITIVE_INFINITY)
+    ) {
+      preview.changed.push({
+        before: toSource(current),
+        after: source,
+        from: current.subscription,
+      });
+    } else {
+      preview.skipped.push({ source, owner: current.subscription });
+    }
+  }
+
+  const incomingKeys = new Set(incoming.map((s) => s.key));
+  preview.removed = config.SourceConfig.filter(
+    (s) => s.subscription === subscription.id && !incomingKeys.has(s.key)
+  ).map(toSource);
+  return preview;
+}
+
+/**
+ * 将预览中的变更应用到配置，并记录订阅的更新时间
+ */
+export function applySubscriptionImport(
+  config: AdminConfig,
+  subscription: Subscription,
+  preview: SubscriptionPreview,
+  now: number
+): void {
+  const removedKeys = new Set(preview.removed.map((s) => s.key));
+  config.SourceConfig = config.SourceConfig.filter(
+    (s) => !removedKeys.has(s.key)
+  );
+
+  for (const { after } of preview.changed) {
+    const current = config.SourceConfig.find((s) => s.key === after.key);
+    if (current) {
+      // 保留管理员设置的启用状态
+      Object.assign(current, after, {
+        from: 'custom',
+        subscription: subscription.id,
+      });
+    }
+  }
+  for (const source of preview.added) {
+    config.SourceConfig.push({
+      ...source,
+      from: 'custom',
+      disabled: false,
+      subscription: subscription.id,
+    });
+  }
+  subscription.lastUpdated = now;
+}
+
+/**
+ * 删除订阅及其拥有的视频源，返回被删除的源
+ */
+export function removeSubscription(
+  config: AdminConfig,
+  id: string
+): SubscriptionSource[] {
+  const subscriptions = normalizeSubscriptions(config);
+  const index = subscriptions.findIndex((s) => s.id === id);
+  if (index === -1) {
+    throw new SubscriptionNotFoundError(id);
+  }
+  subscriptions.splice(index, 1);
+  const removed = config.SourceConfig.filter((s) => s.subscription === id);
+  config.SourceConfig = config.SourceConfig.filter(
+    (s) => s.subscription !== id
+  );
+  return removed.map(toSource);
+}
+
+/**
+ * 按优先级依次导入到期的订阅，单个订阅失败不影响其他订阅
+ * @returns 成功导入的订阅名与失败的订阅
+ */
+export async function importDueSubscriptions(
+  config: AdminConfig,
+  now: number
+): Promise<{ imported: string[]; errors: { id: string; error: string }[] }> {
+  const imported: string[] = [];
+  const errors: { id: string; error: string }[] = [];
+  const due = normalizeSubscriptions(config).filter((s) =>
+    isSubscriptionDue(s, now)
+  );
+  for (const subscription of due) {
+    try {
+      const data = await fetchSubscriptionData(subscription.url);
+      applySubscriptionImport(
+        config,
+        subscription,
+        previewSubscriptionImport(config, subscription, data),
+        now
+      );
+      imported.push(subscription.name);
+    } catch (error) {
+      errors.push({
+        id: subscription.id,
+        error:
+          error instanceof ConfigValidationError
+            ? `${error.message}：${formatIssues(error.issues)}`
+            : (error as Error).message,
+      });
+    }
+  }
+  return { imported, errors };
+}
@@ -0,0 +1,177 @@
+/* eslint-disable no-console */
+
+import { getConfig } from './config';
+import { getStorage } from './db';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { getUserRecord } from './user-registry';
+
+const RECOVERY_CODE_COUNT = 8;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(normalizeRecoveryCode(code))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// 生成一组恢复码，格式如 ABCDE-FGHJK
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(10));
+    const chars = Array.from(bytes).map(
+      (b) => RECOVERY_CODE_ALPHABET[b % RECOVERY_CODE_ALPHABET.length]
+    );
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+/**
+ * 用户是否已启用两步验证
+ */
+export async function isTwoFactorEnabled(username: string): Promise<boolean> {
+  const config = await getStorage().getTwoFactor(username);
+  return !!config?.enabled;
+}
+
+/**
+ * 站长开启强制后，管理员必须启用两步验证
+ */
+export async function isTwoFactorRequired(username: string): Promise<boolean> {
+  if (username === process.env.USERNAME) return false;
+  const config = await getConfig();
+  if (!config.UserConfig.RequireAdminTwoFactor) return false;
+  const user = await getUserRecord(username);
+  return user?.role === 'admin';
+}
+
+/**
+ * 开始绑定：生成新密钥（未启用），返回密钥与 otpauth URI
+ */
+export async function beginTwoFactorEnrollment(
+  username: string
+): Promise<{ secret: string; otpauthUri: string }> {
+  const storage = getStorage();
+  const existing = await storage.getTwoFactor(username);
+  if (existing?.enabled) {
+    throw new Error('已启用两步验证');
+  }
+
+  const secret = generateTotpSecret();
+  await storage.setTwoFactor(username, {
+    secret,
+    enabled: false,
+    recovery_codes: [],
+    created_at: Date.now(),
+  });
+
+  const config = await getConfig();
+  const issuer = config.SiteConfig.SiteName || 'MoonTV';
+  return { secret, otpauthUri: buildOtpauthUri(issuer, username, secret) };
+}
+
+/**
+ * 确认绑定：验证码正确后启用，并返回仅展示一次的恢复码
+ * 验证码错误返回 null
+ */
+export async function confirmTwoFactorEnrollment(
+  username: string,
+  code: string
+): Promise<string[] | null> {
+  const storage = getStorage();
+  const config = await storage.getTwoFactor(username);
+  if (!config || config.enabled) return null;
+
+  const step = await verifyTotp(config.secret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.setTwoFactor(username, {
+    ...config,
+    enabled: true,
+    recovery_codes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+    last_used_step: step,
+  });
+  return recoveryCodes;
+}
+
+/**
+ * 校验第二因素：接受当前 TOTP 验证码或一次性恢复码
+ */
+export async function verifySecondFactor(
+  username: string,
+  code: string
+): Promise<boolean> {
+  const storage = getStorage();
+  const config = await storage.getTwoFactor(username);
+  if (!config?.enabled || !code) return false;
+
+  const step = await verifyTotp(config.secret, code, config.last_used_step);
+  if (step !== null) {
+    await storage.setTwoFactor(username, { ...config, last_used_step: step });
+    return true;
+  }
+
+  // 尝试恢复码，使用后作废
+  const hash = await hashRecoveryCode(code);
+  const idx = config.recovery_codes.indexOf(hash);
+  if (idx === -1) return false;
+
+  const recovery_codes = [...config.recovery_codes];
+  recovery_codes.splice(idx, 1);
+  await storage.setTwoFactor(username, { ...config, recovery_codes });
+  console.log(
+    `用户 ${username} 使用了恢复码，剩余 ${recovery_codes.length} 个`
+  );
+  return true;
+}
+
+/**
+ * 重新生成恢复码，旧恢复码全部作废
+ */
+export async function regenerateRecoveryCodes(
+  username: string
+): Promise<string[]> {
+  const storage = getStorage();
+  const config = await storage.getTwoFactor(username);
+  if (!config?.enabled) {
+    throw new Error('未启用两步验证');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.setTwoFactor(username, {
+    ...config,
+    recovery_codes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+  });
+  return recoveryCodes;
+}
+
+/**
+ * 关闭两步验证并删除密钥
+ */
+export async function disableTwoFactor(username: string): Promise<void> {
+  await getStorage().deleteTwoFactor(username);
+}
+
+/**
+ * 获取两步验证状态（剩余恢复码数量等）
+ */
+export async function getTwoFactorStatus(username: string): Promise<{
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}> {
+  const config = await getStorage().getTwoFactor(username);
+  return {
+    enabled: !!config?.enabled,
+    required: await isTwoFactorRequired(username),
+    recoveryCodesLeft: config?.enabled ? config.recovery_codes.length : 0,
+  };
+}
@@ -12,6 +12,7 @@ export interface PlayRecord {
   total_time: number; // 总进度（秒）
   save_time: number; // 记录保存时间（时间戳）
   search_title: string; // 搜索时使用的标题
+  play_line?: string; // 所选播放线路名，缺省为默认线路
 }
 
 // 收藏数据结构
@@ -25,6 +26,132 @@ export interface Favorite {
   search_title: string; // 搜索时使用的标题
 }
 
+// 登录会话数据结构
+export interface AuthSession {
+  id: string; // 会话 ID（随机生成）
+  username: string;
+  device: string; // 设备描述，如 "Chrome · Windows"
+  ip?: string; // 登录时的客户端 IP
+  created_at: number; // 创建时间（时间戳）
+  last_seen: number; // 最近活跃时间（时间戳）
+  expires_at: number; // 过期时间（时间戳）
+}
+
+// 两步验证（TOTP）配置
+export interface TwoFactorConfig {
+  secret: string; // Base32 编码的 TOTP 密钥
+  enabled: boolean; // 绑定时先写入未启用的密钥，验证通过后启用
+  recovery_codes: string[]; // 恢复码的 SHA-256 哈希，使用一次后移除
+  last_used_step?: number; // 最近一次成功使用的时间步，防止验证码重放
+  created_at: number;
+}
+
+// 个人 API 令牌（供 TVBox 等第三方客户端使用），令牌明文仅在创建时返回一次
+export interface ApiToken {
+  id: string; // 公开 ID，用于列表展示与吊销
+  username: string;
+  name: string; // 令牌备注，如 "客厅 TVBox"
+  token_hash: string; // 令牌的 SHA-256 哈希
+  prefix: string; // 令牌前几位，便于用户辨认
+  created_at: number; // 创建时间（时间戳）
+  last_used_at?: number; // 最近使用时间（时间戳）
+}
+
+// 用户账户记录（角色、封禁、分组等），独立于管理员配置按用户存取
+export interface UserRecord {
+  username: string;
+  role: 'user' | 'admin' | 'owner';
+  banned?: boolean;
+  pending?: boolean; // 注册后等待审核，审核通过前无法登录
+  group?: string;
+  lastOnline?: number; // 最近在线时间（时间戳）
+  created_at: number; // 加入用户列表的时间（时间戳），用于分页排序
+}
+
+// 登录失败计数（按用户名或客户端 IP 分别统计）
+export interface LoginAttempt {
+  key: string; // 计数键，如 "user:alice"、"ip:1.2.3.4"
+  failures: number; // 连续失败次数
+  last_failed_at: number; // 最近一次失败时间（时间戳）
+  next_attempt_at: number; // 退避结束时间（时间戳），此前的登录请求直接拒绝
+  locked_until: number; // 锁定截止时间（时间戳），0 表示未锁定
+}
+
+// 数据备份元信息，备份内容为与数据导出相同格式的加密文件
+export interface BackupMeta {
+  id: string; // 备份文件名，如 moontv-backup-20240101-010000.dat
+  created_at: number; // 创建时间（时间戳）
+  size: number; // 加密内容长度（字节）
+  trigger: 'scheduled' | 'manual'; // 定时任务创建或站长手动创建
+}
+
+// 管理员配置历史版本的元信息，version 为该次写入后的配置版本号
+export interface ConfigHistoryMeta {
+  version: number;
+  saved_at: number; // 保存时间（时间戳）
+  author: string; // 修改者用户名，系统自动写入时为 "system"
+  // 修改原因，通常为对应的审计操作类型，如 "source.add"；回滚为 "config.rollback:<版本号>"
+  reason: string;
+}
+
+// 视频源健康检查的一次探测结果
+export interface SourceHealthProbe {
+  source: string; // 视频源 key
+  checked_at: number; // 探测时间（时间戳）
+  ok: boolean; // HTTP 状态正常且返回内容可解析
+  status?: number; // HTTP 状态码，请求未完成（超时、网络错误）时缺省
+  latency: number; // 耗时（毫秒）
+  parsed: boolean; // 返回内容是否为含 list 数组的 JSON
+  results: number; // 本页结果数
+  total?: number; // 接口返回的结果总数
+  error?: string;
+}
+
+// 审计日志中的一项字段变更，新增或删除时对应一侧缺省
+export interface AuditChange {
+  path: string; // 字段路径，如 "SourceConfig[src1].disabled"
+  before?: unknown;
+  after?: unknown;
+}
+
+// 管理操作审计日志，写入后不再修改
+export interface AuditLogEntry {
+  id: string;
+  timestamp: number; // 操作时间（时间戳）
+  actor: string; // 操作者用户名
+  action: string; // 操作类型，如 "source.disable"、"user.ban"
+  target: string; // 操作对象，如视频源 key、用户名，全局设置为空字符串
+  changes: AuditChange[];
+}
+
+// 审计日志筛选条件，各项均可缺省
+export interface AuditLogQuery {
+  actor?: string;
+  // 匹配同名操作或以其为前缀的操作，如 "user" 匹配 "user.ban"
+  action?: string;
+  target?: string;
+  since?: number; // 起始时间（含）
+  until?: number; // 截止时间（含）
+}
+
+export function matchesAuditLogQuery(
+  entry: AuditLogEntry,
+  query: AuditLogQuery
+): boolean {
+  if (query.actor && entry.actor !== query.actor) return false;
+  if (
+    query.action &&
+    entry.action !== query.action &&
+    !entry.action.startsWith(`${query.action}.`)
+  ) {
+    return false;
+  }
+  if (query.target && entry.target !== query.target) return false;
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp > query.until) return false;
+  return true;
+}
+
 // 存储接口
 export interface IStorage {
   // 播放记录相关
@@ -50,9 +177,24 @@ export interface IStorage {
   checkUserExist(userName: string): Promise<boolean>;
   // 修改用户密码
   changePassword(userName: string, newPassword: string): Promise<void>;
-  // 删除用户（包括密码、搜索历史、播放记录、收藏夹）
+  // 获取用户密码哈希（用于数据迁移导出，旧版明文会先哈希再返回）
+  getPasswordHash(userName: string): Promise<string | null>;
+  // 直接写入密码哈希（用于数据迁移导入）
+  setPasswordHash(userName: string, passwordHash: string): Promise<void>;
+  // 删除用户（包括密码、账户记录、搜索历史、播放记录、收藏夹）
   deleteUser(userName: string): Promise<void>;
 
+  // 用户账户记录相关，列表按 created_at 升序分页
+  getUserRecord(userName: string): Promise<UserRecord | null>;
+  setUserRecord(record: UserRecord): Promise<void>;
+  deleteUserRecord(userName: string): Promise<void>;
+  listUserRecords(
+    offset: number,
+    limit: number
+  ): Promise<{ users: UserRecord[]; total: number }>;
+  // 仅更新最近在线时间，不改写账户记录的其他字段
+  setUserLastOnline(userName: string, lastOnline: number): Promise<void>;
+
   // 搜索历史相关
   getSearchHistory(userName: string): Promise<string[]>;
   addSearchHistory(userName: string, keyword: string): Promise<void>;
@@ -61,8 +203,42 @@ export interface IStorage {
   // 用户列表
   getAllUsers(): Promise<string[]>;
 
+  // 登录会话相关
+  createSession(session: AuthSession): Promise<void>;
+  getSession(sessionId: string): Promise<AuthSession | null>;
+  touchSession(sessionId: string, lastSeen: number): Promise<void>;
+  getUserSessions(userName: string): Promise<AuthSession[]>;
+  deleteSession(sessionId: string): Promise<void>;
+  // 删除用户的全部会话（用于封禁、改密、登出其他设备）
+  deleteUserSessions(userName: string): Promise<void>;
+
+  // 两步验证相关
+  getTwoFactor(userName: string): Promise<TwoFactorConfig | null>;
+  setTwoFactor(userName: string, config: TwoFactorConfig): Promise<void>;
+  deleteTwoFactor(userName: string): Promise<void>;
+
+  // API 令牌相关，按令牌哈希存取
+  createApiToken(token: ApiToken): Promise<void>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | null>;
+  getUserApiTokens(userName: string): Promise<ApiToken[]>;
+  getAllApiTokens(): Promise<ApiToken[]>;
+  touchApiToken(tokenHash: string, lastUsedAt: number): Promise<void>;
+  deleteApiToken(tokenHash: string): Promise<void>;
+  // 删除用户的全部令牌（用于删除用户）
+  deleteUserApiTokens(userName: string): Promise<void>;
+
+  // 登录失败计数相关
+  getLoginAttempt(key: string): Promise<LoginAttempt | null>;
+  // ttlMs 后计数自动失效
+  setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void>;
+  deleteLoginAttempt(key: string): Promise<void>;
+  // 获取当前处于锁定状态的计数
+  getLockedLoginAttempts(): Promise<LoginAttempt[]>;
+
   // 管理员配置相关
   getAdminConfig(): Promise<AdminConfig | null>;
+  // 乐观并发：存储中的版本与 config.Version 不一致时抛出 AdminConfigConflictError，
+  // 写入成功后 config.Version 加一
   setAdminConfig(config: AdminConfig): Promise<void>;
 
   // 跳过片头片尾配置相关
@@ -82,6 +258,59 @@ export interface IStorage {
 
   // 数据清理
   clearAllData(): Promise<void>;
+
+  // 数据备份相关
+  // 按创建时间倒序列出
+  listBackups(): Promise<BackupMeta[]>;
+  getBackup(id: string): Promise<string | null>;
+  saveBackup(meta: BackupMeta, content: string): Promise<void>;
+  deleteBackup(id: string): Promise<void>;
+
+  // 管理员配置历史相关
+  // 按版本号倒序列出
+  listConfigHistory(): Promise<ConfigHistoryMeta[]>;
+  getConfigHistory(version: number): Promise<AdminConfig | null>;
+  saveConfigHistory(meta: ConfigHistoryMeta, config: AdminConfig): Promise<void>;
+  deleteConfigHistory(version: number): Promise<void>;
+
+  // 视频源健康检查相关，每个源只保留最近 keep 条；列表按探测时间倒序
+  addSourceHealthProbe(probe: SourceHealthProbe, keep: number): Promise<void>;
+  listSourceHealthProbes(
+    source: string,
+    limit: number
+  ): Promise<SourceHealthProbe[]>;
+
+  // 审计日志相关，只追加不修改；列表按时间倒序分页
+  addAuditLog(entry: AuditLogEntry): Promise<void>;
+  listAuditLogs(
+    query: AuditLogQuery,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  // 按保留期限清理早于 before 的日志
+  deleteAuditLogsBefore(before: number): Promise<void>;
+
+  // 存储结构版本相关（由 migrations.ts 调用）
+  // 已应用的结构版本，从未迁移过时为 0
+  getSchemaVersion(): Promise<number>;
+  setSchemaVersion(version: number): Promise<void>;
+  // 本后端的结构迁移，按版本号升序排列
+  getMigrations(): SchemaMigration[];
+}
+
+// 存储结构迁移，up 需可重复执行（多个实例可能同时启动）
+export interface SchemaMigration {
+  version: number; // 迁移完成后的结构版本，从 1 开始连续递增
+  name: string;
+  up(): Promise<void>;
+}
+
+// 管理员配置已被其他请求修改（版本不一致）
+export class AdminConfigConflictError extends Error {
+  constructor() {
+    super('配置已被其他操作修改，请刷新后重试');
+    this.name = 'AdminConfigConflictError';
+  }
 }
 
 // 搜索结果数据结构
@@ -98,6 +327,15 @@ export interface SearchResult {
   desc?: string;
   type_name?: string;
   douban_id?: number;
+  // 全部播放线路，仅有多条线路时提供；episodes 与 episodes_titles 为当前使用的线路，默认为分集最多的线路
+  play_lines?: PlayLine[];
+}
+
+// 播放线路，name 为 vod_play_from 中的线路名
+export interface PlayLine {
+  name: string;
+  episodes: string[];
+  episodes_titles: string[];
 }
 
 // 豆瓣数据结构
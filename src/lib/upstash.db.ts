@@ -3,11 +3,42 @@
 import { Redis } from '@upstash/redis';
 
 import { AdminConfig } from './admin.types';
-import { Favorite, IStorage, PlayRecord, SkipConfig } from './types';
+import { ensurePasswordHash, hashPassword, verifyPassword } from './password';
+import {
+  DELETE_PLAY_RECORD_SCRIPT,
+  SET_ADMIN_CONFIG_SCRIPT,
+  SET_PLAY_RECORD_SCRIPT,
+} from './redis-scripts';
+import {
+  AdminConfigConflictError,
+  ApiToken,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuthSession,
+  BackupMeta,
+  ConfigHistoryMeta,
+  Favorite,
+  IStorage,
+  LoginAttempt,
+  matchesAuditLogQuery,
+  PlayRecord,
+  SchemaMigration,
+  SkipConfig,
+  SourceHealthProbe,
+  TwoFactorConfig,
+  UserRecord,
+} from './types';
 
 // 搜索历史最大条数
 const SEARCH_HISTORY_LIMIT = 20;
 
+// 用户数据存储布局版本：2 表示播放记录、收藏、跳过配置以用户哈希存储
+const USER_DATA_LAYOUT_VERSION = '2';
+
+// 旧版按条目存储的 key 类型，迁移时逐类扫描
+const LEGACY_DATA_KINDS = ['pr', 'fav', 'skip'] as const;
+type LegacyDataKind = (typeof LEGACY_DATA_KINDS)[number];
+
 // 数据类型转换辅助函数
 function ensureString(value: any): string {
   return String(value);
@@ -55,22 +86,119 @@ async function withRetry<T>(
 
 export class UpstashRedisStorage implements IStorage {
   private client: Redis;
+  // 旧版 key 迁移任务，进程内只执行一次
+  private layoutMigration: Promise<void> | null = null;
+
+  // 默认取 UPSTASH_URL / UPSTASH_TOKEN；连接其他实例（如在线迁移的目标）时使用独立的客户端
+  constructor(url?: string, token?: string) {
+    this.client = getUpstashRedisClient(url, token);
+  }
+
+  // ---------- 旧版数据迁移 ----------
+  private dataLayoutKey() {
+    return 'migration:user_data_layout';
+  }
+
+  /**
+   * 确保旧版 u:{user}:pr:*、u:{user}:fav:*、u:{user}:skip:* 已迁移到用户哈希
+   * 迁移失败时下次访问重试
+   */
+  private ensureDataLayout(): Promise<void> {
+    if (!this.layoutMigration) {
+      this.layoutMigration = this.migrateLegacyDataKeys().catch((err) => {
+        this.layoutMigration = null;
+        throw err;
+      });
+    }
+    return this.layoutMigration;
+  }
+
+  private async migrateLegacyDataKeys(): Promise<void> {
+    const layout = await withRetry(() => this.client.get(this.dataLayoutKey()));
+    if (layout !== null && ensureString(layout) === USER_DATA_LAYOUT_VERSION) {
+      return;
+    }
+
+    let migrated = 0;
+    for (const kind of LEGACY_DATA_KINDS) {
+      let cursor = '0';
+      do {
+        const [nextCursor, keys] = await withRetry(() =>
+          this.client.scan(cursor, { match: `u:*:${kind}:*`, count: 500 })
+        );
+        cursor = ensureString(nextCursor);
+        if (keys.length === 0) continue;
+
+        const values = await withRetry(() => this.client.mget<any[]>(...keys));
+        for (let i = 0; i < keys.length; i++) {
+          const match = keys[i].match(/^u:(.+?):(?:pr|fav|skip):(.+)$/);
+          const value = values[i];
+          if (match && value) {
+            await this.migrateLegacyEntry(kind, match[1], match[2], value);
+            migrated++;
+          }
+        }
+        await withRetry(() => this.client.del(...keys));
+      } while (cursor !== '0');
+    }
+
+    await withRetry(() =>
+      this.client.set(this.dataLayoutKey(), USER_DATA_LAYOUT_VERSION)
+    );
+    if (migrated > 0) {
+      console.log(`已迁移 ${migrated} 条用户数据到哈希存储`);
+    }
+  }
 
-  constructor() {
-    this.client = getUpstashRedisClient();
+  // 迁移单条旧数据；新布局中已存在的数据优先
+  private async migrateLegacyEntry(
+    kind: LegacyDataKind,
+    userName: string,
+    field: string,
+    value: any
+  ): Promise<void> {
+    switch (kind) {
+      case 'pr': {
+        await withRetry(() =>
+          this.client.hsetnx(this.prHashKey(userName), field, value)
+        );
+        const { title } = value as PlayRecord;
+        if (title) {
+          await withRetry(() =>
+            this.client.hsetnx(this.prTitleKey(userName), title, field)
+          );
+        }
+        break;
+      }
+      case 'fav':
+        await withRetry(() =>
+          this.client.hsetnx(this.favHashKey(userName), field, value)
+        );
+        break;
+      case 'skip':
+        await withRetry(() =>
+          this.client.hsetnx(this.skipHashKey(userName), field, value)
+        );
+        break;
+    }
   }
 
   // ---------- 播放记录 ----------
-  private prKey(user: string, key: string) {
-    return `u:${user}:pr:${key}`; // u:username:pr:source+id
+  private prHashKey(user: string) {
+    return `u:${user}:playrecords`; // field: source+id
+  }
+
+  private prTitleKey(user: string) {
+    return `u:${user}:playrecords:titles`; // field: title, value: source+id
   }
 
   async getPlayRecord(
     userName: string,
     key: string
   ): Promise<PlayRecord | null> {
+    await this.ensureDataLayout();
     const val = await withRetry(() =>
-      this.client.get(this.prKey(userName, key))
+      this.client.hget(this.prHashKey(userName), key)
     );
     return val ? (val as PlayRecord) : null;
   }
@@ -80,57 +208,51 @@ export class UpstashRedisStorage implements IStorage {
     key: string,
     record: PlayRecord
   ): Promise<void> {
-    // 删除同名的旧记录
-    if (record.title) {
-      const pattern = `u:${userName}:pr:*`;
-      const allKeys: string[] = await withRetry(() => this.client.keys(pattern));
-      
-      for (const fullKey of allKeys) {
-        const val = await withRetry(() => this.client.get(fullKey));
-        if (val) {
-          const existingRecord = val as PlayRecord;
-          // 如果找到同名但不是当前key的记录，则删除它
-          if (existingRecord.title === record.title && fullKey !== this.prKey(userName, key)) {
-            await withRetry(() => this.client.del(fullKey));
-          }
-        }
-      }
-    }
-
-    await withRetry(() => this.client.set(this.prKey(userName, key), record));
+    await this.ensureDataLayout();
+    // 同名的旧记录由脚本通过标题索引删除
+    await withRetry(() =>
+      this.client.eval(
+        SET_PLAY_RECORD_SCRIPT,
+        [this.prHashKey(userName), this.prTitleKey(userName)],
+        [key, JSON.stringify(record), record.title || '']
+      )
+    );
   }
 
   async getAllPlayRecords(
     userName: string
   ): Promise<Record<string, PlayRecord>> {
-    const pattern = `u:${userName}:pr:*`;
-    const keys: string[] = await withRetry(() => this.client.keys(pattern));
-    if (keys.length === 0) return {};
-
+    await this.ensureDataLayout();
+    const values = await withRetry(() =>
+      this.client.hgetall<Record<string, PlayRecord>>(this.prHashKey(userName))
+    );
     const result: Record<string, PlayRecord> = {};
-    for (const fullKey of keys) {
-      const value = await withRetry(() => this.client.get(fullKey));
-      if (value) {
-        // 截取 source+id 部分
-        const keyPart = ensureString(fullKey.replace(`u:${userName}:pr:`, ''));
-        result[keyPart] = value as PlayRecord;
-      }
+    for (const [field, value] of Object.entries(values || {})) {
+      result[ensureString(field)] = value;
     }
     return result;
   }
 
   async deletePlayRecord(userName: string, key: string): Promise<void> {
-    await withRetry(() => this.client.del(this.prKey(userName, key)));
+    await this.ensureDataLayout();
+    await withRetry(() =>
+      this.client.eval(
+        DELETE_PLAY_RECORD_SCRIPT,
+        [this.prHashKey(userName), this.prTitleKey(userName)],
+        [key]
+      )
+    );
   }
 
   // ---------- 收藏 ----------
-  private favKey(user: string, key: string) {
-    return `u:${user}:fav:${key}`;
+  private favHashKey(user: string) {
+    return `u:${user}:favorites`; // field: source+id
   }
 
   async getFavorite(userName: string, key: string): Promise<Favorite | null> {
+    await this.ensureDataLayout();
     const val = await withRetry(() =>
-      this.client.get(this.favKey(userName, key))
+      this.client.hget(this.favHashKey(userName), key)
     );
     return val ? (val as Favorite) : null;
   }
@@ -140,29 +262,27 @@ export class UpstashRedisStorage implements IStorage {
     key: string,
     favorite: Favorite
   ): Promise<void> {
+    await this.ensureDataLayout();
     await withRetry(() =>
-      this.client.set(this.favKey(userName, key), favorite)
+      this.client.hset(this.favHashKey(userName), { [key]: favorite })
     );
   }
 
   async getAllFavorites(userName: string): Promise<Record<string, Favorite>> {
-    const pattern = `u:${userName}:fav:*`;
-    const keys: string[] = await withRetry(() => this.client.keys(pattern));
-    if (keys.length === 0) return {};
-
+    await this.ensureDataLayout();
+    const values = await withRetry(() =>
+      this.client.hgetall<Record<string, Favorite>>(this.favHashKey(userName))
+    );
     const result: Record<string, Favorite> = {};
-    for (const fullKey of keys) {
-      const value = await withRetry(() => this.client.get(fullKey));
-      if (value) {
-        const keyPart = ensureString(fullKey.replace(`u:${userName}:fav:`, ''));
-        result[keyPart] = value as Favorite;
-      }
+    for (const [field, value] of Object.entries(values || {})) {
+      result[ensureString(field)] = value;
     }
     return result;
   }
 
   async deleteFavorite(userName: string, key: string): Promise<void> {
-    await withRetry(() => this.client.del(this.favKey(userName, key)));
+    await this.ensureDataLayout();
+    await withRetry(() => this.client.hdel(this.favHashKey(userName), key));
   }
 
   // ---------- 用户注册 / 登录 ----------
@@ -171,8 +291,10 @@ export class UpstashRedisStorage implements IStorage {
   }
 
   async registerUser(userName: string, password: string): Promise<void> {
-    // 简单存储明文密码，生产环境应加密
-    await withRetry(() => this.client.set(this.userPwdKey(userName), password));
+    const passwordHash = await hashPassword(password);
+    await withRetry(() =>
+      this.client.set(this.userPwdKey(userName), passwordHash)
+    );
   }
 
   async verifyUser(userName: string, password: string): Promise<boolean> {
@@ -181,7 +303,15 @@ export class UpstashRedisStorage implements IStorage {
     );
     if (stored === null) return false;
     // 确保比较时都是字符串类型
-    return ensureString(stored) === password;
+    const { valid, needsRehash } = await verifyPassword(
+      password,
+      ensureString(stored)
+    );
+    // 旧版明文密码在登录成功后透明迁移为哈希
+    if (valid && needsRehash) {
+      await this.changePassword(userName, password);
+    }
+    return valid;
   }
 
   // 检查用户是否存在
@@ -195,9 +325,23 @@ export class UpstashRedisStorage implements IStorage {
 
   // 修改用户密码
   async changePassword(userName: string, newPassword: string): Promise<void> {
-    // 简单存储明文密码，生产环境应加密
+    const passwordHash = await hashPassword(newPassword);
+    await withRetry(() =>
+      this.client.set(this.userPwdKey(userName), passwordHash)
+    );
+  }
+
+  async getPasswordHash(userName: string): Promise<string | null> {
+    const stored = await withRetry(() =>
+      this.client.get(this.userPwdKey(userName))
+    );
+    if (stored === null) return null;
+    return ensurePasswordHash(ensureString(stored));
+  }
+
+  async setPasswordHash(userName: string, passwordHash: string): Promise<void> {
     await withRetry(() =>
-      this.client.set(this.userPwdKey(userName), newPassword)
+      this.client.set(this.userPwdKey(userName), passwordHash)
     );
   }
 
@@ -209,32 +353,22 @@ export class UpstashRedisStorage implements IStorage {
     // 删除搜索历史
     await withRetry(() => this.client.del(this.shKey(userName)));
 
-    // 删除播放记录
-    const playRecordPattern = `u:${userName}:pr:*`;
-    const playRecordKeys = await withRetry(() =>
-      this.client.keys(playRecordPattern)
-    );
-    if (playRecordKeys.length > 0) {
-      await withRetry(() => this.client.del(...playRecordKeys));
-    }
-
-    // 删除收藏夹
-    const favoritePattern = `u:${userName}:fav:*`;
-    const favoriteKeys = await withRetry(() =>
-      this.client.keys(favoritePattern)
-    );
-    if (favoriteKeys.length > 0) {
-      await withRetry(() => this.client.del(...favoriteKeys));
-    }
+    // 删除账户记录、登录会话、两步验证配置与 API 令牌
+    await this.deleteUserRecord(userName);
+    await this.deleteUserSessions(userName);
+    await this.deleteTwoFactor(userName);
+    await this.deleteUserApiTokens(userName);
 
-    // 删除跳过片头片尾配置
-    const skipConfigPattern = `u:${userName}:skip:*`;
-    const skipConfigKeys = await withRetry(() =>
-      this.client.keys(skipConfigPattern)
+    // 删除播放记录、收藏夹与跳过片头片尾配置
+    await this.ensureDataLayout();
+    await withRetry(() =>
+      this.client.del(
+        this.prHashKey(userName),
+        this.prTitleKey(userName),
+        this.favHashKey(userName),
+        this.skipHashKey(userName)
+      )
     );
-    if (skipConfigKeys.length > 0) {
-      await withRetry(() => this.client.del(...skipConfigKeys));
-    }
   }
 
   // ---------- 搜索历史 ----------
@@ -280,23 +414,393 @@ export class UpstashRedisStorage implements IStorage {
       .filter((u): u is string => typeof u === 'string');
   }
 
+  // ---------- 用户账户记录 ----------
+  private userInfoKey(user: string) {
+    return `u:${user}:info`;
+  }
+
+  private userOnlineKey(user: string) {
+    return `u:${user}:online`; // 在线时间单独存放，心跳更新不覆盖账户记录
+  }
+
+  private userRegistryKey() {
+    return 'users'; // 有序集合，score 为加入时间，用于分页
+  }
+
+  private async getUserRecordsByNames(
+    userNames: string[]
+  ): Promise<UserRecord[]> {
+    if (userNames.length === 0) return [];
+    const infos = await withRetry(() =>
+      this.client.mget<(UserRecord | null)[]>(
+        userNames.map((u) => this.userInfoKey(ensureString(u)))
+      )
+    );
+    const onlines = await withRetry(() =>
+      this.client.mget<(number | null)[]>(
+        userNames.map((u) => this.userOnlineKey(ensureString(u)))
+      )
+    );
+    const records: UserRecord[] = [];
+    infos.forEach((info, i) => {
+      if (!info) return;
+      records.push({
+        ...info,
+        username: ensureString(info.username),
+        ...(info.group !== undefined ? { group: ensureString(info.group) } : {}),
+        ...(onlines[i] ? { lastOnline: Number(onlines[i]) } : {}),
+      });
+    });
+    return records;
+  }
+
+  async getUserRecord(userName: string): Promise<UserRecord | null> {
+    const [record] = await this.getUserRecordsByNames([userName]);
+    return record ?? null;
+  }
+
+  async setUserRecord(record: UserRecord): Promise<void> {
+    const { lastOnline, ...info } = record;
+    await withRetry(() =>
+      this.client.set(this.userInfoKey(record.username), info)
+    );
+    if (lastOnline) {
+      await this.setUserLastOnline(record.username, lastOnline);
+    }
+    // NX：更新记录时保持原有排序位置
+    await withRetry(() =>
+      this.client.zadd(
+        this.userRegistryKey(),
+        { nx: true },
+        { score: record.created_at, member: record.username }
+      )
+    );
+  }
+
+  async deleteUserRecord(userName: string): Promise<void> {
+    await withRetry(() =>
+      this.client.del(this.userInfoKey(userName), this.userOnlineKey(userName))
+    );
+    await withRetry(() => this.client.zrem(this.userRegistryKey(), userName));
+  }
+
+  async listUserRecords(
+    offset: number,
+    limit: number
+  ): Promise<{ users: UserRecord[]; total: number }> {
+    const total = await withRetry(() =>
+      this.client.zcard(this.userRegistryKey())
+    );
+    const userNames = await withRetry(() =>
+      this.client.zrange<string[]>(
+        this.userRegistryKey(),
+        offset,
+        offset + limit - 1
+      )
+    );
+    return { users: await this.getUserRecordsByNames(userNames), total };
+  }
+
+  async setUserLastOnline(userName: string, lastOnline: number): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.userOnlineKey(userName), lastOnline)
+    );
+  }
+
+  // ---------- 登录会话 ----------
+  private sessionKey(sessionId: string) {
+    return `session:${sessionId}`;
+  }
+
+  private userSessionsKey(user: string) {
+    return `u:${user}:sessions`; // 用户的会话 ID 集合
+  }
+
+  async createSession(session: AuthSession): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.sessionKey(session.id), session, {
+        pxat: session.expires_at,
+      })
+    );
+    await withRetry(() =>
+      this.client.sadd(this.userSessionsKey(session.username), session.id)
+    );
+  }
+
+  async getSession(sessionId: string): Promise<AuthSession | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.sessionKey(sessionId))
+    );
+    return val ? (val as AuthSession) : null;
+  }
+
+  async touchSession(sessionId: string, lastSeen: number): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) return;
+    session.last_seen = lastSeen;
+    await withRetry(() =>
+      this.client.set(this.sessionKey(sessionId), session, {
+        pxat: session.expires_at,
+      })
+    );
+  }
+
+  async getUserSessions(userName: string): Promise<AuthSession[]> {
+    const ids = await withRetry(() =>
+      this.client.smembers(this.userSessionsKey(userName))
+    );
+    if (ids.length === 0) return [];
+    const values = await withRetry(() =>
+      this.client.mget<AuthSession[]>(ids.map((id) => this.sessionKey(id)))
+    );
+    const sessions: AuthSession[] = [];
+    const expiredIds: string[] = [];
+    ids.forEach((id, idx) => {
+      const value = values[idx];
+      if (value) {
+        sessions.push(value);
+      } else {
+        expiredIds.push(ensureString(id));
+      }
+    });
+    // 清理已过期的会话 ID
+    if (expiredIds.length > 0) {
+      await withRetry(() =>
+        this.client.srem(this.userSessionsKey(userName), ...expiredIds)
+      );
+    }
+    return sessions;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    await withRetry(() => this.client.del(this.sessionKey(sessionId)));
+    if (session) {
+      await withRetry(() =>
+        this.client.srem(this.userSessionsKey(session.username), sessionId)
+      );
+    }
+  }
+
+  async deleteUserSessions(userName: string): Promise<void> {
+    const ids = await withRetry(() =>
+      this.client.smembers(this.userSessionsKey(userName))
+    );
+    if (ids.length > 0) {
+      await withRetry(() =>
+        this.client.del(...ids.map((id) => this.sessionKey(id)))
+      );
+    }
+    await withRetry(() => this.client.del(this.userSessionsKey(userName)));
+  }
+
+  // ---------- 两步验证 ----------
+  private twoFactorKey(user: string) {
+    return `u:${user}:2fa`;
+  }
+
+  async getTwoFactor(userName: string): Promise<TwoFactorConfig | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.twoFactorKey(userName))
+    );
+    return val ? (val as TwoFactorConfig) : null;
+  }
+
+  async setTwoFactor(userName: string, config: TwoFactorConfig): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.twoFactorKey(userName), config)
+    );
+  }
+
+  async deleteTwoFactor(userName: string): Promise<void> {
+    await withRetry(() => this.client.del(this.twoFactorKey(userName)));
+  }
+
+  // ---------- API 令牌 ----------
+  private apiTokenKey(tokenHash: string) {
+    return `apitoken:${tokenHash}`;
+  }
+
+  private userApiTokensKey(user: string) {
+    return `u:${user}:apitokens`; // 用户的令牌哈希集合
+  }
+
+  private allApiTokensKey() {
+    return 'apitokens'; // 全部令牌哈希集合，供管理员审计
+  }
+
+  private async getApiTokensByHashes(hashes: string[]): Promise<ApiToken[]> {
+    if (hashes.length === 0) return [];
+    const values = await withRetry(() =>
+      this.client.mget<(ApiToken | null)[]>(
+        hashes.map((h) => this.apiTokenKey(ensureString(h)))
+      )
+    );
+    return values.filter((v): v is ApiToken => !!v);
+  }
+
+  async createApiToken(token: ApiToken): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.apiTokenKey(token.token_hash), token)
+    );
+    await withRetry(() =>
+      this.client.sadd(this.userApiTokensKey(token.username), token.token_hash)
+    );
+    await withRetry(() =>
+      this.client.sadd(this.allApiTokensKey(), token.token_hash)
+    );
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.apiTokenKey(tokenHash))
+    );
+    return val ? (val as ApiToken) : null;
+  }
+
+  async getUserApiTokens(userName: string): Promise<ApiToken[]> {
+    const hashes = await withRetry(() =>
+      this.client.smembers(this.userApiTokensKey(userName))
+    );
+    return this.getApiTokensByHashes(hashes);
+  }
+
+  async getAllApiTokens(): Promise<ApiToken[]> {
+    const hashes = await withRetry(() =>
+      this.client.smembers(this.allApiTokensKey())
+    );
+    return this.getApiTokensByHashes(hashes);
+  }
+
+  async touchApiToken(tokenHash: string, lastUsedAt: number): Promise<void> {
+    const token = await this.getApiTokenByHash(tokenHash);
+    if (!token) return;
+    token.last_used_at = lastUsedAt;
+    await withRetry(() => this.client.set(this.apiTokenKey(tokenHash), token));
+  }
+
+  async deleteApiToken(tokenHash: string): Promise<void> {
+    const token = await this.getApiTokenByHash(tokenHash);
+    await withRetry(() => this.client.del(this.apiTokenKey(tokenHash)));
+    if (token) {
+      await withRetry(() =>
+        this.client.srem(this.userApiTokensKey(token.username), tokenHash)
+      );
+    }
+    await withRetry(() => this.client.srem(this.allApiTokensKey(), tokenHash));
+  }
+
+  async deleteUserApiTokens(userName: string): Promise<void> {
+    const hashes = (
+      await withRetry(() =>
+        this.client.smembers(this.userApiTokensKey(userName))
+      )
+    ).map((h) => ensureString(h));
+    if (hashes.length > 0) {
+      await withRetry(() =>
+        this.client.del(...hashes.map((h) => this.apiTokenKey(h)))
+      );
+      await withRetry(() =>
+        this.client.srem(this.allApiTokensKey(), ...hashes)
+      );
+    }
+    await withRetry(() => this.client.del(this.userApiTokensKey(userName)));
+  }
+
+  // ---------- 登录失败计数 ----------
+  private loginAttemptKey(key: string) {
+    return `login:attempt:${key}`;
+  }
+
+  private loginLockedKey() {
+    return 'login:locked'; // 有序集合，score 为锁定截止时间
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.loginAttemptKey(key))
+    );
+    return val ? (val as LoginAttempt) : null;
+  }
+
+  async setLoginAttempt(attempt: LoginAttempt, ttlMs: number): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.loginAttemptKey(attempt.key), attempt, {
+        px: ttlMs,
+      })
+    );
+    if (attempt.locked_until > Date.now()) {
+      await withRetry(() =>
+        this.client.zadd(this.loginLockedKey(), {
+          score: attempt.locked_until,
+          member: attempt.key,
+        })
+      );
+    } else {
+      await withRetry(() =>
+        this.client.zrem(this.loginLockedKey(), attempt.key)
+      );
+    }
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    await withRetry(() => this.client.del(this.loginAttemptKey(key)));
+    await withRetry(() => this.client.zrem(this.loginLockedKey(), key));
+  }
+
+  async getLockedLoginAttempts(): Promise<LoginAttempt[]> {
+    const now = Date.now();
+    // 清理已过期的锁定
+    await withRetry(() =>
+      this.client.zremrangebyscore(this.loginLockedKey(), 0, now)
+    );
+    const keys = await withRetry(() =>
+      this.client.zrange<string[]>(this.loginLockedKey(), now, '+inf', {
+        byScore: true,
+      })
+    );
+    if (keys.length === 0) return [];
+    const values = await withRetry(() =>
+      this.client.mget<(LoginAttempt | null)[]>(
+        keys.map((k) => this.loginAttemptKey(k))
+      )
+    );
+    return values.filter((v): v is LoginAttempt => !!v);
+  }
+
   // ---------- 管理员配置 ----------
   private adminConfigKey() {
     return 'admin:config';
   }
 
+  private adminConfigVersionKey() {
+    return 'admin:config:version';
+  }
+
   async getAdminConfig(): Promise<AdminConfig | null> {
     const val = await withRetry(() => this.client.get(this.adminConfigKey()));
     return val ? (val as AdminConfig) : null;
   }
 
   async setAdminConfig(config: AdminConfig): Promise<void> {
-    await withRetry(() => this.client.set(this.adminConfigKey(), config));
+    const expected = config.Version ?? 0;
+    const next = { ...config, Version: expected + 1 };
+    const written = await withRetry(() =>
+      this.client.eval<string[], number>(
+        SET_ADMIN_CONFIG_SCRIPT,
+        [this.adminConfigKey(), this.adminConfigVersionKey()],
+        [String(expected), JSON.stringify(next), String(next.Version)]
+      )
+    );
+    if (written !== 1) {
+      throw new AdminConfigConflictError();
+    }
+    config.Version = next.Version;
   }
 
   // ---------- 跳过片头片尾配置 ----------
-  private skipConfigKey(user: string, source: string, id: string) {
-    return `u:${user}:skip:${source}+${id}`;
+  private skipHashKey(user: string) {
+    return `u:${user}:skipconfigs`; // field: source+id
   }
 
   async getSkipConfig(
@@ -304,8 +808,9 @@ export class UpstashRedisStorage implements IStorage {
     source: string,
     id: string
   ): Promise<SkipConfig | null> {
+    await this.ensureDataLayout();
     const val = await withRetry(() =>
-      this.client.get(this.skipConfigKey(userName, source, id))
+      this.client.hget(this.skipHashKey(userName), `${source}+${id}`)
     );
     return val ? (val as SkipConfig) : null;
   }
@@ -316,8 +821,11 @@ export class UpstashRedisStorage implements IStorage {
     id: string,
     config: SkipConfig
   ): Promise<void> {
+    await this.ensureDataLayout();
     await withRetry(() =>
-      this.client.set(this.skipConfigKey(userName, source, id), config)
+      this.client.hset(this.skipHashKey(userName), {
+        [`${source}+${id}`]: config,
+      })
     );
   }
 
@@ -326,57 +834,224 @@ export class UpstashRedisStorage implements IStorage {
     source: string,
     id: string
   ): Promise<void> {
+    await this.ensureDataLayout();
     await withRetry(() =>
-      this.client.del(this.skipConfigKey(userName, source, id))
+      this.client.hdel(this.skipHashKey(userName), `${source}+${id}`)
     );
   }
 
   async getAllSkipConfigs(
     userName: string
   ): Promise<{ [key: string]: SkipConfig }> {
-    const pattern = `u:${userName}:skip:*`;
-    const keys = await withRetry(() => this.client.keys(pattern));
+    await this.ensureDataLayout();
+    const values = await withRetry(() =>
+      this.client.hgetall<Record<string, SkipConfig>>(
+        this.skipHashKey(userName)
+      )
+    );
+    return { ...(values || {}) };
+  }
 
-    if (keys.length === 0) {
-      return {};
-    }
+  // 清空所有数据
+  async clearAllData(): Promise<void> {
+    await this.client.flushall();
+  }
 
-    const configs: { [key: string]: SkipConfig } = {};
+  // ---------- 数据备份 ----------
+  private backupMetaKey() {
+    return 'backups'; // field: 备份 ID
+  }
 
-    // 批量获取所有配置
-    const values = await withRetry(() => this.client.mget(keys));
+  private backupKey(id: string) {
+    return `backup:${id}`;
+  }
 
-    keys.forEach((key, index) => {
-      const value = values[index];
-      if (value) {
-        // 从key中提取source+id
-        const match = key.match(/^u:.+?:skip:(.+)$/);
-        if (match) {
-          const sourceAndId = match[1];
-          configs[sourceAndId] = value as SkipConfig;
-        }
-      }
-    });
+  async listBackups(): Promise<BackupMeta[]> {
+    const values = await withRetry(() =>
+      this.client.hgetall<Record<string, BackupMeta>>(this.backupMetaKey())
+    );
+    return Object.values(values || {}).sort(
+      (a, b) => b.created_at - a.created_at
+    );
+  }
 
-    return configs;
+  async getBackup(id: string): Promise<string | null> {
+    const val = await withRetry(() =>
+      this.client.get<string>(this.backupKey(id))
+    );
+    return val ? ensureString(val) : null;
   }
 
-  // 清空所有数据
-  async clearAllData(): Promise<void> {
-    const client = getUpstashRedisClient();
-    await client.flushall();
+  async saveBackup(meta: BackupMeta, content: string): Promise<void> {
+    await withRetry(() => this.client.set(this.backupKey(meta.id), content));
+    await withRetry(() =>
+      this.client.hset(this.backupMetaKey(), { [meta.id]: meta })
+    );
+  }
+
+  async deleteBackup(id: string): Promise<void> {
+    await withRetry(() => this.client.hdel(this.backupMetaKey(), id));
+    await withRetry(() => this.client.del(this.backupKey(id)));
+  }
+
+  // ---------- 配置历史 ----------
+  private configHistoryMetaKey() {
+    return 'admin:config:history'; // field: 配置版本号
+  }
+
+  private configHistoryKey(version: number) {
+    return `admin:config:history:${version}`;
+  }
+
+  async listConfigHistory(): Promise<ConfigHistoryMeta[]> {
+    const values = await withRetry(() =>
+      this.client.hgetall<Record<string, ConfigHistoryMeta>>(
+        this.configHistoryMetaKey()
+      )
+    );
+    return Object.values(values || {}).sort((a, b) => b.version - a.version);
+  }
+
+  async getConfigHistory(version: number): Promise<AdminConfig | null> {
+    const val = await withRetry(() =>
+      this.client.get(this.configHistoryKey(version))
+    );
+    return val ? (val as AdminConfig) : null;
+  }
+
+  async saveConfigHistory(
+    meta: ConfigHistoryMeta,
+    config: AdminConfig
+  ): Promise<void> {
+    await withRetry(() =>
+      this.client.set(this.configHistoryKey(meta.version), config)
+    );
+    await withRetry(() =>
+      this.client.hset(this.configHistoryMetaKey(), { [meta.version]: meta })
+    );
+  }
+
+  async deleteConfigHistory(version: number): Promise<void> {
+    await withRetry(() =>
+      this.client.hdel(this.configHistoryMetaKey(), String(version))
+    );
+    await withRetry(() => this.client.del(this.configHistoryKey(version)));
+  }
+
+  // ---------- 视频源健康检查 ----------
+  private sourceHealthKey(source: string) {
+    return `source:health:${source}`; // 列表，最新的探测结果在前
+  }
+
+  async addSourceHealthProbe(
+    probe: SourceHealthProbe,
+    keep: number
+  ): Promise<void> {
+    const key = this.sourceHealthKey(probe.source);
+    await withRetry(() => this.client.lpush(key, probe));
+    await withRetry(() => this.client.ltrim(key, 0, keep - 1));
+  }
+
+  async listSourceHealthProbes(
+    source: string,
+    limit: number
+  ): Promise<SourceHealthProbe[]> {
+    const values = await withRetry(() =>
+      this.client.lrange<SourceHealthProbe>(
+        this.sourceHealthKey(source),
+        0,
+        limit - 1
+      )
+    );
+    return values || [];
+  }
+
+  // ---------- 审计日志 ----------
+  private auditLogKey() {
+    return 'audit_log'; // 有序集合，score 为操作时间，member 为日志 JSON
+  }
+
+  async addAuditLog(entry: AuditLogEntry): Promise<void> {
+    await withRetry(() =>
+      this.client.zadd(this.auditLogKey(), {
+        score: entry.timestamp,
+        member: JSON.stringify(entry),
+      })
+    );
+  }
+
+  async listAuditLogs(
+    query: AuditLogQuery,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    // 日志量受保留期限约束，按时间范围取出后在内存中筛选
+    const values = await withRetry(() =>
+      this.client.zrange<(AuditLogEntry | string)[]>(
+        this.auditLogKey(),
+        query.since ?? '-inf',
+        query.until ?? '+inf',
+        { byScore: true }
+      )
+    );
+    const matched = values
+      .map((raw) =>
+        typeof raw === 'string' ? (JSON.parse(raw) as AuditLogEntry) : raw
+      )
+      .filter((entry) => matchesAuditLogQuery(entry, query))
+      .reverse();
+    return {
+      entries: matched.slice(offset, offset + limit),
+      total: matched.length,
+    };
+  }
+
+  async deleteAuditLogsBefore(before: number): Promise<void> {
+    await withRetry(() =>
+      this.client.zremrangebyscore(this.auditLogKey(), 0, before - 1)
+    );
+  }
+
+  // ---------- 结构版本 ----------
+  private schemaVersionKey() {
+    return 'schema:version';
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const val = await withRetry(() =>
+      this.client.get(this.schemaVersionKey())
+    );
+    return val ? Number(val) : 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await withRetry(() => this.client.set(this.schemaVersionKey(), version));
+  }
+
+  getMigrations(): SchemaMigration[] {
+    return [
+      {
+        version: 1,
+        name: 'user_data_hashes',
+        up: () => this.ensureDataLayout(),
+      },
+    ];
   }
 }
 
-// 单例 Upstash Redis 客户端
-function getUpstashRedisClient(): Redis {
-  const globalKey = Symbol.for('__MOONTV_UPSTASH_REDIS_CLIENT__');
+// 单例 Upstash Redis 客户端，按连接地址分别缓存
+function getUpstashRedisClient(
+  upstashUrl = process.env.UPSTASH_URL,
+  upstashToken = process.env.UPSTASH_TOKEN
+): Redis {
+  const globalKey = Symbol.for(
+    upstashUrl === process.env.UPSTASH_URL
+      ? '__MOONTV_UPSTASH_REDIS_CLIENT__'
+      : `__MOONTV_UPSTASH_REDIS_CLIENT__:${upstashUrl}`
+  );
   let client: Redis | undefined = (global as any)[globalKey];
 
   if (!client) {
-    const upstashUrl = process.env.UPSTASH_URL;
-    const upstashToken = process.env.UPSTASH_TOKEN;
-
     if (!upstashUrl || !upstashToken) {
       throw new Error(
         'UPSTASH_URL and UPSTASH_TOKEN env variables must be set'
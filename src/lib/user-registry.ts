@@ -0,0 +1,169 @@
+/* eslint-disable no-console */
+
+import { AdminConfig } from './admin.types';
+import { getStorage } from './db';
+import { UserRecord } from './types';
+
+// 分页读取用户列表时的单页上限
+export const MAX_USER_PAGE_SIZE = 100;
+
+/**
+ * 站长由 USERNAME 环境变量确定，存储中的 owner 角色仅对当前站长有效
+ */
+function normalizeRole(record: UserRecord): UserRecord {
+  if (record.username === process.env.USERNAME) {
+    return { ...record, role: 'owner' };
+  }
+  if (record.role === 'owner') {
+    return { ...record, role: 'user' };
+  }
+  return record;
+}
+
+/**
+ * 获取用户账户记录；站长没有记录时返回默认记录，本地存储模式返回 null
+ */
+export async function getUserRecord(
+  username: string
+): Promise<UserRecord | null> {
+  const storage = getStorage();
+  if (!storage || !username) return null;
+
+  const record = await storage.getUserRecord(username);
+  if (record) return normalizeRole(record);
+  if (username === process.env.USERNAME) {
+    return { username, role: 'owner', created_at: 0 };
+  }
+  return null;
+}
+
+/**
+ * 用户是否已被封禁
+ */
+export async function isUserBanned(username: string): Promise<boolean> {
+  const record = await getUserRecord(username);
+  return !!record?.banned;
+}
+
+/**
+ * 写入用户账户记录
+ */
+export async function saveUserRecord(record: UserRecord): Promise<void> {
+  await getStorage().setUserRecord(record);
+}
+
+/**
+ * 为新用户创建账户记录
+ */
+export async function createUserRecord(
+  username: string,
+  fields: Partial<Omit<UserRecord, 'username' | 'created_at'>> = {}
+): Promise<UserRecord> {
+  const record: UserRecord = {
+    username,
+    role: 'user',
+    ...fields,
+    created_at: Date.now(),
+  };
+  await saveUserRecord(record);
+  return record;
+}
+
+/**
+ * 分页获取用户列表，按加入时间升序
+ */
+export async function listUserRecords(
+  offset: number,
+  limit: number
+): Promise<{ users: UserRecord[]; total: number }> {
+  const { users, total } = await getStorage().listUserRecords(
+    offset,
+    Math.min(limit, MAX_USER_PAGE_SIZE)
+  );
+  return { users: users.map(normalizeRole), total };
+}
+
+/**
+ * 逐页遍历全部用户（用于分组重命名、删除等批量操作）
+ */
+export async function forEachUserRecord(
+  callback: (record: UserRecord) => Promise<void>
+): Promise<void> {
+  let offset = 0;
+  for (;;) {
+    const { users, total } = await listUserRecords(offset, MAX_USER_PAGE_SIZE);
+    for (const record of users) {
+      await callback(record);
+    }
+    offset += MAX_USER_PAGE_SIZE;
+    if (users.length === 0 || offset >= total) break;
+  }
+}
+
+/**
+ * 刷新用户最近在线时间
+ */
+export async function touchUserOnline(
+  username: string,
+  lastOnline = Date.now()
+): Promise<void> {
+  await getStorage().setUserLastOnline(username, lastOnline);
+}
+
+/**
+ * 为已注册但没有账户记录的用户（及站长）补全记录
+ */
+export async function ensureUserRecords(userNames: string[]): Promise<void> {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const ownerUser = process.env.USERNAME;
+  const names = ownerUser ? [ownerUser, ...userNames] : userNames;
+  const now = Date.now();
+  for (const username of Array.from(new Set(names))) {
+    if (await storage.getUserRecord(username)) continue;
+    await storage.setUserRecord({
+      username,
+      role: username === ownerUser ? 'owner' : 'user',
+      // 站长固定排在列表首位
+      created_at: username === ownerUser ? 0 : now,
+    });
+  }
+}
+
+/**
+ * 将旧版 AdminConfig.UserConfig.Users 中的用户迁移到账户记录存储
+ * 已存在的记录不会被覆盖；迁移后从配置中移除 Users，调用方负责写回配置
+ * @returns 配置中是否存在需要迁移的旧版用户列表
+ */
+export async function migrateLegacyUsers(
+  config: AdminConfig
+): Promise<boolean> {
+  const legacyUsers = config.UserConfig?.Users;
+  if (!Array.isArray(legacyUsers)) return false;
+
+  const storage = getStorage();
+  const ownerUser = process.env.USERNAME;
+  const now = Date.now();
+  for (let index = 0; index < legacyUsers.length; index++) {
+    const user = legacyUsers[index];
+    if (!user?.username || (await storage.getUserRecord(user.username))) {
+      continue;
+    }
+    await storage.setUserRecord({
+      username: user.username,
+      role: user.role,
+      ...(user.banned ? { banned: true } : {}),
+      ...(user.pending ? { pending: true } : {}),
+      ...(user.group ? { group: user.group } : {}),
+      ...(user.lastOnline ? { lastOnline: user.lastOnline } : {}),
+      // 保持旧列表中的顺序，站长固定排在首位
+      created_at:
+        user.username === ownerUser ? 0 : now - legacyUsers.length + index,
+    });
+  }
+
+  delete config.UserConfig.Users;
+  console.log(`已迁移 ${legacyUsers.length} 个用户到账户记录存储`);
+  return true;
+}
@@ -2,6 +2,8 @@
 import he from 'he';
 import Hls from 'hls.js';
 
+import { SearchResult } from './types';
+
 function getDoubanImageProxyConfig(): {
   proxyType:
     | 'direct'
@@ -255,3 +257,35 @@ export function getRequestTimeout(): number {
   
   return 30; // 默认30秒
 }
+
+/**
+ * 切换到指定名称的播放线路，返回 episodes 与 episodes_titles 替换为该线路的结果
+ * 未指定名称、线路不存在或已在使用该线路时返回原对象
+ */
+export function applyPlayLine(
+  result: SearchResult,
+  name?: string | null
+): SearchResult {
+  const line = name
+    ? result.play_lines?.find((l) => l.name === name)
+    : undefined;
+  if (!line || line.episodes === result.episodes) return result;
+  return {
+    ...result,
+    episodes: line.episodes,
+    episodes_titles: line.episodes_titles,
+  };
+}
+
+/**
+ * 当前使用的播放线路名，只有一条线路时返回 undefined
+ */
+export function getActivePlayLine(
+  result: SearchResult | null
+): string | undefined {
+  return result?.play_lines?.find(
+    (line) =>
+      line.episodes.length === result.episodes.length &&
+      line.episodes.every((url, i) => url === result.episodes[i])
+  )?.name;
+}
@@ -2,7 +2,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { getAuthInfoFromCookie } from '@/lib/auth';
+import {
+  allowsApiToken,
+  getRequestApiToken,
+  parseAuthCookie,
+} from '@/lib/auth';
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -21,7 +25,16 @@ export async function middleware(request: NextRequest) {
   }
 
   // 从cookie获取认证信息
-  const authInfo = getAuthInfoFromCookie(request);
+  const authInfo = parseAuthCookie(request);
+
+  // 无登录 cookie 时，部分接口允许使用个人 API 令牌访问，令牌同样经存储校验后放行
+  const apiToken =
+    !authInfo && storageType !== 'localstorage' && allowsApiToken(pathname)
+      ? getRequestApiToken(request)
+      : null;
+  if (apiToken) {
+    return verifyWithStorage(request, pathname, apiToken);
+  }
 
   if (!authInfo) {
     return handleAuthFailure(request, pathname);
@@ -35,28 +48,67 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // 其他模式：只验证签名
+  // 其他模式：先验证签名，再对照存储校验会话
   // 检查是否有用户名（非localStorage模式下密码不存储在cookie中）
-  if (!authInfo.username || !authInfo.signature) {
+  if (!authInfo.username || !authInfo.signature || !authInfo.sessionId) {
     return handleAuthFailure(request, pathname);
   }
 
-  // 验证签名（如果存在）
-  if (authInfo.signature) {
-    const isValidSignature = await verifySignature(
-      authInfo.username,
-      authInfo.signature,
-      process.env.PASSWORD || ''
-    );
+  const isValidSignature = await verifySignature(
+    authInfo.username,
+    authInfo.signature,
+    process.env.PASSWORD || ''
+  );
+  if (!isValidSignature) {
+    return handleAuthFailure(request, pathname);
+  }
 
-    // 签名验证通过即可
-    if (isValidSignature) {
-      return NextResponse.next();
-    }
+  return verifyWithStorage(request, pathname);
+}
+
+/**
+ * 对照存储校验会话或 API 令牌，登出、封禁、改密后被吊销的会话不再放行；
+ * /api/admin 路由同时按 ADMIN_ROUTE_POLICIES 校验角色，未通过时不会进入处理函数
+ * middleware 运行在 Edge 运行时、不直接访问存储，转交 /api/auth/verify 校验
+ */
+async function verifyWithStorage(
+  request: NextRequest,
+  pathname: string,
+  apiToken?: string
+): Promise<NextResponse> {
+  const headers = new Headers({
+    'x-auth-path': pathname,
+    'x-auth-method': request.method,
+  });
+  const cookie = request.headers.get('cookie');
+  if (cookie) {
+    headers.set('cookie', cookie);
+  }
+  if (apiToken) {
+    headers.set('authorization', `Bearer ${apiToken}`);
   }
 
-  // 签名验证失败或不存在签名
-  return handleAuthFailure(request, pathname);
+  let response: Response;
+  try {
+    response = await fetch(new URL('/api/auth/verify', request.url), {
+      headers,
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('校验登录状态失败:', error);
+    return new NextResponse('Service Unavailable', { status: 503 });
+  }
+
+  if (response.ok) {
+    return NextResponse.next();
+  }
+  if (response.status === 401 && !pathname.startsWith('/api')) {
+    return handleAuthFailure(request, pathname);
+  }
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
 }
 
 // 验证签名
@@ -133,6 +185,6 @@ function shouldSkipAuth(pathname: string): boolean {
 // 配置middleware匹配规则
 export const config = {
   matcher: [
-    '/((?!_next/static|_next/image|favicon.ico|login|warning|api/login|api/register|api/logout|api/cron|api/server-config|api/tvbox/config|api/tvbox/categories|api/douban/recommends|api/admin/tvbox).*)',
+    '/((?!_next/static|_next/image|favicon.ico|login|warning|api/login|api/register|api/logout|api/auth/verify|api/cron|api/server-config|api/tvbox/config|api/tvbox/categories|api/douban/recommends).*)',
   ],
 };